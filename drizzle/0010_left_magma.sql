@@ -0,0 +1,14 @@
+CREATE TABLE "road_segments" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "road_segments_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"osm_id" bigint,
+	"highway" varchar(50) NOT NULL,
+	"source" integer,
+	"target" integer,
+	"cost" double precision NOT NULL,
+	"reverse_cost" double precision NOT NULL,
+	"geometry" geometry(LineString, 4326) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_road_segments_geometry" ON "road_segments" USING gist ("geometry" gist_geometry_ops_2d);--> statement-breakpoint
+CREATE INDEX "idx_road_segments_source" ON "road_segments" USING btree ("source" int4_ops);--> statement-breakpoint
+CREATE INDEX "idx_road_segments_target" ON "road_segments" USING btree ("target" int4_ops);
\ No newline at end of file
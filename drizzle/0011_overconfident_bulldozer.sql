@@ -0,0 +1,25 @@
+CREATE TABLE "user_sessions" (
+	"id" varchar(64) PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"user_agent" text,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "users_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"email" varchar(255) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"password_hash" text,
+	"auth_provider" varchar(50) DEFAULT 'local' NOT NULL,
+	"provider_subject" varchar(255),
+	"is_active" varchar(5) DEFAULT 'true' NOT NULL,
+	"last_login_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_email_unique" UNIQUE("email"),
+	CONSTRAINT "users_provider_subject_unique" UNIQUE("auth_provider","provider_subject")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_user_sessions_user_id" ON "user_sessions" USING btree ("user_id" int4_ops);--> statement-breakpoint
+CREATE INDEX "idx_user_sessions_expires_at" ON "user_sessions" USING btree ("expires_at" timestamp_ops);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "area_members" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "area_members_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"area_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" varchar(20) DEFAULT 'viewer' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "area_members_area_user_unique" UNIQUE("area_id","user_id")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_area_members_user_id" ON "area_members" USING btree ("user_id" int4_ops);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "postal_code_metrics" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "postal_code_metrics_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"code" varchar(10) NOT NULL,
+	"granularity" varchar(20) NOT NULL,
+	"metric" varchar(100) NOT NULL,
+	"value" double precision NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "postal_code_metrics_granularity_code_metric_unique" UNIQUE("granularity","code","metric")
+);
+--> statement-breakpoint
+CREATE INDEX "idx_postal_code_metrics_granularity_metric" ON "postal_code_metrics" USING btree ("granularity" text_ops,"metric" text_ops);
\ No newline at end of file
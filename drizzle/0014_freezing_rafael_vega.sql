@@ -0,0 +1 @@
+ALTER TABLE "areas" ADD COLUMN "conflict_policy" varchar(20) DEFAULT 'allow' NOT NULL;
\ No newline at end of file
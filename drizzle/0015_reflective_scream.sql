@@ -0,0 +1,2 @@
+ALTER TABLE "area_layers" ADD COLUMN "parent_layer_id" integer;--> statement-breakpoint
+CREATE INDEX "idx_area_layers_parent" ON "area_layers" USING btree ("parent_layer_id" int4_ops);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "areas" ADD COLUMN "is_template" varchar(5) DEFAULT 'false' NOT NULL;
\ No newline at end of file
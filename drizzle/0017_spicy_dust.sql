@@ -0,0 +1,24 @@
+CREATE TABLE "layer_people" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "layer_people_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"layer_id" integer NOT NULL,
+	"person_id" integer NOT NULL,
+	"role" varchar(20) DEFAULT 'primary' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "layer_people_layer_id_person_id_unique" UNIQUE("layer_id","person_id")
+);
+--> statement-breakpoint
+CREATE TABLE "people" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "people_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"name" varchar(255) NOT NULL,
+	"email" varchar(255),
+	"phone" varchar(50),
+	"address" text,
+	"location" geometry(Point, 4326),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_layer_people_layer_id" ON "layer_people" USING btree ("layer_id" int4_ops);--> statement-breakpoint
+CREATE INDEX "idx_layer_people_person_id" ON "layer_people" USING btree ("person_id" int4_ops);--> statement-breakpoint
+CREATE INDEX "idx_people_name" ON "people" USING btree ("name" text_ops);--> statement-breakpoint
+CREATE INDEX "idx_people_location" ON "people" USING gist ("location" gist_geometry_ops_2d);
\ No newline at end of file
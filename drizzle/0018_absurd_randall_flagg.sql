@@ -0,0 +1,20 @@
+CREATE TABLE "data_points" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "data_points_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"dataset_id" integer NOT NULL,
+	"name" varchar(255),
+	"address" text,
+	"location" geometry(Point, 4326) NOT NULL,
+	"properties" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "point_datasets" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "point_datasets_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"name" varchar(255) NOT NULL,
+	"color" varchar(20) DEFAULT '#0f172a' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_data_points_dataset_id" ON "data_points" USING btree ("dataset_id" int4_ops);--> statement-breakpoint
+CREATE INDEX "idx_data_points_location" ON "data_points" USING gist ("location" gist_geometry_ops_2d);
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "geocode_job_items" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "geocode_job_items_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"job_id" integer NOT NULL,
+	"name" varchar(255),
+	"address" text NOT NULL,
+	"properties" jsonb,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "geocode_jobs" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "geocode_jobs_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"dataset_id" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"total" integer NOT NULL,
+	"processed" integer DEFAULT 0 NOT NULL,
+	"failed" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_geocode_job_items_job_status" ON "geocode_job_items" USING btree ("job_id" int4_ops,"status" text_ops);--> statement-breakpoint
+CREATE INDEX "idx_geocode_jobs_status" ON "geocode_jobs" USING btree ("status" text_ops);
\ No newline at end of file
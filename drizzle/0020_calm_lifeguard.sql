@@ -0,0 +1,3 @@
+ALTER TABLE "area_changes" ADD COLUMN "group_id" varchar(36);--> statement-breakpoint
+ALTER TABLE "area_changes" ADD COLUMN "group_label" varchar(255);--> statement-breakpoint
+CREATE INDEX "idx_area_changes_group_id" ON "area_changes" USING btree ("group_id" text_ops);
\ No newline at end of file
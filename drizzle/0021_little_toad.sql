@@ -0,0 +1,20 @@
+CREATE TABLE "area_version_policies" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "area_version_policies_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"area_id" integer NOT NULL,
+	"enabled" varchar(5) DEFAULT 'true' NOT NULL,
+	"after_changes" integer,
+	"inactivity_minutes" integer,
+	"daily_at" varchar(5),
+	"keep_auto_saves" integer,
+	"keep_days" integer,
+	"retention_mode" varchar(10) DEFAULT 'squash' NOT NULL,
+	"last_auto_save_at" timestamp,
+	"updated_by" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "area_version_policies_area_id_unique" UNIQUE("area_id")
+);
+--> statement-breakpoint
+ALTER TABLE "area_versions" ADD COLUMN "is_auto_save" varchar(5) DEFAULT 'false' NOT NULL;--> statement-breakpoint
+-- Versions written by autoSaveVersionAction before the flag existed
+UPDATE "area_versions" SET "is_auto_save" = 'true' WHERE "name" LIKE 'Auto-save %';
@@ -0,0 +1,21 @@
+-- Areas from before sharing have no members. Make whoever recorded their first
+-- change the owner, falling back to the oldest account. Areas stay memberless
+-- only when no account exists yet; getAreaRole makes admins their owners.
+INSERT INTO "area_members" ("area_id", "user_id", "role")
+SELECT
+	a."id",
+	COALESCE(
+		(
+			SELECT u."id"
+			FROM "area_changes" c
+			JOIN "users" u ON u."email" = c."created_by"
+			WHERE c."area_id" = a."id"
+			ORDER BY c."created_at"
+			LIMIT 1
+		),
+		(SELECT u."id" FROM "users" u ORDER BY u."id" LIMIT 1)
+	),
+	'owner'
+FROM "areas" a
+WHERE NOT EXISTS (SELECT 1 FROM "area_members" m WHERE m."area_id" = a."id")
+	AND EXISTS (SELECT 1 FROM "users");
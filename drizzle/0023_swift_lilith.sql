@@ -0,0 +1,2 @@
+ALTER TABLE "point_datasets" ADD COLUMN "area_id" integer;--> statement-breakpoint
+CREATE INDEX "idx_point_datasets_area_id" ON "point_datasets" USING btree ("area_id" int4_ops);
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { db } from "../src/lib/db";
+import { sql } from "drizzle-orm";
+import { ROAD_SPEEDS_KMH } from "../src/lib/routing/road-speeds";
+
+// Builds the routable road_segments graph from an OSM extract loaded with
+// osm2pgsql (default schema: planet_osm_line, geometry column "way" in 3857).
+// Ways are split into vertex-to-vertex segments so that junctions, which are
+// shared OSM nodes, become graph vertices. Use a regional extract.
+async function buildRoadNetwork() {
+  try {
+    console.log("Building road network from planet_osm_line...");
+
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pgrouting`);
+
+    await db.execute(sql`TRUNCATE road_segments RESTART IDENTITY`);
+
+    const speeds = sql.join(
+      Object.entries(ROAD_SPEEDS_KMH).map(
+        ([highway, speed]) => sql`(${highway}, ${speed}::double precision)`
+      ),
+      sql`, `
+    );
+
+    await db.execute(sql`
+      WITH speeds(highway, kmh) AS (VALUES ${speeds}),
+      segments AS (
+        SELECT
+          l.osm_id,
+          l.highway,
+          s.kmh,
+          COALESCE(l.oneway, CASE WHEN l.highway = 'motorway' THEN 'yes' END) AS oneway,
+          (ST_DumpSegments(ST_Transform(l.way, 4326))).geom AS geom
+        FROM planet_osm_line l
+        JOIN speeds s ON s.highway = l.highway
+      )
+      INSERT INTO road_segments (osm_id, highway, cost, reverse_cost, geometry)
+      SELECT
+        osm_id,
+        highway,
+        CASE WHEN oneway = '-1' THEN -1
+          ELSE ST_Length(geom::geography) / (kmh / 3.6) END,
+        CASE WHEN oneway IN ('yes', 'true', '1') THEN -1
+          ELSE ST_Length(geom::geography) / (kmh / 3.6) END,
+        geom
+      FROM segments
+    `);
+    console.log("✓ Imported road segments");
+
+    await db.execute(
+      sql`SELECT pgr_createTopology('road_segments', 0.0000001, 'geometry', 'id')`
+    );
+    console.log("✓ Assigned source/target vertices");
+
+    await db.execute(sql`ANALYZE road_segments`);
+
+    console.log("\n✅ Road network ready!");
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Error building road network:", error);
+    process.exit(1);
+  }
+}
+
+buildRoadNetwork();
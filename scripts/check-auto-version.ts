@@ -0,0 +1,99 @@
+import { and, eq } from "drizzle-orm";
+
+import { db } from "../src/lib/db";
+import {
+  countPendingChanges,
+  createAreaVersion,
+} from "../src/lib/db/area-versions";
+import { autoVersionJob } from "../src/lib/jobs/auto-version";
+import {
+  areaChanges,
+  areaUndoStacks,
+  areaVersionPolicies,
+  areaVersions,
+  areas,
+} from "../src/lib/schema/schema";
+
+/**
+ * Checks that a configured auto-version policy actually creates a version.
+ * Sets up a scratch area with one change the way the app records it, runs
+ * the auto-version job once and removes the scratch area again. The job
+ * also handles every other area that is due, as it would in the app.
+ *
+ * Usage: bun --conditions=react-server scripts/check-auto-version.ts
+ */
+async function checkAutoVersion() {
+  const [area] = await db
+    .insert(areas)
+    .values({ name: "Auto-version check", granularity: "5digit" })
+    .returning();
+
+  try {
+    const first = await createAreaVersion(
+      area.id,
+      { name: "Erstversion" },
+      null
+    );
+
+    await db.insert(areaVersionPolicies).values({
+      areaId: area.id,
+      afterChanges: 1,
+      inactivityMinutes: null,
+      dailyAt: null,
+      keepAutoSaves: null,
+      keepDays: null,
+    });
+
+    // recordChangeAction attaches changes to the current version
+    await db.insert(areaChanges).values({
+      areaId: area.id,
+      changeType: "update_area",
+      entityType: "area",
+      entityId: area.id,
+      changeData: { name: area.name },
+      versionAreaId: first.areaId,
+      versionNumber: first.versionNumber,
+    });
+
+    const before = await countPendingChanges(area.id);
+    if (before.count !== 1) {
+      throw new Error(`Expected 1 pending change, found ${before.count}`);
+    }
+
+    await autoVersionJob.run();
+
+    const saved = await db.query.areaVersions.findFirst({
+      where: and(
+        eq(areaVersions.areaId, area.id),
+        eq(areaVersions.isAutoSave, "true")
+      ),
+    });
+    if (!saved) {
+      throw new Error("The policy did not create a version");
+    }
+
+    const after = await countPendingChanges(area.id);
+    if (after.count !== 0) {
+      throw new Error(`Expected no pending changes, found ${after.count}`);
+    }
+
+    console.log(`✅ Policy saved version ${saved.versionNumber}`);
+  } finally {
+    await db.transaction(async (tx) => {
+      await tx.delete(areaChanges).where(eq(areaChanges.areaId, area.id));
+      await tx.delete(areaUndoStacks).where(eq(areaUndoStacks.areaId, area.id));
+      await tx
+        .delete(areaVersionPolicies)
+        .where(eq(areaVersionPolicies.areaId, area.id));
+      await tx.delete(areaVersions).where(eq(areaVersions.areaId, area.id));
+      await tx.delete(areas).where(eq(areas.id, area.id));
+    });
+  }
+}
+
+checkAutoVersion()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Error:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,39 @@
+import { db } from "../src/lib/db";
+import { users } from "../src/lib/schema/schema";
+import { hashPassword } from "../src/lib/auth/password";
+
+/**
+ * Creates a local user account.
+ *
+ * Usage: bun scripts/create-user.ts <email> <name> <password>
+ */
+async function createUser() {
+  const [email, name, password] = process.argv.slice(2);
+
+  if (!email || !name || !password) {
+    console.error("Usage: bun scripts/create-user.ts <email> <name> <password>");
+    process.exit(1);
+  }
+
+  try {
+    console.log(`Creating user ${email}...`);
+
+    const [user] = await db
+      .insert(users)
+      .values({
+        email: email.trim().toLowerCase(),
+        name,
+        passwordHash: await hashPassword(password),
+        authProvider: "local",
+      })
+      .returning();
+
+    console.log(`\n✅ Created user #${user.id} (${user.email})`);
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Error creating user:", error);
+    process.exit(1);
+  }
+}
+
+createUser();
@@ -0,0 +1,17 @@
+import type { Metadata } from "next";
+import { TelemetryView } from "@/components/telemetry/telemetry-view";
+import { LoadingSkeleton } from "@/components/ui/loading-skeleton";
+import { Suspense } from "react";
+
+export const metadata: Metadata = {
+  title: "KRAUSS Gebietsmanagement - Telemetrie",
+  description: "Fehler und Ladezeiten der Anwendung",
+};
+
+export default function TelemetryPage() {
+  return (
+    <Suspense fallback={<LoadingSkeleton className="h-full w-full" />}>
+      <TelemetryView />
+    </Suspense>
+  );
+}
@@ -0,0 +1,21 @@
+import type { Metadata } from "next";
+import { AuditLogView } from "@/components/audit/audit-log-view";
+import { LoadingSkeleton } from "@/components/ui/loading-skeleton";
+import { Suspense } from "react";
+
+export const metadata: Metadata = {
+  title: "KRAUSS Gebietsmanagement - Audit-Log",
+  description: "Alle Änderungen an Gebieten, Layern und PLZ",
+};
+
+interface AuditPageProps {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
+
+export default async function AuditPage({ searchParams }: AuditPageProps) {
+  return (
+    <Suspense fallback={<LoadingSkeleton className="h-full w-full" />}>
+      <AuditLogView searchParams={searchParams} />
+    </Suspense>
+  );
+}
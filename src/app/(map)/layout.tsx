@@ -1,4 +1,5 @@
 import { AppSidebar } from "@/components/app-sidebar";
+import { TelemetryReporter } from "@/components/shared/telemetry-reporter";
 import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 import { SidebarSkeleton } from "@/components/ui/loading-skeleton";
 import { FeatureErrorBoundary } from "@/components/ui/error-boundaries";
@@ -33,6 +34,7 @@ export default async function MapLayout({
           </div>
         </SidebarInset>
       </SidebarProvider>
+      <TelemetryReporter />
     </FeatureErrorBoundary>
   );
 }
@@ -1,11 +1,11 @@
-import { PostalCodesOverview } from "@/components/postal-codes/postal-codes-overview";
+import { AreasDashboard } from "@/components/areas/areas-dashboard";
 import { HomePageSkeleton } from "@/components/ui/loading-skeletons";
 import { Suspense } from "react";
 
 export default async function HomePage() {
   return (
     <Suspense fallback={<HomePageSkeleton />}>
-      <PostalCodesOverview />
+      <AreasDashboard />
     </Suspense>
   );
 }
@@ -1,6 +1,19 @@
 "use client";
 import { ErrorMessage } from "@/components/ui/error-message";
+import { reportError } from "@/lib/telemetry/reporter";
+import { useEffect } from "react";
+
+export default function Error({
+  error,
+}: {
+  error: Error & { digest?: string };
+}) {
+  useEffect(() => {
+    reportError(error, "boundary", {
+      boundary: "route:postal-codes",
+      digest: error.digest,
+    });
+  }, [error]);
 
-export default function Error() {
   return <ErrorMessage message="Fehler beim Laden der Postleitzahlen-Daten." />;
 }
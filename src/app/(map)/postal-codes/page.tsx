@@ -1,5 +1,5 @@
 import type { Metadata } from "next";
-import { PostalCodesOverview } from "@/components/postal-codes/postal-codes-overview";
+import { AreasDashboard } from "@/components/areas/areas-dashboard";
 
 export async function generateMetadata(): Promise<Metadata> {
   return {
@@ -14,5 +14,5 @@ export async function generateMetadata(): Promise<Metadata> {
 }
 
 export default async function PostalCodesPage() {
-  return <PostalCodesOverview />;
+  return <AreasDashboard />;
 }
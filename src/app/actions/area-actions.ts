@@ -2,10 +2,17 @@
 
 import { db } from "../../lib/db";
 
+import { requireUser } from "../../lib/auth/session";
+import { addAreaOwner, requireAreaRole } from "../../lib/auth/permissions";
+
 import {
   areas,
   areaLayers,
   areaLayerPostalCodes,
+  areaMembers,
+  areaVersionPolicies,
+  layerPeople,
+  pointDatasets,
   postalCodes,
 } from "../../lib/schema/schema";
 
@@ -14,44 +21,59 @@ import { eq, and, inArray, sql } from "drizzle-orm";
 import { updateTag, revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 
-import { recordChangeAction } from "./change-tracking-actions";
+import {
+  applyConflictPolicy,
+  PostalCodeConflictError,
+} from "../../lib/db/postal-code-conflicts";
 
-import { createVersionAction } from "./version-actions";
+import { copyAreaLayers, removeAreaContents } from "../../lib/db/area-copy";
 
-import type { FeatureCollection, Geometry } from "geojson";
-import type { Route } from "next";
+import {
+  assertLeafLayer,
+  assertValidParentLayer,
+  detachChildLayers,
+  LayerHierarchyError,
+} from "../../lib/db/layer-hierarchy";
 
-type ServerActionResponse<T = void> = Promise<{
-  success: boolean;
+import { replaceLayerPeople } from "../../lib/db/layer-people";
 
-  data?: T;
+import { deletePointDatasets } from "../../lib/db/point-datasets";
 
-  error?: string;
-}>;
+import { geocodeAddress, searchAddresses } from "../../lib/geocoding";
+
+import {
+  createChangeGroup,
+  type ChangeGroupRef,
+} from "../../lib/utils/change-groups";
 
-interface Result {
-  place_id: string;
+import type {
+  ConflictPolicy,
+  MovedPostalCodes,
+} from "../../lib/utils/conflict-policy";
 
-  display_name: string;
+import { recordChangeAction } from "./change-tracking-actions";
 
-  lon: string;
+import { createVersionAction } from "./version-actions";
 
-  lat: string;
+import { getIsochroneBands, getRoutingBackend } from "../../lib/routing";
 
-  address: {
-    postcode: string;
+import { geomFromGeoJSONExpr } from "../../db/geoTypes";
 
-    city: string;
+import type { LayerMergeStrategy } from "../../lib/types/area-types";
 
-    town: string;
+import type { FeatureCollection, Geometry } from "geojson";
+import type { Route } from "next";
+
+type ServerActionResponse<T = void> = Promise<{
+  success: boolean;
 
-    village: string;
+  data?: T;
 
-    state: string;
+  error?: string;
+}>;
 
-    country: string;
-  };
-}
+// Isochrones beyond this get too large to compute interactively
+const MAX_DRIVING_DURATION_MINUTES = 180;
 
 // ===============================
 
@@ -65,12 +87,30 @@ export async function createAreaAction(data: {
 
   granularity?: string;
 
-  createdBy?: string;
+  // Start with a copy of this template's layers
+
+  templateId?: number;
 }) {
   let redirectPath: string | null = null;
 
   try {
-    // Create the area first
+    const user = await requireUser();
+
+    let template: typeof areas.$inferSelect | undefined;
+
+    if (data.templateId) {
+      await requireAreaRole(data.templateId, "viewer", { allowArchived: true });
+
+      template = await db.query.areas.findFirst({
+        where: and(eq(areas.id, data.templateId), eq(areas.isTemplate, "true")),
+      });
+
+      if (!template) {
+        throw new Error("Vorlage nicht gefunden");
+      }
+    }
+
+    // Create the area first; a template fixes the granularity of its layers
 
     const [area] = await db
 
@@ -79,26 +119,40 @@ export async function createAreaAction(data: {
       .values({
         name: data.name,
 
-        description: data.description,
+        description: data.description || template?.description,
 
-        granularity: data.granularity || "5digit",
+        granularity: template?.granularity ?? (data.granularity || "5digit"),
+
+        conflictPolicy: template?.conflictPolicy,
       })
 
       .returning();
 
+    if (template) {
+      const templateId = template.id;
+
+      await db.transaction((tx) => copyAreaLayers(tx, templateId, area.id));
+    }
+
+    // The creator owns the area; this also lets them create its first version
+
+    await addAreaOwner(area.id, user.id);
+
     // Create the first version automatically
 
     const versionResult = await createVersionAction(area.id, {
       name: "Erstversion",
 
       description: "Automatically created first version",
-
-      createdBy: data.createdBy,
     });
 
     if (!versionResult.success) {
       // If version creation fails, we should clean up the area
 
+      await db.transaction((tx) => removeAreaContents(tx, area.id));
+
+      await db.delete(areaMembers).where(eq(areaMembers.areaId, area.id));
+
       await db.delete(areas).where(eq(areas.id, area.id));
 
       throw new Error("Erstversion konnte nicht erstellt werden");
@@ -138,11 +192,13 @@ export async function updateAreaAction(
     description?: string;
 
     granularity?: string;
-  },
 
-  createdBy?: string
+    conflictPolicy?: ConflictPolicy;
+  }
 ): ServerActionResponse {
   try {
+    await requireAreaRole(id, "editor");
+
     // Get previous state
 
     const previousArea = await db.query.areas.findFirst({
@@ -179,10 +235,10 @@ export async function updateAreaAction(
             description: previousArea.description,
 
             granularity: previousArea.granularity,
+
+            conflictPolicy: previousArea.conflictPolicy,
           }
         : undefined,
-
-      createdBy,
     });
 
     updateTag("areas");
@@ -207,6 +263,8 @@ export async function deleteAreaAction(id: number) {
   let redirectPath: string | null = null;
 
   try {
+    await requireAreaRole(id, "owner", { allowArchived: true });
+
     // Delete in correct order due to foreign key constraints
 
     await db.transaction(async (tx) => {
@@ -229,11 +287,40 @@ export async function deleteAreaAction(id: number) {
           )
         );
 
+        await tx.delete(layerPeople).where(
+          inArray(
+            layerPeople.layerId,
+
+            areaLayerIds.map((l) => l.id)
+          )
+        );
+
         // Then delete the layers
 
         await tx.delete(areaLayers).where(eq(areaLayers.areaId, id));
       }
 
+      // Point datasets were imported into this area only
+
+      const datasets = await tx
+
+        .select({ id: pointDatasets.id })
+
+        .from(pointDatasets)
+
+        .where(eq(pointDatasets.areaId, id));
+
+      await deletePointDatasets(
+        tx,
+        datasets.map((d) => d.id)
+      );
+
+      await tx.delete(areaMembers).where(eq(areaMembers.areaId, id));
+
+      await tx
+        .delete(areaVersionPolicies)
+        .where(eq(areaVersionPolicies.areaId, id));
+
       // Finally delete the area
 
       await tx.delete(areas).where(eq(areas.id, id));
@@ -241,6 +328,8 @@ export async function deleteAreaAction(id: number) {
 
     updateTag("areas");
 
+    updateTag("data-points");
+
     revalidatePath("/postal-codes", "layout");
 
     // Set redirect path for finally block
@@ -257,6 +346,55 @@ export async function deleteAreaAction(id: number) {
   }
 }
 
+/**
+ * Archive an area: it leaves the main sidebar list and becomes read-only,
+ * but keeps all layers and versions so it can be restored later.
+ */
+export async function archiveAreaAction(id: number): ServerActionResponse {
+  return setAreaArchived(id, true);
+}
+
+export async function unarchiveAreaAction(id: number): ServerActionResponse {
+  return setAreaArchived(id, false);
+}
+
+async function setAreaArchived(
+  id: number,
+
+  archived: boolean
+): ServerActionResponse {
+  try {
+    await requireAreaRole(id, "owner", { allowArchived: true });
+
+    await db
+
+      .update(areas)
+
+      .set({
+        isArchived: archived ? "true" : "false",
+
+        updatedAt: new Date().toISOString(),
+      })
+
+      .where(eq(areas.id, id));
+
+    updateTag("areas");
+
+    updateTag(`area-${id}`);
+
+    revalidatePath("/postal-codes", "layout");
+    return { success: true };
+  } catch (error) {
+    console.error(`Error ${archived ? "archiving" : "restoring"} area:`, error);
+
+    return {
+      success: false,
+
+      error: archived ? "Failed to archive area" : "Failed to restore area",
+    };
+  }
+}
+
 // ===============================
 
 // LAYER OPERATIONS
@@ -276,11 +414,11 @@ export async function createLayerAction(
     isVisible: boolean;
 
     orderIndex: number;
-  },
-
-  createdBy?: string
+  }
 ): ServerActionResponse<{ id: number }> {
   try {
+    await requireAreaRole(areaId, "editor");
+
     const [layer] = await db
 
       .insert(areaLayers)
@@ -325,8 +463,6 @@ export async function createLayerAction(
           orderIndex: data.orderIndex,
         },
       },
-
-      createdBy,
     });
 
     updateTag("layers");
@@ -364,21 +500,37 @@ export async function updateLayerAction(
 
     orderIndex?: number;
 
+    // null moves the layer to the top level of the hierarchy
+
+    parentLayerId?: number | null;
+
     postalCodes?: string[];
   },
 
-  createdBy?: string
+  group?: ChangeGroupRef
 ): ServerActionResponse {
   try {
+    await requireAreaRole(areaId, "editor");
+
     // Get previous state
 
     const previousLayer = await db.query.areaLayers.findFirst({
-      where: eq(areaLayers.id, layerId),
+      where: and(eq(areaLayers.id, layerId), eq(areaLayers.areaId, areaId)),
 
       with: { postalCodes: true },
     });
 
+    if (!previousLayer) {
+      return { success: false, error: "Layer not found" };
+    }
+
+    let movedFrom: MovedPostalCodes[] = [];
+
     await db.transaction(async (tx) => {
+      if (data.parentLayerId !== undefined) {
+        await assertValidParentLayer(tx, areaId, layerId, data.parentLayerId);
+      }
+
       // Update layer properties
 
       if (
@@ -386,7 +538,8 @@ export async function updateLayerAction(
         data.color !== undefined ||
         data.opacity !== undefined ||
         data.isVisible !== undefined ||
-        data.orderIndex !== undefined
+        data.orderIndex !== undefined ||
+        data.parentLayerId !== undefined
       ) {
         await tx
 
@@ -406,14 +559,40 @@ export async function updateLayerAction(
             ...(data.orderIndex !== undefined && {
               orderIndex: data.orderIndex,
             }),
+
+            ...(data.parentLayerId !== undefined && {
+              parentLayerId: data.parentLayerId,
+            }),
           })
 
-          .where(eq(areaLayers.id, layerId));
+          .where(
+            and(eq(areaLayers.id, layerId), eq(areaLayers.areaId, areaId))
+          );
       }
 
       // Update postal codes if provided
 
       if (data.postalCodes !== undefined) {
+        if (data.postalCodes.length > 0) {
+          await assertLeafLayer(tx, layerId);
+        }
+
+        // Codes new to this layer are subject to the area's conflict policy
+
+        const previousCodes = new Set(
+          previousLayer?.postalCodes?.map((pc) => pc.postalCode) || []
+        );
+
+        movedFrom = await applyConflictPolicy(
+          tx,
+
+          areaId,
+
+          layerId,
+
+          data.postalCodes.filter((code) => !previousCodes.has(code))
+        );
+
         // Delete existing postal codes
 
         await tx
@@ -472,6 +651,12 @@ export async function updateLayerAction(
       previousData.orderIndex = previousLayer?.orderIndex;
     }
 
+    if (data.parentLayerId !== undefined) {
+      changeData.parentLayerId = data.parentLayerId;
+
+      previousData.parentLayerId = previousLayer?.parentLayerId ?? null;
+    }
+
     if (data.postalCodes !== undefined) {
       changeData.postalCodes = data.postalCodes;
 
@@ -479,6 +664,10 @@ export async function updateLayerAction(
         previousLayer?.postalCodes?.map((pc) => pc.postalCode) || [];
     }
 
+    if (movedFrom.length > 0) {
+      changeData.movedFrom = movedFrom;
+    }
+
     await recordChangeAction(areaId, {
       changeType: "update_layer",
 
@@ -490,7 +679,7 @@ export async function updateLayerAction(
 
       previousData,
 
-      createdBy,
+      group,
     });
 
     updateTag("layers");
@@ -508,6 +697,13 @@ export async function updateLayerAction(
     revalidatePath("/postal-codes", "layout");
     return { success: true };
   } catch (error) {
+    if (
+      error instanceof PostalCodeConflictError ||
+      error instanceof LayerHierarchyError
+    ) {
+      return { success: false, error: error.message };
+    }
+
     console.error("Error updating layer:", error);
 
     return { success: false, error: "Failed to update layer" };
@@ -519,16 +715,20 @@ export async function deleteLayerAction(
 
   layerId: number,
 
-  createdBy?: string
+  group?: ChangeGroupRef
 ): ServerActionResponse {
   try {
+    await requireAreaRole(areaId, "editor");
+
     // Get layer data before deletion
 
     const layer = await db.query.areaLayers.findFirst({
-      where: eq(areaLayers.id, layerId),
+      where: and(eq(areaLayers.id, layerId), eq(areaLayers.areaId, areaId)),
 
       with: {
         postalCodes: true,
+
+        people: { columns: { personId: true, role: true } },
       },
     });
 
@@ -536,8 +736,20 @@ export async function deleteLayerAction(
       return { success: false, error: "Layer not found" };
     }
 
-    await db.transaction(async (tx) => {
-      // Delete postal codes first
+    const childLayerIds = await db.transaction(async (tx) => {
+      // Children move up to the deleted layer's parent
+
+      const childIds = await detachChildLayers(
+        tx,
+
+        layerId,
+
+        layer.parentLayerId
+      );
+
+      // Delete postal codes and people first
+
+      await replaceLayerPeople(tx, layerId, []);
 
       await tx
 
@@ -547,7 +759,13 @@ export async function deleteLayerAction(
 
       // Delete layer
 
-      await tx.delete(areaLayers).where(eq(areaLayers.id, layerId));
+      await tx
+        .delete(areaLayers)
+        .where(
+          and(eq(areaLayers.id, layerId), eq(areaLayers.areaId, areaId))
+        );
+
+      return childIds;
     });
 
     // Record change
@@ -576,12 +794,18 @@ export async function deleteLayerAction(
           isVisible: layer.isVisible,
 
           orderIndex: layer.orderIndex,
+
+          parentLayerId: layer.parentLayerId,
         },
 
         postalCodes: layer.postalCodes?.map((pc) => pc.postalCode) || [],
+
+        ...(layer.people.length > 0 && { people: layer.people }),
+
+        ...(childLayerIds.length > 0 && { childLayerIds }),
       },
 
-      createdBy,
+      group,
     });
 
     updateTag("layers");
@@ -605,16 +829,228 @@ export async function deleteLayerAction(
   }
 }
 
+/**
+ * Merge layers into a target layer in one transaction. The sources are
+ * deleted before the target is written, so their codes never count as
+ * conflicts; all changes form one undo step.
+ */
+
+export async function mergeLayersAction(
+  areaId: number,
+
+  sourceLayerIds: number[],
+
+  targetLayerId: number,
+
+  mergeStrategy: LayerMergeStrategy = "union"
+): ServerActionResponse<{ postalCodes: string[] }> {
+  try {
+    await requireAreaRole(areaId, "editor");
+
+    const sourceIds = sourceLayerIds.filter((id) => id !== targetLayerId);
+
+    if (sourceIds.length === 0) {
+      return { success: false, error: "No source layers found" };
+    }
+
+    const [targetLayer, sourceLayers] = await Promise.all([
+      db.query.areaLayers.findFirst({
+        where: and(
+          eq(areaLayers.id, targetLayerId),
+          eq(areaLayers.areaId, areaId)
+        ),
+
+        with: { postalCodes: true },
+      }),
+
+      db.query.areaLayers.findMany({
+        where: and(
+          inArray(areaLayers.id, sourceIds),
+          eq(areaLayers.areaId, areaId)
+        ),
+
+        with: {
+          postalCodes: true,
+
+          people: { columns: { personId: true, role: true } },
+        },
+      }),
+    ]);
+
+    if (!targetLayer) {
+      return { success: false, error: "Target layer not found" };
+    }
+
+    if (sourceLayers.length !== sourceIds.length) {
+      return { success: false, error: "Source layer not found" };
+    }
+
+    const targetCodes = targetLayer.postalCodes.map((pc) => pc.postalCode);
+
+    const sourceCodes = sourceLayers.flatMap((layer) =>
+      layer.postalCodes.map((pc) => pc.postalCode)
+    );
+
+    const mergedCodes =
+      mergeStrategy === "keep-target"
+        ? targetCodes
+        : mergeStrategy === "keep-source"
+          ? [...new Set(sourceCodes)]
+          : [...new Set([...targetCodes, ...sourceCodes])];
+
+    const { childLayerIds, movedFrom } = await db.transaction(async (tx) => {
+      const children = new Map<number, number[]>();
+
+      for (const layer of sourceLayers) {
+        children.set(
+          layer.id,
+          await detachChildLayers(tx, layer.id, layer.parentLayerId)
+        );
+
+        await replaceLayerPeople(tx, layer.id, []);
+
+        await tx
+          .delete(areaLayerPostalCodes)
+          .where(eq(areaLayerPostalCodes.layerId, layer.id));
+
+        await tx.delete(areaLayers).where(eq(areaLayers.id, layer.id));
+      }
+
+      if (mergedCodes.length > 0) {
+        await assertLeafLayer(tx, targetLayerId);
+      }
+
+      const previousCodes = new Set(targetCodes);
+
+      const moved = await applyConflictPolicy(
+        tx,
+
+        areaId,
+
+        targetLayerId,
+
+        mergedCodes.filter((code) => !previousCodes.has(code))
+      );
+
+      await tx
+        .delete(areaLayerPostalCodes)
+        .where(eq(areaLayerPostalCodes.layerId, targetLayerId));
+
+      if (mergedCodes.length > 0) {
+        await tx.insert(areaLayerPostalCodes).values(
+          mergedCodes.map((code) => ({
+            layerId: targetLayerId,
+
+            postalCode: code,
+          }))
+        );
+      }
+
+      return { childLayerIds: children, movedFrom: moved };
+    });
+
+    // Undo runs in reverse: the target is reset first, then the sources return
+
+    const group = createChangeGroup(
+      `Zusammenführung in "${targetLayer.name}" (${sourceLayers.length + 1} Layer)`
+    );
+
+    for (const layer of sourceLayers) {
+      const children = childLayerIds.get(layer.id) ?? [];
+
+      await recordChangeAction(areaId, {
+        changeType: "delete_layer",
+
+        entityType: "layer",
+
+        entityId: layer.id,
+
+        changeData: {},
+
+        previousData: {
+          layer: {
+            id: layer.id,
+
+            areaId: layer.areaId,
+
+            name: layer.name,
+
+            color: layer.color,
+
+            opacity: layer.opacity,
+
+            isVisible: layer.isVisible,
+
+            orderIndex: layer.orderIndex,
+
+            parentLayerId: layer.parentLayerId,
+          },
+
+          postalCodes: layer.postalCodes.map((pc) => pc.postalCode),
+
+          ...(layer.people.length > 0 && { people: layer.people }),
+
+          ...(children.length > 0 && { childLayerIds: children }),
+        },
+
+        group,
+      });
+    }
+
+    await recordChangeAction(areaId, {
+      changeType: "update_layer",
+
+      entityType: "layer",
+
+      entityId: targetLayerId,
+
+      changeData: {
+        postalCodes: mergedCodes,
+
+        ...(movedFrom.length > 0 && { movedFrom }),
+      },
+
+      previousData: { postalCodes: targetCodes },
+
+      group,
+    });
+
+    updateTag("layers");
+
+    updateTag(`area-${areaId}-layers`);
+
+    updateTag(`area-${areaId}`);
+
+    updateTag("undo-redo");
+
+    updateTag(`area-${areaId}-undo-redo`);
+
+    revalidatePath("/postal-codes", "layout");
+    return { success: true, data: { postalCodes: mergedCodes } };
+  } catch (error) {
+    if (
+      error instanceof PostalCodeConflictError ||
+      error instanceof LayerHierarchyError
+    ) {
+      return { success: false, error: error.message };
+    }
+
+    console.error("Error merging layers:", error);
+
+    return { success: false, error: "Failed to merge layers" };
+  }
+}
+
 export async function addPostalCodesToLayerAction(
   areaId: number,
 
   layerId: number,
 
-  postalCodes: string[],
-
-  createdBy?: string
+  postalCodes: string[]
 ): ServerActionResponse {
   try {
+    await requireAreaRole(areaId, "editor");
+
     // Validate inputs
 
     if (!areaId || !layerId || !postalCodes || postalCodes.length === 0) {
@@ -649,13 +1085,21 @@ export async function addPostalCodesToLayerAction(
       return { success: true }; // No new codes to add
     }
 
-    await db.insert(areaLayerPostalCodes).values(
-      newCodes.map((code) => ({
-        layerId,
+    const movedFrom = await db.transaction(async (tx) => {
+      await assertLeafLayer(tx, layerId);
 
-        postalCode: code,
-      }))
-    );
+      const moved = await applyConflictPolicy(tx, areaId, layerId, newCodes);
+
+      await tx.insert(areaLayerPostalCodes).values(
+        newCodes.map((code) => ({
+          layerId,
+
+          postalCode: code,
+        }))
+      );
+
+      return moved;
+    });
 
     // Record change
 
@@ -670,13 +1114,13 @@ export async function addPostalCodesToLayerAction(
         postalCodes: newCodes,
 
         layerId,
+
+        ...(movedFrom.length > 0 && { movedFrom }),
       },
 
       previousData: {
         postalCodes: existingCodes,
       },
-
-      createdBy,
     });
 
     updateTag("layers");
@@ -694,6 +1138,13 @@ export async function addPostalCodesToLayerAction(
     revalidatePath("/postal-codes", "layout");
     return { success: true };
   } catch (error) {
+    if (
+      error instanceof PostalCodeConflictError ||
+      error instanceof LayerHierarchyError
+    ) {
+      return { success: false, error: error.message };
+    }
+
     console.error("Error adding postal codes to layer:", error);
 
     return { success: false, error: "Failed to add postal codes to layer" };
@@ -705,11 +1156,11 @@ export async function removePostalCodesFromLayerAction(
 
   layerId: number,
 
-  postalCodes: string[],
-
-  createdBy?: string
+  postalCodes: string[]
 ): ServerActionResponse {
   try {
+    await requireAreaRole(areaId, "editor");
+
     // Validate inputs
 
     if (!areaId || !layerId || !postalCodes || postalCodes.length === 0) {
@@ -772,8 +1223,6 @@ export async function removePostalCodesFromLayerAction(
       previousData: {
         postalCodes: codesToRemove, // Store removed codes for undo
       },
-
-      createdBy,
     });
 
     updateTag("layers");
@@ -972,40 +1421,33 @@ export async function radiusSearchAction(data: {
   }
 }
 
-export async function drivingRadiusSearchAction(data: {
-  latitude: number;
+// Selection on the map matches a region by its point on surface, so a shape
+// only picks regions that lie mostly inside it. The ST_Intersects prefilter
+// lets PostGIS use the geometry index.
 
-  longitude: number;
-
-  maxDuration: number;
+export async function selectPostalCodesInPolygonAction(data: {
+  polygon: [number, number][];
 
   granularity: string;
 }): ServerActionResponse<{ postalCodes: string[] }> {
   try {
-    const { latitude, longitude, maxDuration, granularity } = data;
-
-    // For simplicity, we'll use a basic approximation method
+    const { polygon, granularity } = data;
 
-    // In a full implementation, you'd want to integrate the OSRM logic here
+    if (polygon.length < 3) {
+      return { success: false, error: "Polygon needs at least 3 points" };
+    }
 
-    const radiusKm = (maxDuration / 60) * 50; // Rough approximation: 50 km/h average speed
+    const ring = [...polygon, polygon[0]];
 
-    // Get postal codes within the approximated radius
+    const shape = geomFromGeoJSONExpr({ type: "Polygon", coordinates: [ring] });
 
     const { rows } = await db.execute(
       sql`
         SELECT code
         FROM postal_codes
         WHERE granularity = ${granularity}
-        AND ST_DWithin(
-          ST_Transform(geometry, 3857),
-          ST_Transform(ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326), 3857),
-          ${radiusKm * 1000}
-        )
-        ORDER BY ST_Distance(
-          ST_Transform(geometry, 3857),
-          ST_Transform(ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326), 3857)
-        )
+        AND ST_Intersects(geometry, ${shape})
+        AND ST_Contains(${shape}, ST_PointOnSurface(geometry))
       `
     );
 
@@ -1013,71 +1455,195 @@ export async function drivingRadiusSearchAction(data: {
       String((row as { code: string }).code)
     );
 
+    return { success: true, data: { postalCodes } };
+  } catch (error) {
+    console.error("Error in polygon selection:", error);
+
+    return { success: false, error: "Polygon selection failed" };
+  }
+}
+
+export async function selectPostalCodesInCircleAction(data: {
+  latitude: number;
+
+  longitude: number;
+
+  radiusMeters: number;
+
+  granularity: string;
+}): ServerActionResponse<{ postalCodes: string[] }> {
+  try {
+    const { latitude, longitude, radiusMeters, granularity } = data;
 
+    const center = sql`ST_SetSRID(
+      ST_MakePoint(${longitude}, ${latitude}),
+      4326
+    )::geography`;
+
+    const { rows } = await db.execute(
+      sql`
+        SELECT code
+        FROM postal_codes
+        WHERE granularity = ${granularity}
+        AND ST_Intersects(geometry, ST_Buffer(${center}, ${radiusMeters})::geometry)
+        AND ST_DWithin(ST_PointOnSurface(geometry)::geography, ${center}, ${radiusMeters})
+      `
+    );
+
+    const postalCodes = rows.map((row) =>
+      String((row as { code: string }).code)
+    );
 
     return { success: true, data: { postalCodes } };
   } catch (error) {
-    console.error("Error in driving radius search:", error);
+    console.error("Error in circle selection:", error);
 
-    return { success: false, error: "Driving radius search failed" };
+    return { success: false, error: "Circle selection failed" };
   }
 }
 
-export async function geocodeAction(address: string): ServerActionResponse<{
+export async function findPostalCodeAtPointAction(data: {
   latitude: number;
 
   longitude: number;
 
-  postalCode?: string;
+  granularity: string;
+}): ServerActionResponse<{ postalCode: string | null }> {
+  try {
+    const { latitude, longitude, granularity } = data;
+
+    const { rows } = await db.execute(
+      sql`
+        SELECT code
+        FROM postal_codes
+        WHERE granularity = ${granularity}
+        AND ST_Contains(geometry, ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326))
+        LIMIT 1
+      `
+    );
+
+    const row = rows[0] as { code: string } | undefined;
+
+    return {
+      success: true,
+
+      data: { postalCode: row ? String(row.code) : null },
+    };
+  } catch (error) {
+    console.error("Error in postal code lookup:", error);
+
+    return { success: false, error: "Postal code lookup failed" };
+  }
+}
+
+export async function drivingRadiusSearchAction(data: {
+  latitude: number;
+
+  longitude: number;
+
+  maxDuration: number;
+
+  granularity: string;
+}): ServerActionResponse<{
+  postalCodes: string[];
+
+  travelTimes: Record<string, number>;
 }> {
   try {
-    // Use Nominatim for geocoding
+    const { latitude, longitude, maxDuration, granularity } = data;
 
-    const nominatimUrl =
-      `https://nominatim.openstreetmap.org/search?` +
-      new URLSearchParams({
-        format: "json",
+    if (!(maxDuration > 0) || maxDuration > MAX_DRIVING_DURATION_MINUTES) {
+      return {
+        success: false,
 
-        q: address,
+        error: `Driving duration must be between 1 and ${MAX_DRIVING_DURATION_MINUTES} minutes`,
+      };
+    }
 
-        addressdetails: "1",
+    // Compute nested drive-time polygons; each postal code is assigned the
+    // smallest band it intersects, which serves as its travel time
 
-        limit: "1",
+    const isochrones = await getRoutingBackend().getIsochrones({
+      longitude,
 
-        countrycodes: "de",
+      latitude,
 
-        "accept-language": "de,en",
-      });
+      maxMinutes: maxDuration,
 
-    const response = await fetch(nominatimUrl, {
-      headers: {
-        "User-Agent": "KRAUSS Territory Management/1.0",
-      },
+      bands: getIsochroneBands(maxDuration),
     });
 
-    if (!response.ok) {
-      throw new Error("Geocoding service unavailable");
+    if (isochrones.length === 0) {
+      return { success: true, data: { postalCodes: [], travelTimes: {} } };
     }
 
-    const results = await response.json();
+    const bands = sql.join(
+      isochrones.map(
+        (isochrone) =>
+          sql`(${isochrone.minutes}::int, ${geomFromGeoJSONExpr(isochrone.geometry)})`
+      ),
 
-    if (results.length === 0) {
-      throw new Error("No results found for address");
-    }
+      sql`, `
+    );
+
+    const { rows } = await db.execute(
+      sql`
+        WITH bands(minutes, geom) AS (VALUES ${bands})
+        SELECT p.code, MIN(b.minutes) AS minutes
+        FROM postal_codes p
+        JOIN bands b ON ST_Intersects(p.geometry, b.geom)
+        WHERE p.granularity = ${granularity}
+        GROUP BY p.code
+        ORDER BY MIN(b.minutes),
+          MIN(ST_Distance(
+            p.geometry::geography,
+            ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)::geography
+          ))
+      `
+    );
+
+    const travelTimes: Record<string, number> = {};
 
-    const result = results[0];
+    const postalCodes = rows.map((row) => {
+      const { code, minutes } = row as { code: string; minutes: number };
 
+      travelTimes[String(code)] = Number(minutes);
+
+      return String(code);
+    });
+
+    return { success: true, data: { postalCodes, travelTimes } };
+  } catch (error) {
+    console.error("Error in driving radius search:", error);
+
+    return { success: false, error: "Driving radius search failed" };
+  }
+}
+
+export async function geocodeAction(address: string): ServerActionResponse<{
+  latitude: number;
+
+  longitude: number;
+
+  postalCode?: string;
+}> {
+  try {
+    const result = await geocodeAddress(address);
+
+    if (!result) {
+      throw new Error("No results found for address");
+    }
 
     revalidatePath("/postal-codes", "layout");
     return {
       success: true,
 
       data: {
-        latitude: parseFloat(result.lat),
+        latitude: result.latitude,
 
-        longitude: parseFloat(result.lon),
+        longitude: result.longitude,
 
-        postalCode: result.address?.postcode,
+        postalCode: result.postalCode,
       },
     };
   } catch (error) {
@@ -1131,63 +1697,28 @@ export async function geocodeSearchAction(data: {
       limit = 5,
     } = data;
 
-    // For now, use simple Nominatim search
-
     // TODO: Implement enhanced search with multiple variants
 
-    const nominatimUrl =
-      `https://nominatim.openstreetmap.org/search?` +
-      new URLSearchParams({
-        format: "json",
-
-        q: query,
-
-        addressdetails: "1",
-
-        limit: limit.toString(),
+    const results = (await searchAddresses(query, limit)).map((result) => ({
+      id: result.id,
 
-        countrycodes: "de",
+      display_name: result.displayName,
 
-        "accept-language": "de,en",
-      });
-
-    const response = await fetch(nominatimUrl, {
-      headers: {
-        "User-Agent": "KRAUSS Territory Management/1.0",
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error("Geocoding service unavailable");
-    }
-
-    const nominatimResults = await response.json();
-
-    const results = nominatimResults.map((result: Result) => ({
-      id: result.place_id,
-
-      display_name: result.display_name,
-
-      coordinates: [parseFloat(result.lon), parseFloat(result.lat)] as [
-        number,
-
-        number
-      ],
+      coordinates: [result.longitude, result.latitude] as [number, number],
 
-      postal_code: result.address?.postcode,
+      postal_code: result.postalCode,
 
-      city:
-        result.address?.city || result.address?.town || result.address?.village,
+      city: result.city,
 
-      state: result.address?.state,
+      state: result.state,
 
-      country: result.address?.country,
+      country: result.country,
     }));
 
     // Filter results if postal code is required
 
     const filteredResults = includePostalCode
-      ? results.filter((result: { postal_code: string }) => result.postal_code)
+      ? results.filter((result) => result.postal_code)
       : results;
 
 
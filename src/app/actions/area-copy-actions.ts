@@ -0,0 +1,154 @@
+"use server";
+
+import { db } from "../../lib/db";
+import { requireUser } from "../../lib/auth/session";
+import {
+  addAreaOwner,
+  isAdmin,
+  requireAreaRole,
+} from "../../lib/auth/permissions";
+import { areaMembers, areas } from "../../lib/schema/schema";
+import {
+  copyAreaLayers,
+  copyAreaVersions,
+  removeAreaContents,
+} from "../../lib/db/area-copy";
+import { getAreaTemplates } from "../../lib/db/data-functions";
+import type { AreaWithRole } from "../../lib/types/area-types";
+import { eq } from "drizzle-orm";
+import { revalidatePath, updateTag } from "next/cache";
+import { redirect } from "next/navigation";
+import type { Route } from "next";
+import { createVersionAction } from "./version-actions";
+
+type ServerActionResponse<T = void> = Promise<{
+  success: boolean;
+  data?: T;
+  error?: string;
+}>;
+
+/**
+ * Copy an area with all layers and postal codes, e.g. to start next year's
+ * plan from this year's. The copy starts with a clean undo stack and an
+ * initial version; the version history is only copied on request.
+ */
+export async function duplicateAreaAction(
+  sourceAreaId: number,
+  data: { name: string; includeVersions?: boolean }
+) {
+  let redirectPath: string | null = null;
+
+  try {
+    const user = await requireUser();
+    await requireAreaRole(sourceAreaId, "viewer", { allowArchived: true });
+
+    const source = await db.query.areas.findFirst({
+      where: eq(areas.id, sourceAreaId),
+    });
+
+    if (!source) {
+      return { success: false, error: "Area not found" };
+    }
+
+    const area = await db.transaction(async (tx) => {
+      const [copy] = await tx
+        .insert(areas)
+        .values({
+          name: data.name,
+          description: source.description,
+          granularity: source.granularity,
+          conflictPolicy: source.conflictPolicy,
+        })
+        .returning();
+
+      await copyAreaLayers(tx, sourceAreaId, copy.id);
+
+      if (data.includeVersions) {
+        await copyAreaVersions(tx, sourceAreaId, copy.id);
+
+        // The initial version continues the copied history
+        await tx
+          .update(areas)
+          .set({ currentVersionNumber: source.currentVersionNumber })
+          .where(eq(areas.id, copy.id));
+      }
+
+      return copy;
+    });
+
+    await addAreaOwner(area.id, user.id);
+
+    const versionResult = await createVersionAction(area.id, {
+      name: "Erstversion",
+      description: `Kopie von ${source.name}`,
+    });
+
+    if (!versionResult.success) {
+      await db.transaction(async (tx) => {
+        await removeAreaContents(tx, area.id);
+        await tx.delete(areaMembers).where(eq(areaMembers.areaId, area.id));
+        await tx.delete(areas).where(eq(areas.id, area.id));
+      });
+
+      throw new Error("Erstversion konnte nicht erstellt werden");
+    }
+
+    updateTag("areas");
+    updateTag(`area-${area.id}`);
+    updateTag("undo-redo");
+    updateTag(`area-${area.id}-undo-redo`);
+    revalidatePath("/postal-codes", "layout");
+
+    redirectPath = `/postal-codes/${area.id}`;
+  } catch (error) {
+    console.error("Error duplicating area:", error);
+    return { success: false, error: "Failed to duplicate area" };
+  } finally {
+    if (redirectPath) {
+      redirect(redirectPath as Route);
+    }
+  }
+}
+
+/**
+ * Mark an area as template, offered as starting point in the create dialog
+ */
+export async function setAreaTemplateAction(
+  areaId: number,
+  isTemplate: boolean
+): ServerActionResponse {
+  try {
+    await requireAreaRole(areaId, "owner", { allowArchived: true });
+
+    await db
+      .update(areas)
+      .set({
+        isTemplate: isTemplate ? "true" : "false",
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(areas.id, areaId));
+
+    updateTag("areas");
+    updateTag(`area-${areaId}`);
+    revalidatePath("/postal-codes", "layout");
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating area template flag:", error);
+    return { success: false, error: "Failed to update template" };
+  }
+}
+
+/**
+ * Templates visible to the current user, archived areas included
+ */
+export async function getAreaTemplatesAction(): ServerActionResponse<
+  AreaWithRole[]
+> {
+  try {
+    const user = await requireUser();
+    return { success: true, data: await getAreaTemplates(user.id, isAdmin(user)) };
+  } catch (error) {
+    console.error("Error fetching area templates:", error);
+    return { success: false, error: "Failed to fetch templates" };
+  }
+}
@@ -0,0 +1,145 @@
+"use server";
+
+import { db } from "../../lib/db";
+import { requireAreaRole } from "../../lib/auth/permissions";
+import { type AreaRole, isAreaRole } from "../../lib/auth/roles";
+import { areaMembers, users } from "../../lib/schema/schema";
+import { and, eq } from "drizzle-orm";
+import { revalidatePath, updateTag } from "next/cache";
+
+type ServerActionResponse<T = void> = Promise<{
+  success: boolean;
+  data?: T;
+  error?: string;
+}>;
+
+export interface AreaMember {
+  userId: number;
+  email: string;
+  name: string;
+  role: AreaRole;
+}
+
+function invalidateMembers(areaId: number) {
+  updateTag("areas");
+  updateTag(`area-${areaId}`);
+  updateTag(`area-${areaId}-members`);
+  revalidatePath("/postal-codes", "layout");
+}
+
+export async function getAreaMembersAction(
+  areaId: number
+): ServerActionResponse<AreaMember[]> {
+  try {
+    await requireAreaRole(areaId, "viewer");
+
+    const members = await db
+      .select({
+        userId: areaMembers.userId,
+        email: users.email,
+        name: users.name,
+        role: areaMembers.role,
+      })
+      .from(areaMembers)
+      .innerJoin(users, eq(users.id, areaMembers.userId))
+      .where(eq(areaMembers.areaId, areaId))
+      .orderBy(users.name);
+
+    return {
+      success: true,
+      data: members.filter((m): m is AreaMember => isAreaRole(m.role)),
+    };
+  } catch (error) {
+    console.error("Error fetching area members:", error);
+    return { success: false, error: "Failed to fetch area members" };
+  }
+}
+
+/**
+ * Grant a user (looked up by email) a role on an area, or change their role.
+ */
+export async function setAreaMemberAction(
+  areaId: number,
+  email: string,
+  role: AreaRole
+): ServerActionResponse {
+  try {
+    await requireAreaRole(areaId, "owner", { allowArchived: true });
+
+    if (!isAreaRole(role)) {
+      return { success: false, error: "Invalid role" };
+    }
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.email, email.trim().toLowerCase()),
+    });
+
+    if (!user) {
+      return { success: false, error: "User not found" };
+    }
+
+    await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ userId: areaMembers.userId, role: areaMembers.role })
+        .from(areaMembers)
+        .where(eq(areaMembers.areaId, areaId));
+
+      const owners = existing.filter((m) => m.role === "owner");
+      if (
+        role !== "owner" &&
+        owners.length === 1 &&
+        owners[0].userId === user.id
+      ) {
+        throw new Error("Cannot demote the last owner");
+      }
+
+      await tx
+        .insert(areaMembers)
+        .values({ areaId, userId: user.id, role })
+        .onConflictDoUpdate({
+          target: [areaMembers.areaId, areaMembers.userId],
+          set: { role, updatedAt: new Date().toISOString() },
+        });
+    });
+
+    invalidateMembers(areaId);
+    return { success: true };
+  } catch (error) {
+    console.error("Error setting area member:", error);
+    return { success: false, error: "Failed to set area member" };
+  }
+}
+
+export async function removeAreaMemberAction(
+  areaId: number,
+  userId: number
+): ServerActionResponse {
+  try {
+    await requireAreaRole(areaId, "owner", { allowArchived: true });
+
+    await db.transaction(async (tx) => {
+      const owners = await tx
+        .select({ userId: areaMembers.userId })
+        .from(areaMembers)
+        .where(
+          and(eq(areaMembers.areaId, areaId), eq(areaMembers.role, "owner"))
+        );
+
+      if (owners.length === 1 && owners[0].userId === userId) {
+        throw new Error("Cannot remove the last owner");
+      }
+
+      await tx
+        .delete(areaMembers)
+        .where(
+          and(eq(areaMembers.areaId, areaId), eq(areaMembers.userId, userId))
+        );
+    });
+
+    invalidateMembers(areaId);
+    return { success: true };
+  } catch (error) {
+    console.error("Error removing area member:", error);
+    return { success: false, error: "Failed to remove area member" };
+  }
+}
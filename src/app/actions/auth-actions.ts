@@ -0,0 +1,69 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import type { Route } from "next";
+import { redirect } from "next/navigation";
+
+import { LOGIN_PATH } from "../../lib/auth/constants";
+import { verifyPassword } from "../../lib/auth/password";
+import { getSafeRedirectPath } from "../../lib/auth/redirect";
+import { createSession, deleteSession } from "../../lib/auth/session";
+import { db } from "../../lib/db";
+import { users } from "../../lib/schema/schema";
+
+export interface LoginState {
+  error?: string;
+}
+
+export async function loginAction(
+  _previousState: LoginState,
+  formData: FormData
+): Promise<LoginState> {
+  const email = String(formData.get("email") ?? "").trim().toLowerCase();
+  const password = String(formData.get("password") ?? "");
+
+  if (!email || !password) {
+    return { error: "Bitte E-Mail und Passwort eingeben" };
+  }
+
+  let redirectPath: string | null = null;
+
+  try {
+    const user = await db.query.users.findFirst({
+      where: eq(users.email, email),
+    });
+
+    if (
+      !user ||
+      user.isActive !== "true" ||
+      !user.passwordHash ||
+      !(await verifyPassword(password, user.passwordHash))
+    ) {
+      return { error: "E-Mail oder Passwort ist falsch" };
+    }
+
+    await createSession(user.id);
+
+    redirectPath = getSafeRedirectPath(formData.get("from"));
+  } catch (error) {
+    console.error("Error logging in:", error);
+
+    return { error: "Anmeldung fehlgeschlagen" };
+  } finally {
+    if (redirectPath) {
+      redirect(redirectPath as Route);
+    }
+  }
+
+  return {};
+}
+
+export async function logoutAction() {
+  try {
+    await deleteSession();
+  } catch (error) {
+    console.error("Error logging out:", error);
+  }
+
+  redirect(LOGIN_PATH as Route);
+}
@@ -1,14 +1,28 @@
 "use server";
 
 import { db } from "../../lib/db";
-import { areaLayers, areaLayerPostalCodes } from "../../lib/schema/schema";
-import { eq } from "drizzle-orm";
+import { requireAreaRole } from "../../lib/auth/permissions";
+import { areaLayers, areaLayerPostalCodes, areas } from "../../lib/schema/schema";
+import {
+  partitionTerritories,
+  type PartitionUnit,
+} from "../../lib/utils/territory-partition";
+import { eq, sql, type SQL } from "drizzle-orm";
 import { updateTag, revalidatePath,refresh } from "next/cache";
+import { assertLeafLayer } from "../../lib/db/layer-hierarchy";
+import { applyConflictPolicy } from "../../lib/db/postal-code-conflicts";
 import { recordChangeAction } from "./change-tracking-actions";
+import { deleteLayerAction } from "./area-actions";
+import {
+  createChangeGroup,
+  formatLayersGroupLabel,
+  type ChangeGroupRef,
+} from "../../lib/utils/change-groups";
 
 export interface BulkImportLayer {
   name: string;
   postalCodes: string[];
+  color?: string; // Used when the layer is created
 }
 
 export interface BulkImportResult {
@@ -20,15 +34,46 @@ export interface BulkImportResult {
   layerIds?: number[];
 }
 
+export type PartitionCandidates =
+  | { type: "codes"; codes: string[] }
+  | { type: "states"; states: string[] }
+  | { type: "prefixes"; prefixes: string[] };
+
+export interface AutoPartitionRequest {
+  candidates: PartitionCandidates;
+  layerCount: number;
+  balanceBy: "count" | "area" | "metric";
+  metric?: string; // Imported postal code metric for balanceBy "metric"
+  seedCodes?: string[];
+  namePrefix?: string;
+}
+
+export interface AutoPartitionLayer extends BulkImportLayer {
+  color: string;
+  total: number;
+}
+
+export interface AutoPartitionResult {
+  success: boolean;
+  layers: AutoPartitionLayer[];
+  disconnectedCodes: string[];
+  error?: string;
+}
+
 const BATCH_SIZE = 500; // Process in batches for performance
 
+const MAX_PARTITION_LAYERS = 50;
+
 /**
- * Bulk import postal codes and layers with upsert functionality
+ * Bulk import postal codes and layers with upsert functionality. All changes
+ * land in one change group, so the import is undone in a single step.
  */
 export async function bulkImportPostalCodesAndLayers(
   areaId: number,
   layers: BulkImportLayer[],
-  createdBy?: string
+  group: ChangeGroupRef = createChangeGroup(
+    formatLayersGroupLabel("Import", layers)
+  )
 ): Promise<BulkImportResult> {
   let createdLayers = 0;
   let updatedLayers = 0;
@@ -37,6 +82,8 @@ export async function bulkImportPostalCodesAndLayers(
   const errors: string[] = [];
 
   try {
+    await requireAreaRole(areaId, "editor");
+
     // Get existing layers for this area (outside transaction)
     const existingLayers = await db.query.areaLayers.findMany({
       where: eq(areaLayers.areaId, areaId),
@@ -66,12 +113,18 @@ export async function bulkImportPostalCodesAndLayers(
         // Process this layer in its own transaction
         await db.transaction(async (tx) => {
           if (existingLayer) {
-            // Update existing layer
+            // Update existing layer; parents get their codes from children
             layerId = existingLayer.id;
-
-            // Get current postal codes
+            await assertLeafLayer(tx, layerId);
+
+            // Get current postal codes; earlier layers of this import may
+            // have moved codes out of this one
+            const currentRows = await tx
+              .select({ postalCode: areaLayerPostalCodes.postalCode })
+              .from(areaLayerPostalCodes)
+              .where(eq(areaLayerPostalCodes.layerId, layerId));
             const currentCodes = new Set(
-              existingLayer.postalCodes?.map(pc => pc.postalCode) || []
+              currentRows.map(pc => pc.postalCode)
             );
 
             // Find new codes that don't exist in this layer yet
@@ -80,6 +133,13 @@ export async function bulkImportPostalCodesAndLayers(
             );
 
             if (newCodes.length > 0) {
+              const movedFrom = await applyConflictPolicy(
+                tx,
+                areaId,
+                layerId,
+                newCodes
+              );
+
               // Insert only the new postal codes in batches
               for (let i = 0; i < newCodes.length; i += BATCH_SIZE) {
                 const batch = newCodes.slice(i, i + BATCH_SIZE);
@@ -104,11 +164,12 @@ export async function bulkImportPostalCodesAndLayers(
                   postalCodes: newCodes,
                   layerId,
                   source: "bulk_import",
+                  ...(movedFrom.length > 0 && { movedFrom }),
                 },
                 previousData: {
                   postalCodes: Array.from(currentCodes),
                 },
-                createdBy,
+                group,
               });
             }
 
@@ -120,7 +181,9 @@ export async function bulkImportPostalCodesAndLayers(
               .values({
                 areaId,
                 name: layerData.name,
-                color: generateLayerColor(createdLayers + updatedLayers),
+                color:
+                  layerData.color ??
+                  generateLayerColor(createdLayers + updatedLayers),
                 opacity: 70,
                 isVisible: "true",
                 orderIndex: existingLayers.length + createdLayers,
@@ -129,6 +192,13 @@ export async function bulkImportPostalCodesAndLayers(
 
             layerId = newLayer.id;
 
+            const movedFrom = await applyConflictPolicy(
+              tx,
+              areaId,
+              layerId,
+              uniquePostalCodes
+            );
+
             // Insert postal codes in batches
             for (let i = 0; i < uniquePostalCodes.length; i += BATCH_SIZE) {
               const batch = uniquePostalCodes.slice(i, i + BATCH_SIZE);
@@ -160,8 +230,9 @@ export async function bulkImportPostalCodesAndLayers(
                 },
                 postalCodes: uniquePostalCodes,
                 source: "bulk_import",
+                ...(movedFrom.length > 0 && { movedFrom }),
               },
-              createdBy,
+              group,
             });
 
             createdLayers++;
@@ -218,6 +289,192 @@ export async function bulkImportPostalCodesAndLayers(
   }
 }
 
+function partitionError(error: string): AutoPartitionResult {
+  return { success: false, layers: [], disconnectedCodes: [], error };
+}
+
+/**
+ * Split candidate postal codes at the area's granularity into `layerCount`
+ * contiguous layers of roughly equal weight (code count, area in km² or an
+ * imported metric). Codes are neighbors when their polygons touch, as in
+ * geoprocessAction. Nothing is saved; accept the preview with
+ * applyAutoPartition.
+ */
+export async function computeAutoPartition(
+  areaId: number,
+  request: AutoPartitionRequest
+): Promise<AutoPartitionResult> {
+  try {
+    await requireAreaRole(areaId, "editor");
+
+    const area = await db.query.areas.findFirst({
+      where: eq(areas.id, areaId),
+    });
+
+    if (!area) {
+      return partitionError("Area not found");
+    }
+
+    const layerCount = Math.floor(request.layerCount);
+    if (layerCount < 2 || layerCount > MAX_PARTITION_LAYERS) {
+      return partitionError("Invalid layer count");
+    }
+
+    const { candidates } = request;
+    let candidateFilter: SQL;
+    if (candidates.type === "codes") {
+      if (candidates.codes.length === 0) {
+        return partitionError("No candidate postal codes");
+      }
+      candidateFilter = sql`p.code IN (${sql.join(
+        candidates.codes.map((code) => sql`${code}`),
+        sql`, `
+      )})`;
+    } else if (candidates.type === "states") {
+      if (candidates.states.length === 0) {
+        return partitionError("No states selected");
+      }
+      candidateFilter = sql`EXISTS (
+        SELECT 1 FROM states s
+        WHERE s.code IN (${sql.join(
+          candidates.states.map((state) => sql`${state}`),
+          sql`, `
+        )})
+        AND ST_Within(ST_PointOnSurface(p.geometry), s.geometry)
+      )`;
+    } else {
+      if (candidates.prefixes.length === 0) {
+        return partitionError("No postal code prefixes");
+      }
+      // Prefixes are matched literally, % and _ are no wildcards
+      candidateFilter = sql`(${sql.join(
+        candidates.prefixes.map(
+          (prefix) =>
+            sql`p.code LIKE ${`${prefix.replace(/[\\%_]/g, "\\$&")}%`}`
+        ),
+        sql` OR `
+      )})`;
+    }
+
+    const weight =
+      request.balanceBy === "area"
+        ? sql`ST_Area(p.geometry::geography) / 1000000`
+        : request.balanceBy === "metric"
+          ? sql`COALESCE((
+              SELECT m.value FROM postal_code_metrics m
+              WHERE m.code = p.code
+                AND m.granularity = p.granularity
+                AND m.metric = ${request.metric ?? ""}
+            ), 0)`
+          : sql`1`;
+
+    const { rows: unitRows } = await db.execute(
+      sql`
+        SELECT
+          p.code,
+          (${weight})::float8 AS weight,
+          ST_X(ST_PointOnSurface(p.geometry)) AS lng,
+          ST_Y(ST_PointOnSurface(p.geometry)) AS lat
+        FROM postal_codes p
+        WHERE p.granularity = ${area.granularity}
+          AND ${candidateFilter}
+      `
+    );
+
+    const units = unitRows as unknown as PartitionUnit[];
+    if (units.length < layerCount) {
+      return partitionError("Fewer candidate postal codes than layers");
+    }
+
+    const { rows: adjacencyRows } = await db.execute(
+      sql`
+        WITH candidates AS (
+          SELECT p.code
+          FROM postal_codes p
+          WHERE p.granularity = ${area.granularity}
+            AND ${candidateFilter}
+        )
+        SELECT a.code AS "from", b.code AS "to"
+        FROM postal_codes a
+        JOIN postal_codes b
+          ON b.granularity = a.granularity
+          AND b.code > a.code
+          AND ST_Touches(a.geometry, b.geometry)
+        WHERE a.granularity = ${area.granularity}
+          AND a.code IN (SELECT code FROM candidates)
+          AND b.code IN (SELECT code FROM candidates)
+      `
+    );
+
+    const { groups, totals, disconnectedCodes } = partitionTerritories(
+      units,
+      (adjacencyRows as { from: string; to: string }[]).map(
+        (row): [string, string] => [row.from, row.to]
+      ),
+      { layerCount, seedCodes: request.seedCodes }
+    );
+
+    const namePrefix = request.namePrefix?.trim() || "Gebiet";
+
+    return {
+      success: true,
+      disconnectedCodes,
+      layers: groups.map((postalCodes, index) => ({
+        name: `${namePrefix} ${index + 1}`,
+        color: generateLayerColor(index),
+        postalCodes,
+        total: totals[index],
+      })),
+    };
+  } catch (error) {
+    console.error("Error computing auto partition:", error);
+    return partitionError("Failed to compute auto partition");
+  }
+}
+
+/**
+ * Save an auto-partition preview as layers. With `replaceExisting` the
+ * area's current layers are deleted first; all steps are recorded as one
+ * change group and undone together.
+ */
+export async function applyAutoPartition(
+  areaId: number,
+  layers: BulkImportLayer[],
+  replaceExisting: boolean
+): Promise<BulkImportResult> {
+  try {
+    await requireAreaRole(areaId, "editor");
+
+    const group = createChangeGroup(
+      formatLayersGroupLabel("Automatische Aufteilung", layers)
+    );
+
+    if (replaceExisting) {
+      const existingLayers = await db.query.areaLayers.findMany({
+        where: eq(areaLayers.areaId, areaId),
+      });
+
+      for (const layer of existingLayers) {
+        const result = await deleteLayerAction(areaId, layer.id, group);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+      }
+    }
+
+    return await bulkImportPostalCodesAndLayers(areaId, layers, group);
+  } catch (error) {
+    console.error("Error applying auto partition:", error);
+    return {
+      success: false,
+      createdLayers: 0,
+      updatedLayers: 0,
+      totalPostalCodes: 0,
+      errors: [error instanceof Error ? error.message : "Unknown error"],
+    };
+  }
+}
+
 /**
  * Generate distinct colors for layers
  */
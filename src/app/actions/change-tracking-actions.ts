@@ -2,6 +2,8 @@
 
 import { db } from "../../lib/db";
 
+import { requireAreaRole } from "../../lib/auth/permissions";
+
 import {
   areaChanges,
   areaUndoStacks,
@@ -12,6 +14,24 @@ import {
   type SelectAreaChanges,
 } from "../../lib/schema/schema";
 
+import {
+  removeMovedPostalCodes,
+  restoreMovedPostalCodes,
+} from "../../lib/db/postal-code-conflicts";
+
+import {
+  detachChildLayers,
+  reattachChildLayers,
+} from "../../lib/db/layer-hierarchy";
+
+import { replaceLayerPeople } from "../../lib/db/layer-people";
+
+import type { MovedPostalCodes } from "../../lib/utils/conflict-policy";
+
+import type { LayerPersonAssignment } from "../../lib/utils/layer-people";
+
+import type { ChangeGroupRef } from "../../lib/utils/change-groups";
+
 import { eq, and, inArray, sql } from "drizzle-orm";
 
 export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
@@ -37,7 +57,8 @@ export interface ChangeRecord {
 
   previousData?: Record<string, unknown>;
 
-  createdBy?: string;
+  // Undone and redone together with the other changes of the group
+  group?: ChangeGroupRef;
 }
 
 interface LayerData {
@@ -48,16 +69,36 @@ interface LayerData {
   opacity: number;
   isVisible: string;
   orderIndex: number;
+  parentLayerId?: number | null;
 }
 
 interface ChangeDataWithLayer extends Record<string, unknown> {
   layer?: LayerData;
   postalCodes?: string[];
+  // Codes the "move" conflict policy took out of other layers
+  movedFrom?: MovedPostalCodes[];
+  // Full list of people assigned to the layer
+  people?: LayerPersonAssignment[];
 }
 
 interface PreviousDataWithLayer extends Record<string, unknown> {
   layer?: LayerData;
   postalCodes?: string[];
+  // Children a deleted layer handed to its parent
+  childLayerIds?: number[];
+  people?: LayerPersonAssignment[];
+}
+
+// Full code set of one layer, recorded on both sides of a granularity change
+interface LayerPostalCodes {
+  layerId: number;
+  layerName: string;
+  postalCodes: string[];
+}
+
+interface GranularityChangeData extends Record<string, unknown> {
+  granularity: string;
+  layers: LayerPostalCodes[];
 }
 
 export interface ChangeKey {
@@ -70,6 +111,40 @@ export interface ChangeKey {
   sequenceNumber: number;
 }
 
+export interface ChangeGroupEntry {
+  groupId: string;
+
+  changes: ChangeKey[];
+}
+
+// Stacks written before change groups hold plain change keys
+type UndoStackEntry = ChangeKey | ChangeGroupEntry;
+
+function getEntryChangeKeys(entry: UndoStackEntry): ChangeKey[] {
+  return "changes" in entry ? entry.changes : [entry];
+}
+
+function isValidChangeKey(changeKey: ChangeKey | undefined): boolean {
+  return Boolean(
+    changeKey &&
+      changeKey.sequenceNumber &&
+      changeKey.versionNumber &&
+      changeKey.versionAreaId,
+  );
+}
+
+function changeKeyCondition(changeKey: ChangeKey) {
+  return and(
+    eq(areaChanges.areaId, changeKey.areaId),
+
+    eq(areaChanges.versionAreaId, changeKey.versionAreaId!),
+
+    eq(areaChanges.versionNumber, changeKey.versionNumber!),
+
+    eq(areaChanges.sequenceNumber, changeKey.sequenceNumber),
+  );
+}
+
 // ===============================
 
 // CHANGE RECORDING
@@ -77,7 +152,8 @@ export interface ChangeKey {
 // ===============================
 
 /**
- * Record a change in the change tracking system
+ * Record a change in the change tracking system, stamped with the signed-in user.
+ * Changes passing the same group end up in one undo stack entry.
  */
 
 export async function recordChangeAction(
@@ -86,6 +162,8 @@ export async function recordChangeAction(
   change: ChangeRecord,
 ): ServerActionResponse<ChangeKey> {
   try {
+    const user = await requireAreaRole(areaId, "editor");
+
     // Get current active version if exists
 
     const area = await db.query.areas.findFirst({
@@ -116,13 +194,17 @@ export async function recordChangeAction(
 
         previousData: change.previousData,
 
+        groupId: change.group?.id,
+
+        groupLabel: change.group?.label,
+
         versionAreaId: area?.currentVersionNumber ? areaId : null,
 
         versionNumber: area?.currentVersionNumber || null,
 
         // sequenceNumber will be auto-generated by trigger - don't pass it
 
-        createdBy: change.createdBy,
+        createdBy: user.email,
       })
 
       .returning();
@@ -139,7 +221,7 @@ export async function recordChangeAction(
       sequenceNumber: newChange.sequenceNumber,
     };
 
-    await updateUndoStackAfterChange(areaId, changeKey);
+    await updateUndoStackAfterChange(areaId, changeKey, change.group?.id);
 
     // Update version change count if there's an active version
 
@@ -175,14 +257,21 @@ export async function recordChangeAction(
 }
 
 /**
- * Update undo stack after a new change
+ * Update undo stack after a new change; a grouped change joins the top entry
+ * if it belongs to the same group
  */
 
 async function updateUndoStackAfterChange(
   areaId: number,
 
   changeKey: ChangeKey,
+
+  groupId?: string,
 ): Promise<void> {
+  const entry: UndoStackEntry = groupId
+    ? { groupId, changes: [changeKey] }
+    : changeKey;
+
   const stack = await db.query.areaUndoStacks.findFirst({
     where: eq(areaUndoStacks.areaId, areaId),
   });
@@ -193,21 +282,31 @@ async function updateUndoStackAfterChange(
     await db.insert(areaUndoStacks).values({
       areaId,
 
-      undoStack: [changeKey],
+      undoStack: [entry],
 
       redoStack: [],
     });
   } else {
     // Add to undo stack and clear redo stack
 
-    const currentUndoStack = (stack.undoStack as ChangeKey[]) || [];
+    const currentUndoStack = (stack.undoStack as UndoStackEntry[]) || [];
+
+    const top = currentUndoStack[currentUndoStack.length - 1];
+
+    const undoStack =
+      groupId && top && "changes" in top && top.groupId === groupId
+        ? [
+            ...currentUndoStack.slice(0, -1),
+            { groupId, changes: [...top.changes, changeKey] },
+          ]
+        : [...currentUndoStack, entry];
 
     await db
 
       .update(areaUndoStacks)
 
       .set({
-        undoStack: [...currentUndoStack, changeKey],
+        undoStack,
 
         redoStack: [], // Clear redo stack when new change is made
 
@@ -225,13 +324,15 @@ async function updateUndoStackAfterChange(
 // ===============================
 
 /**
- * Undo the last change
+ * Undo the last change, or every change of the last group, newest first
  */
 
 export async function undoChangeAction(
   areaId: number,
-): ServerActionResponse<ChangeKey | { success: boolean; data: string }> {
+): ServerActionResponse<ChangeKey[] | { success: boolean; data: string }> {
   try {
+    await requireAreaRole(areaId, "editor");
+
     const result = await db.transaction(async (tx) => {
       // Get undo stack
 
@@ -239,66 +340,47 @@ export async function undoChangeAction(
         where: eq(areaUndoStacks.areaId, areaId),
       });
 
-      if (!stack || !(stack.undoStack as ChangeKey[]).length) {
+      if (!stack || !(stack.undoStack as UndoStackEntry[]).length) {
         throw new Error("No changes to undo");
       }
 
-      const undoStack = stack.undoStack as ChangeKey[];
-
-      const redoStack = (stack.redoStack as ChangeKey[]) || [];
-
-      const changeKey = undoStack[undoStack.length - 1];
-
-      if (
-        !changeKey ||
-        !changeKey.sequenceNumber ||
-        !changeKey.versionNumber ||
-        !changeKey.versionAreaId
-      ) {
-        return { success: false, data: "No changes to undo" };
-      }
-
-      // Get the change to undo
-
-      const change = await tx.query.areaChanges.findFirst({
-        where: and(
-          eq(areaChanges.areaId, changeKey.areaId),
+      const undoStack = stack.undoStack as UndoStackEntry[];
 
-          eq(areaChanges.versionAreaId, changeKey.versionAreaId),
+      const redoStack = (stack.redoStack as UndoStackEntry[]) || [];
 
-          eq(areaChanges.versionNumber, changeKey.versionNumber),
+      const entry = undoStack[undoStack.length - 1];
 
-          eq(areaChanges.sequenceNumber, changeKey.sequenceNumber),
-        ),
-      });
+      const changeKeys = getEntryChangeKeys(entry);
 
-      if (!change) {
+      if (changeKeys.length === 0 || !changeKeys.every(isValidChangeKey)) {
         return { success: false, data: "No changes to undo" };
       }
 
-      // Apply the undo operation
+      for (const changeKey of [...changeKeys].reverse()) {
+        // Get the change to undo
 
-      await applyUndoOperation(tx, change);
+        const change = await tx.query.areaChanges.findFirst({
+          where: changeKeyCondition(changeKey),
+        });
 
-      // Mark change as undone
+        if (!change) {
+          throw new Error("Change not found");
+        }
 
-      await tx
+        // Apply the undo operation
 
-        .update(areaChanges)
+        await applyUndoOperation(tx, change);
 
-        .set({ isUndone: "true" })
+        // Mark change as undone
 
-        .where(
-          and(
-            eq(areaChanges.areaId, changeKey.areaId),
+        await tx
 
-            eq(areaChanges.versionAreaId, changeKey.versionAreaId),
+          .update(areaChanges)
 
-            eq(areaChanges.versionNumber, changeKey.versionNumber),
+          .set({ isUndone: "true" })
 
-            eq(areaChanges.sequenceNumber, changeKey.sequenceNumber),
-          ),
-        );
+          .where(changeKeyCondition(changeKey));
+      }
 
       // Update stacks
 
@@ -309,17 +391,19 @@ export async function undoChangeAction(
         .set({
           undoStack: undoStack.slice(0, -1),
 
-          redoStack: [...redoStack, changeKey],
+          redoStack: [...redoStack, entry],
 
           updatedAt: new Date().toISOString(),
         })
 
         .where(eq(areaUndoStacks.id, stack.id));
 
-      return changeKey;
+      return changeKeys;
     });
 
     updateTag("undo-redo-status");
+    updateTag(`area-${areaId}`);
+    updateTag(`area-${areaId}-layers`);
     revalidatePath("/postal-codes", "layout");
     refresh();
     return { success: true, data: result };
@@ -335,13 +419,16 @@ export async function undoChangeAction(
 }
 
 /**
- * Redo the last undone change
+ * Redo the last undone change, or every change of the last undone group in
+ * their original order
  */
 
 export async function redoChangeAction(
   areaId: number,
-): ServerActionResponse<ChangeKey | { success: boolean; data: string }> {
+): ServerActionResponse<ChangeKey[] | { success: boolean; data: string }> {
   try {
+    await requireAreaRole(areaId, "editor");
+
     const result = await db.transaction(async (tx) => {
       // Get undo stack
 
@@ -349,66 +436,47 @@ export async function redoChangeAction(
         where: eq(areaUndoStacks.areaId, areaId),
       });
 
-      if (!stack || !(stack.redoStack as ChangeKey[]).length) {
+      if (!stack || !(stack.redoStack as UndoStackEntry[]).length) {
         throw new Error("No changes to redo");
       }
 
-      const undoStack = (stack.undoStack as ChangeKey[]) || [];
+      const undoStack = (stack.undoStack as UndoStackEntry[]) || [];
 
-      const redoStack = stack.redoStack as ChangeKey[];
+      const redoStack = stack.redoStack as UndoStackEntry[];
 
-      const changeKey = redoStack[redoStack.length - 1];
+      const entry = redoStack[redoStack.length - 1];
 
-      if (
-        !changeKey ||
-        !changeKey.sequenceNumber ||
-        !changeKey.versionNumber ||
-        !changeKey.versionAreaId
-      ) {
-        return { success: false, data: "No changes to redo" };
-      }
-
-      // Get the change to redo
-
-      const change = await tx.query.areaChanges.findFirst({
-        where: and(
-          eq(areaChanges.areaId, changeKey.areaId),
-
-          eq(areaChanges.versionAreaId, changeKey.versionAreaId),
-
-          eq(areaChanges.versionNumber, changeKey.versionNumber),
+      const changeKeys = getEntryChangeKeys(entry);
 
-          eq(areaChanges.sequenceNumber, changeKey.sequenceNumber),
-        ),
-      });
-
-      if (!change) {
-        throw new Error("Change not found");
+      if (changeKeys.length === 0 || !changeKeys.every(isValidChangeKey)) {
+        return { success: false, data: "No changes to redo" };
       }
 
-      // Apply the redo operation
+      for (const changeKey of changeKeys) {
+        // Get the change to redo
 
-      await applyRedoOperation(tx, change);
+        const change = await tx.query.areaChanges.findFirst({
+          where: changeKeyCondition(changeKey),
+        });
 
-      // Mark change as not undone
+        if (!change) {
+          throw new Error("Change not found");
+        }
 
-      await tx
+        // Apply the redo operation
 
-        .update(areaChanges)
+        await applyRedoOperation(tx, change);
 
-        .set({ isUndone: "false" })
+        // Mark change as not undone
 
-        .where(
-          and(
-            eq(areaChanges.areaId, changeKey.areaId),
+        await tx
 
-            eq(areaChanges.versionAreaId, changeKey.versionAreaId),
+          .update(areaChanges)
 
-            eq(areaChanges.versionNumber, changeKey.versionNumber),
+          .set({ isUndone: "false" })
 
-            eq(areaChanges.sequenceNumber, changeKey.sequenceNumber),
-          ),
-        );
+          .where(changeKeyCondition(changeKey));
+      }
 
       // Update stacks
 
@@ -417,7 +485,7 @@ export async function redoChangeAction(
         .update(areaUndoStacks)
 
         .set({
-          undoStack: [...undoStack, changeKey],
+          undoStack: [...undoStack, entry],
 
           redoStack: redoStack.slice(0, -1),
 
@@ -426,10 +494,12 @@ export async function redoChangeAction(
 
         .where(eq(areaUndoStacks.id, stack.id));
 
-      return changeKey;
+      return changeKeys;
     });
 
     updateTag("undo-redo-status");
+    updateTag(`area-${areaId}`);
+    updateTag(`area-${areaId}-layers`);
     revalidatePath("/postal-codes", "layout");
     refresh();
     return { success: true, data: result };
@@ -444,6 +514,108 @@ export async function redoChangeAction(
   }
 }
 
+/**
+ * Write the layer properties and, when given, the full postal code and
+ * people lists of an update_layer change
+ */
+
+async function setLayerState(
+  tx: Transaction,
+
+  layerId: number,
+
+  data: ChangeDataWithLayer,
+): Promise<void> {
+  const {
+    postalCodes,
+    people,
+    movedFrom: _movedFrom,
+    layer: _layer,
+    ...properties
+  } = data;
+
+  if (Object.keys(properties).length > 0) {
+    await tx
+
+      .update(areaLayers)
+
+      .set(properties as Partial<typeof areaLayers.$inferInsert>)
+
+      .where(eq(areaLayers.id, layerId));
+  }
+
+  if (postalCodes) {
+    await tx
+
+      .delete(areaLayerPostalCodes)
+
+      .where(eq(areaLayerPostalCodes.layerId, layerId));
+
+    if (postalCodes.length > 0) {
+      await tx.insert(areaLayerPostalCodes).values(
+        postalCodes.map((code) => ({
+          layerId,
+
+          postalCode: code,
+        })),
+      );
+    }
+  }
+
+  if (people) {
+    await replaceLayerPeople(tx, layerId, people);
+  }
+}
+
+/**
+ * Set the area's granularity and the recorded code set of every layer
+ */
+
+async function setGranularityState(
+  tx: Transaction,
+
+  areaId: number,
+
+  data: GranularityChangeData,
+): Promise<void> {
+  await tx
+
+    .update(areas)
+
+    .set({
+      granularity: data.granularity,
+
+      updatedAt: new Date().toISOString(),
+    })
+
+    .where(eq(areas.id, areaId));
+
+  for (const layer of data.layers) {
+    await setLayerState(tx, layer.layerId, { postalCodes: layer.postalCodes });
+  }
+}
+
+/**
+ * Point a change at the id its layer got when it was recreated, so the next
+ * undo or redo of it (or of its group) finds the layer
+ */
+
+async function retargetChange(
+  tx: Transaction,
+
+  change: SelectAreaChanges,
+
+  entityId: number,
+): Promise<void> {
+  await tx
+
+    .update(areaChanges)
+
+    .set({ entityId })
+
+    .where(changeKeyCondition(change));
+}
+
 /**
  * Apply an undo operation based on change type
  */
@@ -477,27 +649,37 @@ async function applyUndoOperation(
       if (entityId && previousData) {
         // Restore the previous state
 
-        await tx
-
-          .update(areaLayers)
-
-          .set(previousData as Partial<typeof areaLayers.$inferInsert>)
-
-          .where(eq(areaLayers.id, entityId));
+        await setLayerState(tx, entityId, typedPreviousData);
       }
 
       break;
 
     case "delete_layer":
       if (previousData) {
-        // Recreate the layer
+        // Recreate the layer; ids are generated, so it gets a new one that
+        // the change is retargeted to below
         const typedPreviousData = previousData as PreviousDataWithLayer;
+        const deletedLayer = typedPreviousData.layer!;
 
         const [layer] = await tx
 
           .insert(areaLayers)
 
-          .values(typedPreviousData.layer!)
+          .values({
+            areaId: deletedLayer.areaId,
+
+            name: deletedLayer.name,
+
+            color: deletedLayer.color,
+
+            opacity: deletedLayer.opacity,
+
+            isVisible: deletedLayer.isVisible,
+
+            orderIndex: deletedLayer.orderIndex,
+
+            parentLayerId: deletedLayer.parentLayerId ?? null,
+          })
 
           .returning();
 
@@ -512,6 +694,12 @@ async function applyUndoOperation(
             })),
           );
         }
+
+        await replaceLayerPeople(tx, layer.id, typedPreviousData.people);
+
+        await reattachChildLayers(tx, layer.id, typedPreviousData.childLayerIds);
+
+        await retargetChange(tx, change, layer.id);
       }
 
       break;
@@ -565,8 +753,24 @@ async function applyUndoOperation(
           .where(eq(areas.id, change.areaId));
       }
 
+      break;
+
+    case "change_granularity":
+      if (previousData) {
+        await setGranularityState(
+          tx,
+
+          change.areaId,
+
+          previousData as GranularityChangeData,
+        );
+      }
+
       break;
   }
+
+  // Put codes moved out of other layers back where they came from
+  await restoreMovedPostalCodes(tx, typedChangeData?.movedFrom);
 }
 
 /**
@@ -606,25 +810,32 @@ async function applyRedoOperation(
             })),
           );
         }
+
+        await retargetChange(tx, change, layer.id);
       }
 
       break;
 
     case "update_layer":
       if (entityId && changeData) {
-        await tx
-
-          .update(areaLayers)
-
-          .set(changeData as Partial<typeof areaLayers.$inferInsert>)
-
-          .where(eq(areaLayers.id, entityId));
+        await setLayerState(tx, entityId, typedChangeData);
       }
 
       break;
 
     case "delete_layer":
       if (entityId) {
+        await detachChildLayers(
+          tx,
+
+          entityId,
+
+          (change.previousData as PreviousDataWithLayer)?.layer
+            ?.parentLayerId ?? null,
+        );
+
+        await replaceLayerPeople(tx, entityId, []);
+
         await tx
 
           .delete(areaLayerPostalCodes)
@@ -677,8 +888,24 @@ async function applyRedoOperation(
           .where(eq(areas.id, change.areaId));
       }
 
+      break;
+
+    case "change_granularity":
+      if (changeData) {
+        await setGranularityState(
+          tx,
+
+          change.areaId,
+
+          changeData as GranularityChangeData,
+        );
+      }
+
       break;
   }
+
+  // Take moved codes out of their original layers again
+  await removeMovedPostalCodes(tx, typedChangeData?.movedFrom);
 }
 
 // ===============================
@@ -696,6 +923,8 @@ export async function clearUndoRedoStacksAction(
   areaId: number,
 ): ServerActionResponse {
   try {
+    await requireAreaRole(areaId, "editor");
+
     const stack = await db.query.areaUndoStacks.findFirst({
       where: eq(areaUndoStacks.areaId, areaId),
     });
@@ -0,0 +1,328 @@
+"use server";
+
+import { db } from "../../lib/db";
+import { requireAreaRole } from "../../lib/auth/permissions";
+import { areaLayerPostalCodes, areaLayers, areas } from "../../lib/schema/schema";
+import { assignGapsByAdjacency } from "../../lib/utils/coverage-gaps";
+import { eq, sql, type SQL } from "drizzle-orm";
+import { revalidatePath, updateTag } from "next/cache";
+import {
+  createChangeGroup,
+  formatLayersGroupLabel,
+} from "../../lib/utils/change-groups";
+import { recordChangeAction } from "./change-tracking-actions";
+
+type ServerActionResponse<T = void> = Promise<{
+  success: boolean;
+  data?: T;
+  error?: string;
+}>;
+
+export interface StateCoverage {
+  // null for postal codes outside every state geometry
+  stateCode: string | null;
+  stateName: string | null;
+  total: number;
+  assigned: number;
+  unassigned: number;
+  duplicate: number;
+  unassignedCodes: string[];
+  duplicateCodes: string[];
+}
+
+export interface CoverageReport {
+  granularity: string;
+  total: number;
+  assigned: number;
+  unassigned: number;
+  duplicate: number;
+  states: StateCoverage[];
+}
+
+export type GapAssignmentMode = "adjacent" | "nearest";
+
+/**
+ * Restrict postal codes `p` to one state; no restriction without a state.
+ * A code belongs to the state containing its point on surface.
+ */
+function stateFilter(stateCode: string | null | undefined): SQL {
+  if (!stateCode) {
+    return sql`TRUE`;
+  }
+  return sql`EXISTS (
+    SELECT 1 FROM states s
+    WHERE s.code = ${stateCode}
+    AND ST_Within(ST_PointOnSurface(p.geometry), s.geometry)
+  )`;
+}
+
+/**
+ * Compare the area's layers against the full postal code set at its
+ * granularity: assigned, unassigned and duplicate (in several layers)
+ * codes, broken down by state
+ */
+export async function getCoverageReportAction(
+  areaId: number
+): ServerActionResponse<CoverageReport> {
+  try {
+    await requireAreaRole(areaId, "viewer", { allowArchived: true });
+
+    const area = await db.query.areas.findFirst({
+      where: eq(areas.id, areaId),
+    });
+
+    if (!area) {
+      return { success: false, error: "Area not found" };
+    }
+
+    const { rows } = await db.execute(
+      sql`
+        WITH layer_counts AS (
+          SELECT pc.postal_code AS code, COUNT(DISTINCT pc.layer_id)::int AS layers
+          FROM area_layer_postal_codes pc
+          JOIN area_layers l ON l.id = pc.layer_id
+          WHERE l.area_id = ${areaId}
+          GROUP BY pc.postal_code
+        ),
+        codes AS (
+          SELECT p.code, s.code AS state_code, s.name AS state_name,
+            COALESCE(lc.layers, 0) AS layers
+          FROM postal_codes p
+          LEFT JOIN LATERAL (
+            SELECT code, name FROM states
+            WHERE ST_Within(ST_PointOnSurface(p.geometry), states.geometry)
+            LIMIT 1
+          ) s ON TRUE
+          LEFT JOIN layer_counts lc ON lc.code = p.code
+          WHERE p.granularity = ${area.granularity}
+        )
+        SELECT
+          state_code AS "stateCode",
+          state_name AS "stateName",
+          COUNT(*)::int AS total,
+          COUNT(*) FILTER (WHERE layers > 0)::int AS assigned,
+          COUNT(*) FILTER (WHERE layers = 0)::int AS unassigned,
+          COUNT(*) FILTER (WHERE layers > 1)::int AS duplicate,
+          COALESCE(array_agg(code ORDER BY code) FILTER (WHERE layers = 0), '{}') AS "unassignedCodes",
+          COALESCE(array_agg(code ORDER BY code) FILTER (WHERE layers > 1), '{}') AS "duplicateCodes"
+        FROM codes
+        GROUP BY state_code, state_name
+        ORDER BY state_name NULLS LAST
+      `
+    );
+
+    const states = rows as unknown as StateCoverage[];
+    const sum = (key: "total" | "assigned" | "unassigned" | "duplicate") =>
+      states.reduce((total, state) => total + state[key], 0);
+
+    return {
+      success: true,
+      data: {
+        granularity: area.granularity,
+        total: sum("total"),
+        assigned: sum("assigned"),
+        unassigned: sum("unassigned"),
+        duplicate: sum("duplicate"),
+        states,
+      },
+    };
+  } catch (error) {
+    console.error("Error building coverage report:", error);
+    return { success: false, error: "Failed to build coverage report" };
+  }
+}
+
+/**
+ * Assign the unassigned postal codes of a state (or of Germany) to the
+ * area's layers. "adjacent" grows layers over touching neighbors and leaves
+ * codes without a path to a layer alone; "nearest" gives every code to the
+ * layer of the closest assigned code. One change per layer is recorded in a
+ * single group, so the assignment is undone in one step.
+ */
+export async function assignUnassignedCodesAction(
+  areaId: number,
+  options: { mode: GapAssignmentMode; stateCode?: string | null }
+): ServerActionResponse<{ assignedCodes: number; remainingCodes: number }> {
+  try {
+    await requireAreaRole(areaId, "editor");
+
+    const area = await db.query.areas.findFirst({
+      where: eq(areas.id, areaId),
+    });
+
+    if (!area) {
+      return { success: false, error: "Area not found" };
+    }
+
+    // One transaction, so a failure part way leaves no layer half filled
+    const result = await db.transaction(async (tx) => {
+      const layers = await tx.query.areaLayers.findMany({
+        where: eq(areaLayers.areaId, areaId),
+        with: { postalCodes: true },
+      });
+
+      if (layers.length === 0) {
+        return null;
+      }
+
+      // A code in several layers counts for the first one
+      const layerByCode = new Map<string, number>();
+      for (const layer of layers) {
+        for (const pc of layer.postalCodes) {
+          if (!layerByCode.has(pc.postalCode)) {
+            layerByCode.set(pc.postalCode, layer.id);
+          }
+        }
+      }
+
+      const assignedCodes = sql`
+        SELECT pc.postal_code
+        FROM area_layer_postal_codes pc
+        JOIN area_layers l ON l.id = pc.layer_id
+        WHERE l.area_id = ${areaId}
+      `;
+
+      const assignments = new Map<string, number>();
+      let gapCount = 0;
+
+      if (options.mode === "adjacent") {
+        const { rows } = await tx.execute(
+          sql`
+            SELECT p.code, COALESCE(array_agg(n.code) FILTER (WHERE n.code IS NOT NULL), '{}') AS neighbors
+            FROM postal_codes p
+            LEFT JOIN postal_codes n
+              ON n.granularity = p.granularity
+              AND n.code <> p.code
+              AND ST_Touches(p.geometry, n.geometry)
+            WHERE p.granularity = ${area.granularity}
+              AND p.code NOT IN (${assignedCodes})
+              AND ${stateFilter(options.stateCode)}
+            GROUP BY p.code
+          `
+        );
+
+        const gapNeighbors = new Map(
+          (rows as { code: string; neighbors: string[] }[]).map((row) => [
+            row.code,
+            row.neighbors,
+          ])
+        );
+        gapCount = gapNeighbors.size;
+
+        for (const [code, layerId] of assignGapsByAdjacency(
+          gapNeighbors,
+          layerByCode
+        )) {
+          assignments.set(code, layerId);
+        }
+      } else {
+        // KNN over the geometry index of postal_codes: candidates come in
+        // distance order and the first assigned one wins
+        const { rows } = await tx.execute(
+          sql`
+            SELECT p.code, nearest.code AS "nearestCode"
+            FROM postal_codes p
+            LEFT JOIN LATERAL (
+              SELECT n.code
+              FROM postal_codes n
+              WHERE n.granularity = p.granularity
+                AND n.code IN (${assignedCodes})
+              ORDER BY n.geometry <-> p.geometry
+              LIMIT 1
+            ) nearest ON TRUE
+            WHERE p.granularity = ${area.granularity}
+              AND p.code NOT IN (${assignedCodes})
+              AND ${stateFilter(options.stateCode)}
+          `
+        );
+
+        const nearest = rows as { code: string; nearestCode: string | null }[];
+        gapCount = nearest.length;
+        for (const row of nearest) {
+          const layerId =
+            row.nearestCode !== null
+              ? layerByCode.get(row.nearestCode)
+              : undefined;
+          if (layerId !== undefined) assignments.set(row.code, layerId);
+        }
+      }
+
+      const codesByLayer = new Map<number, string[]>();
+      for (const [code, layerId] of assignments) {
+        codesByLayer.set(layerId, [
+          ...(codesByLayer.get(layerId) ?? []),
+          code,
+        ]);
+      }
+
+      for (const codes of codesByLayer.values()) codes.sort();
+
+      for (const [layerId, codes] of codesByLayer) {
+        await tx.insert(areaLayerPostalCodes).values(
+          codes.map((code) => ({
+            layerId,
+            postalCode: code,
+          }))
+        );
+      }
+
+      return {
+        layers,
+        codesByLayer,
+        assignedCount: assignments.size,
+        gapCount,
+      };
+    });
+
+    if (!result) {
+      return { success: false, error: "Area has no layers" };
+    }
+
+    const { layers, codesByLayer, assignedCount, gapCount } = result;
+
+    // One change group, so a single undo reverts the whole distribution
+    const group = createChangeGroup(
+      formatLayersGroupLabel(
+        "Nicht zugeordnete PLZ verteilt",
+        [...codesByLayer.values()].map((postalCodes) => ({ postalCodes }))
+      )
+    );
+
+    for (const [layerId, codes] of codesByLayer) {
+      const layer = layers.find((l) => l.id === layerId);
+      if (!layer) continue;
+
+      await recordChangeAction(areaId, {
+        changeType: "add_postal_codes",
+        entityType: "postal_code",
+        entityId: layerId,
+        changeData: {
+          postalCodes: codes,
+          layerId,
+          source: `assign_gaps_${options.mode}`,
+        },
+        previousData: {
+          postalCodes: layer.postalCodes.map((pc) => pc.postalCode),
+        },
+        group,
+      });
+    }
+
+    revalidatePath("/postal-codes", "layout");
+    updateTag("layers");
+    updateTag(`area-${areaId}-layers`);
+    updateTag(`area-${areaId}`);
+    updateTag("undo-redo");
+    updateTag(`area-${areaId}-undo-redo`);
+    return {
+      success: true,
+      data: {
+        assignedCodes: assignedCount,
+        remainingCodes: gapCount - assignedCount,
+      },
+    };
+  } catch (error) {
+    console.error("Error assigning unassigned postal codes:", error);
+    return { success: false, error: "Failed to assign unassigned postal codes" };
+  }
+}
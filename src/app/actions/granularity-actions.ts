@@ -2,6 +2,8 @@
 
 import { db } from "../../lib/db";
 
+import { requireAreaRole } from "../../lib/auth/permissions";
+
 import {
   areas,
   areaLayers,
@@ -9,6 +11,13 @@ import {
   postalCodes,
 } from "../../lib/schema/schema";
 
+import {
+  applyConflictPolicy,
+  PostalCodeConflictError,
+} from "../../lib/db/postal-code-conflicts";
+
+import { recordChangeAction } from "./change-tracking-actions";
+
 import { eq, and, like } from "drizzle-orm";
 
 import { getGranularityLevel } from "@/lib/utils/granularity-utils";
@@ -23,6 +32,14 @@ type ServerActionResponse<T = void> = Promise<{
   error?: string;
 }>;
 
+interface LayerPostalCodes {
+  layerId: number;
+
+  layerName: string;
+
+  postalCodes: string[];
+}
+
 interface GranularityChangeResult {
   migratedLayers: number;
 
@@ -35,6 +52,8 @@ interface GranularityChangeResult {
  * Changes the granularity of an area and migrates postal codes accordingly
  * - When upgrading (3digit -> 5digit): Expands codes to include all matching higher-granularity codes
  * - When downgrading (5digit -> 3digit): Removes all postal codes (requires confirmation from UI)
+ * Recorded as a change_granularity change with the full code sets of every
+ * layer before and after, so it can be undone.
  */
 
 export async function changeAreaGranularityAction(
@@ -45,6 +64,8 @@ export async function changeAreaGranularityAction(
   currentGranularity: string,
 ): ServerActionResponse<GranularityChangeResult> {
   try {
+    await requireAreaRole(areaId, "editor");
+
     const currentLevel = getGranularityLevel(currentGranularity);
 
     const newLevel = getGranularityLevel(newGranularity);
@@ -59,7 +80,13 @@ export async function changeAreaGranularityAction(
 
     let removedPostalCodes = 0;
 
-    await db.transaction(async (tx) => {
+    const snapshot = await db.transaction(async (tx) => {
+      const area = await tx.query.areas.findFirst({
+        where: eq(areas.id, areaId),
+
+        columns: { granularity: true },
+      });
+
       // Get all layers for this area with their postal codes
 
       const layers = await tx.query.areaLayers.findMany({
@@ -70,6 +97,14 @@ export async function changeAreaGranularityAction(
         },
       });
 
+      const before: LayerPostalCodes[] = layers.map((layer) => ({
+        layerId: layer.id,
+
+        layerName: layer.name,
+
+        postalCodes: layer.postalCodes.map((pc) => pc.postalCode),
+      }));
+
       if (isUpgrade && layers.length > 0) {
         // UPGRADE: Expand postal codes to higher granularity
 
@@ -115,6 +150,19 @@ export async function changeAreaGranularityAction(
 
             removedPostalCodes += currentCodes.length;
 
+            // Codes that were in several layers before expand into several
+            // layers again; the area's conflict policy decides
+
+            await applyConflictPolicy(
+              tx,
+
+              areaId,
+
+              layer.id,
+
+              Array.from(expandedCodes),
+            );
+
             // Insert new expanded postal codes
 
             await tx.insert(areaLayerPostalCodes).values(
@@ -163,6 +211,64 @@ export async function changeAreaGranularityAction(
         })
 
         .where(eq(areas.id, areaId));
+
+      // Codes after the migration, including those the conflict policy moved
+
+      const migrated = await tx
+
+        .select({
+          layerId: areaLayerPostalCodes.layerId,
+
+          postalCode: areaLayerPostalCodes.postalCode,
+        })
+
+        .from(areaLayerPostalCodes)
+
+        .innerJoin(areaLayers, eq(areaLayerPostalCodes.layerId, areaLayers.id))
+
+        .where(eq(areaLayers.areaId, areaId));
+
+      const after: LayerPostalCodes[] = before.map((layer) => ({
+        ...layer,
+
+        postalCodes: migrated
+          .filter((row) => row.layerId === layer.layerId)
+          .map((row) => row.postalCode),
+      }));
+
+      // Layers without codes before and after need no restoring
+
+      const touched = (_: unknown, index: number) =>
+        before[index].postalCodes.length > 0 ||
+        after[index].postalCodes.length > 0;
+
+      return {
+        previousGranularity: area?.granularity ?? currentGranularity,
+
+        before: before.filter(touched),
+
+        after: after.filter(touched),
+      };
+    });
+
+    await recordChangeAction(areaId, {
+      changeType: "change_granularity",
+
+      entityType: "area",
+
+      entityId: areaId,
+
+      changeData: {
+        granularity: newGranularity,
+
+        layers: snapshot.after,
+      },
+
+      previousData: {
+        granularity: snapshot.previousGranularity,
+
+        layers: snapshot.before,
+      },
     });
 
     updateTag(`area-${areaId}`);
@@ -182,6 +288,10 @@ export async function changeAreaGranularityAction(
       },
     };
   } catch (error) {
+    if (error instanceof PostalCodeConflictError) {
+      return { success: false, error: error.message };
+    }
+
     console.error("Error changing area granularity:", error);
 
     return {
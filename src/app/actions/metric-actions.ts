@@ -0,0 +1,120 @@
+"use server";
+
+import { db } from "../../lib/db";
+import { requireAdmin } from "../../lib/auth/permissions";
+import { postalCodeMetrics } from "../../lib/schema/schema";
+import { GRANULARITY_OPTIONS } from "../../lib/utils/granularity-utils";
+import { and, eq, sql } from "drizzle-orm";
+import { revalidatePath, updateTag } from "next/cache";
+
+type ServerActionResponse<T = void> = Promise<{
+  success: boolean;
+  data?: T;
+  error?: string;
+}>;
+
+export interface PostalCodeMetricRow {
+  code: string;
+  // metric -> value; metrics without a value for this code are omitted
+  values: Record<string, number>;
+}
+
+const BATCH_SIZE = 1000;
+
+function invalidateMetrics(granularity: string) {
+  updateTag("postal-code-metrics");
+  updateTag(`postal-code-metrics-${granularity}`);
+  revalidatePath("/postal-codes", "layout");
+}
+
+/**
+ * Insert or overwrite metric values for postal codes of one granularity.
+ * Existing values of other codes and metrics are left untouched. Balancing
+ * in every area reads these values, so only admins change them.
+ */
+export async function importPostalCodeMetricsAction(
+  granularity: string,
+  rows: PostalCodeMetricRow[]
+): ServerActionResponse<{ metrics: string[]; values: number }> {
+  try {
+    await requireAdmin();
+
+    if (!GRANULARITY_OPTIONS.some((option) => option.value === granularity)) {
+      return { success: false, error: "Invalid granularity" };
+    }
+
+    const now = new Date().toISOString();
+    const values = rows.flatMap((row) =>
+      Object.entries(row.values)
+        .filter(([metric, value]) => metric.trim() && Number.isFinite(value))
+        .map(([metric, value]) => ({
+          code: row.code,
+          granularity,
+          metric: metric.trim().slice(0, 100),
+          value,
+          updatedAt: now,
+        }))
+    );
+
+    if (values.length === 0) {
+      return { success: false, error: "No metric values to import" };
+    }
+
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < values.length; i += BATCH_SIZE) {
+        await tx
+          .insert(postalCodeMetrics)
+          .values(values.slice(i, i + BATCH_SIZE))
+          .onConflictDoUpdate({
+            target: [
+              postalCodeMetrics.granularity,
+              postalCodeMetrics.code,
+              postalCodeMetrics.metric,
+            ],
+            set: {
+              value: sql`excluded.value`,
+              updatedAt: now,
+            },
+          });
+      }
+    });
+
+    invalidateMetrics(granularity);
+
+    return {
+      success: true,
+      data: {
+        metrics: [...new Set(values.map((value) => value.metric))],
+        values: values.length,
+      },
+    };
+  } catch (error) {
+    console.error("Error importing postal code metrics:", error);
+    return { success: false, error: "Failed to import postal code metrics" };
+  }
+}
+
+export async function deletePostalCodeMetricAction(
+  granularity: string,
+  metric: string
+): ServerActionResponse {
+  try {
+    await requireAdmin();
+
+    await db
+      .delete(postalCodeMetrics)
+      .where(
+        and(
+          eq(postalCodeMetrics.granularity, granularity),
+          eq(postalCodeMetrics.metric, metric)
+        )
+      );
+
+    invalidateMetrics(granularity);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting postal code metric:", error);
+    return { success: false, error: "Failed to delete postal code metric" };
+  }
+}
@@ -0,0 +1,218 @@
+"use server";
+
+import { db } from "../../lib/db";
+import { requireAdmin, requireAreaRole } from "../../lib/auth/permissions";
+import { areaLayers, layerPeople, people } from "../../lib/schema/schema";
+import {
+  getLayerPersonAssignments,
+  replaceLayerPeople,
+} from "../../lib/db/layer-people";
+import {
+  isLayerPersonRole,
+  type LayerPersonAssignment,
+} from "../../lib/utils/layer-people";
+import { geomFromGeoJSONExpr } from "../../db/geoTypes";
+import { and, eq, sql } from "drizzle-orm";
+import { revalidatePath, updateTag } from "next/cache";
+import { geocodeAction } from "./area-actions";
+import { recordChangeAction } from "./change-tracking-actions";
+
+type ServerActionResponse<T = void> = Promise<{
+  success: boolean;
+  data?: T;
+  error?: string;
+}>;
+
+export interface PersonInput {
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+}
+
+function invalidatePeople() {
+  updateTag("people");
+  revalidatePath("/postal-codes", "layout");
+}
+
+/**
+ * Column values for a person; the home address is geocoded to a point,
+ * which stays empty if the address cannot be found
+ */
+async function toPersonValues(data: PersonInput) {
+  const address = data.address?.trim() || null;
+
+  let location = sql`NULL`;
+  let geocoded = false;
+
+  if (address) {
+    const result = await geocodeAction(address);
+    if (result.success && result.data) {
+      location = geomFromGeoJSONExpr({
+        type: "Point",
+        coordinates: [result.data.longitude, result.data.latitude],
+      });
+      geocoded = true;
+    }
+  }
+
+  return {
+    values: {
+      name: data.name.trim(),
+      email: data.email?.trim() || null,
+      phone: data.phone?.trim() || null,
+      address,
+      location,
+    },
+    geocoded,
+  };
+}
+
+/**
+ * Add a person to the directory. `geocoded` is false if an address was
+ * given but could not be located. The directory is shared by every area, so
+ * only admins manage it.
+ */
+export async function createPersonAction(
+  data: PersonInput
+): ServerActionResponse<{ id: number; geocoded: boolean }> {
+  try {
+    await requireAdmin();
+
+    if (!data.name.trim()) {
+      return { success: false, error: "Name is required" };
+    }
+
+    const { values, geocoded } = await toPersonValues(data);
+
+    const [person] = await db
+      .insert(people)
+      .values(values)
+      .returning({ id: people.id });
+
+    invalidatePeople();
+    return {
+      success: true,
+      data: { id: person.id, geocoded: geocoded || !values.address },
+    };
+  } catch (error) {
+    console.error("Error creating person:", error);
+    return { success: false, error: "Failed to create person" };
+  }
+}
+
+export async function updatePersonAction(
+  personId: number,
+  data: PersonInput
+): ServerActionResponse<{ geocoded: boolean }> {
+  try {
+    await requireAdmin();
+
+    if (!data.name.trim()) {
+      return { success: false, error: "Name is required" };
+    }
+
+    const { values, geocoded } = await toPersonValues(data);
+
+    await db
+      .update(people)
+      .set({ ...values, updatedAt: new Date().toISOString() })
+      .where(eq(people.id, personId));
+
+    invalidatePeople();
+    return { success: true, data: { geocoded: geocoded || !values.address } };
+  } catch (error) {
+    console.error("Error updating person:", error);
+    return { success: false, error: "Failed to update person" };
+  }
+}
+
+/**
+ * Remove a person from the directory. People still assigned to a layer are
+ * kept; they have to be unassigned in each area first, where the change can
+ * be undone.
+ */
+export async function deletePersonAction(
+  personId: number
+): ServerActionResponse {
+  try {
+    await requireAdmin();
+
+    const assigned = await db.query.layerPeople.findFirst({
+      columns: { id: true },
+      where: eq(layerPeople.personId, personId),
+    });
+
+    if (assigned) {
+      return { success: false, error: "Person is still assigned to layers" };
+    }
+
+    await db.delete(people).where(eq(people.id, personId));
+
+    invalidatePeople();
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting person:", error);
+    return { success: false, error: "Failed to delete person" };
+  }
+}
+
+/**
+ * Replace the people assigned to a layer, recorded as an undoable
+ * update_layer change
+ */
+export async function setLayerPeopleAction(
+  areaId: number,
+  layerId: number,
+  assignments: LayerPersonAssignment[]
+): ServerActionResponse {
+  try {
+    await requireAreaRole(areaId, "editor");
+
+    if (!assignments.every((assignment) => isLayerPersonRole(assignment.role))) {
+      return { success: false, error: "Invalid role" };
+    }
+
+    // One role per person
+    const nextPeople = assignments.filter(
+      (assignment, index) =>
+        assignments.findIndex((a) => a.personId === assignment.personId) ===
+        index
+    );
+
+    const previousPeople = await db.transaction(async (tx) => {
+      const layer = await tx.query.areaLayers.findFirst({
+        columns: { id: true },
+        where: and(eq(areaLayers.id, layerId), eq(areaLayers.areaId, areaId)),
+      });
+
+      if (!layer) {
+        throw new Error("Layer not found");
+      }
+
+      const previous = await getLayerPersonAssignments(tx, layerId);
+      await replaceLayerPeople(tx, layerId, nextPeople);
+
+      return previous;
+    });
+
+    await recordChangeAction(areaId, {
+      changeType: "update_layer",
+      entityType: "layer",
+      entityId: layerId,
+      changeData: { people: nextPeople },
+      previousData: { people: previousPeople },
+    });
+
+    updateTag("layers");
+    updateTag(`area-${areaId}-layers`);
+    updateTag(`area-${areaId}`);
+    updateTag("undo-redo");
+    updateTag(`area-${areaId}-undo-redo`);
+    revalidatePath("/postal-codes", "layout");
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating layer people:", error);
+    return { success: false, error: "Failed to update layer people" };
+  }
+}
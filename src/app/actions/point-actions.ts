@@ -0,0 +1,269 @@
+"use server";
+
+import { db } from "../../lib/db";
+import { requireUser } from "../../lib/auth/session";
+import { isAdmin, requireAreaRole } from "../../lib/auth/permissions";
+import { deletePointDatasets } from "../../lib/db/point-datasets";
+import {
+  dataPoints,
+  geocodeJobItems,
+  geocodeJobs,
+  pointDatasets,
+} from "../../lib/schema/schema";
+import {
+  isGeocodeJobFinished,
+  POINT_DATASET_COLORS,
+  type GeocodeJobProgress,
+  type GeocodeJobStatus,
+} from "../../lib/utils/data-points";
+import type { PointImportRow } from "../../lib/utils/excel-parser";
+import { startGeocodeQueue } from "../../lib/geocoding/queue";
+import { geomFromGeoJSONExpr } from "../../db/geoTypes";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { revalidatePath, updateTag } from "next/cache";
+import { after } from "next/server";
+
+type ServerActionResponse<T = void> = Promise<{
+  success: boolean;
+  data?: T;
+  error?: string;
+}>;
+
+const BATCH_SIZE = 1000;
+
+function invalidateDataPoints() {
+  updateTag("data-points");
+  revalidatePath("/postal-codes", "layout");
+}
+
+/**
+ * Editors of its area manage a dataset. Datasets imported before they were
+ * scoped to an area have none and are left to admins.
+ */
+async function requireDatasetEditor(datasetId: number) {
+  const dataset = await db.query.pointDatasets.findFirst({
+    columns: { areaId: true },
+    where: eq(pointDatasets.id, datasetId),
+  });
+
+  if (!dataset) {
+    throw new Error(`Point dataset ${datasetId} not found`);
+  }
+
+  if (dataset.areaId === null) {
+    const user = await requireUser();
+    if (!isAdmin(user)) {
+      throw new Error(`Point dataset ${datasetId} requires an admin`);
+    }
+    return;
+  }
+
+  await requireAreaRole(dataset.areaId, "editor");
+}
+
+/**
+ * Import a point dataset into an area. Rows with coordinates are stored right
+ * away; rows with only an address go into a geocoding job that runs in the
+ * background and adds their points as it resolves them.
+ */
+export async function importDataPointsAction(data: {
+  areaId: number;
+  name: string;
+  rows: PointImportRow[];
+}): ServerActionResponse<{
+  datasetId: number;
+  imported: number;
+  queued: number;
+  jobId: number | null;
+}> {
+  try {
+    const user = await requireAreaRole(data.areaId, "editor");
+
+    if (!data.name.trim()) {
+      return { success: false, error: "Name is required" };
+    }
+
+    const located = data.rows.flatMap((row) =>
+      row.latitude !== null && row.longitude !== null
+        ? [{ ...row, latitude: row.latitude, longitude: row.longitude }]
+        : []
+    );
+    const toGeocode = data.rows.flatMap((row) =>
+      (row.latitude === null || row.longitude === null) && row.address
+        ? [{ ...row, address: row.address }]
+        : []
+    );
+
+    if (located.length === 0 && toGeocode.length === 0) {
+      return { success: false, error: "No points to import" };
+    }
+
+    const { datasetId, jobId } = await db.transaction(async (tx) => {
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(pointDatasets)
+        .where(eq(pointDatasets.areaId, data.areaId));
+
+      const [dataset] = await tx
+        .insert(pointDatasets)
+        .values({
+          areaId: data.areaId,
+          name: data.name.trim(),
+          color: POINT_DATASET_COLORS[count % POINT_DATASET_COLORS.length],
+        })
+        .returning({ id: pointDatasets.id });
+
+      for (let i = 0; i < located.length; i += BATCH_SIZE) {
+        await tx.insert(dataPoints).values(
+          located.slice(i, i + BATCH_SIZE).map((row) => ({
+            datasetId: dataset.id,
+            name: row.name?.slice(0, 255) ?? null,
+            address: row.address,
+            location: geomFromGeoJSONExpr({
+              type: "Point",
+              coordinates: [row.longitude, row.latitude],
+            }),
+            properties: row.properties,
+          }))
+        );
+      }
+
+      if (toGeocode.length === 0) {
+        return { datasetId: dataset.id, jobId: null };
+      }
+
+      const [job] = await tx
+        .insert(geocodeJobs)
+        .values({
+          datasetId: dataset.id,
+          total: toGeocode.length,
+          createdBy: user.id,
+        })
+        .returning({ id: geocodeJobs.id });
+
+      for (let i = 0; i < toGeocode.length; i += BATCH_SIZE) {
+        await tx.insert(geocodeJobItems).values(
+          toGeocode.slice(i, i + BATCH_SIZE).map((row) => ({
+            jobId: job.id,
+            name: row.name?.slice(0, 255) ?? null,
+            address: row.address,
+            properties: row.properties,
+          }))
+        );
+      }
+
+      return { datasetId: dataset.id, jobId: job.id };
+    });
+
+    if (jobId !== null) {
+      after(() => startGeocodeQueue());
+    }
+
+    invalidateDataPoints();
+    return {
+      success: true,
+      data: {
+        datasetId,
+        imported: located.length,
+        queued: toGeocode.length,
+        jobId,
+      },
+    };
+  } catch (error) {
+    console.error("Error importing data points:", error);
+    return { success: false, error: "Failed to import data points" };
+  }
+}
+
+/**
+ * Progress of a geocoding job. Polled by the import progress UI; resumes the
+ * queue if the server restarted while the job was unfinished, and refreshes
+ * the map data once the job is done.
+ */
+export async function getGeocodeJobAction(
+  jobId: number
+): ServerActionResponse<GeocodeJobProgress> {
+  try {
+    await requireUser();
+
+    const [job] = await db
+      .select({
+        id: geocodeJobs.id,
+        status: geocodeJobs.status,
+        total: geocodeJobs.total,
+        processed: geocodeJobs.processed,
+        failed: geocodeJobs.failed,
+        error: geocodeJobs.error,
+      })
+      .from(geocodeJobs)
+      .where(eq(geocodeJobs.id, jobId));
+
+    if (!job) {
+      return { success: false, error: "Geocode job not found" };
+    }
+
+    const progress = { ...job, status: job.status as GeocodeJobStatus };
+    if (isGeocodeJobFinished(progress)) {
+      invalidateDataPoints();
+    } else {
+      after(() => startGeocodeQueue());
+    }
+
+    return { success: true, data: progress };
+  } catch (error) {
+    console.error("Error fetching geocode job:", error);
+    return { success: false, error: "Failed to fetch geocode job" };
+  }
+}
+
+/**
+ * Stop a geocoding job; points found so far are kept
+ */
+export async function cancelGeocodeJobAction(
+  jobId: number
+): ServerActionResponse {
+  try {
+    const [job] = await db
+      .select({ datasetId: geocodeJobs.datasetId })
+      .from(geocodeJobs)
+      .where(eq(geocodeJobs.id, jobId));
+
+    if (!job) {
+      return { success: false, error: "Geocode job not found" };
+    }
+
+    await requireDatasetEditor(job.datasetId);
+
+    await db
+      .update(geocodeJobs)
+      .set({ status: "cancelled", updatedAt: sql`now()` })
+      .where(
+        and(
+          eq(geocodeJobs.id, jobId),
+          inArray(geocodeJobs.status, ["pending", "running"])
+        )
+      );
+
+    invalidateDataPoints();
+    return { success: true };
+  } catch (error) {
+    console.error("Error cancelling geocode job:", error);
+    return { success: false, error: "Failed to cancel geocode job" };
+  }
+}
+
+export async function deletePointDatasetAction(
+  datasetId: number
+): ServerActionResponse {
+  try {
+    await requireDatasetEditor(datasetId);
+
+    await db.transaction((tx) => deletePointDatasets(tx, [datasetId]));
+
+    invalidateDataPoints();
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting point dataset:", error);
+    return { success: false, error: "Failed to delete point dataset" };
+  }
+}
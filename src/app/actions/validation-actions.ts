@@ -0,0 +1,250 @@
+"use server";
+
+import { db } from "../../lib/db";
+import { requireAreaRole } from "../../lib/auth/permissions";
+import { areaLayerPostalCodes, areaLayers, areas } from "../../lib/schema/schema";
+import {
+  findLayerIssues,
+  type LayerIssue,
+} from "../../lib/utils/layer-validation";
+import { eq, sql } from "drizzle-orm";
+import { revalidatePath, updateTag } from "next/cache";
+import {
+  createChangeGroup,
+  formatLayersGroupLabel,
+} from "../../lib/utils/change-groups";
+import { recordChangeAction } from "./change-tracking-actions";
+
+type ServerActionResponse<T = void> = Promise<{
+  success: boolean;
+  data?: T;
+  error?: string;
+}>;
+
+export interface LayerIssueWithBounds extends LayerIssue {
+  // [minLng, minLat, maxLng, maxLat]
+  bbox: [number, number, number, number];
+}
+
+/**
+ * Load the area's layers and the full neighbor lists (touching polygons)
+ * of every assigned postal code and of the unassigned codes bordering them
+ */
+async function getAreaIssues(areaId: number) {
+  const area = await db.query.areas.findFirst({
+    where: eq(areas.id, areaId),
+  });
+
+  if (!area) {
+    return null;
+  }
+
+  const layers = await db.query.areaLayers.findMany({
+    where: eq(areaLayers.areaId, areaId),
+    with: { postalCodes: true },
+  });
+
+  const { rows } = await db.execute(
+    sql`
+      WITH assigned AS (
+        SELECT DISTINCT pc.postal_code AS code
+        FROM area_layer_postal_codes pc
+        JOIN area_layers l ON l.id = pc.layer_id
+        WHERE l.area_id = ${areaId}
+      ),
+      ring AS (
+        SELECT code FROM assigned
+        UNION
+        SELECT b.code
+        FROM postal_codes a
+        JOIN postal_codes b
+          ON b.granularity = a.granularity
+          AND ST_Touches(a.geometry, b.geometry)
+        WHERE a.granularity = ${area.granularity}
+          AND a.code IN (SELECT code FROM assigned)
+      )
+      SELECT p.code, COALESCE(array_agg(b.code) FILTER (WHERE b.code IS NOT NULL), '{}') AS neighbors
+      FROM postal_codes p
+      LEFT JOIN postal_codes b
+        ON b.granularity = p.granularity
+        AND b.code <> p.code
+        AND ST_Touches(p.geometry, b.geometry)
+      WHERE p.granularity = ${area.granularity}
+        AND p.code IN (SELECT code FROM ring)
+      GROUP BY p.code
+    `
+  );
+
+  const neighbors = new Map(
+    (rows as { code: string; neighbors: string[] }[]).map((row) => [
+      row.code,
+      row.neighbors,
+    ])
+  );
+
+  const issues = findLayerIssues(
+    layers.map((layer) => ({
+      id: layer.id,
+      name: layer.name,
+      postalCodes: layer.postalCodes.map((pc) => pc.postalCode),
+    })),
+    neighbors
+  );
+
+  return { area, layers, issues };
+}
+
+/**
+ * Check the area's layers for exclaves, enclaves and unassigned holes
+ */
+export async function validateAreaLayersAction(
+  areaId: number
+): ServerActionResponse<LayerIssueWithBounds[]> {
+  try {
+    await requireAreaRole(areaId, "viewer", { allowArchived: true });
+
+    const result = await getAreaIssues(areaId);
+    if (!result) {
+      return { success: false, error: "Area not found" };
+    }
+
+    const { area, issues } = result;
+    const codes = [...new Set(issues.flatMap((issue) => issue.codes))];
+
+    if (codes.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const { rows } = await db.execute(
+      sql`
+        SELECT
+          code,
+          ST_XMin(geometry) AS "minLng",
+          ST_YMin(geometry) AS "minLat",
+          ST_XMax(geometry) AS "maxLng",
+          ST_YMax(geometry) AS "maxLat"
+        FROM postal_codes
+        WHERE granularity = ${area.granularity}
+          AND code IN (${sql.join(
+            codes.map((code) => sql`${code}`),
+            sql`, `
+          )})
+      `
+    );
+
+    type BoundsRow = {
+      code: string;
+      minLng: number;
+      minLat: number;
+      maxLng: number;
+      maxLat: number;
+    };
+    const bounds = new Map(
+      (rows as BoundsRow[]).map((row) => [row.code, row])
+    );
+
+    return {
+      success: true,
+      data: issues.map((issue) => {
+        const boxes = issue.codes
+          .map((code) => bounds.get(code))
+          .filter((box): box is BoundsRow => box !== undefined);
+
+        return {
+          ...issue,
+          bbox: [
+            Math.min(...boxes.map((box) => box.minLng)),
+            Math.min(...boxes.map((box) => box.minLat)),
+            Math.max(...boxes.map((box) => box.maxLng)),
+            Math.max(...boxes.map((box) => box.maxLat)),
+          ],
+        };
+      }),
+    };
+  } catch (error) {
+    console.error("Error validating area layers:", error);
+    return { success: false, error: "Failed to validate area layers" };
+  }
+}
+
+/**
+ * Add every unassigned hole to the layer surrounding it. One change per
+ * layer is recorded in a single group, so the fix is undone in one step.
+ */
+export async function assignHolesAction(
+  areaId: number
+): ServerActionResponse<{ assignedCodes: number }> {
+  try {
+    await requireAreaRole(areaId, "editor");
+
+    const result = await getAreaIssues(areaId);
+    if (!result) {
+      return { success: false, error: "Area not found" };
+    }
+
+    const holesByLayer = new Map<number, string[]>();
+    for (const issue of result.issues) {
+      if (issue.type !== "hole") continue;
+      holesByLayer.set(issue.layerId, [
+        ...(holesByLayer.get(issue.layerId) ?? []),
+        ...issue.codes,
+      ]);
+    }
+
+    const holes = [...holesByLayer].flatMap(([layerId, codes]) => {
+      const layer = result.layers.find((l) => l.id === layerId);
+      return layer ? [{ layer, codes }] : [];
+    });
+
+    // One transaction, so a failure part way leaves no hole half assigned
+    await db.transaction(async (tx) => {
+      for (const { layer, codes } of holes) {
+        await tx.insert(areaLayerPostalCodes).values(
+          codes.map((code) => ({
+            layerId: layer.id,
+            postalCode: code,
+          }))
+        );
+      }
+    });
+
+    const group = createChangeGroup(
+      formatLayersGroupLabel(
+        "Lücken geschlossen",
+        holes.map(({ codes }) => ({ postalCodes: codes }))
+      )
+    );
+
+    let assignedCodes = 0;
+
+    for (const { layer, codes } of holes) {
+      await recordChangeAction(areaId, {
+        changeType: "add_postal_codes",
+        entityType: "postal_code",
+        entityId: layer.id,
+        changeData: {
+          postalCodes: codes,
+          layerId: layer.id,
+          source: "assign_holes",
+        },
+        previousData: {
+          postalCodes: layer.postalCodes.map((pc) => pc.postalCode),
+        },
+        group,
+      });
+
+      assignedCodes += codes.length;
+    }
+
+    revalidatePath("/postal-codes", "layout");
+    updateTag("layers");
+    updateTag(`area-${areaId}-layers`);
+    updateTag(`area-${areaId}`);
+    updateTag("undo-redo");
+    updateTag(`area-${areaId}-undo-redo`);
+    return { success: true, data: { assignedCodes } };
+  } catch (error) {
+    console.error("Error assigning holes:", error);
+    return { success: false, error: "Failed to assign holes" };
+  }
+}
@@ -2,17 +2,38 @@
 
 import { db } from "../../lib/db";
 
+import { requireAreaRole } from "../../lib/auth/permissions";
+
 import {
   areaVersions,
   areas,
   areaLayers,
   areaLayerPostalCodes,
   areaChanges,
+  layerPeople,
 } from "../../lib/schema/schema";
 
-import { eq, and, inArray, sql } from "drizzle-orm";
+import { eq, and, inArray } from "drizzle-orm";
+
+import {
+  clearUndoRedoStacksAction,
+  type Transaction,
+} from "./change-tracking-actions";
+
+import type { VersionSnapshot } from "../../lib/types/area-types";
+
+import {
+  countPendingChanges,
+  createAreaVersion,
+} from "../../lib/db/area-versions";
+
+import { replaceLayerPeople } from "../../lib/db/layer-people";
 
-import { clearUndoRedoStacksAction } from "./change-tracking-actions";
+import {
+  mergeSnapshots,
+  type MergeConflict,
+  type MergeResolution,
+} from "../../lib/utils/version-merge";
 
 import { revalidatePath, updateTag } from "next/cache";
 
@@ -24,21 +45,6 @@ type ServerActionResponse<T = void> = Promise<{
   error?: string;
 }>;
 
-interface VersionSnapshot {
-  areaName: string;
-  description: string | null;
-  granularity: string;
-  layers: Array<{
-    id: number;
-    name: string;
-    color: string;
-    opacity: number;
-    isVisible: string;
-    orderIndex: number;
-    postalCodes: string[];
-  }>;
-}
-
 // ===============================
 
 // VERSION CREATION
@@ -59,159 +65,17 @@ export async function createVersionAction(
 
     changesSummary?: string;
 
-    createdBy?: string;
-
     branchName?: string;
 
     fromVersionId?: number; // If branching from a specific version
   },
 ): ServerActionResponse<{ areaId: number; versionNumber: number }> {
   try {
-    const result = await db.transaction(async (tx) => {
-      // Get current area with all layers and postal codes
-
-      const area = await tx.query.areas.findFirst({
-        where: eq(areas.id, areaId),
-
-        with: {
-          layers: {
-            with: {
-              postalCodes: true,
-            },
-
-            orderBy: (layers, { asc }) => [asc(layers.orderIndex)],
-          },
-        },
-      });
-
-      if (!area) {
-        throw new Error("Area not found");
-      }
-
-      // Get change count since last version or from start
-
-      const changeCount = await tx
-
-        .select({ count: sql<number>`count(*)` })
-
-        .from(areaChanges)
-
-        .where(
-          and(
-            eq(areaChanges.areaId, areaId),
-
-            data.fromVersionId
-              ? eq(areaChanges.versionAreaId, data.fromVersionId)
-              : eq(areaChanges.versionAreaId, sql`NULL`),
-          ),
-        );
-
-      // Create snapshot
-
-      const snapshot = {
-        areaName: area.name,
-
-        description: area.description,
-
-        granularity: area.granularity,
-
-        layers: area.layers.map((layer) => ({
-          id: layer.id,
-
-          name: layer.name,
-
-          color: layer.color,
-
-          opacity: layer.opacity,
-
-          isVisible: layer.isVisible,
-
-          orderIndex: layer.orderIndex,
-
-          postalCodes: layer.postalCodes?.map((pc) => pc.postalCode) || [],
-        })),
-      };
-
-      // Deactivate all previous versions for this area
-
-      await tx
-
-        .update(areaVersions)
-
-        .set({ isActive: "false" })
-
-        .where(eq(areaVersions.areaId, areaId));
-
-      // Create the version - versionNumber will be auto-generated by trigger
-
-      const [version] = await tx
-
-        .insert(areaVersions)
-
-        .values({
-          areaId,
-
-          // versionNumber will be auto-generated by trigger - don't pass it
-
-          name: data.name,
-
-          description: data.description,
-
-          snapshot,
-
-          changesSummary: data.changesSummary,
-
-          parentVersionAreaId: null, // Will be set when branching
-
-          parentVersionNumber: null, // Will be set when branching
-
-          branchName: data.branchName,
-
-          isActive: "true",
-
-          changeCount: changeCount[0]?.count || 0,
+    const user = await requireAreaRole(areaId, "editor");
 
-          createdBy: data.createdBy,
-        })
-
-        .returning();
-
-      // Update area's current version
-
-      await tx
-
-        .update(areas)
-
-        .set({ currentVersionNumber: version.versionNumber })
-
-        .where(eq(areas.id, areaId));
+    // Snapshots the area, adopts uncommitted changes and clears undo/redo
 
-      // Update all uncommitted changes to be associated with this version
-
-      await tx
-
-        .update(areaChanges)
-
-        .set({
-          versionAreaId: version.areaId,
-
-          versionNumber: version.versionNumber,
-        })
-
-        .where(
-          and(
-            eq(areaChanges.areaId, areaId),
-
-            eq(areaChanges.versionAreaId, sql`NULL`),
-          ),
-        );
-
-      return { areaId: version.areaId, versionNumber: version.versionNumber };
-    });
-
-    // Clear undo/redo stacks after creating version
-
-    await clearUndoRedoStacksAction(areaId);
+    const result = await createAreaVersion(areaId, data, user.email);
 
     updateTag("versions");
     updateTag(`area-${areaId}-versions`);
@@ -232,47 +96,44 @@ export async function createVersionAction(
 }
 
 /**
- * Auto-save current state as a version
+ * Auto-save current state as a version. Auto-saves are subject to the
+ * area's retention rules, see version-policy-actions.
  */
 
 export async function autoSaveVersionAction(
   areaId: number,
-
-  createdBy?: string,
 ): ServerActionResponse<{ areaId: number; versionNumber: number }> {
   try {
-    // Check if there are any uncommitted changes
-
-    const uncommittedChanges = await db
+    const user = await requireAreaRole(areaId, "editor");
 
-      .select({ count: sql<number>`count(*)` })
-
-      .from(areaChanges)
+    // Check if there are any uncommitted changes
 
-      .where(
-        and(
-          eq(areaChanges.areaId, areaId),
+    const { count } = await countPendingChanges(areaId);
 
-          eq(areaChanges.versionAreaId, sql`NULL`),
-        ),
-      );
-
-    if (uncommittedChanges[0]?.count === 0) {
+    if (count === 0) {
       return { success: false, error: "No changes to save" };
     }
 
-    const result = await createVersionAction(areaId, {
-      name: `Auto-save ${new Date().toLocaleString()}`,
+    const result = await createAreaVersion(
+      areaId,
 
-      changesSummary: `Auto-saved with ${uncommittedChanges[0].count} changes`,
+      {
+        name: `Auto-save ${new Date().toLocaleString("de-DE")}`,
 
-      createdBy,
-    });
+        changesSummary: `Auto-saved with ${count} changes`,
+
+        isAutoSave: true,
+      },
+
+      user.email,
+    );
 
     updateTag("versions");
     updateTag(`area-${areaId}-versions`);
+    updateTag(`area-${areaId}`);
+    updateTag("undo-redo-status");
     revalidatePath('/postal-codes', 'layout');
-    return result;
+    return { success: true, data: result };
   } catch (error) {
     console.error("Error auto-saving version:", error);
 
@@ -294,6 +155,8 @@ export async function getVersionsAction(
   areaId: number,
 ): ServerActionResponse<unknown[]> {
   try {
+    await requireAreaRole(areaId, "viewer");
+
     const versions = await db.query.areaVersions.findMany({
       where: eq(areaVersions.areaId, areaId),
 
@@ -319,6 +182,8 @@ export async function getVersionAction(
   versionNumber: number,
 ): ServerActionResponse<unknown> {
   try {
+    await requireAreaRole(areaId, "viewer");
+
     const version = await db.query.areaVersions.findFirst({
       where: and(
         eq(areaVersions.areaId, areaId),
@@ -340,122 +205,163 @@ export async function getVersionAction(
   }
 }
 
-// ===============================
-
-// VERSION RESTORATION & BRANCHING
-
-// ===============================
-
 /**
- * Restore a version as the current working state (creates a new branch)
+ * Replace the area's layers and properties with the contents of a snapshot
  */
 
-export async function restoreVersionAction(
+async function replaceAreaState(
+  tx: Transaction,
+
   areaId: number,
 
-  versionNumber: number,
+  snapshot: VersionSnapshot,
+) {
+  // Delete all current layers
 
-  options?: {
-    createBranch?: boolean;
+  const currentLayers = await tx
 
-    branchName?: string;
+    .select({ id: areaLayers.id })
 
-    createdBy?: string;
-  },
-): ServerActionResponse<{ newVersionNumber?: number }> {
-  try {
-    const result = await db.transaction(async (tx) => {
-      // Get the version to restore
+    .from(areaLayers)
 
-      const version = await tx.query.areaVersions.findFirst({
-        where: and(
-          eq(areaVersions.areaId, areaId),
+    .where(eq(areaLayers.areaId, areaId));
 
-          eq(areaVersions.versionNumber, versionNumber),
-        ),
-      });
+  if (currentLayers.length > 0) {
+    const layerIds = currentLayers.map((l) => l.id);
 
-      if (!version) {
-        throw new Error("Version not found");
-      }
+    // Use inArray instead of ANY for proper Drizzle syntax
 
-      const snapshot = version.snapshot as VersionSnapshot;
+    await tx
 
-      // Delete all current layers
+      .delete(areaLayerPostalCodes)
 
-      const currentLayers = await tx
+      .where(inArray(areaLayerPostalCodes.layerId, layerIds));
 
-        .select({ id: areaLayers.id })
+    await tx.delete(layerPeople).where(inArray(layerPeople.layerId, layerIds));
 
-        .from(areaLayers)
+    await tx.delete(areaLayers).where(eq(areaLayers.areaId, areaId));
+  }
 
-        .where(eq(areaLayers.areaId, areaId));
+  // Restore layers from snapshot exactly as saved. The conflict policy only
+  // governs edits; a restore must not rewrite or reject the snapshot
 
-      if (currentLayers.length > 0) {
-        const layerIds = currentLayers.map((l) => l.id);
+  // Restored layers get new ids; the hierarchy is relinked afterwards
 
-        // Use inArray instead of ANY for proper Drizzle syntax
+  const restoredIds = new Map<number, number>();
 
-        await tx
+  for (const layerData of snapshot.layers) {
+    const [layer] = await tx
 
-          .delete(areaLayerPostalCodes)
+      .insert(areaLayers)
 
-          .where(inArray(areaLayerPostalCodes.layerId, layerIds));
+      .values({
+        areaId,
 
-        await tx.delete(areaLayers).where(eq(areaLayers.areaId, areaId));
-      }
+        name: layerData.name,
 
-      // Restore layers from snapshot
+        color: layerData.color,
 
-      for (const layerData of snapshot.layers) {
-        const [layer] = await tx
+        opacity: layerData.opacity,
 
-          .insert(areaLayers)
+        isVisible: layerData.isVisible,
 
-          .values({
-            areaId,
+        orderIndex: layerData.orderIndex,
+      })
 
-            name: layerData.name,
+      .returning();
 
-            color: layerData.color,
+    restoredIds.set(layerData.id, layer.id);
 
-            opacity: layerData.opacity,
+    // Restore postal codes
 
-            isVisible: layerData.isVisible,
+    if (layerData.postalCodes?.length > 0) {
+      await tx.insert(areaLayerPostalCodes).values(
+        layerData.postalCodes.map((code: string) => ({
+          layerId: layer.id,
 
-            orderIndex: layerData.orderIndex,
-          })
+          postalCode: code,
+        })),
+      );
+    }
 
-          .returning();
+    await replaceLayerPeople(tx, layer.id, layerData.people);
+  }
 
-        // Restore postal codes
+  for (const layerData of snapshot.layers) {
+    const parentId = layerData.parentLayerId
+      ? restoredIds.get(layerData.parentLayerId)
+      : undefined;
 
-        if (layerData.postalCodes?.length > 0) {
-          await tx.insert(areaLayerPostalCodes).values(
-            layerData.postalCodes.map((code: string) => ({
-              layerId: layer.id,
+    if (parentId !== undefined) {
+      await tx
 
-              postalCode: code,
-            })),
-          );
-        }
-      }
+        .update(areaLayers)
 
-      // Update area properties if they changed
+        .set({ parentLayerId: parentId })
 
-      await tx
+        .where(eq(areaLayers.id, restoredIds.get(layerData.id)!));
+    }
+  }
 
-        .update(areas)
+  // Update area properties if they changed
 
-        .set({
-          name: snapshot.areaName,
+  await tx
 
-          description: snapshot.description,
+    .update(areas)
 
-          granularity: snapshot.granularity,
-        })
+    .set({
+      name: snapshot.areaName,
 
-        .where(eq(areas.id, areaId));
+      description: snapshot.description,
+
+      granularity: snapshot.granularity,
+    })
+
+    .where(eq(areas.id, areaId));
+}
+
+// ===============================
+
+// VERSION RESTORATION & BRANCHING
+
+// ===============================
+
+/**
+ * Restore a version as the current working state (creates a new branch)
+ */
+
+export async function restoreVersionAction(
+  areaId: number,
+
+  versionNumber: number,
+
+  options?: {
+    createBranch?: boolean;
+
+    branchName?: string;
+  },
+): ServerActionResponse<{ newVersionNumber?: number }> {
+  try {
+    const user = await requireAreaRole(areaId, "editor");
+
+    const result = await db.transaction(async (tx) => {
+      // Get the version to restore
+
+      const version = await tx.query.areaVersions.findFirst({
+        where: and(
+          eq(areaVersions.areaId, areaId),
+
+          eq(areaVersions.versionNumber, versionNumber),
+        ),
+      });
+
+      if (!version) {
+        throw new Error("Version not found");
+      }
+
+      const snapshot = version.snapshot as VersionSnapshot;
+
+      await replaceAreaState(tx, areaId, snapshot);
 
       // Create a new version if branching
 
@@ -489,7 +395,7 @@ export async function restoreVersionAction(
 
             changeCount: 0,
 
-            createdBy: options.createdBy,
+            createdBy: user.email,
           })
 
           .returning();
@@ -544,6 +450,8 @@ export async function deleteVersionAction(
   versionNumber: number,
 ): ServerActionResponse {
   try {
+    await requireAreaRole(areaId, "owner");
+
     await db.transaction(async (tx) => {
       // Check if this is the active version
 
@@ -632,6 +540,12 @@ export async function compareVersionsAction(
   postalCodesRemoved: string[];
 }> {
   try {
+    await Promise.all([
+      requireAreaRole(areaId1, "viewer"),
+
+      requireAreaRole(areaId2, "viewer"),
+    ]);
+
     const [version1, version2] = await Promise.all([
       db.query.areaVersions.findFirst({
         where: and(
@@ -725,3 +639,255 @@ export async function compareVersionsAction(
     return { success: false, error: "Failed to compare versions" };
   }
 }
+
+// ===============================
+
+// VERSION MERGING
+
+// ===============================
+
+interface VersionMergeData {
+  baseVersionNumber: number;
+
+  conflicts: MergeConflict[];
+
+  autoAppliedPostalCodes: number;
+}
+
+/**
+ * Find the closest common ancestor of two versions by walking their parent
+ * chains. Versions saved before parents were tracked fall back to the
+ * preceding version number.
+ */
+
+function findCommonAncestor(
+  versions: Array<{ versionNumber: number; parentVersionNumber: number | null }>,
+
+  versionNumber1: number,
+
+  versionNumber2: number,
+): number | null {
+  const byNumber = new Map(versions.map((v) => [v.versionNumber, v]));
+
+  const ancestry = (versionNumber: number) => {
+    const chain: number[] = [];
+
+    let current = byNumber.get(versionNumber);
+
+    while (current && !chain.includes(current.versionNumber)) {
+      chain.push(current.versionNumber);
+
+      current = byNumber.get(
+        current.parentVersionNumber ?? current.versionNumber - 1,
+      );
+    }
+
+    return chain;
+  };
+
+  const ancestors1 = new Set(ancestry(versionNumber1));
+
+  return ancestry(versionNumber2).find((v) => ancestors1.has(v)) ?? null;
+}
+
+/**
+ * Three-way merge two versions of an area. Returns the merged snapshot along
+ * with the conflicts that need a resolution.
+ */
+
+async function computeVersionMerge(
+  areaId: number,
+
+  localVersionNumber: number,
+
+  remoteVersionNumber: number,
+
+  resolutions?: Record<string, MergeResolution>,
+) {
+  const versions = await db.query.areaVersions.findMany({
+    where: eq(areaVersions.areaId, areaId),
+  });
+
+  const local = versions.find((v) => v.versionNumber === localVersionNumber);
+
+  const remote = versions.find((v) => v.versionNumber === remoteVersionNumber);
+
+  if (!local || !remote) {
+    throw new Error("One or both versions not found");
+  }
+
+  const baseVersionNumber = findCommonAncestor(
+    versions,
+
+    localVersionNumber,
+
+    remoteVersionNumber,
+  );
+
+  const base = versions.find((v) => v.versionNumber === baseVersionNumber);
+
+  if (!base) {
+    throw new Error("No common ancestor found");
+  }
+
+  return {
+    local,
+
+    baseVersionNumber: base.versionNumber,
+
+    ...mergeSnapshots(
+      base.snapshot as VersionSnapshot,
+
+      local.snapshot as VersionSnapshot,
+
+      remote.snapshot as VersionSnapshot,
+
+      resolutions,
+    ),
+  };
+}
+
+/**
+ * Preview a merge: the common ancestor, the number of postal code changes
+ * that apply automatically and the conflicts to resolve
+ */
+
+export async function previewVersionMergeAction(
+  areaId: number,
+
+  localVersionNumber: number,
+
+  remoteVersionNumber: number,
+): ServerActionResponse<VersionMergeData> {
+  try {
+    await requireAreaRole(areaId, "editor");
+
+    const { baseVersionNumber, conflicts, autoAppliedPostalCodes } =
+      await computeVersionMerge(areaId, localVersionNumber, remoteVersionNumber);
+
+    return {
+      success: true,
+
+      data: { baseVersionNumber, conflicts, autoAppliedPostalCodes },
+    };
+  } catch (error) {
+    console.error("Error previewing version merge:", error);
+
+    return {
+      success: false,
+
+      error:
+        error instanceof Error ? error.message : "Failed to preview merge",
+    };
+  }
+}
+
+/**
+ * Merge the remote version into the local one. Every conflict must have a
+ * resolution; the result becomes the working state and a new version on the
+ * local version's branch.
+ */
+
+export async function mergeVersionsAction(
+  areaId: number,
+
+  localVersionNumber: number,
+
+  remoteVersionNumber: number,
+
+  resolutions: Record<string, MergeResolution> = {},
+): ServerActionResponse<{ versionNumber: number }> {
+  try {
+    const user = await requireAreaRole(areaId, "editor");
+
+    const { local, baseVersionNumber, conflicts, snapshot } =
+      await computeVersionMerge(
+        areaId,
+
+        localVersionNumber,
+
+        remoteVersionNumber,
+
+        resolutions,
+      );
+
+    if (conflicts.some((conflict) => !resolutions[conflict.field])) {
+      return { success: false, error: "Unresolved merge conflicts" };
+    }
+
+    const result = await db.transaction(async (tx) => {
+      await replaceAreaState(tx, areaId, snapshot);
+
+      await tx
+
+        .update(areaVersions)
+
+        .set({ isActive: "false" })
+
+        .where(eq(areaVersions.areaId, areaId));
+
+      // versionNumber will be auto-generated by trigger
+
+      const [version] = await tx
+
+        .insert(areaVersions)
+
+        .values({
+          areaId,
+
+          name: `Merge v${remoteVersionNumber} → v${localVersionNumber}`,
+
+          description: `Merged version ${remoteVersionNumber} into ${localVersionNumber} (common ancestor ${baseVersionNumber})`,
+
+          snapshot,
+
+          changesSummary: `${conflicts.length} conflicts resolved`,
+
+          parentVersionAreaId: local.areaId,
+
+          parentVersionNumber: local.versionNumber,
+
+          branchName: local.branchName,
+
+          isActive: "true",
+
+          changeCount: 0,
+
+          createdBy: user.email,
+        })
+
+        .returning();
+
+      await tx
+
+        .update(areas)
+
+        .set({ currentVersionNumber: version.versionNumber })
+
+        .where(eq(areas.id, areaId));
+
+      return { versionNumber: version.versionNumber };
+    });
+
+    // Clear undo/redo stacks after merging
+
+    await clearUndoRedoStacksAction(areaId);
+
+    updateTag("versions");
+    updateTag(`area-${areaId}-versions`);
+    updateTag(`area-${areaId}`);
+    updateTag("layers");
+    updateTag(`area-${areaId}-layers`);
+    updateTag("undo-redo-status");
+    revalidatePath('/postal-codes', 'layout');
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error merging versions:", error);
+
+    return {
+      success: false,
+
+      error: error instanceof Error ? error.message : "Failed to merge versions",
+    };
+  }
+}
@@ -0,0 +1,153 @@
+"use server";
+
+import { db } from "../../lib/db";
+import { requireAreaRole } from "../../lib/auth/permissions";
+import { applyVersionRetention } from "../../lib/db/area-versions";
+import { areaVersionPolicies } from "../../lib/schema/schema";
+import {
+  DEFAULT_VERSION_POLICY,
+  isRetentionMode,
+  validateVersionPolicy,
+  type VersionPolicySettings,
+} from "../../lib/utils/version-policy";
+import { eq, sql } from "drizzle-orm";
+import { revalidatePath, updateTag } from "next/cache";
+
+type ServerActionResponse<T = void> = Promise<{
+  success: boolean;
+  data?: T;
+  error?: string;
+}>;
+
+export interface AreaVersionPolicy extends VersionPolicySettings {
+  // False while the area still uses the defaults and nothing runs
+  isConfigured: boolean;
+  lastAutoSaveAt: string | null;
+}
+
+/**
+ * The area's auto-version policy, or the (inactive) defaults if none was set
+ */
+export async function getVersionPolicyAction(
+  areaId: number
+): ServerActionResponse<AreaVersionPolicy> {
+  try {
+    await requireAreaRole(areaId, "viewer");
+
+    const policy = await db.query.areaVersionPolicies.findFirst({
+      where: eq(areaVersionPolicies.areaId, areaId),
+    });
+
+    if (!policy) {
+      return {
+        success: true,
+        data: {
+          ...DEFAULT_VERSION_POLICY,
+          enabled: false,
+          isConfigured: false,
+          lastAutoSaveAt: null,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        enabled: policy.enabled === "true",
+        afterChanges: policy.afterChanges,
+        inactivityMinutes: policy.inactivityMinutes,
+        dailyAt: policy.dailyAt,
+        keepAutoSaves: policy.keepAutoSaves,
+        keepDays: policy.keepDays,
+        retentionMode: isRetentionMode(policy.retentionMode)
+          ? policy.retentionMode
+          : DEFAULT_VERSION_POLICY.retentionMode,
+        isConfigured: true,
+        lastAutoSaveAt: policy.lastAutoSaveAt,
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching version policy:", error);
+    return { success: false, error: "Failed to fetch version policy" };
+  }
+}
+
+/**
+ * Create or replace the area's auto-version policy. Owners only, since the
+ * retention rules delete versions.
+ */
+export async function updateVersionPolicyAction(
+  areaId: number,
+  settings: VersionPolicySettings
+): ServerActionResponse {
+  try {
+    const user = await requireAreaRole(areaId, "owner");
+
+    const validationError = validateVersionPolicy(settings);
+    if (validationError) {
+      return { success: false, error: validationError };
+    }
+
+    const values = {
+      enabled: settings.enabled ? "true" : "false",
+      afterChanges: settings.afterChanges,
+      inactivityMinutes: settings.inactivityMinutes,
+      dailyAt: settings.dailyAt,
+      keepAutoSaves: settings.keepAutoSaves,
+      keepDays: settings.keepDays,
+      retentionMode: settings.retentionMode,
+      updatedBy: user.email,
+    };
+
+    await db
+      .insert(areaVersionPolicies)
+      .values({ areaId, ...values })
+      .onConflictDoUpdate({
+        target: areaVersionPolicies.areaId,
+        set: { ...values, updatedAt: sql`now()` },
+      });
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error updating version policy:", error);
+    return { success: false, error: "Failed to update version policy" };
+  }
+}
+
+/**
+ * Apply the retention rules right away instead of waiting for the job
+ */
+export async function applyVersionRetentionAction(
+  areaId: number
+): ServerActionResponse<{ removed: number }> {
+  try {
+    await requireAreaRole(areaId, "owner");
+
+    const policy = await db.query.areaVersionPolicies.findFirst({
+      where: eq(areaVersionPolicies.areaId, areaId),
+    });
+
+    if (!policy) {
+      return { success: true, data: { removed: 0 } };
+    }
+
+    const removed = await applyVersionRetention(areaId, {
+      keepAutoSaves: policy.keepAutoSaves,
+      keepDays: policy.keepDays,
+      retentionMode: isRetentionMode(policy.retentionMode)
+        ? policy.retentionMode
+        : DEFAULT_VERSION_POLICY.retentionMode,
+    });
+
+    if (removed > 0) {
+      updateTag("versions");
+      updateTag(`area-${areaId}-versions`);
+      revalidatePath("/postal-codes", "layout");
+    }
+
+    return { success: true, data: { removed } };
+  } catch (error) {
+    console.error("Error applying version retention:", error);
+    return { success: false, error: "Failed to apply version retention" };
+  }
+}
@@ -0,0 +1,72 @@
+import { db } from "@/lib/db";
+import { getAreaRole } from "@/lib/auth/permissions";
+import { getCurrentUser } from "@/lib/auth/session";
+import { getDissolvedLayers } from "@/lib/export/dissolved-layers";
+import {
+  isTerritoryExportFormat,
+  TERRITORY_EXPORT_FORMATS,
+  toGeoJSON,
+  toKML,
+} from "@/lib/export/formats";
+import { toGeoPackage } from "@/lib/export/geopackage";
+import { areas } from "@/lib/schema/schema";
+import { eq } from "drizzle-orm";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ areaId: string; format: string }> }
+) {
+  const { areaId: areaIdParam, format } = await params;
+  const areaId = Number(areaIdParam);
+
+  if (!Number.isInteger(areaId) || areaId <= 0) {
+    return new Response("Invalid area id", { status: 400 });
+  }
+
+  if (!isTerritoryExportFormat(format)) {
+    return new Response("Unknown export format", { status: 400 });
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response("Not authenticated", { status: 401 });
+  }
+
+  if (!(await getAreaRole(areaId, user))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const area = await db.query.areas.findFirst({
+      columns: { name: true },
+      where: eq(areas.id, areaId),
+    });
+
+    if (!area) {
+      return new Response("Area not found", { status: 404 });
+    }
+
+    const layers = await getDissolvedLayers(areaId);
+
+    const body =
+      format === "geojson"
+        ? JSON.stringify(toGeoJSON(layers))
+        : format === "kml"
+          ? toKML(layers, area.name)
+          : new Uint8Array(await toGeoPackage(layers));
+
+    const { extension, contentType } = TERRITORY_EXPORT_FORMATS[format];
+    const filename = `${area.name.replace(/[^a-zA-Z0-9-_]/g, "_")}_gebiete.${extension}`;
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting territories:", error);
+    return new Response("Failed to export territories", { status: 500 });
+  }
+}
@@ -0,0 +1,132 @@
+import { db } from "@/lib/db";
+import { getAreaRole } from "@/lib/auth/permissions";
+import { hasAreaRole } from "@/lib/auth/roles";
+import { getCurrentUser } from "@/lib/auth/session";
+import { matchPolygonTerritories } from "@/lib/db/polygon-territories";
+import { areas } from "@/lib/schema/schema";
+import {
+  MAX_POLYGON_UPLOAD_BYTES,
+  type PolygonMatchResult,
+} from "@/lib/utils/polygon-match";
+import type { PolygonTerritory } from "@/lib/utils/polygon-parser";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+const polygonMatchSchema = z.object({
+  territories: z.array(
+    z.object({
+      name: z.string().min(1),
+      geometries: z.array(
+        z.object({
+          type: z.enum(["Polygon", "MultiPolygon"]),
+          coordinates: z.array(z.array(z.unknown())),
+        })
+      ),
+    })
+  ),
+  minOverlap: z.number().min(0).max(1),
+});
+
+/**
+ * Read a request body as text, or return null as soon as it grows beyond
+ * `maxBytes`, so chunked uploads are cut off without being buffered whole
+ */
+async function readBody(
+  request: Request,
+  maxBytes: number
+): Promise<string | null> {
+  if (!request.body) {
+    return "";
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Match uploaded territory polygons to the area's postal codes. A route
+ * handler rather than a server action so the large upload gets its own size
+ * limit instead of raising the limit for every action.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ areaId: string }> }
+) {
+  const { areaId: areaIdParam } = await params;
+  const areaId = Number(areaIdParam);
+
+  if (!Number.isInteger(areaId) || areaId <= 0) {
+    return new Response("Invalid area id", { status: 400 });
+  }
+
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response("Not authenticated", { status: 401 });
+  }
+
+  if (!hasAreaRole(await getAreaRole(areaId, user), "editor")) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  // Content-Length can be missing or wrong, so the body is measured as well
+  if (Number(request.headers.get("content-length")) > MAX_POLYGON_UPLOAD_BYTES) {
+    return new Response("Upload too large", { status: 413 });
+  }
+
+  const body = await readBody(request, MAX_POLYGON_UPLOAD_BYTES);
+  if (!body) {
+    return new Response("Upload too large", { status: 413 });
+  }
+
+  let input: z.infer<typeof polygonMatchSchema>;
+  try {
+    input = polygonMatchSchema.parse(JSON.parse(body));
+  } catch {
+    return new Response("Invalid polygon upload", { status: 400 });
+  }
+
+  try {
+    const area = await db.query.areas.findFirst({
+      columns: { granularity: true, isArchived: true },
+      where: eq(areas.id, areaId),
+    });
+
+    if (!area) {
+      return new Response("Area not found", { status: 404 });
+    }
+
+    if (area.isArchived === "true") {
+      return new Response("Area is archived", { status: 403 });
+    }
+
+    const layers = await matchPolygonTerritories(
+      area.granularity,
+      // Coordinates are checked by PostGIS when the geometries are built
+      input.territories as PolygonTerritory[],
+      input.minOverlap
+    );
+
+    return Response.json({
+      granularity: area.granularity,
+      layers,
+    } satisfies PolygonMatchResult);
+  } catch (error) {
+    console.error("Error matching polygon territories:", error);
+    return new Response("Failed to match polygon territories", { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { cookies } from "next/headers";
+import { NextResponse, type NextRequest } from "next/server";
+
+import { LOGIN_PATH, OIDC_FLOW_COOKIE_NAME } from "@/lib/auth/constants";
+import { getAuthProvider } from "@/lib/auth/providers";
+import { getSafeRedirectPath } from "@/lib/auth/redirect";
+import { createSession } from "@/lib/auth/session";
+import { findOrCreateExternalUser } from "@/lib/auth/users";
+
+interface OidcFlowState {
+  provider: string;
+  state: string;
+  codeVerifier: string;
+  from: string;
+}
+
+/**
+ * Finish an external login: verify state, exchange the code and start a session
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerId } = await params;
+  const provider = getAuthProvider(providerId);
+  const cookieStore = await cookies();
+  const flowCookie = cookieStore.get(OIDC_FLOW_COOKIE_NAME)?.value;
+  cookieStore.delete({ name: OIDC_FLOW_COOKIE_NAME, path: "/api/auth" });
+
+  const failureUrl = new URL(`${LOGIN_PATH}?error=oidc`, request.nextUrl.origin);
+
+  const code = request.nextUrl.searchParams.get("code");
+  const state = request.nextUrl.searchParams.get("state");
+
+  if (!provider || !flowCookie || !code || !state) {
+    return NextResponse.redirect(failureUrl);
+  }
+
+  try {
+    const flow = JSON.parse(flowCookie) as OidcFlowState;
+
+    if (flow.provider !== provider.id || flow.state !== state) {
+      return NextResponse.redirect(failureUrl);
+    }
+
+    const identity = await provider.getIdentity({
+      code,
+      codeVerifier: flow.codeVerifier,
+      redirectUri: `${request.nextUrl.origin}/api/auth/${provider.id}/callback`,
+    });
+
+    const user = await findOrCreateExternalUser(provider.id, identity);
+
+    if (!user || user.isActive !== "true") {
+      return NextResponse.redirect(failureUrl);
+    }
+
+    await createSession(user.id);
+
+    return NextResponse.redirect(
+      new URL(getSafeRedirectPath(flow.from), request.nextUrl.origin)
+    );
+  } catch (error) {
+    console.error("Error completing external login:", error);
+    return NextResponse.redirect(failureUrl);
+  }
+}
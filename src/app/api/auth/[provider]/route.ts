@@ -0,0 +1,45 @@
+import { randomBytes } from "node:crypto";
+import { cookies } from "next/headers";
+import { NextResponse, type NextRequest } from "next/server";
+
+import { OIDC_FLOW_COOKIE_NAME } from "@/lib/auth/constants";
+import { getAuthProvider } from "@/lib/auth/providers";
+
+/**
+ * Start an external login: remember state + PKCE verifier, then hand off to the provider
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: providerId } = await params;
+  const provider = getAuthProvider(providerId);
+
+  if (!provider) {
+    return new Response("Unknown login provider", { status: 404 });
+  }
+
+  const state = randomBytes(16).toString("base64url");
+  const codeVerifier = randomBytes(32).toString("base64url");
+  const from = request.nextUrl.searchParams.get("from") ?? "/";
+
+  (await cookies()).set(
+    OIDC_FLOW_COOKIE_NAME,
+    JSON.stringify({ provider: provider.id, state, codeVerifier, from }),
+    {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/api/auth",
+      maxAge: 60 * 10,
+    }
+  );
+
+  const authorizationUrl = await provider.getAuthorizationUrl({
+    state,
+    codeVerifier,
+    redirectUri: `${request.nextUrl.origin}/api/auth/${provider.id}/callback`,
+  });
+
+  return NextResponse.redirect(authorizationUrl);
+}
@@ -0,0 +1,29 @@
+import { runDueJobs } from "@/lib/jobs";
+import { revalidatePath, revalidateTag } from "next/cache";
+
+/**
+ * Run due background jobs. Called every minute by the in-process scheduler
+ * (src/lib/jobs/scheduler.ts) or by an external cron with JOB_RUNNER_SECRET.
+ */
+export async function POST(request: Request) {
+  const secret = process.env.JOB_RUNNER_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { ran, failed, tags } = await runDueJobs();
+
+    for (const tag of tags) {
+      revalidateTag(tag, { expire: 0 });
+    }
+    if (tags.length > 0) {
+      revalidatePath("/postal-codes", "layout");
+    }
+
+    return Response.json({ ran, failed });
+  } catch (error) {
+    console.error("Error running jobs:", error);
+    return new Response("Failed to run jobs", { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { getCurrentUser } from "@/lib/auth/session";
+import { db } from "@/lib/db";
+import { errorLogs, performanceMetrics } from "@/lib/schema/schema";
+import { ApiError, handleApiError } from "@/lib/utils/api-error-handling";
+import {
+  ERROR_CODES,
+  limitDetails,
+  MAX_MESSAGE_LENGTH,
+  MAX_REPORTS_PER_BATCH,
+  MAX_STACK_LENGTH,
+  MAX_URL_LENGTH,
+  METRIC_TYPES,
+} from "@/lib/utils/telemetry";
+import { revalidateTag } from "next/cache";
+import { z } from "zod";
+
+// Like long urls, oversized details are cut down rather than rejected
+const detailsSchema = z
+  .record(z.string(), z.unknown())
+  .optional()
+  .transform(limitDetails);
+
+const telemetryBatchSchema = z
+  .object({
+    errors: z.array(
+      z.object({
+        code: z.enum(ERROR_CODES),
+        message: z.string().max(MAX_MESSAGE_LENGTH),
+        stack: z.string().max(MAX_STACK_LENGTH).optional(),
+        context: detailsSchema,
+        // Clamped rather than rejected, a long query string is no reason to
+        // drop the whole batch
+        url: z.string().transform((url) => url.slice(0, MAX_URL_LENGTH)),
+      })
+    ),
+    metrics: z.array(
+      z.object({
+        component: z.string().min(1).max(100),
+        type: z.enum(METRIC_TYPES),
+        // The column is varchar(20); an hour is far beyond anything useful
+        valueMs: z.number().int().min(0).max(3_600_000),
+        metadata: detailsSchema,
+      })
+    ),
+  })
+  .refine(
+    (batch) =>
+      batch.errors.length + batch.metrics.length <= MAX_REPORTS_PER_BATCH,
+    { message: `At most ${MAX_REPORTS_PER_BATCH} reports per batch` }
+  );
+
+/**
+ * Ingest client errors and performance metrics sent by the browser reporter
+ * (src/lib/telemetry/reporter.ts)
+ */
+export async function POST(request: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response("Not authenticated", { status: 401 });
+  }
+
+  try {
+    const body: unknown = await request.json().catch(() => {
+      throw new ApiError(400, "Request body is not valid JSON", "Bad Request");
+    });
+    const { errors, metrics } = telemetryBatchSchema.parse(body);
+    const userAgent = request.headers.get("user-agent");
+
+    await Promise.all([
+      errors.length > 0 &&
+        db.insert(errorLogs).values(
+          errors.map((report) => ({
+            errorCode: report.code,
+            message: report.message,
+            stack: report.stack ?? null,
+            context: report.context ?? null,
+            userAgent,
+            url: report.url,
+            userId: String(user.id),
+          }))
+        ),
+      metrics.length > 0 &&
+        db.insert(performanceMetrics).values(
+          metrics.map((report) => ({
+            component: report.component,
+            metricType: report.type,
+            value: String(report.valueMs),
+            metadata: report.metadata ?? null,
+            userAgent,
+          }))
+        ),
+    ]);
+
+    if (errors.length > 0 || metrics.length > 0) {
+      revalidateTag("telemetry", { expire: 0 });
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    return handleApiError(error);
+  }
+}
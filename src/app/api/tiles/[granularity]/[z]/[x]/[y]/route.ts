@@ -0,0 +1,100 @@
+import { db } from "@/lib/db";
+import { GRANULARITY_OPTIONS } from "@/lib/utils/granularity-utils";
+import {
+  getSimplifyTolerance,
+  POSTAL_CODE_LABEL_TILE_LAYER,
+  POSTAL_CODE_TILE_LAYER,
+  TILE_MAX_ZOOM,
+  TILE_MIN_ZOOM,
+} from "@/lib/utils/map-tiles";
+import { sql } from "drizzle-orm";
+
+// Tile extent and clipping buffer in tile units
+const EXTENT = 4096;
+const BUFFER = 64;
+
+export async function GET(
+  _request: Request,
+  {
+    params,
+  }: {
+    params: Promise<{ granularity: string; z: string; x: string; y: string }>;
+  }
+) {
+  const { granularity, ...coords } = await params;
+  const z = Number(coords.z);
+  const x = Number(coords.x);
+  const y = Number(coords.y.replace(/\.(pbf|mvt)$/, ""));
+
+  if (!GRANULARITY_OPTIONS.some((option) => option.value === granularity)) {
+    return new Response("Unknown granularity", { status: 400 });
+  }
+
+  if (
+    ![z, x, y].every(Number.isInteger) ||
+    z < TILE_MIN_ZOOM ||
+    z > TILE_MAX_ZOOM ||
+    x < 0 ||
+    y < 0 ||
+    x >= 2 ** z ||
+    y >= 2 ** z
+  ) {
+    return new Response("Invalid tile coordinates", { status: 400 });
+  }
+
+  try {
+    const tolerance = getSimplifyTolerance(z);
+
+    const { rows } = await db.execute(
+      sql`
+        WITH bounds AS (
+          SELECT ST_TileEnvelope(${z}, ${x}, ${y}) AS geom,
+            ST_Transform(ST_TileEnvelope(${z}, ${x}, ${y}), 4326) AS geom_4326
+        ),
+        polygons AS (
+          SELECT p.code,
+            ST_AsMVTGeom(
+              ST_Transform(ST_SimplifyPreserveTopology(p.geometry, ${tolerance}), 3857),
+              b.geom, ${EXTENT}, ${BUFFER}, true
+            ) AS geom
+          FROM postal_codes p, bounds b
+          WHERE p.granularity = ${granularity}
+          AND p.geometry && b.geom_4326
+        ),
+        labels AS (
+          SELECT p.code,
+            ST_AsMVTGeom(
+              ST_Transform(ST_PointOnSurface(p.geometry), 3857),
+              b.geom, ${EXTENT}, 0, true
+            ) AS geom
+          FROM postal_codes p, bounds b
+          WHERE p.granularity = ${granularity}
+          AND p.geometry && b.geom_4326
+        )
+        SELECT
+          COALESCE((SELECT ST_AsMVT(polygons.*, ${POSTAL_CODE_TILE_LAYER}, ${EXTENT}, 'geom')
+            FROM polygons WHERE geom IS NOT NULL), ''::bytea)
+          ||
+          COALESCE((SELECT ST_AsMVT(labels.*, ${POSTAL_CODE_LABEL_TILE_LAYER}, ${EXTENT}, 'geom')
+            FROM labels WHERE geom IS NOT NULL), ''::bytea)
+          AS tile
+      `
+    );
+
+    const tile = (rows[0] as { tile: Buffer | null } | undefined)?.tile;
+
+    if (!tile || tile.length === 0) {
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response(new Uint8Array(tile), {
+      headers: {
+        "Content-Type": "application/vnd.mapbox-vector-tile",
+        "Cache-Control": "public, max-age=86400, stale-while-revalidate=604800",
+      },
+    });
+  } catch (error) {
+    console.error("Error generating postal code tile:", error);
+    return new Response("Failed to generate tile", { status: 500 });
+  }
+}
@@ -1,7 +1,20 @@
 "use client";
 import { ErrorMessage } from "@/components/ui/error-message";
+import { reportError } from "@/lib/telemetry/reporter";
+import { useEffect } from "react";
+
+export default function Error({
+  error,
+}: {
+  error: Error & { digest?: string };
+}) {
+  useEffect(() => {
+    reportError(error, "boundary", {
+      boundary: "route:app",
+      digest: error.digest,
+    });
+  }, [error]);
 
-export default function Error() {
   return (
     <ErrorMessage message="Beim Laden der Anwendung ist ein Fehler aufgetreten." />
   );
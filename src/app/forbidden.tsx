@@ -0,0 +1,7 @@
+import { ErrorMessage } from "@/components/ui/error-message";
+
+export default function Forbidden() {
+  return (
+    <ErrorMessage message="Sie haben keinen Zugriff auf diese Seite." />
+  );
+}
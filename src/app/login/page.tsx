@@ -0,0 +1,40 @@
+import { LoginForm } from "@/components/auth/login-form";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getAuthProviders } from "@/lib/auth/providers";
+import { IconMapPin2 } from "@tabler/icons-react";
+import type { Metadata } from "next";
+import { Suspense } from "react";
+
+export const metadata: Metadata = {
+  title: "Anmelden | Gebietsmanager",
+};
+
+export default function LoginPage() {
+  const providers = getAuthProviders().map(({ id, name }) => ({ id, name }));
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <IconMapPin2 className="h-5 w-5" />
+            KRAUSS Gebietsmanagement
+          </CardTitle>
+          <CardDescription>Melden Sie sich an, um fortzufahren</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense fallback={<Skeleton className="h-48 w-full" />}>
+            <LoginForm providers={providers} />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,18 +1,22 @@
 "use client";
 
 import {
+  IconActivity,
   IconDashboard,
+  IconListSearch,
   IconMapPin2,
 } from "@tabler/icons-react";
 import * as React from "react";
 import { Suspense } from "react";
 
 import { NavMain } from "@/components/nav-main";
+import { NavUser } from "@/components/nav-user";
 import { NavAreas } from "@/components/areas/nav-areas";
 import { CreateAreaDialog } from "@/components/areas/create-area-dialog";
 import {
   Sidebar,
   SidebarContent,
+  SidebarFooter,
   SidebarHeader,
   SidebarMenu,
   SidebarMenuButton,
@@ -22,7 +26,8 @@ import {
   SidebarGroupLabel,
 } from "@/components/ui/sidebar";
 import { useRouter } from "next/navigation";
-import type { Area } from "@/lib/types/area-types";
+import type { AreaWithRole } from "@/lib/types/area-types";
+import type { SessionUser } from "@/lib/auth/session";
 import { Skeleton } from "@/components/ui/skeleton";
 
 const data = {
@@ -32,11 +37,26 @@ const data = {
       url: "/",
       icon: IconDashboard,
     },
+    {
+      title: "Audit-Log",
+      url: "/audit",
+      icon: IconListSearch,
+    },
+  ],
+  navAdmin: [
+    {
+      title: "Telemetrie",
+      url: "/admin/telemetry",
+      icon: IconActivity,
+    },
   ],
 };
 
 interface AppSidebarClientProps extends React.ComponentProps<typeof Sidebar> {
-  areasPromise: Promise<Area[]>;
+  areasPromise: Promise<AreaWithRole[]>;
+  archivedAreasPromise: Promise<AreaWithRole[]>;
+  user: SessionUser;
+  isAdmin?: boolean;
   currentAreaId?: number | null;
   onAreaSelect?: (areaId: number) => void;
 }
@@ -68,6 +88,9 @@ function NavAreasLoading() {
 
 export function AppSidebarClient({
   areasPromise,
+  archivedAreasPromise,
+  user,
+  isAdmin = false,
   currentAreaId,
   onAreaSelect,
   ...props
@@ -100,17 +123,24 @@ export function AppSidebarClient({
           </SidebarMenu>
         </SidebarHeader>
         <SidebarContent>
-          <NavMain items={data.navMain} onCreateArea={handleCreateArea} />
+          <NavMain
+            items={isAdmin ? [...data.navMain, ...data.navAdmin] : data.navMain}
+            onCreateArea={handleCreateArea}
+          />
           {/* Consume promise directly in client component with Suspense */}
           <Suspense fallback={<NavAreasLoading />}>
             <NavAreas
               areasPromise={areasPromise}
+              archivedAreasPromise={archivedAreasPromise}
               isLoading={false}
               currentAreaId={currentAreaId}
               onAreaSelect={onAreaSelect}
             />
           </Suspense>
         </SidebarContent>
+        <SidebarFooter>
+          <NavUser user={user} />
+        </SidebarFooter>
       </Sidebar>
       <CreateAreaDialog
         open={createAreaDialogOpen}
@@ -2,7 +2,12 @@
 // This prevents server-only imports from leaking into client bundle
 
 import { AppSidebarClient } from "./app-sidebar-client";
-import { getAreas } from "@/lib/db/data-functions";
+import { getAreas, getArchivedAreas } from "@/lib/db/data-functions";
+import { getCurrentUser } from "@/lib/auth/session";
+import { isAdmin } from "@/lib/auth/permissions";
+import { LOGIN_PATH } from "@/lib/auth/constants";
+import { redirect } from "next/navigation";
+import type { Route } from "next";
 import type { ComponentProps } from "react";
 import type { Sidebar } from "@/components/ui/sidebar";
 
@@ -14,7 +19,23 @@ interface AppSidebarProps extends ComponentProps<typeof Sidebar> {
 export async function AppSidebar(props: AppSidebarProps) {
   // Server Component: fetch data here and pass promise to client
   // This keeps server-only code above the client boundary
-  const areasPromise = getAreas();
 
-  return <AppSidebarClient areasPromise={areasPromise} {...props} />;
+  // The proxy only checks for a session cookie; validate the session itself here
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(LOGIN_PATH as Route);
+  }
+
+  const areasPromise = getAreas(user.id, isAdmin(user));
+  const archivedAreasPromise = getArchivedAreas(user.id, isAdmin(user));
+
+  return (
+    <AppSidebarClient
+      areasPromise={areasPromise}
+      archivedAreasPromise={archivedAreasPromise}
+      user={user}
+      isAdmin={isAdmin(user)}
+      {...props}
+    />
+  );
 }
@@ -0,0 +1,213 @@
+// Server Component: live overview of all areas visible to the current user
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { LOGIN_PATH } from "@/lib/auth/constants";
+import { getCurrentUser } from "@/lib/auth/session";
+import { getDashboardData } from "@/lib/db/data-functions";
+import { getGranularityLabel } from "@/lib/utils/granularity-utils";
+import {
+  IconChartBar,
+  IconFolder,
+  IconHistory,
+  IconMapPin,
+} from "@tabler/icons-react";
+import { formatDistanceToNow } from "date-fns";
+import { de } from "date-fns/locale";
+import type { Route } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { ChangeActivityChart } from "./change-activity-chart";
+
+const ACTIVITY_DAYS = 30;
+
+// Timestamps come from Postgres without a time zone
+const formatRelative = (timestamp: string) =>
+  formatDistanceToNow(new Date(timestamp.replace(" ", "T")), {
+    addSuffix: true,
+    locale: de,
+  });
+
+export async function AreasDashboard() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(LOGIN_PATH as Route);
+  }
+
+  const { areas, recentVersions, activity } = await getDashboardData(
+    user.id,
+    ACTIVITY_DAYS
+  );
+
+  const areaNames = Object.fromEntries(
+    areas.map(({ area }) => [area.id, area.name])
+  );
+  const totalLayers = areas.reduce((sum, entry) => sum + entry.layerCount, 0);
+  const totalCodes = areas.reduce((sum, entry) => sum + entry.assignedCodes, 0);
+  const totalChanges = activity.reduce(
+    (sum, day) =>
+      sum + Object.values(day.changes).reduce((a, count) => a + count, 0),
+    0
+  );
+
+  return (
+    <div className="h-full p-6 pt-10">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">KRAUSS Gebietsmanagement</h1>
+          <p className="text-muted-foreground text-lg">
+            Überblick über alle Gebietsplanungen und ihre Aktivität.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <Card className="gap-2">
+            <CardHeader>
+              <CardDescription>Gebiete</CardDescription>
+              <CardTitle className="text-2xl">{areas.length}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card className="gap-2">
+            <CardHeader>
+              <CardDescription>Layer</CardDescription>
+              <CardTitle className="text-2xl">{totalLayers}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card className="gap-2">
+            <CardHeader>
+              <CardDescription>Zugeordnete PLZ</CardDescription>
+              <CardTitle className="text-2xl">
+                {totalCodes.toLocaleString("de-DE")}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+          <Card className="gap-2">
+            <CardHeader>
+              <CardDescription>
+                Änderungen ({ACTIVITY_DAYS} Tage)
+              </CardDescription>
+              <CardTitle className="text-2xl">
+                {totalChanges.toLocaleString("de-DE")}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <IconChartBar className="w-5 h-5 text-primary" />
+              Änderungsaktivität
+            </CardTitle>
+            <CardDescription>
+              Änderungen pro Tag in den letzten {ACTIVITY_DAYS} Tagen
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChangeActivityChart activity={activity} areaNames={areaNames} />
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <IconFolder className="w-5 h-5 text-primary" />
+                Gebiete
+              </CardTitle>
+              <CardDescription>
+                Abdeckung bezogen auf alle PLZ der jeweiligen Granularität
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {areas.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Noch keine Gebiete vorhanden. Legen Sie über die
+                  Seitenleiste Ihr erstes Gebiet an.
+                </p>
+              ) : (
+                areas.map((entry) => (
+                  <Link
+                    key={entry.area.id}
+                    href={`/postal-codes/${entry.area.id}` as Route}
+                    className="block rounded-md border p-3 hover:bg-accent/50 transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <span className="font-medium truncate">
+                        {entry.area.name}
+                      </span>
+                      <Badge variant="secondary" className="flex-shrink-0">
+                        {getGranularityLabel(entry.area.granularity)}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Progress value={entry.coverage} className="h-1.5" />
+                      <span className="text-xs font-medium tabular-nums w-14 text-right">
+                        {entry.coverage.toLocaleString("de-DE", {
+                          maximumFractionDigits: 1,
+                        })}
+                        %
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <IconMapPin className="h-3 w-3" />
+                        {entry.layerCount} Layer ·{" "}
+                        {entry.assignedCodes.toLocaleString("de-DE")} PLZ
+                      </span>
+                      <span>
+                        {entry.lastChangeAt
+                          ? `Letzte Änderung ${formatRelative(entry.lastChangeAt)}`
+                          : "Noch keine Änderungen"}
+                      </span>
+                    </div>
+                  </Link>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <IconHistory className="w-5 h-5 text-primary" />
+                Neueste Versionen
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {recentVersions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Noch keine Versionen gespeichert.
+                </p>
+              ) : (
+                recentVersions.map((version) => (
+                  <Link
+                    key={`${version.areaId}-${version.versionNumber}`}
+                    href={
+                      `/postal-codes/${version.areaId}?versionId=${version.versionNumber}` as Route
+                    }
+                    className="block text-sm hover:underline"
+                  >
+                    <span className="font-medium">
+                      {version.name ?? `Version ${version.versionNumber}`}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {version.areaName} · {formatRelative(version.createdAt)}
+                    </span>
+                  </Link>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { DashboardActivityDay } from "@/lib/types/area-types";
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+
+// Areas beyond the most active ones are summed up as "Weitere"
+const MAX_SERIES = 5;
+const OTHERS_KEY = "others";
+
+interface ChangeActivityChartProps {
+  activity: DashboardActivityDay[];
+  areaNames: Record<number, string>;
+}
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString("de-DE", {
+    day: "2-digit",
+    month: "2-digit",
+  });
+
+export function ChangeActivityChart({
+  activity,
+  areaNames,
+}: ChangeActivityChartProps) {
+  const { data, config, seriesKeys } = useMemo(() => {
+    const totals = new Map<number, number>();
+    for (const { changes } of activity) {
+      for (const [areaId, count] of Object.entries(changes)) {
+        totals.set(Number(areaId), (totals.get(Number(areaId)) ?? 0) + count);
+      }
+    }
+
+    const topAreas = [...totals.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_SERIES)
+      .map(([areaId]) => areaId);
+    const hasOthers = totals.size > topAreas.length;
+
+    const chartConfig: ChartConfig = {};
+    topAreas.forEach((areaId, index) => {
+      chartConfig[`area-${areaId}`] = {
+        label: areaNames[areaId] ?? `Gebiet ${areaId}`,
+        color: `var(--chart-${index + 1})`,
+      };
+    });
+    if (hasOthers) {
+      chartConfig[OTHERS_KEY] = {
+        label: "Weitere",
+        color: "var(--muted-foreground)",
+      };
+    }
+
+    const rows = activity.map(({ day, changes }) => {
+      const row: Record<string, string | number> = { day };
+      let others = 0;
+      for (const [areaId, count] of Object.entries(changes)) {
+        if (topAreas.includes(Number(areaId))) {
+          row[`area-${areaId}`] = count;
+        } else {
+          others += count;
+        }
+      }
+      if (hasOthers) row[OTHERS_KEY] = others;
+      return row;
+    });
+
+    return {
+      data: rows,
+      config: chartConfig,
+      seriesKeys: Object.keys(chartConfig),
+    };
+  }, [activity, areaNames]);
+
+  if (seriesKeys.length === 0) {
+    return (
+      <div className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+        Keine Änderungen im Zeitraum
+      </div>
+    );
+  }
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-64 w-full">
+      <BarChart data={data} margin={{ left: -20, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="day"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={formatDay}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          allowDecimals={false}
+          width={48}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(value) => formatDay(String(value))}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {seriesKeys.map((key) => (
+          <Bar
+            key={key}
+            dataKey={key}
+            stackId="changes"
+            fill={`var(--color-${key})`}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+}
@@ -17,6 +17,8 @@ import {
   IconArrowBackUp,
   IconArrowForwardUp,
 } from "@tabler/icons-react";
+import type { MovedPostalCodes } from "@/lib/utils/conflict-policy";
+import { getGranularityLabel } from "@/lib/utils/granularity-utils";
 
 interface LayerData {
   id: number;
@@ -28,14 +30,25 @@ interface LayerData {
   orderIndex: number;
 }
 
+interface LayerPostalCodes {
+  layerId: number;
+  layerName: string;
+  postalCodes: string[];
+}
+
 interface ChangeDataWithLayer extends Record<string, unknown> {
   layer?: LayerData;
   postalCodes?: string[];
+  movedFrom?: MovedPostalCodes[];
+  granularity?: string;
+  layers?: LayerPostalCodes[];
 }
 
 interface PreviousDataWithLayer extends Record<string, unknown> {
   layer?: LayerData;
   postalCodes?: string[];
+  granularity?: string;
+  layers?: LayerPostalCodes[];
 }
 
 interface ChangePreviewDialogProps {
@@ -73,6 +86,7 @@ export function ChangePreviewDialog({
       add_postal_codes: "Postleitzahlen hinzugefügt",
       remove_postal_codes: "Postleitzahlen entfernt",
       update_area: "Gebiet aktualisiert",
+      change_granularity: "Granularität geändert",
     };
     return labels[type] || type;
   };
@@ -104,11 +118,18 @@ export function ChangePreviewDialog({
                 </p>
                 {Object.entries(
                   mode === "undo" ? change.previousData : change.changeData
-                ).map(([key, value]) => (
-                  <div key={key} className="pl-2">
-                    {key}: <strong>{String(value)}</strong>
-                  </div>
-                ))}
+                )
+                  .filter(([key]) => key !== "movedFrom")
+                  .map(([key, value]) => (
+                    <div key={key} className="pl-2">
+                      {key}:{" "}
+                      <strong>
+                        {key === "people" && Array.isArray(value)
+                          ? `${value.length} zugeordnete Person(en)`
+                          : String(value)}
+                      </strong>
+                    </div>
+                  ))}
               </div>
             </div>
           </div>
@@ -194,6 +215,32 @@ export function ChangePreviewDialog({
           </div>
         );
 
+      case "change_granularity": {
+        const from = mode === "undo" ? change.changeData : change.previousData;
+        const to = mode === "undo" ? change.previousData : change.changeData;
+        return (
+          <div className="space-y-2">
+            <p className="text-sm">
+              Wechselt von{" "}
+              <strong>{getGranularityLabel(from?.granularity ?? "")}</strong>{" "}
+              zu <strong>{getGranularityLabel(to?.granularity ?? "")}</strong>
+            </p>
+            {to?.layers && to.layers.length > 0 && (
+              <div className="pl-4 space-y-1 text-sm text-muted-foreground">
+                {to.layers.map((layer) => (
+                  <div key={layer.layerId}>
+                    {layer.layerName}:{" "}
+                    {from?.layers?.find((l) => l.layerId === layer.layerId)
+                      ?.postalCodes.length ?? 0}{" "}
+                    → <strong>{layer.postalCodes.length}</strong> Postleitzahlen
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      }
+
       default:
         return (
           <p className="text-sm text-muted-foreground">
@@ -241,6 +288,27 @@ export function ChangePreviewDialog({
               {renderChangeDetails()}
             </div>
 
+            {/* Codes the "move" conflict policy took out of other layers */}
+            {change.changeData?.movedFrom && change.changeData.movedFrom.length > 0 && (
+              <div className="border rounded-lg p-4 space-y-2">
+                <p className="text-sm font-medium">
+                  {mode === "undo"
+                    ? "Gibt verschobene Postleitzahlen zurück an:"
+                    : "Verschiebt Postleitzahlen aus:"}
+                </p>
+                {change.changeData.movedFrom.map((moved) => (
+                  <div key={moved.layerId} className="pl-2 text-sm">
+                    <strong>{moved.layerName}</strong>{" "}
+                    <span className="text-muted-foreground">
+                      ({moved.postalCodes.length}):{" "}
+                      {moved.postalCodes.slice(0, 10).join(", ")}
+                      {moved.postalCodes.length > 10 ? ", …" : ""}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <Alert>
               <IconAlertCircle className="h-4 w-4" />
               <AlertDescription>
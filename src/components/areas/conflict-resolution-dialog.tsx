@@ -11,7 +11,7 @@ import {
 } from "@/components/ui/dialog";
 import { useLayerConflicts } from "@/lib/hooks/use-layer-conflicts";
 import type { Layer } from "@/lib/types/area-types";
-import { updateLayerAction } from "@/app/actions/layer-actions";
+import { updateLayerAction } from "@/app/actions/area-actions";
 import { IconAlertTriangle, IconCheck, IconLoader } from "@tabler/icons-react";
 import { useState, useEffect, Activity } from "react";
 import { Badge } from "@/components/ui/badge";
@@ -0,0 +1,277 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  assignUnassignedCodesAction,
+  getCoverageReportAction,
+  type CoverageReport,
+  type GapAssignmentMode,
+} from "@/app/actions/coverage-actions";
+import { IconRefresh } from "@tabler/icons-react";
+import { ChevronDown, ChevronUp, Loader2Icon } from "lucide-react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  useTransition,
+} from "react";
+import { toast } from "sonner";
+
+interface CoverageReportPanelProps {
+  areaId: number;
+  // Changes whenever layer contents change, so the report is rebuilt
+  layersSignature: string;
+  canEdit?: boolean;
+  onHighlightGaps?: (postalCodes: string[]) => void;
+}
+
+// Key of the postal codes outside every state in the selection
+const NO_STATE = "__none__";
+
+const formatPercent = (part: number, total: number) =>
+  `${(total > 0 ? (part / total) * 100 : 0).toLocaleString("de-DE", {
+    maximumFractionDigits: 1,
+  })} %`;
+
+export function CoverageReportPanel({
+  areaId,
+  layersSignature,
+  canEdit = true,
+  onHighlightGaps,
+}: CoverageReportPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [report, setReport] = useState<CoverageReport | null>(null);
+  // Selected state code; null for all of Germany
+  const [scope, setScope] = useState<string | null>(null);
+  const [showGaps, setShowGaps] = useState(false);
+  const [isLoading, startLoading] = useTransition();
+  const [isAssigning, startAssigning] = useTransition();
+
+  const load = useCallback(() => {
+    startLoading(async () => {
+      const result = await getCoverageReportAction(areaId);
+      if (!result.success || !result.data) {
+        toast.error("Abdeckung konnte nicht ermittelt werden");
+        return;
+      }
+      setReport(result.data);
+    });
+  }, [areaId]);
+
+  // Rebuild whenever the panel is opened or the layers change
+  useEffect(() => {
+    if (open) {
+      load();
+    }
+  }, [open, layersSignature, load]);
+
+  const scopedStates = (report?.states ?? []).filter(
+    (state) => scope === null || (state.stateCode ?? NO_STATE) === scope
+  );
+  const scoped = scopedStates.reduce(
+    (sum, state) => ({
+      total: sum.total + state.total,
+      assigned: sum.assigned + state.assigned,
+      unassigned: sum.unassigned + state.unassigned,
+      duplicate: sum.duplicate + state.duplicate,
+    }),
+    { total: 0, assigned: 0, unassigned: 0, duplicate: 0 }
+  );
+  const duplicateCodes = scopedStates.flatMap((state) => state.duplicateCodes);
+
+  // Keep the map overlay in sync with the selected scope
+  const gapCodes = useMemo(
+    () =>
+      showGaps && open && report
+        ? report.states
+            .filter(
+              (state) =>
+                scope === null || (state.stateCode ?? NO_STATE) === scope
+            )
+            .flatMap((state) => state.unassignedCodes)
+        : [],
+    [showGaps, open, report, scope]
+  );
+  useEffect(() => {
+    onHighlightGaps?.(gapCodes);
+  }, [gapCodes, onHighlightGaps]);
+
+  useEffect(() => {
+    return () => onHighlightGaps?.([]);
+  }, [onHighlightGaps]);
+
+  const handleAssign = (mode: GapAssignmentMode) => {
+    startAssigning(async () => {
+      const result = await assignUnassignedCodesAction(areaId, {
+        mode,
+        stateCode: scope,
+      });
+      if (!result.success || !result.data) {
+        toast.error("Offene PLZ konnten nicht zugeordnet werden");
+        return;
+      }
+      const { assignedCodes, remainingCodes } = result.data;
+      toast.success(
+        remainingCodes > 0
+          ? `${assignedCodes} PLZ zugeordnet, ${remainingCodes} ohne angrenzendes Gebiet`
+          : `${assignedCodes} PLZ zugeordnet`
+      );
+    });
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full justify-between h-7 px-2 text-xs font-semibold"
+        >
+          <span>
+            Abdeckung
+            {report ? ` (${formatPercent(report.assigned, report.total)})` : ""}
+          </span>
+          {open ? (
+            <ChevronUp className="h-3 w-3" />
+          ) : (
+            <ChevronDown className="h-3 w-3" />
+          )}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 pt-2">
+        <div className="flex items-center justify-between gap-2 px-2 text-xs text-muted-foreground">
+          {isLoading ? (
+            <span className="flex items-center gap-1">
+              <Loader2Icon className="h-3 w-3 animate-spin" />
+              Ermittle Abdeckung...
+            </span>
+          ) : (
+            <span>
+              {scoped.assigned.toLocaleString("de-DE")} von{" "}
+              {scoped.total.toLocaleString("de-DE")} PLZ zugeordnet
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={load}
+            disabled={isLoading}
+            title="Neu berechnen"
+          >
+            <IconRefresh className="h-3 w-3" />
+          </Button>
+        </div>
+
+        {report && (
+          <div className="max-h-48 overflow-y-auto pr-1 text-xs">
+            <table className="w-full">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="text-left font-medium px-2 py-1">Bundesland</th>
+                  <th className="text-right font-medium px-1 py-1">Abdeckung</th>
+                  <th className="text-right font-medium px-1 py-1">Offen</th>
+                  <th className="text-right font-medium px-2 py-1">Doppelt</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[
+                  {
+                    key: null,
+                    name: "Deutschland",
+                    assigned: report.assigned,
+                    total: report.total,
+                    unassigned: report.unassigned,
+                    duplicate: report.duplicate,
+                  },
+                  ...report.states.map((state) => ({
+                    key: state.stateCode ?? NO_STATE,
+                    name: state.stateName ?? "Ohne Bundesland",
+                    assigned: state.assigned,
+                    total: state.total,
+                    unassigned: state.unassigned,
+                    duplicate: state.duplicate,
+                  })),
+                ].map((row) => (
+                  <tr
+                    key={row.key ?? "all"}
+                    className={`cursor-pointer hover:bg-accent/50 ${
+                      scope === row.key ? "bg-accent font-medium" : ""
+                    }`}
+                    onClick={() => setScope(row.key)}
+                  >
+                    <td className="px-2 py-1 truncate max-w-[8rem]">{row.name}</td>
+                    <td className="px-1 py-1 text-right tabular-nums">
+                      {formatPercent(row.assigned, row.total)}
+                    </td>
+                    <td className="px-1 py-1 text-right tabular-nums">
+                      {row.unassigned}
+                    </td>
+                    <td
+                      className={`px-2 py-1 text-right tabular-nums ${
+                        row.duplicate > 0 ? "text-amber-600" : ""
+                      }`}
+                    >
+                      {row.duplicate}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {duplicateCodes.length > 0 && (
+          <p className="px-2 text-xs text-amber-600">
+            Mehrfach zugeordnet: {duplicateCodes.slice(0, 8).join(", ")}
+            {duplicateCodes.length > 8 ? ", …" : ""}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between px-2">
+          <Label htmlFor="coverage-show-gaps" className="text-xs">
+            Offene PLZ auf Karte zeigen
+          </Label>
+          <Switch
+            id="coverage-show-gaps"
+            checked={showGaps}
+            onCheckedChange={setShowGaps}
+          />
+        </div>
+
+        {canEdit && scoped.unassigned > 0 && scope !== NO_STATE && (
+          <div className="grid grid-cols-2 gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => handleAssign("adjacent")}
+              disabled={isAssigning}
+              title="Offene PLZ den angrenzenden Gebieten zuordnen"
+            >
+              Angrenzend
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => handleAssign("nearest")}
+              disabled={isAssigning}
+              title="Offene PLZ dem nächstgelegenen Gebiet zuordnen"
+            >
+              Nächstes Gebiet
+            </Button>
+          </div>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -20,9 +20,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { createAreaAction } from "@/app/actions/area-actions";
-import { useState, useTransition, useOptimistic } from "react";
+import { getAreaTemplatesAction } from "@/app/actions/area-copy-actions";
+import type { AreaWithRole } from "@/lib/types/area-types";
+import { getGranularityLabel } from "@/lib/utils/granularity-utils";
+import { useEffect, useState, useTransition, useOptimistic } from "react";
 import { toast } from "sonner";
 
+// Select value for starting without a template
+const NO_TEMPLATE = "none";
+
 interface CreateAreaDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -36,6 +42,26 @@ export function CreateAreaDialog({
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [granularity, setGranularity] = useState("5digit");
+  const [templates, setTemplates] = useState<AreaWithRole[]>([]);
+  const [templateId, setTemplateId] = useState(NO_TEMPLATE);
+
+  const template = templates.find((t) => String(t.id) === templateId);
+
+  // Templates can change between openings, so they are loaded on open
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    getAreaTemplatesAction().then((result) => {
+      if (!cancelled && result.success && result.data) {
+        setTemplates(result.data);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
 
   // Optimistic creating state
   const [optimisticCreating, updateOptimisticCreating] = useOptimistic(
@@ -53,7 +79,12 @@ export function CreateAreaDialog({
 
         // Server action handles redirect automatically
         await toast.promise(
-          createAreaAction({ name, description, granularity, createdBy: "user" }),
+          createAreaAction({
+            name,
+            description,
+            granularity,
+            templateId: template?.id,
+          }),
           {
             loading: `Erstelle Gebiet "${name}"...`,
             success: `Gebiet "${name}" erfolgreich erstellt`,
@@ -65,6 +96,7 @@ export function CreateAreaDialog({
         setName("");
         setDescription("");
         setGranularity("5digit");
+        setTemplateId(NO_TEMPLATE);
         onOpenChange(false);
       } catch (error) {
         // Only catch real errors, not NEXT_REDIRECT
@@ -111,9 +143,37 @@ export function CreateAreaDialog({
                 rows={3}
               />
             </div>
+            {templates.length > 0 && (
+              <div className="grid gap-2">
+                <Label htmlFor="template">Vorlage</Label>
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger id="template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TEMPLATE}>Leeres Gebiet</SelectItem>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={String(t.id)}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {template && (
+                  <p className="text-xs text-muted-foreground">
+                    Layer und PLZ werden aus „{template.name}“ übernommen (
+                    {getGranularityLabel(template.granularity)}).
+                  </p>
+                )}
+              </div>
+            )}
             <div className="grid gap-2">
               <Label htmlFor="granularity">PLZ-Granularität</Label>
-              <Select value={granularity} onValueChange={setGranularity}>
+              <Select
+                value={template?.granularity ?? granularity}
+                onValueChange={setGranularity}
+                disabled={!!template}
+              >
                 <SelectTrigger id="granularity">
                   <SelectValue />
                 </SelectTrigger>
@@ -0,0 +1,105 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { duplicateAreaAction } from "@/app/actions/area-copy-actions";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+interface DuplicateAreaDialogProps {
+  areaId: number;
+  areaName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function DuplicateAreaDialog({
+  areaId,
+  areaName,
+  open,
+  onOpenChange,
+}: DuplicateAreaDialogProps) {
+  const [isPending, startTransition] = useTransition();
+  const [name, setName] = useState(`${areaName} (Kopie)`);
+  const [includeVersions, setIncludeVersions] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    startTransition(async () => {
+      // Server action redirects to the copy on success
+      const result = await duplicateAreaAction(areaId, {
+        name: name.trim(),
+        includeVersions,
+      });
+
+      if (result && !result.success) {
+        toast.error("Fehler beim Duplizieren des Gebiets");
+        return;
+      }
+
+      toast.success(`Gebiet "${name.trim()}" erstellt`);
+      onOpenChange(false);
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Gebiet duplizieren</DialogTitle>
+            <DialogDescription>
+              Kopiert „{areaName}“ mit allen Layern, Farben und PLZ in ein neues
+              Gebiet.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="duplicate-name">Name *</Label>
+              <Input
+                id="duplicate-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="duplicate-versions"
+                checked={includeVersions}
+                onCheckedChange={(checked) => setIncludeVersions(checked === true)}
+              />
+              <Label htmlFor="duplicate-versions" className="font-normal">
+                Versionsverlauf übernehmen
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Abbrechen
+            </Button>
+            <Button type="submit" disabled={isPending || !name.trim()}>
+              {isPending ? "Dupliziere..." : "Duplizieren"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
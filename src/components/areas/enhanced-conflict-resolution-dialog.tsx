@@ -22,7 +22,7 @@ import {
 } from "@tabler/icons-react";
 import { useState } from "react";
 
-interface ConflictItem {
+export interface ConflictItem {
   field: string;
   localValue: unknown;
   remoteValue: unknown;
@@ -35,6 +35,10 @@ interface EnhancedConflictResolutionDialogProps {
   conflicts: ConflictItem[];
   onResolve: (resolution: Record<string, "local" | "remote" | "merge">) => void;
   isLoading?: boolean;
+  title?: string;
+  description?: string;
+  localLabel?: string;
+  remoteLabel?: string;
 }
 
 export function EnhancedConflictResolutionDialog({
@@ -43,6 +47,10 @@ export function EnhancedConflictResolutionDialog({
   conflicts,
   onResolve,
   isLoading = false,
+  title = "Resolve Conflicts",
+  description = "Changes were made by another user. Choose which changes to keep.",
+  localLabel = "Your Changes",
+  remoteLabel = "Their Changes",
 }: EnhancedConflictResolutionDialogProps) {
   const [resolutions, setResolutions] = useState<
     Record<string, "local" | "remote" | "merge">
@@ -82,11 +90,9 @@ export function EnhancedConflictResolutionDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <IconAlertTriangle className="h-5 w-5 text-orange-500" />
-            Resolve Conflicts
+            {title}
           </DialogTitle>
-          <DialogDescription>
-            Changes were made by another user. Choose which changes to keep.
-          </DialogDescription>
+          <DialogDescription>{description}</DialogDescription>
         </DialogHeader>
 
         <Alert className="bg-orange-50 dark:bg-orange-900/10 border-orange-200">
@@ -133,7 +139,7 @@ export function EnhancedConflictResolutionDialog({
                       onValueChange={(value) =>
                         setResolutions({
                           ...resolutions,
-                          [conflict.field]: value as "local" | "remote",
+                          [conflict.field]: value as "local" | "remote" | "merge",
                         })
                       }
                     >
@@ -149,7 +155,7 @@ export function EnhancedConflictResolutionDialog({
                               htmlFor={`local-${index}`}
                               className="font-medium text-blue-600"
                             >
-                              Your Changes
+                              {localLabel}
                             </Label>
                           </div>
                           <div className="pl-6 p-3 bg-blue-50 dark:bg-blue-900/10 rounded border border-blue-200">
@@ -170,7 +176,7 @@ export function EnhancedConflictResolutionDialog({
                               htmlFor={`remote-${index}`}
                               className="font-medium text-green-600"
                             >
-                              Their Changes
+                              {remoteLabel}
                             </Label>
                           </div>
                           <div className="pl-6 p-3 bg-green-50 dark:bg-green-900/10 rounded border border-green-200">
@@ -180,25 +186,25 @@ export function EnhancedConflictResolutionDialog({
                           </div>
                         </div>
                       </div>
-                    </RadioGroup>
 
-                    {conflict.type === "postal_code" && (
-                      <div className="mt-3">
-                        <div className="flex items-center space-x-2">
-                          <RadioGroupItem
-                            value="merge"
-                            id={`merge-${index}`}
-                          />
-                          <Label
-                            htmlFor={`merge-${index}`}
-                            className="font-medium text-purple-600"
-                          >
-                            <IconGitMerge className="h-4 w-4 inline mr-1" />
-                            Merge Both (combine postal codes)
-                          </Label>
+                      {conflict.type === "postal_code" && (
+                        <div className="mt-1">
+                          <div className="flex items-center space-x-2">
+                            <RadioGroupItem
+                              value="merge"
+                              id={`merge-${index}`}
+                            />
+                            <Label
+                              htmlFor={`merge-${index}`}
+                              className="font-medium text-purple-600"
+                            >
+                              <IconGitMerge className="h-4 w-4 inline mr-1" />
+                              Merge Both (combine postal codes)
+                            </Label>
+                          </div>
                         </div>
-                      </div>
-                    )}
+                      )}
+                    </RadioGroup>
                   </div>
                 ))}
               </div>
@@ -28,11 +28,20 @@ import { Badge } from "@/components/ui/badge";
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+
 import {
   IconClock,
   IconRestore,
   IconGitBranch,
+  IconGitMerge,
   IconDelta,
+  IconMap,
+  IconChevronDown,
 } from "@tabler/icons-react";
 
 import { useState, useTransition, useOptimistic } from "react";
@@ -44,15 +53,32 @@ import { de } from "date-fns/locale";
 import {
   restoreVersionAction,
   compareVersionsAction,
+  previewVersionMergeAction,
+  mergeVersionsAction,
 } from "@/app/actions/version-actions";
 
+import { EnhancedConflictResolutionDialog } from "./enhanced-conflict-resolution-dialog";
+
+import { VersionDiffDialog } from "./version-diff-dialog";
+
 import { toast } from "sonner";
 
+import type { MovedPostalCodes } from "@/lib/utils/conflict-policy";
+
+import { getGranularityLabel } from "@/lib/utils/granularity-utils";
+
+import { groupConsecutiveChanges } from "@/lib/utils/change-groups";
+
 import type {
   SelectAreaVersions,
   SelectAreaChanges,
 } from "@/lib/schema/schema";
 
+import type {
+  MergeConflict,
+  MergeResolution,
+} from "@/lib/utils/version-merge";
+
 interface VersionSnapshot {
   layers: Array<{
     name: string;
@@ -64,6 +90,10 @@ interface VersionSnapshot {
 interface ChangeData {
   postalCodes?: string[];
 
+  granularity?: string;
+
+  movedFrom?: MovedPostalCodes[];
+
   layer?: {
     name: string;
   };
@@ -119,6 +149,14 @@ export function EnhancedVersionHistoryDialog({
   const [versionToRestore, setVersionToRestore] =
     useState<SelectAreaVersions | null>(null);
 
+  const [mergeConflicts, setMergeConflicts] = useState<MergeConflict[] | null>(
+    null,
+  );
+
+  const [isMerging, startMerging] = useTransition();
+
+  const [showDiffMap, setShowDiffMap] = useState(false);
+
   // Optimistic restore state
   const [_optimisticRestoring, updateOptimisticRestoring] = useOptimistic(
     false,
@@ -199,6 +237,64 @@ export function EnhancedVersionHistoryDialog({
     );
   };
 
+  const mergeVersions = async (resolutions: Record<string, MergeResolution>) => {
+    if (!selectedVersion || !compareVersion) return;
+
+    const result = await mergeVersionsAction(
+      areaId,
+      selectedVersion.versionNumber,
+      compareVersion.versionNumber,
+      resolutions,
+    );
+
+    if (!result.success || !result.data) {
+      toast.error(
+        `Fehler beim Zusammenführen: ${result.error || "Unbekannter Fehler"}`,
+      );
+      return;
+    }
+
+    toast.success(
+      `v${compareVersion.versionNumber} in v${selectedVersion.versionNumber} zusammengeführt (Version ${result.data.versionNumber})`,
+    );
+    setMergeConflicts(null);
+    onOpenChange(false);
+    window.location.reload();
+  };
+
+  // Merge the second version into the first; conflicts go through the
+  // resolution dialog before anything is written
+  const handleMerge = () => {
+    if (!selectedVersion || !compareVersion) return;
+
+    startMerging(async () => {
+      const preview = await previewVersionMergeAction(
+        areaId,
+        selectedVersion.versionNumber,
+        compareVersion.versionNumber,
+      );
+
+      if (!preview.success || !preview.data) {
+        toast.error(
+          preview.error === "No common ancestor found"
+            ? "Die Versionen haben keinen gemeinsamen Vorgänger"
+            : "Fehler beim Vorbereiten der Zusammenführung",
+        );
+        return;
+      }
+
+      if (preview.data.conflicts.length > 0) {
+        toast.info(
+          `${preview.data.autoAppliedPostalCodes} PLZ-Änderungen automatisch übernommen, ${preview.data.conflicts.length} Konflikte zu lösen`,
+        );
+        setMergeConflicts(preview.data.conflicts);
+        return;
+      }
+
+      await mergeVersions({});
+    });
+  };
+
   const getChangeTypeLabel = (type: string) => {
     const labels: Record<string, string> = {
       create_layer: "Layer erstellt",
@@ -212,11 +308,100 @@ export function EnhancedVersionHistoryDialog({
       remove_postal_codes: "Postleitzahlen entfernt",
 
       update_area: "Gebiet aktualisiert",
+
+      change_granularity: "Granularität geändert",
     };
 
     return labels[type] || type;
   };
 
+  const renderChange = (change: SelectAreaChanges) => (
+    <div
+      key={`${change.areaId}-${
+        change.versionAreaId || "null"
+      }-${change.versionNumber || "null"}-${
+        change.sequenceNumber
+      }`}
+      className="p-3 border rounded-lg hover:bg-accent/50 transition-colors"
+    >
+      <div className="flex items-start justify-between mb-1">
+        <Badge variant="outline" className="text-xs">
+          {getChangeTypeLabel(change.changeType)}
+        </Badge>
+        <span className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(change.createdAt), {
+            addSuffix: true,
+
+            locale: de,
+          })}
+        </span>
+      </div>
+      <div className="text-sm">
+        {change.changeType === "add_postal_codes" && (
+          <span>
+            Added{" "}
+            {(change.changeData as ChangeData)?.postalCodes
+              ?.length || 0}{" "}
+            postal code(s)
+          </span>
+        )}
+        {(change.changeData as ChangeData)?.movedFrom?.map(
+          (moved) => (
+            <span
+              key={moved.layerId}
+              className="block text-xs text-muted-foreground"
+            >
+              {moved.postalCodes.length} PLZ aus „
+              {moved.layerName}“ verschoben
+            </span>
+          ),
+        )}
+        {change.changeType === "remove_postal_codes" && (
+          <span>
+            Removed{" "}
+            {(change.changeData as ChangeData)?.postalCodes
+              ?.length || 0}{" "}
+            postal code(s)
+          </span>
+        )}
+        {change.changeType === "create_layer" && (
+          <span>
+            Layer erstellt:{" "}
+            {(change.changeData as ChangeData)?.layer?.name}
+          </span>
+        )}
+        {change.changeType === "update_layer" && (
+          <span>Layer-Eigenschaften aktualisiert</span>
+        )}
+        {change.changeType === "change_granularity" && (
+          <span>
+            Granularität:{" "}
+            {getGranularityLabel(
+              (change.previousData as ChangeData)
+                ?.granularity ?? "",
+            )}{" "}
+            →{" "}
+            {getGranularityLabel(
+              (change.changeData as ChangeData)?.granularity ??
+                "",
+            )}
+          </span>
+        )}
+        {change.changeType === "delete_layer" && (
+          <span>
+            Layer gelöscht:{" "}
+            {(change.previousData as ChangeData)?.layer?.name}
+          </span>
+        )}
+        {change.createdBy && (
+          <span className="text-xs text-muted-foreground ml-2">
+            by {change.createdBy}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[85vh]">
@@ -275,6 +460,11 @@ export function EnhancedVersionHistoryDialog({
                               Aktiv
                             </Badge>
                           )}
+                          {version.isAutoSave === "true" && (
+                            <Badge variant="outline" className="text-xs">
+                              Auto
+                            </Badge>
+                          )}
                           {version.branchName && (
                             <Badge variant="secondary">
                               <IconGitBranch className="h-3 w-3 mr-1" />
@@ -327,67 +517,41 @@ export function EnhancedVersionHistoryDialog({
                 </div>
               ) : (
                 <div className="space-y-2">
-                  {changes.map((change) => (
-                    <div
-                      key={`${change.areaId}-${
-                        change.versionAreaId || "null"
-                      }-${change.versionNumber || "null"}-${
-                        change.sequenceNumber
-                      }`}
-                      className="p-3 border rounded-lg hover:bg-accent/50 transition-colors"
-                    >
-                      <div className="flex items-start justify-between mb-1">
-                        <Badge variant="outline" className="text-xs">
-                          {getChangeTypeLabel(change.changeType)}
-                        </Badge>
-                        <span className="text-xs text-muted-foreground">
-                          {formatDistanceToNow(new Date(change.createdAt), {
-                            addSuffix: true,
+                  {groupConsecutiveChanges(changes).map((run) =>
+                    run.length === 1 && !run[0].groupLabel ? (
+                      renderChange(run[0])
+                    ) : (
+                      <Collapsible
+                        key={run[0].groupId}
+                        className="p-3 border rounded-lg space-y-2"
+                      >
+                        <div className="flex items-start justify-between">
+                          <Badge variant="secondary" className="text-xs">
+                            {run.length} Änderungen
+                          </Badge>
+                          <span className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(new Date(run[0].createdAt), {
+                              addSuffix: true,
 
-                            locale: de,
-                          })}
-                        </span>
-                      </div>
-                      <div className="text-sm">
-                        {change.changeType === "add_postal_codes" && (
-                          <span>
-                            Added{" "}
-                            {(change.changeData as ChangeData)?.postalCodes
-                              ?.length || 0}{" "}
-                            postal code(s)
+                              locale: de,
+                            })}
                           </span>
-                        )}
-                        {change.changeType === "remove_postal_codes" && (
-                          <span>
-                            Removed{" "}
-                            {(change.changeData as ChangeData)?.postalCodes
-                              ?.length || 0}{" "}
-                            postal code(s)
-                          </span>
-                        )}
-                        {change.changeType === "create_layer" && (
-                          <span>
-                            Layer erstellt:{" "}
-                            {(change.changeData as ChangeData)?.layer?.name}
-                          </span>
-                        )}
-                        {change.changeType === "update_layer" && (
-                          <span>Layer-Eigenschaften aktualisiert</span>
-                        )}
-                        {change.changeType === "delete_layer" && (
-                          <span>
-                            Layer gelöscht:{" "}
-                            {(change.previousData as ChangeData)?.layer?.name}
-                          </span>
-                        )}
-                        {change.createdBy && (
-                          <span className="text-xs text-muted-foreground ml-2">
-                            by {change.createdBy}
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                  ))}
+                        </div>
+                        <CollapsibleTrigger className="flex w-full items-center gap-1 text-left text-sm font-medium">
+                          <IconChevronDown className="h-4 w-4 flex-shrink-0" />
+                          {run[0].groupLabel}
+                          {run[0].createdBy && (
+                            <span className="text-xs font-normal text-muted-foreground ml-2">
+                              by {run[0].createdBy}
+                            </span>
+                          )}
+                        </CollapsibleTrigger>
+                        <CollapsibleContent className="space-y-2 pl-5">
+                          {run.map(renderChange)}
+                        </CollapsibleContent>
+                      </Collapsible>
+                    )
+                  )}
                 </div>
               )}
             </ScrollArea>
@@ -448,13 +612,40 @@ export function EnhancedVersionHistoryDialog({
                 </div>
               </div>
 
-              <Button
-                onClick={handleCompare}
-                disabled={!selectedVersion || !compareVersion}
-                className="w-full"
-              >
-                Versionen vergleichen
-              </Button>
+              <div className="grid grid-cols-3 gap-2">
+                <Button
+                  onClick={handleCompare}
+                  disabled={!selectedVersion || !compareVersion}
+                >
+                  Versionen vergleichen
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowDiffMap(true)}
+                  disabled={!selectedVersion || !compareVersion}
+                  className="gap-2"
+                >
+                  <IconMap className="h-4 w-4" />
+                  Auf Karte vergleichen
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleMerge}
+                  disabled={
+                    !selectedVersion ||
+                    !compareVersion ||
+                    selectedVersion.versionNumber ===
+                      compareVersion.versionNumber ||
+                    isMerging
+                  }
+                  className="gap-2"
+                >
+                  <IconGitMerge className="h-4 w-4" />
+                  {compareVersion && selectedVersion
+                    ? `v${compareVersion.versionNumber} in v${selectedVersion.versionNumber} zusammenführen`
+                    : "Zusammenführen"}
+                </Button>
+              </div>
 
               {comparison && (
                 <ScrollArea className="h-[400px] border rounded-lg p-4">
@@ -564,6 +755,29 @@ export function EnhancedVersionHistoryDialog({
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+      <EnhancedConflictResolutionDialog
+        open={mergeConflicts !== null}
+        onOpenChange={(open) => {
+          if (!open) setMergeConflicts(null);
+        }}
+        conflicts={mergeConflicts ?? []}
+        onResolve={(resolutions) =>
+          startMerging(() => mergeVersions(resolutions))
+        }
+        isLoading={isMerging}
+        title="Zusammenführungskonflikte lösen"
+        description="Beide Versionen haben dieselben Einträge unterschiedlich geändert. Wählen Sie, welche Änderung übernommen wird."
+        localLabel={`v${selectedVersion?.versionNumber ?? ""}`}
+        remoteLabel={`v${compareVersion?.versionNumber ?? ""}`}
+      />
+      {selectedVersion && compareVersion && (
+        <VersionDiffDialog
+          open={showDiffMap}
+          onOpenChange={setShowDiffMap}
+          fromVersion={selectedVersion}
+          toVersion={compareVersion}
+        />
+      )}
     </Dialog>
   );
 }
@@ -0,0 +1,161 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { setLayerPeopleAction } from "@/app/actions/people-actions";
+import {
+  LAYER_PERSON_ROLES,
+  LAYER_PERSON_ROLE_LABELS,
+  type LayerPersonAssignment,
+  type LayerPersonRole,
+  type Person,
+} from "@/lib/utils/layer-people";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+const NOT_ASSIGNED = "none";
+
+interface LayerPeopleDialogProps {
+  areaId: number;
+  layer: { id: number; name: string };
+  people: Person[];
+  assignments: LayerPersonAssignment[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenDirectory: () => void;
+}
+
+export function LayerPeopleDialog({
+  areaId,
+  layer,
+  people,
+  assignments,
+  open,
+  onOpenChange,
+  onOpenDirectory,
+}: LayerPeopleDialogProps) {
+  const [roles, setRoles] = useState<Map<number, LayerPersonRole>>(
+    () => new Map(assignments.map((a) => [a.personId, a.role]))
+  );
+  const [isPending, startTransition] = useTransition();
+
+  const handleRoleChange = (personId: number, value: string) => {
+    setRoles((current) => {
+      const next = new Map(current);
+      if (value === NOT_ASSIGNED) {
+        next.delete(personId);
+      } else {
+        next.set(personId, value as LayerPersonRole);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await setLayerPeopleAction(
+        areaId,
+        layer.id,
+        [...roles].map(([personId, role]) => ({ personId, role }))
+      );
+
+      if (!result.success) {
+        toast.error("Zuordnung konnte nicht gespeichert werden");
+        return;
+      }
+
+      toast.success(`Verantwortliche für "${layer.name}" gespeichert`);
+      onOpenChange(false);
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Verantwortliche für „{layer.name}“</DialogTitle>
+          <DialogDescription>
+            Ordnen Sie dem Gebiet Personen als Hauptverantwortliche oder
+            Vertretung zu.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {people.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Noch keine Personen angelegt.
+            </p>
+          )}
+          {people.map((person) => (
+            <div
+              key={person.id}
+              className="flex items-center gap-2 rounded-md border px-3 py-2"
+            >
+              <div className="grid flex-1 min-w-0 text-sm leading-tight">
+                <span className="truncate font-medium">{person.name}</span>
+                {person.email && (
+                  <span className="truncate text-xs text-muted-foreground">
+                    {person.email}
+                  </span>
+                )}
+              </div>
+              <Select
+                value={roles.get(person.id) ?? NOT_ASSIGNED}
+                onValueChange={(value) => handleRoleChange(person.id, value)}
+                disabled={isPending}
+              >
+                <SelectTrigger className="w-48 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_ASSIGNED}>Nicht zugeordnet</SelectItem>
+                  {LAYER_PERSON_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {LAYER_PERSON_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+        <DialogFooter className="sm:justify-between">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onOpenDirectory}
+            disabled={isPending}
+          >
+            Personen verwalten
+          </Button>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Abbrechen
+            </Button>
+            <Button onClick={handleSave} disabled={isPending}>
+              {isPending ? "Speichere..." : "Speichern"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
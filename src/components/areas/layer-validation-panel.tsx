@@ -0,0 +1,189 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  assignHolesAction,
+  validateAreaLayersAction,
+  type LayerIssueWithBounds,
+} from "@/app/actions/validation-actions";
+import type { LayerIssueType } from "@/lib/utils/layer-validation";
+import {
+  IconAlertTriangle,
+  IconCircleDashed,
+  IconRefresh,
+  IconUnlink,
+} from "@tabler/icons-react";
+import { ChevronDown, ChevronUp, Loader2Icon } from "lucide-react";
+import { useCallback, useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+interface LayerValidationPanelProps {
+  areaId: number;
+  // Changes whenever layer contents change, so the check is re-run
+  layersSignature: string;
+  canEdit?: boolean;
+  onZoomToBounds?: (bbox: [number, number, number, number]) => void;
+}
+
+const ISSUE_ICONS: Record<LayerIssueType, typeof IconAlertTriangle> = {
+  exclave: IconUnlink,
+  enclave: IconAlertTriangle,
+  hole: IconCircleDashed,
+};
+
+function describeIssue(issue: LayerIssueWithBounds): string {
+  const count = `${issue.codes.length} PLZ`;
+  switch (issue.type) {
+    case "exclave":
+      return `${issue.layerName}: Exklave (${count})`;
+    case "enclave":
+      return `${issue.layerName}: Enklave in ${issue.surroundingLayerName} (${count})`;
+    case "hole":
+      return `Lücke in ${issue.layerName} (${count})`;
+  }
+}
+
+export function LayerValidationPanel({
+  areaId,
+  layersSignature,
+  canEdit = true,
+  onZoomToBounds,
+}: LayerValidationPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [issues, setIssues] = useState<LayerIssueWithBounds[] | null>(null);
+  const [isValidating, startValidating] = useTransition();
+  const [isFixing, startFixing] = useTransition();
+
+  const validate = useCallback(() => {
+    startValidating(async () => {
+      const result = await validateAreaLayersAction(areaId);
+      if (!result.success || !result.data) {
+        toast.error("Gebiete konnten nicht geprüft werden");
+        return;
+      }
+      setIssues(result.data);
+    });
+  }, [areaId]);
+
+  // Re-check whenever the panel is opened or the layers change
+  useEffect(() => {
+    if (open) {
+      validate();
+    }
+  }, [open, layersSignature, validate]);
+
+  const holeCodes = (issues ?? [])
+    .filter((issue) => issue.type === "hole")
+    .reduce((sum, issue) => sum + issue.codes.length, 0);
+
+  const handleAssignHoles = () => {
+    startFixing(async () => {
+      const result = await assignHolesAction(areaId);
+      if (!result.success || !result.data) {
+        toast.error("Lücken konnten nicht zugeordnet werden");
+        return;
+      }
+      toast.success(`${result.data.assignedCodes} PLZ zugeordnet`);
+    });
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full justify-between h-7 px-2 text-xs font-semibold"
+        >
+          <span>
+            Prüfung
+            {issues && issues.length > 0 ? ` (${issues.length})` : ""}
+          </span>
+          {open ? (
+            <ChevronUp className="h-3 w-3" />
+          ) : (
+            <ChevronDown className="h-3 w-3" />
+          )}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 pt-2">
+        <div className="flex items-center justify-between gap-2 px-2 text-xs text-muted-foreground">
+          {isValidating ? (
+            <span className="flex items-center gap-1">
+              <Loader2Icon className="h-3 w-3 animate-spin" />
+              Prüfe Gebiete...
+            </span>
+          ) : (
+            <span>
+              {issues?.length
+                ? "Klicken, um zur Stelle zu springen"
+                : "Keine Probleme gefunden"}
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={validate}
+            disabled={isValidating}
+            title="Erneut prüfen"
+          >
+            <IconRefresh className="h-3 w-3" />
+          </Button>
+        </div>
+
+        {issues && issues.length > 0 && (
+          <div className="space-y-1 max-h-40 overflow-y-auto pr-1">
+            {issues.map((issue) => {
+              const Icon = ISSUE_ICONS[issue.type];
+              return (
+                <button
+                  key={`${issue.type}-${issue.layerId}-${issue.codes[0]}`}
+                  type="button"
+                  className="w-full flex items-start gap-2 rounded-md border px-2 py-1.5 text-left text-xs hover:bg-accent/50"
+                  onClick={() => onZoomToBounds?.(issue.bbox)}
+                >
+                  <Icon
+                    className={`h-3.5 w-3.5 mt-0.5 flex-shrink-0 ${
+                      issue.type === "hole"
+                        ? "text-muted-foreground"
+                        : "text-amber-600"
+                    }`}
+                  />
+                  <span className="min-w-0">
+                    <span className="block font-medium truncate">
+                      {describeIssue(issue)}
+                    </span>
+                    <span className="block text-muted-foreground truncate">
+                      {issue.codes.slice(0, 5).join(", ")}
+                      {issue.codes.length > 5 ? ", …" : ""}
+                    </span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {canEdit && holeCodes > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full h-7 text-xs"
+            onClick={handleAssignHoles}
+            disabled={isFixing}
+          >
+            {isFixing
+              ? "Ordne zu..."
+              : `Lücken dem umgebenden Gebiet zuordnen (${holeCodes} PLZ)`}
+          </Button>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
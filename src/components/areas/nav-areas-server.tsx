@@ -1,4 +1,6 @@
-import { getAreas } from "@/lib/db/data-functions";
+import { getAreas, getArchivedAreas } from "@/lib/db/data-functions";
+import { isAdmin } from "@/lib/auth/permissions";
+import { requireUser } from "@/lib/auth/session";
 import { NavAreas } from "./nav-areas";
 import { Suspense } from "react";
 import {
@@ -21,11 +23,14 @@ async function NavAreasContent({
 }: NavAreasServerProps) {
   // Server Component: initiate fetch and pass promise down
   // Deduplication ensures this is efficient even if called multiple times
-  const areasPromise = getAreas();
+  const user = await requireUser();
+  const areasPromise = getAreas(user.id, isAdmin(user));
+  const archivedAreasPromise = getArchivedAreas(user.id, isAdmin(user));
 
   return (
     <NavAreas
       areasPromise={areasPromise}
+      archivedAreasPromise={archivedAreasPromise}
       isLoading={false}
       currentAreaId={currentAreaId}
       onAreaSelect={onAreaSelect}
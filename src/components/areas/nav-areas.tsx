@@ -5,14 +5,25 @@ import {
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarMenu,
+  SidebarMenuAction,
   SidebarMenuButton,
   SidebarMenuItem,
 } from "@/components/ui/sidebar";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -26,7 +37,13 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
-import { type Area } from "@/lib/types/area-types";
+import { type Area, type AreaWithRole } from "@/lib/types/area-types";
+import { hasAreaRole } from "@/lib/auth/roles";
+import {
+  CONFLICT_POLICIES,
+  CONFLICT_POLICY_LABELS,
+  isConflictPolicy,
+} from "@/lib/utils/conflict-policy";
 import {
   IconFolder,
   IconPlus,
@@ -35,17 +52,36 @@ import {
   IconTrash,
   IconCheck,
   IconX,
+  IconShare,
+  IconArchive,
+  IconArchiveOff,
+  IconChevronDown,
+  IconStack2,
+  IconCopy,
+  IconTemplate,
+  IconTemplateOff,
+  IconHistory,
 } from "@tabler/icons-react";
 import { useState, Activity, useOptimistic, useTransition, use } from "react";
 import { CreateAreaDialog } from "./create-area-dialog";
+import { ShareAreaDialog } from "./share-area-dialog";
+import { DuplicateAreaDialog } from "./duplicate-area-dialog";
+import { VersionPolicyDialog } from "./version-policy-dialog";
 import { useParams } from "next/navigation";
 import Link from "next/link";
-import { updateAreaAction, deleteAreaAction } from "@/app/actions/area-actions";
+import {
+  updateAreaAction,
+  deleteAreaAction,
+  archiveAreaAction,
+  unarchiveAreaAction,
+} from "@/app/actions/area-actions";
+import { setAreaTemplateAction } from "@/app/actions/area-copy-actions";
 import { toast } from "sonner";
 import type { Route } from "next";
 
 interface NavAreasProps {
-  areasPromise: Promise<Area[]>;
+  areasPromise: Promise<AreaWithRole[]>;
+  archivedAreasPromise: Promise<AreaWithRole[]>;
   isLoading?: boolean;
   currentAreaId?: number | null;
   onAreaSelect?: (areaId: number) => void;
@@ -53,12 +89,14 @@ interface NavAreasProps {
 
 export function NavAreas({
   areasPromise,
+  archivedAreasPromise,
   isLoading = false,
   currentAreaId: _currentAreaId,
   onAreaSelect,
 }: NavAreasProps) {
   // Client Component: use() to consume promise where data is actually used
   const areas = use(areasPromise);
+  const archivedAreas = use(archivedAreasPromise);
 
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [editingAreaId, setEditingAreaId] = useState<number | null>(null);
@@ -66,19 +104,34 @@ export function NavAreas({
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [areaToDelete, setAreaToDelete] = useState<Area | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [areaToShare, setAreaToShare] = useState<Area | null>(null);
+  const [areaToDuplicate, setAreaToDuplicate] = useState<Area | null>(null);
+  const [areaForVersionPolicy, setAreaForVersionPolicy] =
+    useState<Area | null>(null);
+  const [archivedOpen, setArchivedOpen] = useState(false);
   const params = useParams();
   const currentAreaIdFromRoute = params?.areaId ? String(params.areaId) : null;
 
   // Optimistic state for areas
   const [optimisticAreas, updateOptimisticAreas] = useOptimistic(
     areas,
-    (currentAreas: Area[], update: { type: 'rename' | 'delete'; id: number; name?: string }) => {
+    (currentAreas: AreaWithRole[], update: { type: 'rename' | 'delete' | 'archive' | 'conflictPolicy' | 'template'; id: number; name?: string; conflictPolicy?: string; isTemplate?: string }) => {
       if (update.type === 'rename' && update.name) {
         return currentAreas.map(area =>
           area.id === update.id ? { ...area, name: update.name! } : area
         );
       }
-      if (update.type === 'delete') {
+      if (update.type === 'conflictPolicy' && update.conflictPolicy) {
+        return currentAreas.map(area =>
+          area.id === update.id ? { ...area, conflictPolicy: update.conflictPolicy! } : area
+        );
+      }
+      if (update.type === 'template' && update.isTemplate) {
+        return currentAreas.map(area =>
+          area.id === update.id ? { ...area, isTemplate: update.isTemplate! } : area
+        );
+      }
+      if (update.type === 'delete' || update.type === 'archive') {
         return currentAreas.filter(area => area.id !== update.id);
       }
       return currentAreas;
@@ -99,14 +152,15 @@ export function NavAreas({
     return `/postal-codes/${area.id}`;
   };
 
-  const _handleAreaDoubleClick = (area: Area, e: React.MouseEvent) => {
+  const _handleAreaDoubleClick = (area: AreaWithRole, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
     handleStartRename(area, e);
   };
 
-  const handleStartRename = (area: Area, e: React.MouseEvent) => {
+  const handleStartRename = (area: AreaWithRole, e: React.MouseEvent) => {
     e.stopPropagation();
+    if (!hasAreaRole(area.role, "editor")) return;
     setEditingAreaId(area.id);
     setEditingAreaName(area.name);
   };
@@ -153,6 +207,50 @@ export function NavAreas({
     });
   };
 
+  const handleConflictPolicyChange = (area: Area, value: string) => {
+    if (!isConflictPolicy(value) || value === area.conflictPolicy) return;
+
+    startTransition(async () => {
+      updateOptimisticAreas({ type: 'conflictPolicy', id: area.id, conflictPolicy: value });
+
+      await toast.promise(
+        updateAreaAction(area.id, { conflictPolicy: value }),
+        {
+          loading: "Speichere Einstellung...",
+          success: (data) => {
+            if (data.success) {
+              return `Überschneidungen: ${CONFLICT_POLICY_LABELS[value]}`;
+            }
+            throw new Error(data.error || "Speichern fehlgeschlagen");
+          },
+          error: "Speichern fehlgeschlagen",
+        }
+      );
+    });
+  };
+
+  const handleToggleTemplate = (area: Area, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const isTemplate = area.isTemplate !== "true";
+
+    startTransition(async () => {
+      updateOptimisticAreas({ type: 'template', id: area.id, isTemplate: isTemplate ? "true" : "false" });
+
+      await toast.promise(setAreaTemplateAction(area.id, isTemplate), {
+        loading: "Speichere Einstellung...",
+        success: (data) => {
+          if (data.success) {
+            return isTemplate
+              ? `"${area.name}" als Vorlage gespeichert`
+              : `"${area.name}" ist keine Vorlage mehr`;
+          }
+          throw new Error(data.error || "Speichern fehlgeschlagen");
+        },
+        error: "Speichern fehlgeschlagen",
+      });
+    });
+  };
+
   const handleStartDelete = (area: Area, e: React.MouseEvent) => {
     e.stopPropagation();
     setAreaToDelete(area);
@@ -188,6 +286,40 @@ export function NavAreas({
     });
   };
 
+  const handleArchive = (area: Area, e: React.MouseEvent) => {
+    e.stopPropagation();
+
+    startTransition(async () => {
+      updateOptimisticAreas({ type: 'archive', id: area.id });
+
+      await toast.promise(archiveAreaAction(area.id), {
+        loading: `Archiviere "${area.name}"...`,
+        success: (data) => {
+          if (data.success) {
+            return `"${area.name}" archiviert`;
+          }
+          throw new Error(data.error || "Archivieren fehlgeschlagen");
+        },
+        error: "Archivieren fehlgeschlagen",
+      });
+    });
+  };
+
+  const handleUnarchive = (area: Area) => {
+    startTransition(async () => {
+      await toast.promise(unarchiveAreaAction(area.id), {
+        loading: `Stelle "${area.name}" wieder her...`,
+        success: (data) => {
+          if (data.success) {
+            return `"${area.name}" wiederhergestellt`;
+          }
+          throw new Error(data.error || "Wiederherstellen fehlgeschlagen");
+        },
+        error: "Wiederherstellen fehlgeschlagen",
+      });
+    });
+  };
+
   return (
     <>
       <SidebarGroup>
@@ -299,7 +431,11 @@ export function NavAreas({
                           handleStartRename(area, e);
                         }}
                       >
-                        <IconFolder className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                        {area.isTemplate === "true" ? (
+                          <IconTemplate className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                        ) : (
+                          <IconFolder className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                        )}
                         <Link
                           href={getAreaUrl(area) as Route}
                           onClick={(e) => {
@@ -328,18 +464,102 @@ export function NavAreas({
                             <DropdownMenuItem
                               onClick={(e) => handleStartRename(area, e)}
                               className="cursor-pointer"
+                              disabled={!hasAreaRole(area.role, "editor")}
                             >
                               <IconEdit className="h-4 w-4 mr-2" />
                               Umbenennen
                             </DropdownMenuItem>
-                            <DropdownMenuSeparator />
                             <DropdownMenuItem
-                              onClick={(e) => handleStartDelete(area, e)}
-                              className="cursor-pointer text-destructive focus:text-destructive"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setAreaToDuplicate(area);
+                              }}
+                              className="cursor-pointer"
                             >
-                              <IconTrash className="h-4 w-4 mr-2" />
-                              Löschen
+                              <IconCopy className="h-4 w-4 mr-2" />
+                              Duplizieren
                             </DropdownMenuItem>
+                            {hasAreaRole(area.role, "editor") && (
+                              <DropdownMenuSub>
+                                <DropdownMenuSubTrigger className="cursor-pointer">
+                                  <IconStack2 className="h-4 w-4 mr-2" />
+                                  Überschneidungen
+                                </DropdownMenuSubTrigger>
+                                <DropdownMenuSubContent className="w-56">
+                                  <DropdownMenuRadioGroup
+                                    value={area.conflictPolicy}
+                                    onValueChange={(value) =>
+                                      handleConflictPolicyChange(area, value)
+                                    }
+                                  >
+                                    {CONFLICT_POLICIES.map((policy) => (
+                                      <DropdownMenuRadioItem
+                                        key={policy}
+                                        value={policy}
+                                        className="cursor-pointer"
+                                      >
+                                        {CONFLICT_POLICY_LABELS[policy]}
+                                      </DropdownMenuRadioItem>
+                                    ))}
+                                  </DropdownMenuRadioGroup>
+                                </DropdownMenuSubContent>
+                              </DropdownMenuSub>
+                            )}
+                            {hasAreaRole(area.role, "owner") && (
+                              <>
+                                <DropdownMenuItem
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setAreaToShare(area);
+                                  }}
+                                  className="cursor-pointer"
+                                >
+                                  <IconShare className="h-4 w-4 mr-2" />
+                                  Freigeben
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setAreaForVersionPolicy(area);
+                                  }}
+                                  className="cursor-pointer"
+                                >
+                                  <IconHistory className="h-4 w-4 mr-2" />
+                                  Auto-Versionierung
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={(e) => handleToggleTemplate(area, e)}
+                                  className="cursor-pointer"
+                                >
+                                  {area.isTemplate === "true" ? (
+                                    <>
+                                      <IconTemplateOff className="h-4 w-4 mr-2" />
+                                      Keine Vorlage mehr
+                                    </>
+                                  ) : (
+                                    <>
+                                      <IconTemplate className="h-4 w-4 mr-2" />
+                                      Als Vorlage speichern
+                                    </>
+                                  )}
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={(e) => handleArchive(area, e)}
+                                  className="cursor-pointer"
+                                >
+                                  <IconArchive className="h-4 w-4 mr-2" />
+                                  Archivieren
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  onClick={(e) => handleStartDelete(area, e)}
+                                  className="cursor-pointer text-destructive focus:text-destructive"
+                                >
+                                  <IconTrash className="h-4 w-4 mr-2" />
+                                  Löschen
+                                </DropdownMenuItem>
+                              </>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </div>
@@ -351,11 +571,84 @@ export function NavAreas({
         </SidebarGroupContent>
       </SidebarGroup>
 
+      {/* Archived areas - read-only, collapsed by default */}
+      <Activity mode={archivedAreas.length > 0 ? "visible" : "hidden"}>
+        <Collapsible open={archivedOpen} onOpenChange={setArchivedOpen}>
+          <SidebarGroup>
+            <SidebarGroupLabel asChild>
+              <CollapsibleTrigger className="flex w-full items-center justify-between">
+                <span>Archiviert ({archivedAreas.length})</span>
+                <IconChevronDown
+                  className={`h-4 w-4 transition-transform ${archivedOpen ? "rotate-180" : ""}`}
+                />
+              </CollapsibleTrigger>
+            </SidebarGroupLabel>
+            <CollapsibleContent>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {archivedAreas.map((area) => (
+                    <SidebarMenuItem key={area.id}>
+                      <SidebarMenuButton
+                        asChild
+                        isActive={currentAreaIdFromRoute === String(area.id)}
+                        className="text-muted-foreground"
+                      >
+                        <Link href={getAreaUrl(area) as Route}>
+                          <IconArchive className="h-4 w-4" />
+                          <span>{area.name}</span>
+                        </Link>
+                      </SidebarMenuButton>
+                      {hasAreaRole(area.role, "owner") && (
+                        <SidebarMenuAction
+                          showOnHover
+                          onClick={() => handleUnarchive(area)}
+                          title="Wiederherstellen"
+                        >
+                          <IconArchiveOff />
+                          <span className="sr-only">Wiederherstellen</span>
+                        </SidebarMenuAction>
+                      )}
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </CollapsibleContent>
+          </SidebarGroup>
+        </Collapsible>
+      </Activity>
+
       <CreateAreaDialog
         open={createDialogOpen}
         onOpenChange={setCreateDialogOpen}
       />
 
+      {areaToDuplicate && (
+        <DuplicateAreaDialog
+          areaId={areaToDuplicate.id}
+          areaName={areaToDuplicate.name}
+          open={!!areaToDuplicate}
+          onOpenChange={(open) => !open && setAreaToDuplicate(null)}
+        />
+      )}
+
+      {areaToShare && (
+        <ShareAreaDialog
+          areaId={areaToShare.id}
+          areaName={areaToShare.name}
+          open={!!areaToShare}
+          onOpenChange={(open) => !open && setAreaToShare(null)}
+        />
+      )}
+
+      {areaForVersionPolicy && (
+        <VersionPolicyDialog
+          areaId={areaForVersionPolicy.id}
+          areaName={areaForVersionPolicy.name}
+          open={!!areaForVersionPolicy}
+          onOpenChange={(open) => !open && setAreaForVersionPolicy(null)}
+        />
+      )}
+
       {/* Delete confirmation dialog */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
@@ -0,0 +1,233 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  createPersonAction,
+  deletePersonAction,
+  updatePersonAction,
+  type PersonInput,
+} from "@/app/actions/people-actions";
+import type { Person } from "@/lib/utils/layer-people";
+import { IconMapPinOff, IconPencil, IconTrash } from "@tabler/icons-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+interface PeopleDirectoryDialogProps {
+  people: Person[];
+  // Only admins add, edit and delete people; everyone else just browses
+  canManage: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_PERSON: PersonInput = {
+  name: "",
+  email: "",
+  phone: "",
+  address: "",
+};
+
+export function PeopleDirectoryDialog({
+  people,
+  canManage,
+  open,
+  onOpenChange,
+}: PeopleDirectoryDialogProps) {
+  const [form, setForm] = useState<PersonInput>(EMPTY_PERSON);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const resetForm = () => {
+    setForm(EMPTY_PERSON);
+    setEditingId(null);
+  };
+
+  const handleEdit = (person: Person) => {
+    setEditingId(person.id);
+    setForm({
+      name: person.name,
+      email: person.email ?? "",
+      phone: person.phone ?? "",
+      address: person.address ?? "",
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    startTransition(async () => {
+      const result = editingId
+        ? await updatePersonAction(editingId, form)
+        : await createPersonAction(form);
+
+      if (!result.success) {
+        toast.error("Person konnte nicht gespeichert werden");
+        return;
+      }
+
+      if (result.data && !result.data.geocoded) {
+        toast.warning(
+          `Adresse von ${form.name.trim()} nicht gefunden – kein Kartenmarker`
+        );
+      } else {
+        toast.success(`${form.name.trim()} gespeichert`);
+      }
+      resetForm();
+    });
+  };
+
+  const handleDelete = (person: Person) => {
+    startTransition(async () => {
+      const result = await deletePersonAction(person.id);
+      if (!result.success) {
+        toast.error(
+          "Person konnte nicht gelöscht werden – ist sie noch Gebieten zugeordnet?"
+        );
+        return;
+      }
+      toast.success(`${person.name} gelöscht`);
+      if (editingId === person.id) {
+        resetForm();
+      }
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) resetForm();
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Personen</DialogTitle>
+          <DialogDescription>
+            Außendienst und weitere Verantwortliche, die Gebieten zugeordnet
+            werden können. Die Heimatadresse wird auf der Karte markiert.
+          </DialogDescription>
+        </DialogHeader>
+        {canManage && (
+          <form className="grid gap-3" onSubmit={handleSubmit}>
+            <div className="grid gap-2">
+              <Label htmlFor="person-name">Name *</Label>
+              <Input
+                id="person-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-2">
+                <Label htmlFor="person-email">E-Mail</Label>
+                <Input
+                  id="person-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  placeholder="name@firma.de"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="person-phone">Telefon</Label>
+                <Input
+                  id="person-phone"
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="person-address">Heimatadresse</Label>
+              <Input
+                id="person-address"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                placeholder="Straße, PLZ Ort"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={resetForm}
+                  disabled={isPending}
+                >
+                  Abbrechen
+                </Button>
+              )}
+              <Button type="submit" disabled={isPending || !form.name.trim()}>
+                {editingId ? "Speichern" : "Hinzufügen"}
+              </Button>
+            </div>
+          </form>
+        )}
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {people.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Noch keine Personen angelegt.
+            </p>
+          )}
+          {people.map((person) => (
+            <div
+              key={person.id}
+              className="flex items-center gap-2 rounded-md border px-3 py-2"
+            >
+              <div className="grid flex-1 min-w-0 text-sm leading-tight">
+                <span className="truncate font-medium">{person.name}</span>
+                <span className="truncate text-xs text-muted-foreground">
+                  {[person.email, person.phone, person.address]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </div>
+              {person.address && person.latitude === null && (
+                <IconMapPinOff
+                  className="h-4 w-4 text-amber-600"
+                  aria-label="Adresse nicht gefunden"
+                />
+              )}
+              {canManage && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleEdit(person)}
+                    disabled={isPending}
+                    title="Bearbeiten"
+                  >
+                    <IconPencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(person)}
+                    disabled={isPending}
+                    title="Person löschen"
+                  >
+                    <IconTrash className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Switch } from "@/components/ui/switch";
+import { GeocodeJobProgress } from "@/components/postal-codes/geocode-job-progress";
+import { PointImportDialog } from "@/components/postal-codes/point-import-dialog";
+import { deletePointDatasetAction } from "@/app/actions/point-actions";
+import type { DataPoints, PointDataset } from "@/lib/utils/data-points";
+import { IconTrash, IconUpload } from "@tabler/icons-react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+
+interface PointDatasetsPanelProps {
+  areaId: number;
+  dataPoints: DataPoints;
+  // Datasets hidden on the map and left out of the layer counts
+  hiddenDatasetIds: number[];
+  onHiddenDatasetIdsChange: (datasetIds: number[]) => void;
+  canEdit?: boolean;
+}
+
+export function PointDatasetsPanel({
+  areaId,
+  dataPoints,
+  hiddenDatasetIds,
+  onHiddenDatasetIdsChange,
+  canEdit = true,
+}: PointDatasetsPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [isDeleting, startDeleting] = useTransition();
+
+  const assignedPoints = dataPoints.points.filter(
+    (point) => point.postalCode && !hiddenDatasetIds.includes(point.datasetId)
+  ).length;
+  const visiblePoints = dataPoints.points.filter(
+    (point) => !hiddenDatasetIds.includes(point.datasetId)
+  ).length;
+
+  const toggleDataset = (datasetId: number, visible: boolean) => {
+    onHiddenDatasetIdsChange(
+      visible
+        ? hiddenDatasetIds.filter((id) => id !== datasetId)
+        : [...hiddenDatasetIds, datasetId]
+    );
+  };
+
+  const handleDelete = (dataset: PointDataset) => {
+    startDeleting(async () => {
+      const result = await deletePointDatasetAction(dataset.id);
+      if (!result.success) {
+        toast.error("Datensatz konnte nicht gelöscht werden");
+        return;
+      }
+      toast.success(`"${dataset.name}" gelöscht`);
+    });
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full justify-between h-7 px-2 text-xs font-semibold"
+        >
+          <span>Punktdaten ({dataPoints.datasets.length})</span>
+          {open ? (
+            <ChevronUp className="h-3 w-3" />
+          ) : (
+            <ChevronDown className="h-3 w-3" />
+          )}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-2 pt-2">
+        {dataPoints.datasets.length > 0 && (
+          <div className="px-2 text-xs text-muted-foreground">
+            {assignedPoints.toLocaleString("de-DE")} von{" "}
+            {visiblePoints.toLocaleString("de-DE")} Punkten liegen in einer PLZ
+          </div>
+        )}
+        <div className="space-y-1">
+          {dataPoints.datasets.map((dataset) => (
+            <div key={dataset.id} className="space-y-1 rounded-md border py-1">
+              <div className="flex items-center gap-2 px-2">
+                <Switch
+                  checked={!hiddenDatasetIds.includes(dataset.id)}
+                  onCheckedChange={(checked) =>
+                    toggleDataset(dataset.id, checked)
+                  }
+                  aria-label={`${dataset.name} anzeigen`}
+                />
+                <div
+                  className="h-3 w-3 flex-shrink-0 rounded-full"
+                  style={{ backgroundColor: dataset.color }}
+                />
+                <span className="flex-1 truncate text-xs">{dataset.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {dataset.pointCount.toLocaleString("de-DE")}
+                </span>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(dataset)}
+                    disabled={isDeleting}
+                    title="Datensatz löschen"
+                  >
+                    <IconTrash className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              {dataset.geocodeJobId !== null && (
+                <GeocodeJobProgress
+                  jobId={dataset.geocodeJobId}
+                  canEdit={canEdit}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        {canEdit && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full h-7 text-xs"
+            onClick={() => setShowImport(true)}
+          >
+            <IconUpload className="h-3 w-3 mr-1" />
+            Standorte importieren
+          </Button>
+        )}
+        <PointImportDialog
+          areaId={areaId}
+          open={showImport}
+          onOpenChange={setShowImport}
+        />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
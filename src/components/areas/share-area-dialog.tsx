@@ -0,0 +1,186 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getAreaMembersAction,
+  removeAreaMemberAction,
+  setAreaMemberAction,
+  type AreaMember,
+} from "@/app/actions/area-member-actions";
+import { AREA_ROLES, AREA_ROLE_LABELS, type AreaRole } from "@/lib/auth/roles";
+import { IconTrash } from "@tabler/icons-react";
+import { useCallback, useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+interface ShareAreaDialogProps {
+  areaId: number;
+  areaName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ShareAreaDialog({
+  areaId,
+  areaName,
+  open,
+  onOpenChange,
+}: ShareAreaDialogProps) {
+  const [members, setMembers] = useState<AreaMember[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<AreaRole>("viewer");
+  const [isPending, startTransition] = useTransition();
+
+  const loadMembers = useCallback(async () => {
+    const result = await getAreaMembersAction(areaId);
+    if (result.success && result.data) {
+      setMembers(result.data);
+    }
+  }, [areaId]);
+
+  useEffect(() => {
+    if (open) {
+      startTransition(loadMembers);
+    }
+  }, [open, loadMembers]);
+
+  const handleSetMember = (memberEmail: string, memberRole: AreaRole) => {
+    startTransition(async () => {
+      const result = await setAreaMemberAction(areaId, memberEmail, memberRole);
+      if (!result.success) {
+        toast.error(
+          result.error === "User not found"
+            ? `Kein Benutzer mit der E-Mail "${memberEmail}" gefunden`
+            : "Freigabe konnte nicht gespeichert werden"
+        );
+        return;
+      }
+      toast.success("Freigabe gespeichert");
+      setEmail("");
+      await loadMembers();
+    });
+  };
+
+  const handleRemoveMember = (member: AreaMember) => {
+    startTransition(async () => {
+      const result = await removeAreaMemberAction(areaId, member.userId);
+      if (!result.success) {
+        toast.error("Freigabe konnte nicht entfernt werden");
+        return;
+      }
+      toast.success(`${member.name} entfernt`);
+      await loadMembers();
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Gebiet freigeben</DialogTitle>
+          <DialogDescription>
+            Legen Sie fest, wer &quot;{areaName}&quot; sehen oder bearbeiten darf.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="flex items-end gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (email.trim()) {
+              handleSetMember(email, role);
+            }
+          }}
+        >
+          <div className="grid flex-1 gap-2">
+            <Label htmlFor="share-email">E-Mail</Label>
+            <Input
+              id="share-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@firma.de"
+            />
+          </div>
+          <Select value={role} onValueChange={(v) => setRole(v as AreaRole)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AREA_ROLES.map((r) => (
+                <SelectItem key={r} value={r}>
+                  {AREA_ROLE_LABELS[r]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={isPending || !email.trim()}>
+            Hinzufügen
+          </Button>
+        </form>
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {members.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Noch nicht freigegeben – alle Benutzer haben Zugriff.
+            </p>
+          )}
+          {members.map((member) => (
+            <div
+              key={member.userId}
+              className="flex items-center gap-2 rounded-md border px-3 py-2"
+            >
+              <div className="grid flex-1 min-w-0 text-sm leading-tight">
+                <span className="truncate font-medium">{member.name}</span>
+                <span className="truncate text-xs text-muted-foreground">
+                  {member.email}
+                </span>
+              </div>
+              <Select
+                value={member.role}
+                onValueChange={(v) =>
+                  handleSetMember(member.email, v as AreaRole)
+                }
+                disabled={isPending}
+              >
+                <SelectTrigger className="w-36 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AREA_ROLES.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {AREA_ROLE_LABELS[r]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive hover:text-destructive"
+                onClick={() => handleRemoveMember(member)}
+                disabled={isPending}
+                title="Freigabe entfernen"
+              >
+                <IconTrash className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,592 @@
+"use client";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Slider } from "@/components/ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useMapConfig } from "@/lib/hooks/use-map-config";
+import type { SelectAreaVersions } from "@/lib/schema/schema";
+import type { VersionSnapshot } from "@/lib/types/area-types";
+import {
+  getPostalCodeTileUrl,
+  POSTAL_CODE_ID_PROPERTY,
+  POSTAL_CODE_TILE_LAYER,
+  TILE_MAX_ZOOM,
+  TILE_MIN_ZOOM,
+} from "@/lib/utils/map-tiles";
+import {
+  diffSnapshots,
+  type PostalCodeDiffStatus,
+} from "@/lib/utils/version-diff";
+import { IconAlertTriangle, IconX } from "@tabler/icons-react";
+import type {
+  ExpressionSpecification,
+  Map as MapLibreMap,
+} from "maplibre-gl";
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+
+type DiffMode = "diff" | "swipe" | "side-by-side";
+
+interface MapView {
+  center: [number, number];
+  zoom: number;
+}
+
+const DIFF_STYLES: Record<
+  Exclude<PostalCodeDiffStatus, "unchanged">,
+  { color: string; label: string }
+> = {
+  gained: { color: "#16a34a", label: "Hinzugekommen" },
+  lost: { color: "#dc2626", label: "Entfallen" },
+  moved: { color: "#f59e0b", label: "Verschoben" },
+};
+
+const UNCHANGED_COLOR = "#94a3b8";
+
+const NO_CODES: string[] = [];
+
+const codeExpression: ExpressionSpecification = [
+  "to-string",
+  ["get", POSTAL_CODE_ID_PROPERTY],
+];
+
+/**
+ * `match` expression coloring groups of postal codes; each code is only
+ * listed once, as MapLibre rejects duplicate labels
+ */
+function colorByCode(
+  groups: Array<{ codes: string[]; color: string }>,
+  fallback: string
+): ExpressionSpecification | string {
+  const seen = new Set<string>();
+  const branches: unknown[] = [];
+
+  for (const group of groups) {
+    const codes = group.codes.filter((code) => !seen.has(code));
+    codes.forEach((code) => seen.add(code));
+    if (codes.length > 0) {
+      branches.push(codes, group.color);
+    }
+  }
+
+  if (branches.length === 0) return fallback;
+  return ["match", codeExpression, ...branches, fallback] as ExpressionSpecification;
+}
+
+function snapshotColors(snapshot: VersionSnapshot) {
+  return colorByCode(
+    snapshot.layers.map((layer) => ({
+      codes: layer.postalCodes,
+      color: layer.color,
+    })),
+    "rgba(0,0,0,0)"
+  );
+}
+
+interface DiffMapPaneProps {
+  style: string;
+  granularity: string;
+  fillColor: ExpressionSpecification | string;
+  fillOpacity: ExpressionSpecification | number;
+  lineColor: ExpressionSpecification | string;
+  lostCodes?: string[];
+  selectedCode: string | null;
+  viewRef: React.RefObject<MapView>;
+  onMapChange: (map: MapLibreMap | null) => void;
+  onCodeClick: (code: string) => void;
+  label?: string;
+  className?: string;
+  containerStyle?: React.CSSProperties;
+}
+
+/**
+ * One MapLibre map rendering postal codes from the vector tiles, colored by
+ * the given expressions
+ */
+function DiffMapPane({
+  style,
+  granularity,
+  fillColor,
+  fillOpacity,
+  lineColor,
+  lostCodes = NO_CODES,
+  selectedCode,
+  viewRef,
+  onMapChange,
+  onCodeClick,
+  label,
+  className,
+  containerStyle,
+}: DiffMapPaneProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [map, setMap] = useState<MapLibreMap | null>(null);
+
+  // Latest click handler without re-binding map events
+  const onCodeClickRef = useRef(onCodeClick);
+  useEffect(() => {
+    onCodeClickRef.current = onCodeClick;
+  }, [onCodeClick]);
+
+  useLayoutEffect(() => {
+    if (!containerRef.current) return;
+
+    let instance: MapLibreMap | null = null;
+    let cancelled = false;
+    const container = containerRef.current;
+    const resizeObserver = new ResizeObserver(() => instance?.resize());
+
+    (async () => {
+      const maplibre = await import("maplibre-gl");
+      if (cancelled) return;
+
+      instance = new maplibre.Map({
+        container,
+        style,
+        center: viewRef.current.center,
+        zoom: viewRef.current.zoom,
+        minZoom: 3,
+        maxZoom: 18,
+      });
+
+      instance.once("load", () => {
+        if (!instance || cancelled) return;
+
+        instance.addSource("diff-postal-codes", {
+          type: "vector",
+          tiles: [getPostalCodeTileUrl(granularity)],
+          minzoom: TILE_MIN_ZOOM,
+          maxzoom: TILE_MAX_ZOOM,
+          promoteId: POSTAL_CODE_ID_PROPERTY,
+        });
+
+        instance.addLayer({
+          id: "diff-fill",
+          type: "fill",
+          source: "diff-postal-codes",
+          "source-layer": POSTAL_CODE_TILE_LAYER,
+          paint: { "fill-color": "rgba(0,0,0,0)", "fill-opacity": 0.6 },
+        });
+
+        instance.addLayer({
+          id: "diff-border",
+          type: "line",
+          source: "diff-postal-codes",
+          "source-layer": POSTAL_CODE_TILE_LAYER,
+          paint: { "line-color": "rgba(0,0,0,0)", "line-width": 1 },
+        });
+
+        // Lost codes keep a dashed outline so they stand out from gained ones
+        instance.addLayer({
+          id: "diff-lost",
+          type: "line",
+          source: "diff-postal-codes",
+          "source-layer": POSTAL_CODE_TILE_LAYER,
+          filter: ["in", codeExpression, ["literal", []]],
+          paint: {
+            "line-color": DIFF_STYLES.lost.color,
+            "line-width": 2,
+            "line-dasharray": [2, 2],
+          },
+        });
+
+        instance.addLayer({
+          id: "diff-selected",
+          type: "line",
+          source: "diff-postal-codes",
+          "source-layer": POSTAL_CODE_TILE_LAYER,
+          filter: ["==", codeExpression, ""],
+          paint: { "line-color": "#111827", "line-width": 3 },
+        });
+
+        instance.on("click", "diff-fill", (e) => {
+          const code = e.features?.[0]?.properties?.[POSTAL_CODE_ID_PROPERTY];
+          if (code !== undefined) {
+            onCodeClickRef.current(String(code));
+          }
+        });
+
+        instance.on("moveend", () => {
+          if (!instance) return;
+          const center = instance.getCenter();
+          viewRef.current = {
+            center: [center.lng, center.lat],
+            zoom: instance.getZoom(),
+          };
+        });
+
+        setMap(instance);
+        onMapChange(instance);
+      });
+
+      resizeObserver.observe(container);
+    })();
+
+    return () => {
+      cancelled = true;
+      resizeObserver.disconnect();
+      onMapChange(null);
+      instance?.remove();
+    };
+  }, [style, granularity, viewRef, onMapChange]);
+
+  // Restyle when the compared versions change
+  useEffect(() => {
+    if (!map) return;
+    map.setPaintProperty("diff-fill", "fill-color", fillColor);
+    map.setPaintProperty("diff-fill", "fill-opacity", fillOpacity);
+    map.setPaintProperty("diff-border", "line-color", lineColor);
+    map.setFilter("diff-lost", ["in", codeExpression, ["literal", lostCodes]]);
+  }, [map, fillColor, fillOpacity, lineColor, lostCodes]);
+
+  useEffect(() => {
+    if (!map) return;
+    map.setFilter("diff-selected", ["==", codeExpression, selectedCode ?? ""]);
+  }, [map, selectedCode]);
+
+  return (
+    <div className={className} style={containerStyle}>
+      <div ref={containerRef} className="absolute inset-0" />
+      {label && (
+        <Badge className="absolute top-2 left-2 z-10 pointer-events-none">
+          {label}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+interface VersionDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fromVersion: SelectAreaVersions;
+  toVersion: SelectAreaVersions;
+}
+
+/**
+ * Compare two versions on the map: a diff view coloring gained, lost and
+ * moved postal codes, plus swipe and side-by-side views of both snapshots.
+ * Clicking a code shows its layers in each version.
+ */
+export function VersionDiffDialog({
+  open,
+  onOpenChange,
+  fromVersion,
+  toVersion,
+}: VersionDiffDialogProps) {
+  const { style, center, zoom } = useMapConfig([10.4515, 51.1657], 5);
+  const viewRef = useRef<MapView>({ center, zoom });
+
+  const [mode, setMode] = useState<DiffMode>("diff");
+  const [swipePosition, setSwipePosition] = useState(50);
+  const [selectedCode, setSelectedCode] = useState<string | null>(null);
+
+  const fromSnapshot = fromVersion.snapshot as VersionSnapshot;
+  const toSnapshot = toVersion.snapshot as VersionSnapshot;
+
+  const diff = useMemo(
+    () => diffSnapshots(fromSnapshot, toSnapshot),
+    [fromSnapshot, toSnapshot]
+  );
+
+  const granularityMismatch =
+    fromSnapshot.granularity !== toSnapshot.granularity;
+
+  // Keep the cameras of the visible maps in sync
+  const mapsRef = useRef(new Map<string, MapLibreMap>());
+  const syncingRef = useRef(false);
+
+  const registerMap = useMemo(() => {
+    const handlers = new Map<string, (map: MapLibreMap | null) => void>();
+    return (key: string) => {
+      if (!handlers.has(key)) {
+        handlers.set(key, (map) => {
+          if (!map) {
+            mapsRef.current.delete(key);
+            return;
+          }
+          mapsRef.current.set(key, map);
+          map.on("move", () => {
+            if (syncingRef.current) return;
+            syncingRef.current = true;
+            for (const [otherKey, other] of mapsRef.current) {
+              if (otherKey === key) continue;
+              other.jumpTo({
+                center: map.getCenter(),
+                zoom: map.getZoom(),
+                bearing: map.getBearing(),
+                pitch: map.getPitch(),
+              });
+            }
+            syncingRef.current = false;
+          });
+        });
+      }
+      return handlers.get(key)!;
+    };
+  }, []);
+
+  const diffColors = useMemo(
+    () =>
+      colorByCode(
+        [
+          { codes: diff.gained, color: DIFF_STYLES.gained.color },
+          { codes: diff.lost, color: DIFF_STYLES.lost.color },
+          { codes: diff.moved, color: DIFF_STYLES.moved.color },
+          { codes: diff.unchanged, color: UNCHANGED_COLOR },
+        ],
+        "rgba(0,0,0,0)"
+      ),
+    [diff]
+  );
+
+  // Changed codes stand out, unchanged ones stay as faint context
+  const diffOpacity = useMemo<ExpressionSpecification | number>(
+    () =>
+      diff.unchanged.length > 0
+        ? ["match", codeExpression, diff.unchanged, 0.15, 0.65]
+        : 0.65,
+    [diff]
+  );
+
+  const fromColors = useMemo(() => snapshotColors(fromSnapshot), [fromSnapshot]);
+  const toColors = useMemo(() => snapshotColors(toSnapshot), [toSnapshot]);
+
+  const layerColor = (snapshot: VersionSnapshot, name: string) =>
+    snapshot.layers.find((layer) => layer.name === name)?.color;
+
+  const selectedEntry = selectedCode ? diff.entries.get(selectedCode) : null;
+
+  const fromLabel = `v${fromVersion.versionNumber}${fromVersion.name ? ` – ${fromVersion.name}` : ""}`;
+  const toLabel = `v${toVersion.versionNumber}${toVersion.name ? ` – ${toVersion.name}` : ""}`;
+
+  const paneClass = "relative h-full w-full overflow-hidden rounded-lg border";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] sm:max-w-[95vw] h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Versionen auf der Karte vergleichen</DialogTitle>
+          <DialogDescription>
+            {fromLabel} → {toLabel}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Tabs value={mode} onValueChange={(v) => setMode(v as DiffMode)}>
+            <TabsList>
+              <TabsTrigger value="diff">Änderungen</TabsTrigger>
+              <TabsTrigger value="swipe">Swipe</TabsTrigger>
+              <TabsTrigger value="side-by-side">Nebeneinander</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {(Object.keys(DIFF_STYLES) as Array<keyof typeof DIFF_STYLES>).map(
+              (status) => (
+                <Badge key={status} variant="outline" className="gap-1.5">
+                  <span
+                    className="h-3 w-3 rounded-sm"
+                    style={{ backgroundColor: DIFF_STYLES[status].color }}
+                  />
+                  {DIFF_STYLES[status].label}: {diff[status].length}
+                </Badge>
+              )
+            )}
+            <Badge variant="outline" className="gap-1.5">
+              <span
+                className="h-3 w-3 rounded-sm"
+                style={{ backgroundColor: UNCHANGED_COLOR }}
+              />
+              Unverändert: {diff.unchanged.length}
+            </Badge>
+          </div>
+        </div>
+
+        {granularityMismatch && (
+          <Alert>
+            <IconAlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Die Versionen nutzen unterschiedliche Granularitäten (
+              {fromSnapshot.granularity} / {toSnapshot.granularity}). Die
+              Änderungsansicht zeigt die Granularität von v
+              {toVersion.versionNumber}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {mode === "swipe" && (
+          <Slider
+            value={[swipePosition]}
+            min={0}
+            max={100}
+            step={1}
+            onValueChange={([value]) => setSwipePosition(value)}
+            aria-label="Swipe-Position"
+          />
+        )}
+
+        <div className="relative flex-1 min-h-0">
+          {mode === "diff" && (
+            <DiffMapPane
+              key="diff"
+              style={style}
+              granularity={toSnapshot.granularity}
+              fillColor={diffColors}
+              fillOpacity={diffOpacity}
+              lineColor={diffColors}
+              lostCodes={diff.lost}
+              selectedCode={selectedCode}
+              viewRef={viewRef}
+              onMapChange={registerMap("diff")}
+              onCodeClick={setSelectedCode}
+              className={paneClass}
+            />
+          )}
+
+          {mode === "swipe" && (
+            <div className="relative h-full w-full">
+              <DiffMapPane
+                key="swipe-from"
+                style={style}
+                granularity={fromSnapshot.granularity}
+                fillColor={fromColors}
+                fillOpacity={0.6}
+                lineColor={fromColors}
+                selectedCode={selectedCode}
+                viewRef={viewRef}
+                onMapChange={registerMap("swipe-from")}
+                onCodeClick={setSelectedCode}
+                label={fromLabel}
+                className={`${paneClass} absolute inset-0`}
+              />
+              <DiffMapPane
+                key="swipe-to"
+                style={style}
+                granularity={toSnapshot.granularity}
+                fillColor={toColors}
+                fillOpacity={0.6}
+                lineColor={toColors}
+                selectedCode={selectedCode}
+                viewRef={viewRef}
+                onMapChange={registerMap("swipe-to")}
+                onCodeClick={setSelectedCode}
+                className={`${paneClass} absolute inset-0`}
+                containerStyle={{
+                  clipPath: `inset(0 0 0 ${swipePosition}%)`,
+                }}
+              />
+              <Badge className="absolute top-2 right-2 z-10 pointer-events-none">
+                {toLabel}
+              </Badge>
+              <div
+                className="absolute inset-y-0 z-10 w-0.5 bg-primary pointer-events-none"
+                style={{ left: `${swipePosition}%` }}
+              />
+            </div>
+          )}
+
+          {mode === "side-by-side" && (
+            <div className="grid h-full grid-cols-2 gap-2">
+              <DiffMapPane
+                key="side-from"
+                style={style}
+                granularity={fromSnapshot.granularity}
+                fillColor={fromColors}
+                fillOpacity={0.6}
+                lineColor={fromColors}
+                selectedCode={selectedCode}
+                viewRef={viewRef}
+                onMapChange={registerMap("side-from")}
+                onCodeClick={setSelectedCode}
+                label={fromLabel}
+                className={paneClass}
+              />
+              <DiffMapPane
+                key="side-to"
+                style={style}
+                granularity={toSnapshot.granularity}
+                fillColor={toColors}
+                fillOpacity={0.6}
+                lineColor={toColors}
+                selectedCode={selectedCode}
+                viewRef={viewRef}
+                onMapChange={registerMap("side-to")}
+                onCodeClick={setSelectedCode}
+                label={toLabel}
+                className={paneClass}
+              />
+            </div>
+          )}
+
+          {/* Inspect panel for the clicked postal code */}
+          {selectedCode && (
+            <div className="absolute bottom-4 right-4 z-20 w-72 rounded-lg border bg-background p-3 shadow-lg space-y-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-semibold">PLZ {selectedCode}</span>
+                <button
+                  type="button"
+                  onClick={() => setSelectedCode(null)}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label="Schließen"
+                >
+                  <IconX className="h-4 w-4" />
+                </button>
+              </div>
+              {selectedEntry && selectedEntry.status !== "unchanged" && (
+                <Badge
+                  style={{
+                    backgroundColor: DIFF_STYLES[selectedEntry.status].color,
+                  }}
+                >
+                  {DIFF_STYLES[selectedEntry.status].label}
+                </Badge>
+              )}
+              {[
+                {
+                  label: fromLabel,
+                  snapshot: fromSnapshot,
+                  names: selectedEntry?.from ?? [],
+                },
+                {
+                  label: toLabel,
+                  snapshot: toSnapshot,
+                  names: selectedEntry?.to ?? [],
+                },
+              ].map(({ label, snapshot, names }) => (
+                <div key={label} className="space-y-1">
+                  <div className="text-xs text-muted-foreground truncate">
+                    {label}
+                  </div>
+                  {names.length === 0 ? (
+                    <div className="italic text-muted-foreground">
+                      Keinem Layer zugeordnet
+                    </div>
+                  ) : (
+                    names.map((name) => (
+                      <div key={name} className="flex items-center gap-2">
+                        <span
+                          className="h-3 w-3 rounded-sm border"
+                          style={{
+                            backgroundColor: layerColor(snapshot, name),
+                          }}
+                        />
+                        {name}
+                      </div>
+                    ))
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,276 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import {
+  applyVersionRetentionAction,
+  getVersionPolicyAction,
+  updateVersionPolicyAction,
+} from "@/app/actions/version-policy-actions";
+import {
+  RETENTION_MODES,
+  RETENTION_MODE_LABELS,
+  type RetentionMode,
+} from "@/lib/utils/version-policy";
+import { formatDistanceToNow } from "date-fns";
+import { de } from "date-fns/locale";
+import { useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+interface VersionPolicyDialogProps {
+  areaId: number;
+  areaName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Number inputs are kept as text so they can be emptied; empty disables
+interface PolicyForm {
+  enabled: boolean;
+  afterChanges: string;
+  inactivityMinutes: string;
+  dailyAt: string;
+  keepAutoSaves: string;
+  keepDays: string;
+  retentionMode: RetentionMode;
+}
+
+const toText = (value: number | null) => (value === null ? "" : String(value));
+
+const toNumber = (value: string) =>
+  value.trim() === "" ? null : Number(value);
+
+export function VersionPolicyDialog({
+  areaId,
+  areaName,
+  open,
+  onOpenChange,
+}: VersionPolicyDialogProps) {
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [lastAutoSaveAt, setLastAutoSaveAt] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    if (!open) return;
+
+    startTransition(async () => {
+      const result = await getVersionPolicyAction(areaId);
+      if (!result.success || !result.data) {
+        toast.error("Auto-Versionierung konnte nicht geladen werden");
+        return;
+      }
+
+      const policy = result.data;
+      setLastAutoSaveAt(policy.lastAutoSaveAt);
+      setForm({
+        // Opening the dialog for an unconfigured area suggests turning it on
+        enabled: policy.isConfigured ? policy.enabled : true,
+        afterChanges: toText(policy.afterChanges),
+        inactivityMinutes: toText(policy.inactivityMinutes),
+        dailyAt: policy.dailyAt ?? "",
+        keepAutoSaves: toText(policy.keepAutoSaves),
+        keepDays: toText(policy.keepDays),
+        retentionMode: policy.retentionMode,
+      });
+    });
+  }, [open, areaId]);
+
+  const update = <K extends keyof PolicyForm>(key: K, value: PolicyForm[K]) =>
+    setForm((current) => (current ? { ...current, [key]: value } : current));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    startTransition(async () => {
+      const result = await updateVersionPolicyAction(areaId, {
+        enabled: form.enabled,
+        afterChanges: toNumber(form.afterChanges),
+        inactivityMinutes: toNumber(form.inactivityMinutes),
+        dailyAt: form.dailyAt || null,
+        keepAutoSaves: toNumber(form.keepAutoSaves),
+        keepDays: toNumber(form.keepDays),
+        retentionMode: form.retentionMode,
+      });
+
+      if (!result.success) {
+        toast.error("Auto-Versionierung konnte nicht gespeichert werden");
+        return;
+      }
+
+      toast.success("Auto-Versionierung gespeichert");
+      onOpenChange(false);
+    });
+  };
+
+  const handleApplyRetention = () => {
+    startTransition(async () => {
+      const result = await applyVersionRetentionAction(areaId);
+      if (!result.success || !result.data) {
+        toast.error("Aufräumen fehlgeschlagen");
+        return;
+      }
+
+      toast.success(
+        result.data.removed > 0
+          ? `${result.data.removed} Auto-Saves entfernt`
+          : "Keine Auto-Saves zu entfernen"
+      );
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Auto-Versionierung</DialogTitle>
+            <DialogDescription>
+              Speichert ungesicherte Änderungen an „{areaName}“ automatisch als
+              Version. Leere Felder sind deaktiviert.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="grid gap-4 py-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="policy-enabled">Aktiv</Label>
+                <Switch
+                  id="policy-enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(checked) => update("enabled", checked)}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="policy-after-changes">Nach Änderungen</Label>
+                  <Input
+                    id="policy-after-changes"
+                    type="number"
+                    min={1}
+                    value={form.afterChanges}
+                    onChange={(e) => update("afterChanges", e.target.value)}
+                    placeholder="aus"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="policy-inactivity">Inaktiv (Min.)</Label>
+                  <Input
+                    id="policy-inactivity"
+                    type="number"
+                    min={1}
+                    value={form.inactivityMinutes}
+                    onChange={(e) =>
+                      update("inactivityMinutes", e.target.value)
+                    }
+                    placeholder="aus"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="policy-daily">Täglich um</Label>
+                  <Input
+                    id="policy-daily"
+                    type="time"
+                    value={form.dailyAt}
+                    onChange={(e) => update("dailyAt", e.target.value)}
+                  />
+                </div>
+              </div>
+              {lastAutoSaveAt && (
+                <p className="text-xs text-muted-foreground">
+                  Letzte automatische Version{" "}
+                  {formatDistanceToNow(new Date(lastAutoSaveAt), {
+                    addSuffix: true,
+                    locale: de,
+                  })}
+                </p>
+              )}
+              <Separator />
+              <div className="grid gap-1">
+                <span className="text-sm font-medium">Aufbewahrung</span>
+                <p className="text-xs text-muted-foreground">
+                  Benannte Versionen, die aktive Version und Branch-Spitzen
+                  bleiben immer erhalten.
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="policy-keep-count">Neueste behalten</Label>
+                  <Input
+                    id="policy-keep-count"
+                    type="number"
+                    min={0}
+                    value={form.keepAutoSaves}
+                    onChange={(e) => update("keepAutoSaves", e.target.value)}
+                    placeholder="alle"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="policy-keep-days">Jünger als (Tage)</Label>
+                  <Input
+                    id="policy-keep-days"
+                    type="number"
+                    min={1}
+                    value={form.keepDays}
+                    onChange={(e) => update("keepDays", e.target.value)}
+                    placeholder="alle"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Ältere</Label>
+                  <Select
+                    value={form.retentionMode}
+                    onValueChange={(value) =>
+                      update("retentionMode", value as RetentionMode)
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RETENTION_MODES.map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {RETENTION_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleApplyRetention}
+              disabled={isPending || !form}
+            >
+              Jetzt aufräumen
+            </Button>
+            <Button type="submit" disabled={isPending || !form}>
+              Speichern
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  diffJson,
+  formatAuditTimestamp,
+  getChangeTypeLabel,
+  type AuditLogEntry,
+  type JsonDiffEntry,
+} from "@/lib/utils/audit-log";
+import { useMemo } from "react";
+
+const DIFF_KIND_STYLES: Record<JsonDiffEntry["kind"], string> = {
+  added: "border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-950",
+  removed: "border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-950",
+  changed:
+    "border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-950",
+};
+
+const DIFF_KIND_LABELS: Record<JsonDiffEntry["kind"], string> = {
+  added: "hinzugefügt",
+  removed: "entfernt",
+  changed: "geändert",
+};
+
+const formatValue = (value: unknown) =>
+  Array.isArray(value) && value.every((item) => typeof item !== "object")
+    ? value.join(", ")
+    : JSON.stringify(value, null, 2);
+
+function JsonBlock({ title, value }: { title: string; value: unknown }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">{title}</div>
+      <pre className="max-h-64 overflow-auto rounded-md bg-muted p-2 text-xs">
+        {value === null || value === undefined
+          ? "–"
+          : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+interface AuditEntryDrawerProps {
+  entry: AuditLogEntry | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Details of one change: metadata, the difference between previous and new
+ * data, and both raw JSON documents
+ */
+export function AuditEntryDrawer({ entry, onOpenChange }: AuditEntryDrawerProps) {
+  const diff = useMemo(
+    () =>
+      entry ? diffJson(entry.previousData ?? {}, entry.changeData ?? {}) : [],
+    [entry]
+  );
+
+  return (
+    <Drawer direction="right" open={!!entry} onOpenChange={onOpenChange}>
+      <DrawerContent className="data-[vaul-drawer-direction=right]:sm:max-w-xl">
+        {entry && (
+          <>
+            <DrawerHeader>
+              <DrawerTitle>{getChangeTypeLabel(entry.changeType)}</DrawerTitle>
+              <DrawerDescription>
+                {entry.areaName} · {formatAuditTimestamp(entry.createdAt)}
+                {entry.createdBy && ` · ${entry.createdBy}`}
+              </DrawerDescription>
+            </DrawerHeader>
+            <ScrollArea className="flex-1 min-h-0 px-4 pb-4">
+              <div className="space-y-4">
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                  <dt className="text-muted-foreground">Objekt</dt>
+                  <dd>
+                    {entry.entityType}
+                    {entry.entityId !== null && ` #${entry.entityId}`}
+                    {entry.layerName && ` (${entry.layerName})`}
+                  </dd>
+                  <dt className="text-muted-foreground">Version</dt>
+                  <dd>
+                    {entry.versionNumber !== null
+                      ? `v${entry.versionNumber}`
+                      : "Nicht gespeichert"}
+                  </dd>
+                  {entry.groupLabel && (
+                    <>
+                      <dt className="text-muted-foreground">Aktion</dt>
+                      <dd>{entry.groupLabel}</dd>
+                    </>
+                  )}
+                  <dt className="text-muted-foreground">Status</dt>
+                  <dd>
+                    {entry.isUndone === "true" ? (
+                      <Badge variant="secondary">Rückgängig gemacht</Badge>
+                    ) : (
+                      "Aktiv"
+                    )}
+                  </dd>
+                </dl>
+
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Unterschiede</div>
+                  {diff.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      Keine Unterschiede
+                    </p>
+                  ) : (
+                    diff.map((item) => (
+                      <div
+                        key={`${item.kind}-${item.path}`}
+                        className={`rounded-md border p-2 text-xs ${DIFF_KIND_STYLES[item.kind]}`}
+                      >
+                        <div className="mb-1 font-medium">
+                          {item.path || "Wert"}{" "}
+                          <span className="font-normal text-muted-foreground">
+                            {DIFF_KIND_LABELS[item.kind]}
+                          </span>
+                        </div>
+                        {item.kind !== "added" && (
+                          <pre className="whitespace-pre-wrap break-all line-through opacity-70">
+                            {formatValue(item.before)}
+                          </pre>
+                        )}
+                        {item.kind !== "removed" && (
+                          <pre className="whitespace-pre-wrap break-all">
+                            {formatValue(item.after)}
+                          </pre>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                <JsonBlock title="Vorher" value={entry.previousData} />
+                <JsonBlock title="Nachher" value={entry.changeData} />
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </DrawerContent>
+    </Drawer>
+  );
+}
@@ -0,0 +1,366 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  auditSearchParams,
+  serializeAuditSearchParams,
+} from "@/lib/url-state/audit-state";
+import {
+  CHANGE_TYPE_LABELS,
+  formatAuditTimestamp,
+  getAuditEntryKey,
+  getChangeTypeLabel,
+  type AuditFilterOptions,
+  type AuditLogEntry,
+} from "@/lib/utils/audit-log";
+import {
+  IconChevronLeft,
+  IconChevronRight,
+  IconDownload,
+  IconFilterOff,
+} from "@tabler/icons-react";
+import {
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+  type ColumnDef,
+} from "@tanstack/react-table";
+import { useQueryStates } from "nuqs";
+import { useState, useTransition } from "react";
+import { AuditEntryDrawer } from "./audit-entry-drawer";
+
+// Radix Select has no empty value
+const ALL = "all";
+
+const columns: ColumnDef<AuditLogEntry>[] = [
+  {
+    accessorKey: "createdAt",
+    header: "Zeitpunkt",
+    cell: ({ row }) => (
+      <span className="whitespace-nowrap tabular-nums">
+        {formatAuditTimestamp(row.original.createdAt)}
+      </span>
+    ),
+  },
+  {
+    accessorKey: "areaName",
+    header: "Gebiet",
+  },
+  {
+    accessorKey: "changeType",
+    header: "Änderung",
+    cell: ({ row }) => (
+      <div className="flex items-center gap-1">
+        <Badge variant="outline" className="text-xs">
+          {getChangeTypeLabel(row.original.changeType)}
+        </Badge>
+        {row.original.isUndone === "true" && (
+          <Badge variant="secondary" className="text-xs">
+            Rückgängig
+          </Badge>
+        )}
+      </div>
+    ),
+  },
+  {
+    id: "entity",
+    header: "Objekt",
+    cell: ({ row }) => {
+      const { layerName, entityType, entityId } = row.original;
+      if (layerName) return layerName;
+      return entityId !== null ? `${entityType} #${entityId}` : entityType;
+    },
+  },
+  {
+    accessorKey: "groupLabel",
+    header: "Aktion",
+    cell: ({ row }) => (
+      <span className="text-muted-foreground">
+        {row.original.groupLabel ?? "–"}
+      </span>
+    ),
+  },
+  {
+    accessorKey: "createdBy",
+    header: "Benutzer",
+    cell: ({ row }) => row.original.createdBy ?? "–",
+  },
+];
+
+interface AuditLogTableProps {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  options: AuditFilterOptions;
+}
+
+export function AuditLogTable({
+  entries,
+  total,
+  page,
+  pageSize,
+  options,
+}: AuditLogTableProps) {
+  const [isPending, startTransition] = useTransition();
+  const [params, setParams] = useQueryStates(auditSearchParams, {
+    shallow: false,
+    startTransition,
+  });
+  const [selected, setSelected] = useState<AuditLogEntry | null>(null);
+
+  const pageCount = Math.max(Math.ceil(total / pageSize), 1);
+
+  const table = useReactTable({
+    data: entries,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getRowId: getAuditEntryKey,
+    // Filtering and paging happen on the server
+    manualPagination: true,
+    manualFiltering: true,
+    pageCount,
+    state: { pagination: { pageIndex: page - 1, pageSize } },
+  });
+
+  // Any filter change starts over on the first page
+  const setFilter = (update: Partial<typeof params>) =>
+    void setParams({ ...update, page: null });
+
+  const hasFilters = [
+    params.area,
+    params.type,
+    params.user,
+    params.from,
+    params.to,
+  ].some((value) => value !== null);
+
+  const exportUrl = `/api/audit/export${serializeAuditSearchParams({
+    ...params,
+    page: null,
+  })}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <Select
+          value={params.area?.toString() ?? ALL}
+          onValueChange={(value) =>
+            setFilter({
+              area: value === ALL ? null : Number(value),
+              layer: null,
+            })
+          }
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Gebiet" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Alle Gebiete</SelectItem>
+            {options.areas.map((area) => (
+              <SelectItem key={area.id} value={area.id.toString()}>
+                {area.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={params.layer?.toString() ?? ALL}
+          onValueChange={(value) =>
+            setFilter({ layer: value === ALL ? null : Number(value) })
+          }
+          disabled={params.area === null}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Layer" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Alle Layer</SelectItem>
+            {options.layers.map((layer) => (
+              <SelectItem key={layer.id} value={layer.id.toString()}>
+                {layer.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={params.type ?? ALL}
+          onValueChange={(value) =>
+            setFilter({ type: value === ALL ? null : value })
+          }
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Änderung" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Alle Änderungen</SelectItem>
+            {Object.entries(CHANGE_TYPE_LABELS).map(([type, label]) => (
+              <SelectItem key={type} value={type}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={params.user ?? ALL}
+          onValueChange={(value) =>
+            setFilter({ user: value === ALL ? null : value })
+          }
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Benutzer" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Alle Benutzer</SelectItem>
+            {options.users.map((user) => (
+              <SelectItem key={user} value={user}>
+                {user}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          className="w-40"
+          aria-label="Von"
+          value={params.from ?? ""}
+          onChange={(e) => setFilter({ from: e.target.value || null })}
+        />
+        <Input
+          type="date"
+          className="w-40"
+          aria-label="Bis"
+          value={params.to ?? ""}
+          onChange={(e) => setFilter({ to: e.target.value || null })}
+        />
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            onClick={() =>
+              setFilter({
+                area: null,
+                layer: null,
+                type: null,
+                user: null,
+                from: null,
+                to: null,
+              })
+            }
+          >
+            <IconFilterOff className="h-4 w-4 mr-1" />
+            Zurücksetzen
+          </Button>
+        )}
+        <div className="flex-1" />
+        <Button variant="outline" asChild>
+          <a href={exportUrl} download>
+            <IconDownload className="h-4 w-4 mr-1" />
+            CSV exportieren
+          </a>
+        </Button>
+      </div>
+
+      <div
+        className="rounded-md border transition-opacity data-[pending=true]:opacity-60"
+        data-pending={isPending}
+      >
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => (
+                  <TableHead key={header.id}>
+                    {flexRender(
+                      header.column.columnDef.header,
+                      header.getContext()
+                    )}
+                  </TableHead>
+                ))}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {table.getRowModel().rows.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columns.length}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  Keine Änderungen gefunden
+                </TableCell>
+              </TableRow>
+            ) : (
+              table.getRowModel().rows.map((row) => (
+                <TableRow
+                  key={row.id}
+                  className="cursor-pointer"
+                  onClick={() => setSelected(row.original)}
+                >
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id}>
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext()
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>{total.toLocaleString("de-DE")} Änderungen</span>
+        <div className="flex items-center gap-2">
+          <span>
+            Seite {page} von {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => void setParams({ page: page - 1 })}
+            disabled={!table.getCanPreviousPage() || isPending}
+            title="Vorherige Seite"
+          >
+            <IconChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => void setParams({ page: page + 1 })}
+            disabled={!table.getCanNextPage() || isPending}
+            title="Nächste Seite"
+          >
+            <IconChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <AuditEntryDrawer
+        entry={selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+      />
+    </div>
+  );
+}
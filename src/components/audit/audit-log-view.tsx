@@ -0,0 +1,53 @@
+// Server Component: loads one filtered page of the audit log for the table
+
+import { LOGIN_PATH } from "@/lib/auth/constants";
+import { getCurrentUser } from "@/lib/auth/session";
+import { getAuditFilterOptions, getAuditLog } from "@/lib/db/data-functions";
+import {
+  loadAuditSearchParams,
+  toAuditLogFilters,
+} from "@/lib/url-state/audit-state";
+import { AUDIT_PAGE_SIZE } from "@/lib/utils/audit-log";
+import type { Route } from "next";
+import { redirect } from "next/navigation";
+import { AuditLogTable } from "./audit-log-table";
+
+export async function AuditLogView({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(LOGIN_PATH as Route);
+  }
+
+  const params = await loadAuditSearchParams(searchParams);
+  const filters = toAuditLogFilters(params);
+  const page = Math.max(params.page, 1);
+
+  const [log, options] = await Promise.all([
+    getAuditLog(user.id, filters, page, AUDIT_PAGE_SIZE),
+    getAuditFilterOptions(user.id, filters.areaId),
+  ]);
+
+  return (
+    <div className="h-full p-6 pt-10">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Audit-Log</h1>
+          <p className="text-muted-foreground text-lg">
+            Alle Änderungen an Gebieten, Layern und Postleitzahlen.
+          </p>
+        </div>
+        <AuditLogTable
+          entries={log.entries}
+          total={log.total}
+          page={page}
+          pageSize={AUDIT_PAGE_SIZE}
+          options={options}
+        />
+      </div>
+    </div>
+  );
+}
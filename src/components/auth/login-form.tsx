@@ -0,0 +1,76 @@
+"use client";
+
+import { loginAction, type LoginState } from "@/app/actions/auth-actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { IconLogin } from "@tabler/icons-react";
+import { useSearchParams } from "next/navigation";
+import { useActionState } from "react";
+
+interface LoginFormProps {
+  providers: { id: string; name: string }[];
+}
+
+export function LoginForm({ providers }: LoginFormProps) {
+  const searchParams = useSearchParams();
+  const from = searchParams.get("from") ?? "/";
+  const [state, formAction, isPending] = useActionState<LoginState, FormData>(
+    loginAction,
+    {}
+  );
+
+  const error =
+    state.error ??
+    (searchParams.get("error") === "oidc"
+      ? "Anmeldung über den externen Anbieter fehlgeschlagen"
+      : undefined);
+
+  return (
+    <div className="grid gap-4">
+      <form action={formAction} className="grid gap-4">
+        <input type="hidden" name="from" value={from} />
+        <div className="grid gap-2">
+          <Label htmlFor="email">E-Mail</Label>
+          <Input
+            id="email"
+            name="email"
+            type="email"
+            autoComplete="email"
+            required
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="password">Passwort</Label>
+          <Input
+            id="password"
+            name="password"
+            type="password"
+            autoComplete="current-password"
+            required
+          />
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <Button type="submit" disabled={isPending} className="w-full">
+          <IconLogin className="h-4 w-4 mr-2" />
+          {isPending ? "Anmelden..." : "Anmelden"}
+        </Button>
+      </form>
+      {providers.length > 0 && (
+        <>
+          <Separator />
+          {providers.map((provider) => (
+            <Button key={provider.id} variant="outline" asChild>
+              <a
+                href={`/api/auth/${provider.id}?${new URLSearchParams({ from })}`}
+              >
+                Mit {provider.name} anmelden
+              </a>
+            </Button>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
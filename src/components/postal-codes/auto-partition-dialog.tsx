@@ -0,0 +1,443 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  applyAutoPartition,
+  computeAutoPartition,
+  type AutoPartitionLayer,
+  type AutoPartitionRequest,
+  type PartitionCandidates,
+} from "@/app/actions/bulk-import-actions";
+import { normalizePostalCode } from "@/lib/utils/postal-code-parser";
+import {
+  METRIC_BALANCE_TOLERANCE,
+  formatMetricDeviation,
+  formatMetricValue,
+  getMetricDeviations,
+} from "@/lib/utils/layer-metrics";
+import { AlertCircle, Check, Scale, WandSparkles, X } from "lucide-react";
+import { useCallback, useMemo, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+export interface AutoPartitionPreview {
+  layers: AutoPartitionLayer[];
+  disconnectedCodes: string[];
+  balanceLabel: string;
+  // Candidates were the area's own codes, so replacing its layers is the default
+  fromExistingLayers: boolean;
+}
+
+interface AutoPartitionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  areaId: number;
+  existingCodes: string[];
+  states: { code: string; name: string }[];
+  metrics: string[];
+  onPreview: (preview: AutoPartitionPreview) => void;
+}
+
+type CandidateSource = PartitionCandidates["type"];
+
+const DEFAULT_LAYER_COUNT = 4;
+
+function splitCodes(input: string): string[] {
+  return [
+    ...new Set(
+      input
+        .split(/[\s,;]+/)
+        .map(normalizePostalCode)
+        .filter((code) => /^\d{1,5}$/.test(code))
+    ),
+  ];
+}
+
+export function AutoPartitionDialog({
+  open,
+  onOpenChange,
+  areaId,
+  existingCodes,
+  states,
+  metrics,
+  onPreview,
+}: AutoPartitionDialogProps) {
+  const [source, setSource] = useState<CandidateSource>(
+    existingCodes.length > 0 ? "codes" : "states"
+  );
+  const [selectedStates, setSelectedStates] = useState<string[]>([]);
+  const [prefixes, setPrefixes] = useState("");
+  const [layerCount, setLayerCount] = useState(DEFAULT_LAYER_COUNT);
+  const [balanceBy, setBalanceBy] = useState("count");
+  const [seedCodes, setSeedCodes] = useState("");
+  const [namePrefix, setNamePrefix] = useState("Gebiet");
+  const [error, setError] = useState<string | null>(null);
+  const [isComputing, startComputing] = useTransition();
+
+  const candidates = useMemo<PartitionCandidates>(
+    () =>
+      source === "codes"
+        ? { type: "codes", codes: existingCodes }
+        : source === "states"
+          ? { type: "states", states: selectedStates }
+          : { type: "prefixes", prefixes: splitCodes(prefixes) },
+    [source, existingCodes, selectedStates, prefixes]
+  );
+
+  const hasCandidates =
+    candidates.type === "codes"
+      ? candidates.codes.length > 0
+      : candidates.type === "states"
+        ? candidates.states.length > 0
+        : candidates.prefixes.length > 0;
+
+  const balanceLabel =
+    balanceBy === "count"
+      ? "Anzahl PLZ"
+      : balanceBy === "area"
+        ? "Fläche (km²)"
+        : balanceBy.replace(/^metric:/, "");
+
+  const toggleState = useCallback((code: string, checked: boolean) => {
+    setSelectedStates((current) =>
+      checked ? [...current, code] : current.filter((state) => state !== code)
+    );
+  }, []);
+
+  const handleCompute = useCallback(() => {
+    setError(null);
+
+    const request: AutoPartitionRequest = {
+      candidates,
+      layerCount,
+      balanceBy: balanceBy.startsWith("metric:")
+        ? "metric"
+        : (balanceBy as "count" | "area"),
+      metric: balanceBy.startsWith("metric:")
+        ? balanceBy.replace(/^metric:/, "")
+        : undefined,
+      seedCodes: splitCodes(seedCodes),
+      namePrefix,
+    };
+
+    startComputing(async () => {
+      const result = await computeAutoPartition(areaId, request);
+      if (!result.success) {
+        setError(
+          result.error === "Fewer candidate postal codes than layers"
+            ? "Es gibt weniger PLZ als gewünschte Gebiete."
+            : "Aufteilung konnte nicht berechnet werden."
+        );
+        return;
+      }
+
+      onPreview({
+        layers: result.layers,
+        disconnectedCodes: result.disconnectedCodes,
+        balanceLabel,
+        fromExistingLayers: candidates.type === "codes",
+      });
+      onOpenChange(false);
+    });
+  }, [
+    candidates,
+    layerCount,
+    balanceBy,
+    seedCodes,
+    namePrefix,
+    areaId,
+    balanceLabel,
+    onPreview,
+    onOpenChange,
+  ]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <WandSparkles className="h-5 w-5" />
+            Automatisch aufteilen
+          </DialogTitle>
+          <DialogDescription>
+            PLZ in zusammenhängende, möglichst gleich große Gebiete aufteilen.
+            Das Ergebnis wird zuerst als Vorschau auf der Karte angezeigt.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {/* Candidate postal codes */}
+          <div className="space-y-2">
+            <Label>PLZ-Auswahl</Label>
+            <Tabs
+              value={source}
+              onValueChange={(value) => setSource(value as CandidateSource)}
+            >
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="codes" disabled={existingCodes.length === 0}>
+                  Bestehende Gebiete
+                </TabsTrigger>
+                <TabsTrigger value="states">Bundesländer</TabsTrigger>
+                <TabsTrigger value="prefixes">PLZ-Bereiche</TabsTrigger>
+              </TabsList>
+              <TabsContent value="codes" className="text-sm text-muted-foreground">
+                Alle {existingCodes.length} PLZ der bestehenden Gebiete werden
+                neu aufgeteilt.
+              </TabsContent>
+              <TabsContent value="states">
+                <ScrollArea className="h-[160px] border rounded-lg p-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    {states.map((state) => (
+                      <label
+                        key={state.code}
+                        className="flex items-center gap-2 text-sm cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={selectedStates.includes(state.code)}
+                          onCheckedChange={(checked) =>
+                            toggleState(state.code, checked === true)
+                          }
+                        />
+                        <span className="truncate">{state.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </TabsContent>
+              <TabsContent value="prefixes" className="space-y-1">
+                <Input
+                  value={prefixes}
+                  onChange={(e) => setPrefixes(e.target.value)}
+                  placeholder="z. B. 1, 20, 21"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Alle PLZ, die mit einem der Präfixe beginnen
+                </p>
+              </TabsContent>
+            </Tabs>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="partition-layer-count">Anzahl Gebiete</Label>
+              <Input
+                id="partition-layer-count"
+                type="number"
+                min={2}
+                max={50}
+                value={layerCount}
+                onChange={(e) => setLayerCount(Number(e.target.value))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Scale className="h-4 w-4" />
+                Ausgleichen nach
+              </Label>
+              <Select value={balanceBy} onValueChange={setBalanceBy}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="count">Anzahl PLZ</SelectItem>
+                  <SelectItem value="area">Fläche (km²)</SelectItem>
+                  {metrics.map((metric) => (
+                    <SelectItem key={metric} value={`metric:${metric}`}>
+                      {metric}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="partition-seeds">Startpunkte (optional)</Label>
+              <Input
+                id="partition-seeds"
+                value={seedCodes}
+                onChange={(e) => setSeedCodes(e.target.value)}
+                placeholder="PLZ, z. B. Wohnorte der Vertreter"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="partition-name">Name der Gebiete</Label>
+              <Input
+                id="partition-name"
+                value={namePrefix}
+                onChange={(e) => setNamePrefix(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {/* Error display */}
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <div className="flex items-start gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end gap-2 pt-4 border-t">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Abbrechen
+          </Button>
+          <Button
+            onClick={handleCompute}
+            disabled={
+              isComputing || !hasCandidates || layerCount < 2 || layerCount > 50
+            }
+          >
+            {isComputing ? "Berechne..." : "Vorschau berechnen"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AutoPartitionPreviewBarProps {
+  areaId: number;
+  preview: AutoPartitionPreview;
+  onDiscard: () => void;
+  onApplied: () => void;
+}
+
+/**
+ * Floating bar shown on the map while an auto-partition preview replaces
+ * the area's layers
+ */
+export function AutoPartitionPreviewBar({
+  areaId,
+  preview,
+  onDiscard,
+  onApplied,
+}: AutoPartitionPreviewBarProps) {
+  const [replaceExisting, setReplaceExisting] = useState(
+    preview.fromExistingLayers
+  );
+  const [isApplying, startApplying] = useTransition();
+
+  const deviations = getMetricDeviations(
+    preview.layers.map((layer) => layer.total)
+  );
+  const maxDeviation = Math.max(
+    ...deviations.map((deviation) => Math.abs(deviation ?? 0))
+  );
+
+  const handleApply = useCallback(() => {
+    startApplying(async () => {
+      const result = await applyAutoPartition(
+        areaId,
+        preview.layers.map(({ name, postalCodes, color }) => ({
+          name,
+          postalCodes,
+          color,
+        })),
+        replaceExisting
+      );
+
+      if (!result.success) {
+        toast.error(
+          `Übernehmen fehlgeschlagen: ${result.errors?.join(", ") || "Unbekannter Fehler"}`
+        );
+        return;
+      }
+
+      toast.success(
+        `${result.createdLayers} Gebiete mit ${result.totalPostalCodes} PLZ erstellt`
+      );
+      onApplied();
+    });
+  }, [areaId, preview.layers, replaceExisting, onApplied]);
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 w-[min(640px,90vw)] rounded-lg border bg-background shadow-lg p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <WandSparkles className="h-4 w-4" />
+          Vorschau: {preview.layers.length} Gebiete
+        </div>
+        <div className="flex flex-wrap gap-1">
+          <Badge variant="outline">{preview.balanceLabel}</Badge>
+          <Badge
+            variant={
+              maxDeviation > METRIC_BALANCE_TOLERANCE ? "destructive" : "secondary"
+            }
+          >
+            max. Abweichung {formatMetricDeviation(maxDeviation)}
+          </Badge>
+          {preview.disconnectedCodes.length > 0 && (
+            <Badge variant="destructive">
+              {preview.disconnectedCodes.length} PLZ ohne Nachbarn
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {preview.layers.map((layer, index) => (
+          <span key={layer.name} className="flex items-center gap-1">
+            <span
+              className="w-2.5 h-2.5 rounded-sm border border-border"
+              style={{ backgroundColor: layer.color }}
+            />
+            {layer.name}: {formatMetricValue(layer.total)}
+            {deviations[index] !== null && (
+              <span>({formatMetricDeviation(deviations[index])})</span>
+            )}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 pt-1">
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox
+            checked={replaceExisting}
+            onCheckedChange={(checked) => setReplaceExisting(checked === true)}
+          />
+          Bestehende Gebiete ersetzen
+        </label>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onDiscard}
+            disabled={isApplying}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Verwerfen
+          </Button>
+          <Button size="sm" onClick={handleApply} disabled={isApplying}>
+            <Check className="h-4 w-4 mr-1" />
+            {isApplying ? "Übernehme..." : "Übernehmen"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
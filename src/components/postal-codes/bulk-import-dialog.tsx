@@ -28,6 +28,10 @@ import {
 import { Progress } from "@/components/ui/progress";
 import { useExcelImport } from "@/lib/hooks/use-excel-import";
 import { bulkImportPostalCodesAndLayers } from "@/app/actions/bulk-import-actions";
+import {
+  createChangeGroup,
+  formatLayersGroupLabel,
+} from "@/lib/utils/change-groups";
 import {
   AlertCircle,
   CheckCircle2,
@@ -66,6 +70,7 @@ export function BulkImportDialog({
     reset,
   } = useExcelImport();
 
+  const [fileName, setFileName] = useState<string | null>(null);
   const [isImporting, setIsImporting] = useState(false);
   const [importProgress, setImportProgress] = useState(0);
   const [_isPending, startTransition] = useTransition();
@@ -104,6 +109,7 @@ export function BulkImportDialog({
       }
 
       await loadFile(file);
+      setFileName(file.name);
       toast.success(`"${file.name}" geladen`);
     },
     [loadFile]
@@ -145,7 +151,16 @@ export function BulkImportDialog({
 
       try {
         await toast.promise(
-          bulkImportPostalCodesAndLayers(areaId, layers),
+          bulkImportPostalCodesAndLayers(
+            areaId,
+            layers,
+            createChangeGroup(
+              formatLayersGroupLabel(
+                fileName ? `Import ${fileName}` : "Import",
+                layers
+              )
+            )
+          ),
           {
             loading: `Importiere ${layers.length} Gebiete...`,
             success: (data) => {
@@ -168,7 +183,7 @@ export function BulkImportDialog({
         updateOptimisticImportStatus({ importing: false, progress: 0, completed: false });
       }
     });
-  }, [stats, layerGroups, areaId, reset, onOpenChange, onImportComplete, updateOptimisticImportStatus]);
+  }, [stats, layerGroups, areaId, fileName, reset, onOpenChange, onImportComplete, updateOptimisticImportStatus]);
 
   // Clear and reset
   const handleClear = useCallback(() => {
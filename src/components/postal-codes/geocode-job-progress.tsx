@@ -0,0 +1,111 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  cancelGeocodeJobAction,
+  getGeocodeJobAction,
+} from "@/app/actions/point-actions";
+import {
+  isGeocodeJobFinished,
+  type GeocodeJobProgress as GeocodeJobProgressData,
+} from "@/lib/utils/data-points";
+import { X } from "lucide-react";
+import { useEffect, useState, useTransition } from "react";
+import { toast } from "sonner";
+
+const POLL_INTERVAL_MS = 2000;
+
+interface GeocodeJobProgressProps {
+  jobId: number;
+  canEdit?: boolean;
+}
+
+/**
+ * Live progress of a background geocoding job. Polling also keeps the queue
+ * running and refreshes the points once the job is done.
+ */
+export function GeocodeJobProgress({
+  jobId,
+  canEdit = true,
+}: GeocodeJobProgressProps) {
+  const [job, setJob] = useState<GeocodeJobProgressData | null>(null);
+  const [isCancelling, startCancelling] = useTransition();
+
+  useEffect(() => {
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      const result = await getGeocodeJobAction(jobId);
+      if (cancelled || !result.success || !result.data) return;
+
+      setJob(result.data);
+      if (isGeocodeJobFinished(result.data)) {
+        if (result.data.status === "completed") {
+          toast.success(
+            result.data.failed > 0
+              ? `Geocodierung abgeschlossen, ${result.data.failed} Adressen nicht gefunden`
+              : "Geocodierung abgeschlossen"
+          );
+        }
+        return;
+      }
+      timeout = setTimeout(poll, POLL_INTERVAL_MS);
+    };
+
+    void poll();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [jobId]);
+
+  const handleCancel = () => {
+    startCancelling(async () => {
+      const result = await cancelGeocodeJobAction(jobId);
+      if (!result.success) {
+        toast.error("Geocodierung konnte nicht abgebrochen werden");
+      }
+    });
+  };
+
+  if (!job) {
+    return (
+      <div className="px-2 text-xs text-muted-foreground">
+        Geocodierung wird gestartet...
+      </div>
+    );
+  }
+
+  const percent = job.total > 0 ? (job.processed / job.total) * 100 : 100;
+
+  return (
+    <div className="space-y-1 px-2">
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>
+          {job.processed.toLocaleString("de-DE")} von{" "}
+          {job.total.toLocaleString("de-DE")} Adressen geocodiert
+          {job.failed > 0 && ` (${job.failed} nicht gefunden)`}
+        </span>
+        {canEdit && !isGeocodeJobFinished(job) && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-5 w-5"
+            onClick={handleCancel}
+            disabled={isCancelling}
+            title="Geocodierung abbrechen"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+      <Progress value={percent} className="h-1.5" />
+      {job.error && !isGeocodeJobFinished(job) && (
+        <div className="text-xs text-amber-600">{job.error}</div>
+      )}
+    </div>
+  );
+}
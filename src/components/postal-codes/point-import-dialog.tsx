@@ -0,0 +1,347 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { importDataPointsAction } from "@/app/actions/point-actions";
+import {
+  autoDetectPointColumns,
+  parseSpreadsheetFile,
+  processPointRows,
+  type ParsedFileData,
+  type PointColumnMapping,
+} from "@/lib/utils/excel-parser";
+import { AlertCircle, Download, MapPin } from "lucide-react";
+import { useCallback, useMemo, useState, useTransition } from "react";
+import { useDropzone } from "react-dropzone";
+import { toast } from "sonner";
+
+interface PointImportDialogProps {
+  areaId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select value for unmapped columns
+const NO_COLUMN = "__none__";
+
+const MAPPING_FIELDS: { key: keyof PointColumnMapping; label: string }[] = [
+  { key: "nameColumn", label: "Name" },
+  { key: "addressColumn", label: "Adresse" },
+  { key: "latitudeColumn", label: "Breitengrad (lat)" },
+  { key: "longitudeColumn", label: "Längengrad (lng)" },
+];
+
+const EMPTY_MAPPING: PointColumnMapping = {
+  nameColumn: null,
+  addressColumn: null,
+  latitudeColumn: null,
+  longitudeColumn: null,
+};
+
+export function PointImportDialog({
+  areaId,
+  open,
+  onOpenChange,
+}: PointImportDialogProps) {
+  const [name, setName] = useState("");
+  const [fileData, setFileData] = useState<ParsedFileData | null>(null);
+  const [mapping, setMapping] = useState<PointColumnMapping>(EMPTY_MAPPING);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, startImporting] = useTransition();
+
+  const processed = useMemo(
+    () => (fileData ? processPointRows(fileData.rows, mapping) : null),
+    [fileData, mapping]
+  );
+
+  const toGeocode =
+    processed?.rows.filter((row) => row.latitude === null).length ?? 0;
+
+  const reset = useCallback(() => {
+    setName("");
+    setFileData(null);
+    setMapping(EMPTY_MAPPING);
+    setError(null);
+  }, []);
+
+  // File drop handling
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const file = acceptedFiles[0];
+    setError(null);
+
+    try {
+      const parsed = await parseSpreadsheetFile(file);
+      if (parsed.rows.length === 0) {
+        setError("Die Datei enthält keine Daten.");
+        return;
+      }
+
+      setName(file.name.replace(/\.[^.]+$/, ""));
+      setFileData(parsed);
+      setMapping(autoDetectPointColumns(parsed.headers));
+      toast.success(`"${file.name}" geladen`);
+    } catch (err) {
+      console.error("Error parsing point file:", err);
+      setError("Datei konnte nicht gelesen werden.");
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      "text/csv": [".csv"],
+      "application/vnd.ms-excel": [".xls"],
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [
+        ".xlsx",
+      ],
+    },
+    multiple: false,
+    maxFiles: 1,
+  });
+
+  const handleImport = useCallback(() => {
+    if (!processed || processed.rows.length === 0) {
+      toast.error("Keine Daten zum Importieren");
+      return;
+    }
+
+    startImporting(async () => {
+      const result = await importDataPointsAction({
+        areaId,
+        name,
+        rows: processed.rows,
+      });
+      if (!result.success || !result.data) {
+        toast.error("Punktdaten konnten nicht importiert werden");
+        return;
+      }
+
+      const { imported, queued } = result.data;
+      if (queued > 0) {
+        toast.success(
+          `${imported} Punkte importiert, ${queued} Adressen werden im Hintergrund geocodiert`
+        );
+      } else {
+        toast.success(`${imported} Punkte importiert`);
+      }
+      reset();
+      onOpenChange(false);
+    });
+  }, [areaId, processed, name, reset, onOpenChange]);
+
+  const handleClose = useCallback(() => {
+    if (!isImporting) {
+      reset();
+      onOpenChange(false);
+    }
+  }, [isImporting, reset, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Punktdaten importieren
+          </DialogTitle>
+          <DialogDescription>
+            CSV- oder Excel-Datei mit Kunden- oder Filialstandorten hochladen.
+            Jede Zeile braucht Koordinaten (lat/lng) oder eine Adresse, die
+            im Hintergrund geocodiert wird.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-hidden flex flex-col gap-4">
+          {!fileData ? (
+            // File upload area
+            <div
+              {...getRootProps()}
+              className={`
+                border-2 border-dashed rounded-lg p-12 text-center cursor-pointer transition-colors
+                ${
+                  isDragActive
+                    ? "border-primary bg-primary/10"
+                    : "border-muted-foreground/25 hover:border-primary/50"
+                }
+              `}
+            >
+              <input {...getInputProps()} />
+              <div className="flex flex-col items-center gap-4">
+                <div className="p-4 rounded-full bg-muted">
+                  <Download className="h-12 w-12 text-muted-foreground" />
+                </div>
+                {isDragActive ? (
+                  <p className="text-lg">Datei hier ablegen...</p>
+                ) : (
+                  <>
+                    <p className="text-lg font-medium">
+                      Datei hierher ziehen oder klicken
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      CSV, Excel (.xlsx, .xls)
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 overflow-hidden flex flex-col gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="point-dataset-name">Name des Datensatzes</Label>
+                <Input
+                  id="point-dataset-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+
+              {/* Column mapping */}
+              <div className="grid grid-cols-2 gap-4 p-4 bg-muted/30 rounded-lg">
+                {MAPPING_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="space-y-2">
+                    <Label>{label}</Label>
+                    <Select
+                      value={mapping[key] ?? NO_COLUMN}
+                      onValueChange={(value) =>
+                        setMapping((current) => ({
+                          ...current,
+                          [key]: value === NO_COLUMN ? null : value,
+                        }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>Keine Spalte</SelectItem>
+                        {fileData.headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {/* Statistics */}
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{fileData.totalRows} Zeilen</Badge>
+                {processed && (
+                  <Badge variant="secondary">
+                    {processed.rows.length} Punkte
+                  </Badge>
+                )}
+                {toGeocode > 0 && (
+                  <Badge variant="outline">{toGeocode} zu geocodieren</Badge>
+                )}
+                {processed && processed.invalidRows > 0 && (
+                  <Badge variant="destructive">
+                    {processed.invalidRows} ohne Koordinaten und Adresse
+                  </Badge>
+                )}
+              </div>
+
+              {/* Preview */}
+              {processed && processed.rows.length > 0 && (
+                <ScrollArea className="h-[200px] border rounded-lg p-3 bg-muted/30">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="font-medium pr-4">Name</th>
+                        <th className="font-medium pr-4">Adresse</th>
+                        <th className="font-medium pr-4">Koordinaten</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {processed.rows.slice(0, 50).map((row, index) => (
+                        <tr key={index}>
+                          <td className="pr-4">{row.name ?? "–"}</td>
+                          <td className="pr-4">{row.address ?? "–"}</td>
+                          <td className="pr-4 font-mono text-xs">
+                            {row.latitude !== null && row.longitude !== null
+                              ? `${row.latitude.toFixed(5)}, ${row.longitude.toFixed(5)}`
+                              : "wird geocodiert"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+
+          {/* Error display */}
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <div className="flex items-start gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-between pt-4 border-t">
+          <div>
+            {fileData && (
+              <Button
+                variant="outline"
+                onClick={reset}
+                disabled={isImporting}
+              >
+                Zurücksetzen
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              disabled={isImporting}
+            >
+              Abbrechen
+            </Button>
+            {fileData && (
+              <Button
+                onClick={handleImport}
+                disabled={
+                  isImporting ||
+                  !name.trim() ||
+                  !processed ||
+                  processed.rows.length === 0
+                }
+              >
+                {isImporting
+                  ? "Importiere..."
+                  : `${processed?.rows.length ?? 0} Punkte importieren`}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
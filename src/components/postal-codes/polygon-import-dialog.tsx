@@ -0,0 +1,424 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  bulkImportPostalCodesAndLayers,
+  type BulkImportLayer,
+} from "@/app/actions/bulk-import-actions";
+import {
+  MAX_POLYGON_UPLOAD_BYTES,
+  type PolygonMatchRequest,
+  type PolygonMatchResult,
+} from "@/lib/utils/polygon-match";
+import {
+  POLYGON_FILE_EXTENSIONS,
+  detectNameProperty,
+  groupFeaturesByProperty,
+  parsePolygonFile,
+  type ParsedPolygonFile,
+} from "@/lib/utils/polygon-parser";
+import {
+  createChangeGroup,
+  formatLayersGroupLabel,
+} from "@/lib/utils/change-groups";
+import { AlertCircle, Download, Hexagon, Layers, MapPin } from "lucide-react";
+import { useCallback, useMemo, useState, useTransition } from "react";
+import { useDropzone } from "react-dropzone";
+import { toast } from "sonner";
+
+interface PolygonImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  areaId: number;
+  onImportComplete?: () => void;
+}
+
+const DEFAULT_MIN_OVERLAP = 50;
+
+export function PolygonImportDialog({
+  open,
+  onOpenChange,
+  areaId,
+  onImportComplete,
+}: PolygonImportDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileData, setFileData] = useState<ParsedPolygonFile | null>(null);
+  const [nameProperty, setNameProperty] = useState<string | null>(null);
+  const [minOverlap, setMinOverlap] = useState(DEFAULT_MIN_OVERLAP);
+  const [matchedLayers, setMatchedLayers] = useState<BulkImportLayer[] | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isMatching, startMatching] = useTransition();
+  const [isImporting, startImporting] = useTransition();
+
+  const territories = useMemo(
+    () =>
+      fileData
+        ? groupFeaturesByProperty(
+            fileData.features,
+            nameProperty,
+            fileName?.replace(/\.[^.]+$/, "")
+          )
+        : [],
+    [fileData, nameProperty, fileName]
+  );
+
+  const totalMatchedCodes = useMemo(
+    () =>
+      matchedLayers?.reduce((sum, layer) => sum + layer.postalCodes.length, 0) ??
+      0,
+    [matchedLayers]
+  );
+
+  const reset = useCallback(() => {
+    setFileName(null);
+    setFileData(null);
+    setNameProperty(null);
+    setMinOverlap(DEFAULT_MIN_OVERLAP);
+    setMatchedLayers(null);
+    setError(null);
+  }, []);
+
+  // File drop handling
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const file = acceptedFiles[0];
+    setError(null);
+    setMatchedLayers(null);
+
+    try {
+      const parsed = await parsePolygonFile(file);
+      if (parsed.features.length === 0) {
+        setError("Die Datei enthält keine Polygone.");
+        return;
+      }
+
+      setFileName(file.name);
+      setFileData(parsed);
+      setNameProperty(detectNameProperty(parsed.properties));
+      toast.success(`"${file.name}" geladen`);
+    } catch (err) {
+      console.error("Error parsing polygon file:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Datei konnte nicht gelesen werden."
+      );
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      "application/geo+json": [".geojson"],
+      "application/json": [".json"],
+      "application/zip": [".zip"],
+    },
+    multiple: false,
+    maxFiles: 1,
+  });
+
+  // Find covered postal codes for the current mapping and threshold
+  const handleMatch = useCallback(() => {
+    startMatching(async () => {
+      const body = JSON.stringify({
+        territories,
+        minOverlap: minOverlap / 100,
+      } satisfies PolygonMatchRequest);
+
+      if (new Blob([body]).size > MAX_POLYGON_UPLOAD_BYTES) {
+        toast.error("Die Polygone sind zu groß für den Import");
+        return;
+      }
+
+      const response = await fetch(`/api/areas/${areaId}/polygon-match`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+      }).catch(() => null);
+
+      if (!response?.ok) {
+        toast.error(
+          response?.status === 413
+            ? "Die Polygone sind zu groß für den Import"
+            : "PLZ konnten nicht zugeordnet werden"
+        );
+        return;
+      }
+
+      const result = (await response.json()) as PolygonMatchResult;
+      setMatchedLayers(result.layers);
+    });
+  }, [areaId, territories, minOverlap]);
+
+  const handleImport = useCallback(() => {
+    const layers = matchedLayers?.filter((l) => l.postalCodes.length > 0) ?? [];
+    if (layers.length === 0) {
+      toast.error("Keine Daten zum Importieren");
+      return;
+    }
+
+    startImporting(async () => {
+      const result = await bulkImportPostalCodesAndLayers(
+        areaId,
+        layers,
+        createChangeGroup(
+          formatLayersGroupLabel(
+            fileName ? `Import ${fileName}` : "Import",
+            layers
+          )
+        )
+      );
+      if (!result.success) {
+        toast.error(
+          `Import fehlgeschlagen: ${result.errors?.join(", ") || "Unbekannter Fehler"}`
+        );
+        return;
+      }
+
+      toast.success(
+        `Import erfolgreich! ${result.createdLayers} neue Layer, ${result.updatedLayers} aktualisiert, ${result.totalPostalCodes} PLZ hinzugefügt.`
+      );
+      reset();
+      onOpenChange(false);
+      onImportComplete?.();
+    });
+  }, [matchedLayers, areaId, fileName, reset, onOpenChange, onImportComplete]);
+
+  const handleClose = useCallback(() => {
+    if (!isImporting) {
+      reset();
+      onOpenChange(false);
+    }
+  }, [isImporting, reset, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Hexagon className="h-5 w-5" />
+            Polygon-Import
+          </DialogTitle>
+          <DialogDescription>
+            GeoJSON oder gezipptes Shapefile hochladen. Alle PLZ, die ausreichend
+            im Polygon liegen, werden dem Layer zugeordnet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-hidden flex flex-col gap-4">
+          {!fileData ? (
+            // File upload area
+            <div
+              {...getRootProps()}
+              className={`
+                border-2 border-dashed rounded-lg p-12 text-center cursor-pointer transition-colors
+                ${
+                  isDragActive
+                    ? "border-primary bg-primary/10"
+                    : "border-muted-foreground/25 hover:border-primary/50"
+                }
+              `}
+            >
+              <input {...getInputProps()} />
+              <div className="flex flex-col items-center gap-4">
+                <div className="p-4 rounded-full bg-muted">
+                  <Download className="h-12 w-12 text-muted-foreground" />
+                </div>
+                {isDragActive ? (
+                  <p className="text-lg">Datei hier ablegen...</p>
+                ) : (
+                  <>
+                    <p className="text-lg font-medium">
+                      Datei hierher ziehen oder klicken
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      GeoJSON, Shapefile ({POLYGON_FILE_EXTENSIONS.join(", ")})
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 overflow-hidden flex flex-col gap-4">
+              {/* Mapping and threshold */}
+              <div className="grid grid-cols-2 gap-4 p-4 bg-muted/30 rounded-lg">
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Layers className="h-4 w-4" />
+                    Layer-Name aus Eigenschaft
+                  </Label>
+                  <Select
+                    value={nameProperty ?? "none"}
+                    onValueChange={(value) => {
+                      setNameProperty(value === "none" ? null : value);
+                      setMatchedLayers(null);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Keine (ein Layer)" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Keine (ein Layer)</SelectItem>
+                      {fileData.properties.map((property) => (
+                        <SelectItem key={property} value={property}>
+                          {property}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-2">
+                      <MapPin className="h-4 w-4" />
+                      Mindestüberdeckung
+                    </span>
+                    <span className="text-muted-foreground">{minOverlap}%</span>
+                  </Label>
+                  <Slider
+                    value={[minOverlap]}
+                    min={1}
+                    max={100}
+                    step={1}
+                    onValueChange={([value]) => {
+                      setMinOverlap(value);
+                      setMatchedLayers(null);
+                    }}
+                    className="pt-3"
+                  />
+                </div>
+              </div>
+
+              {/* Statistics */}
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{fileName}</Badge>
+                <Badge variant="secondary">
+                  {fileData.features.length} Polygone
+                </Badge>
+                <Badge variant="secondary">{territories.length} Layer</Badge>
+                {fileData.skippedFeatures > 0 && (
+                  <Badge variant="destructive">
+                    {fileData.skippedFeatures} ohne Polygon übersprungen
+                  </Badge>
+                )}
+                {matchedLayers && (
+                  <Badge variant="secondary">{totalMatchedCodes} PLZ</Badge>
+                )}
+              </div>
+
+              {/* Layer preview */}
+              <div className="space-y-2">
+                <Label>Zu importierende Layer ({territories.length})</Label>
+                <ScrollArea className="h-[240px] border rounded-lg p-3 bg-muted/30">
+                  <div className="space-y-2">
+                    {(matchedLayers ?? territories).map((layer) => (
+                      <div
+                        key={layer.name}
+                        className="flex items-center justify-between text-sm"
+                      >
+                        <div className="flex items-center gap-2">
+                          <Layers className="h-4 w-4 text-muted-foreground" />
+                          <span className="font-medium">{layer.name}</span>
+                        </div>
+                        {"postalCodes" in layer ? (
+                          <Badge
+                            variant={
+                              layer.postalCodes.length > 0
+                                ? "secondary"
+                                : "destructive"
+                            }
+                            className="text-xs"
+                          >
+                            {layer.postalCodes.length} PLZ
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">
+                            {layer.geometries.length} Polygone
+                          </Badge>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            </div>
+          )}
+
+          {/* Error display */}
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <div className="flex items-start gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-between pt-4 border-t">
+          <div>
+            {fileData && (
+              <Button
+                variant="outline"
+                onClick={reset}
+                disabled={isImporting || isMatching}
+              >
+                Zurücksetzen
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              disabled={isImporting}
+            >
+              Abbrechen
+            </Button>
+            {fileData && !matchedLayers && (
+              <Button
+                onClick={handleMatch}
+                disabled={isMatching || territories.length === 0}
+              >
+                {isMatching ? "Ermittle PLZ..." : "PLZ ermitteln"}
+              </Button>
+            )}
+            {matchedLayers && (
+              <Button
+                onClick={handleImport}
+                disabled={isImporting || totalMatchedCodes === 0}
+              >
+                {isImporting
+                  ? "Importiere..."
+                  : `${totalMatchedCodes} PLZ in ${matchedLayers.length} Layer`}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
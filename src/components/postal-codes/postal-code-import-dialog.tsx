@@ -18,8 +18,7 @@ import {
     groupMatchesByPattern,
     parsePostalCodeInput,
 } from "@/lib/utils/postal-code-parser";
-import type { FeatureCollection, GeoJsonProperties, MultiPolygon, Polygon } from "geojson";
-import { AlertCircle, CheckCircle2, FileSpreadsheet, FileText } from "lucide-react";
+import { AlertCircle, CheckCircle2, FileSpreadsheet, FileText, Hexagon } from "lucide-react";
 import { useMemo, useState } from "react";
 import { toast } from "sonner";
 import dynamic from "next/dynamic";
@@ -29,10 +28,15 @@ const BulkImportDialog = dynamic(
   { ssr: false }
 );
 
+const PolygonImportDialog = dynamic(
+  () => import("./polygon-import-dialog").then(m => ({ default: m.PolygonImportDialog })),
+  { ssr: false }
+);
+
 interface PostalCodeImportDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  data: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>;
+  postalCodes: string[];
   granularity: string;
   onImport: (postalCodes: string[]) => void;
   areaId?: number; // Optional for bulk import
@@ -41,7 +45,7 @@ interface PostalCodeImportDialogProps {
 export function PostalCodeImportDialog({
   open,
   onOpenChange,
-  data,
+  postalCodes,
   granularity,
   onImport,
   areaId,
@@ -49,6 +53,7 @@ export function PostalCodeImportDialog({
   const [textInput, setTextInput] = useState("");
   const [activeTab, setActiveTab] = useState("paste");
   const [bulkImportOpen, setBulkImportOpen] = useState(false);
+  const [polygonImportOpen, setPolygonImportOpen] = useState(false);
 
   // Parse and validate input
   const parsedCodes = useMemo(() => {
@@ -59,8 +64,8 @@ export function PostalCodeImportDialog({
   // Find matches based on current granularity
   const matches = useMemo(() => {
     if (parsedCodes.length === 0) return [];
-    return findPostalCodeMatches(parsedCodes, data, granularity);
-  }, [parsedCodes, data, granularity]);
+    return findPostalCodeMatches(parsedCodes, postalCodes, granularity);
+  }, [parsedCodes, postalCodes, granularity]);
 
   const groupedMatches = useMemo(() => {
     return groupMatchesByPattern(matches);
@@ -117,7 +122,7 @@ export function PostalCodeImportDialog({
 
         <div className="flex-1 overflow-hidden">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full flex flex-col">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className={`grid w-full ${areaId ? "grid-cols-3" : "grid-cols-1"}`}>
               <TabsTrigger value="paste" className="flex items-center gap-2">
                 <FileText className="h-4 w-4" />
                 Text
@@ -128,6 +133,12 @@ export function PostalCodeImportDialog({
                   Excel/CSV-Import
                 </TabsTrigger>
               )}
+              {areaId && (
+                <TabsTrigger value="polygon" className="flex items-center gap-2">
+                  <Hexagon className="h-4 w-4" />
+                  GeoJSON/Shapefile
+                </TabsTrigger>
+              )}
             </TabsList>
 
             <TabsContent value="paste" className="flex-1 mt-4 flex flex-col gap-4">
@@ -253,6 +264,39 @@ Trennzeichen: Komma, Semikolon, Leerzeichen, neue Zeile`}
                 </div>
               </TabsContent>
             )}
+
+            {areaId && (
+              <TabsContent value="polygon" className="flex-1 mt-4">
+                <div className="flex flex-col items-center gap-6 p-8">
+                  <div className="p-6 rounded-full bg-muted">
+                    <Hexagon className="h-16 w-16 text-muted-foreground" />
+                  </div>
+                  <div className="text-center space-y-2">
+                    <h3 className="text-lg font-semibold">Polygon-Import</h3>
+                    <p className="text-sm text-muted-foreground max-w-md">
+                      Gebiete als GeoJSON oder gezipptes Shapefile hochladen und überdeckte PLZ automatisch zuordnen.
+                    </p>
+                  </div>
+                  <Button
+                    size="lg"
+                    onClick={() => {
+                      setPolygonImportOpen(true);
+                      onOpenChange(false);
+                    }}
+                    className="gap-2"
+                  >
+                    <Hexagon className="h-4 w-4" />
+                    Import starten
+                  </Button>
+                  <div className="text-xs text-muted-foreground space-y-1">
+                    <p>✓ GeoJSON (.geojson, .json) und Shapefile (.zip)</p>
+                    <p>✓ Layer-Name aus Feature-Eigenschaft</p>
+                    <p>✓ Einstellbare Mindestüberdeckung</p>
+                    <p>✓ PLZ in der Granularität des Gebiets</p>
+                  </div>
+                </div>
+              </TabsContent>
+            )}
           </Tabs>
         </div>
 
@@ -287,6 +331,19 @@ Trennzeichen: Komma, Semikolon, Leerzeichen, neue Zeile`}
           }}
         />
       )}
+
+      {/* Polygon Import Dialog */}
+      {areaId && (
+        <PolygonImportDialog
+          open={polygonImportOpen}
+          onOpenChange={setPolygonImportOpen}
+          areaId={areaId}
+          onImportComplete={() => {
+            setPolygonImportOpen(false);
+            onOpenChange(false);
+          }}
+        />
+      )}
     </Dialog>
   );
 }
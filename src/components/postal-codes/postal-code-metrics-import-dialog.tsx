@@ -0,0 +1,395 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { importPostalCodeMetricsAction } from "@/app/actions/metric-actions";
+import {
+  autoDetectColumns,
+  detectMetricColumns,
+  parseSpreadsheetFile,
+  processMetricRows,
+  type ParsedFileData,
+} from "@/lib/utils/excel-parser";
+import {
+  GRANULARITY_OPTIONS,
+  getGranularityLevel,
+} from "@/lib/utils/granularity-utils";
+import { AlertCircle, BarChart3, Download, MapPin } from "lucide-react";
+import { useCallback, useMemo, useState, useTransition } from "react";
+import { useDropzone } from "react-dropzone";
+import { toast } from "sonner";
+
+interface PostalCodeMetricsImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultGranularity: string;
+  onImportComplete?: () => void;
+}
+
+export function PostalCodeMetricsImportDialog({
+  open,
+  onOpenChange,
+  defaultGranularity,
+  onImportComplete,
+}: PostalCodeMetricsImportDialogProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileData, setFileData] = useState<ParsedFileData | null>(null);
+  const [postalCodeColumn, setPostalCodeColumn] = useState<string | null>(
+    null
+  );
+  const [metricColumns, setMetricColumns] = useState<string[]>([]);
+  const [granularity, setGranularity] = useState(defaultGranularity);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, startImporting] = useTransition();
+
+  const processed = useMemo(
+    () =>
+      fileData && postalCodeColumn
+        ? processMetricRows(
+            fileData.rows,
+            postalCodeColumn,
+            metricColumns,
+            getGranularityLevel(granularity)
+          )
+        : null,
+    [fileData, postalCodeColumn, metricColumns, granularity]
+  );
+
+  const reset = useCallback(() => {
+    setFileName(null);
+    setFileData(null);
+    setPostalCodeColumn(null);
+    setMetricColumns([]);
+    setGranularity(defaultGranularity);
+    setError(null);
+  }, [defaultGranularity]);
+
+  // File drop handling
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const file = acceptedFiles[0];
+    setError(null);
+
+    try {
+      const parsed = await parseSpreadsheetFile(file);
+      if (parsed.rows.length === 0) {
+        setError("Die Datei enthält keine Daten.");
+        return;
+      }
+
+      const { postalCodeColumn: detected } = autoDetectColumns(
+        parsed.headers,
+        parsed.rows
+      );
+
+      setFileName(file.name);
+      setFileData(parsed);
+      setPostalCodeColumn(detected);
+      setMetricColumns(
+        detectMetricColumns(parsed.headers, parsed.rows, detected)
+      );
+      toast.success(`"${file.name}" geladen`);
+    } catch (err) {
+      console.error("Error parsing metrics file:", err);
+      setError("Datei konnte nicht gelesen werden.");
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      "text/csv": [".csv"],
+      "application/vnd.ms-excel": [".xls"],
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [
+        ".xlsx",
+      ],
+    },
+    multiple: false,
+    maxFiles: 1,
+  });
+
+  const toggleMetricColumn = useCallback((column: string, checked: boolean) => {
+    setMetricColumns((current) =>
+      checked
+        ? [...current, column]
+        : current.filter((metric) => metric !== column)
+    );
+  }, []);
+
+  const handleImport = useCallback(() => {
+    if (!processed || processed.rows.length === 0) {
+      toast.error("Keine Daten zum Importieren");
+      return;
+    }
+
+    startImporting(async () => {
+      const result = await importPostalCodeMetricsAction(
+        granularity,
+        processed.rows
+      );
+      if (!result.success || !result.data) {
+        toast.error("Kennzahlen konnten nicht importiert werden");
+        return;
+      }
+
+      toast.success(
+        `${result.data.values} Werte für ${result.data.metrics.length} Kennzahl${
+          result.data.metrics.length === 1 ? "" : "en"
+        } importiert`
+      );
+      reset();
+      onOpenChange(false);
+      onImportComplete?.();
+    });
+  }, [processed, granularity, reset, onOpenChange, onImportComplete]);
+
+  const handleClose = useCallback(() => {
+    if (!isImporting) {
+      reset();
+      onOpenChange(false);
+    }
+  }, [isImporting, reset, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Kennzahlen importieren
+          </DialogTitle>
+          <DialogDescription>
+            CSV- oder Excel-Datei mit einer PLZ-Spalte und numerischen Spalten
+            wie Einwohner, Kaufkraft oder Kundenanzahl hochladen. Vorhandene
+            Werte werden überschrieben.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-hidden flex flex-col gap-4">
+          {!fileData ? (
+            // File upload area
+            <div
+              {...getRootProps()}
+              className={`
+                border-2 border-dashed rounded-lg p-12 text-center cursor-pointer transition-colors
+                ${
+                  isDragActive
+                    ? "border-primary bg-primary/10"
+                    : "border-muted-foreground/25 hover:border-primary/50"
+                }
+              `}
+            >
+              <input {...getInputProps()} />
+              <div className="flex flex-col items-center gap-4">
+                <div className="p-4 rounded-full bg-muted">
+                  <Download className="h-12 w-12 text-muted-foreground" />
+                </div>
+                {isDragActive ? (
+                  <p className="text-lg">Datei hier ablegen...</p>
+                ) : (
+                  <>
+                    <p className="text-lg font-medium">
+                      Datei hierher ziehen oder klicken
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      CSV, Excel (.xlsx, .xls)
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 overflow-hidden flex flex-col gap-4">
+              {/* Column mapping */}
+              <div className="grid grid-cols-2 gap-4 p-4 bg-muted/30 rounded-lg">
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4" />
+                    PLZ-Spalte
+                  </Label>
+                  <Select
+                    value={postalCodeColumn ?? undefined}
+                    onValueChange={(value) => {
+                      setPostalCodeColumn(value);
+                      setMetricColumns((current) =>
+                        current.filter((metric) => metric !== value)
+                      );
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Spalte wählen" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {fileData.headers.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>PLZ-Granularität</Label>
+                  <Select value={granularity} onValueChange={setGranularity}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GRANULARITY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {/* Metric columns */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <BarChart3 className="h-4 w-4" />
+                  Kennzahlen ({metricColumns.length})
+                </Label>
+                <div className="grid grid-cols-3 gap-2 p-3 border rounded-lg">
+                  {fileData.headers
+                    .filter((header) => header !== postalCodeColumn)
+                    .map((header) => (
+                      <label
+                        key={header}
+                        className="flex items-center gap-2 text-sm cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={metricColumns.includes(header)}
+                          onCheckedChange={(checked) =>
+                            toggleMetricColumn(header, checked === true)
+                          }
+                        />
+                        <span className="truncate">{header}</span>
+                      </label>
+                    ))}
+                </div>
+              </div>
+
+              {/* Statistics */}
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{fileName}</Badge>
+                <Badge variant="secondary">{fileData.totalRows} Zeilen</Badge>
+                {processed && (
+                  <Badge variant="secondary">
+                    {processed.rows.length} PLZ
+                  </Badge>
+                )}
+                {processed && processed.invalidRows > 0 && (
+                  <Badge variant="destructive">
+                    {processed.invalidRows} ungültige PLZ
+                  </Badge>
+                )}
+              </div>
+
+              {/* Preview */}
+              {processed && metricColumns.length > 0 && (
+                <ScrollArea className="h-[200px] border rounded-lg p-3 bg-muted/30">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground">
+                        <th className="font-medium pr-4">PLZ</th>
+                        {metricColumns.map((metric) => (
+                          <th key={metric} className="font-medium pr-4">
+                            {metric}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {processed.rows.slice(0, 50).map((row) => (
+                        <tr key={row.code}>
+                          <td className="pr-4 font-mono">{row.code}</td>
+                          {metricColumns.map((metric) => (
+                            <td key={metric} className="pr-4">
+                              {row.values[metric] ?? "–"}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+
+          {/* Error display */}
+          {error && (
+            <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <div className="flex items-start gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-between pt-4 border-t">
+          <div>
+            {fileData && (
+              <Button
+                variant="outline"
+                onClick={reset}
+                disabled={isImporting}
+              >
+                Zurücksetzen
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={handleClose}
+              disabled={isImporting}
+            >
+              Abbrechen
+            </Button>
+            {fileData && (
+              <Button
+                onClick={handleImport}
+                disabled={
+                  isImporting ||
+                  metricColumns.length === 0 ||
+                  !processed ||
+                  processed.rows.length === 0
+                }
+              >
+                {isImporting
+                  ? "Importiere..."
+                  : `${metricColumns.length} Kennzahl${
+                      metricColumns.length === 1 ? "" : "en"
+                    } importieren`}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
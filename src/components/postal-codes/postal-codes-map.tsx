@@ -16,13 +16,15 @@ import type {
   areaLayers,
 } from "@/lib/schema/schema";
 import type { InferSelectModel } from "drizzle-orm";
+import type { PostalCodeMetrics } from "@/lib/utils/layer-metrics";
+import type { LayerPeople, Person } from "@/lib/utils/layer-people";
+import type { DataPoints } from "@/lib/utils/data-points";
 
 type Layer = InferSelectModel<typeof areaLayers> & {
   postalCodes?: { postalCode: string }[];
 };
 
 interface PostalCodesMapProps {
-  data: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>;
   statesData: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>;
   onSearch?: (plz: string) => void;
   granularity?: string;
@@ -37,6 +39,8 @@ interface PostalCodesMapProps {
     codes: string[]
   ) => Promise<void>;
   isViewingVersion?: boolean;
+  canEdit?: boolean;
+  isAdmin?: boolean;
   versionId: number | null;
   versions: SelectAreaVersions[];
   initialUndoRedoStatus: {
@@ -46,10 +50,13 @@ interface PostalCodesMapProps {
     redoCount: number;
   };
   changes: SelectAreaChanges[];
+  postalCodeMetrics?: PostalCodeMetrics;
+  people?: Person[];
+  layerPeople?: LayerPeople[];
+  dataPoints?: DataPoints;
 }
 
 export function PostalCodesMap({
-  data,
   statesData,
   onSearch,
   granularity,
@@ -62,15 +69,20 @@ export function PostalCodesMap({
   addPostalCodesToLayer,
   removePostalCodesFromLayer,
   isViewingVersion = false,
+  canEdit = true,
+  isAdmin = false,
   versionId,
   versions,
   changes,
+  postalCodeMetrics,
+  people,
+  layerPeople,
+  dataPoints,
 }: PostalCodesMapProps) {
   const { center, zoom } = useMapState();
 
   return (
     <BaseMap
-      data={data}
       layerId="postal-codes"
       onSearch={onSearch}
       center={center}
@@ -85,9 +97,15 @@ export function PostalCodesMap({
       addPostalCodesToLayer={addPostalCodesToLayer}
       removePostalCodesFromLayer={removePostalCodesFromLayer}
       isViewingVersion={isViewingVersion}
+      canEdit={canEdit}
+      isAdmin={isAdmin}
       versionId={versionId}
       versions={versions}
       changes={changes}
+      postalCodeMetrics={postalCodeMetrics}
+      people={people}
+      layerPeople={layerPeople}
+      dataPoints={dataPoints}
       initialUndoRedoStatus={initialUndoRedoStatus}
     />
   );
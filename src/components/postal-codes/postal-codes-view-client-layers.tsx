@@ -2,8 +2,6 @@
 
 import { Button } from "@/components/ui/button";
 
-import { usePostalCodeLookup } from "@/lib/hooks/use-postal-code-lookup";
-
 import { usePostalCodeSearch } from "@/lib/hooks/use-postal-code-search";
 
 import {
@@ -11,6 +9,8 @@ import {
   removePostalCodesFromLayerAction,
   radiusSearchAction,
   drivingRadiusSearchAction,
+  findPostalCodeAtPointAction,
+  unarchiveAreaAction,
 } from "@/app/actions/area-actions";
 
 import type {
@@ -22,6 +22,12 @@ import type {
 
 import type { InferSelectModel } from "drizzle-orm";
 
+import { type AreaRole, hasAreaRole } from "@/lib/auth/roles";
+
+import type { PostalCodeMetrics } from "@/lib/utils/layer-metrics";
+import type { LayerPeople, Person } from "@/lib/utils/layer-people";
+import type { DataPoints } from "@/lib/utils/data-points";
+
 import type {
   FeatureCollection,
   GeoJsonProperties,
@@ -31,11 +37,14 @@ import type {
 
 type Area = InferSelectModel<typeof areas>;
 
+// Ids for preview layers, far above real layer ids
+const PREVIEW_LAYER_ID_BASE = 2_000_000_000;
+
 type Layer = InferSelectModel<typeof areaLayers> & {
   postalCodes?: { postalCode: string }[];
 };
 
-import { FileUpIcon } from "lucide-react";
+import { ArchiveIcon, FileUpIcon, WandSparkles } from "lucide-react";
 
 import dynamic from "next/dynamic";
 
@@ -88,14 +97,33 @@ const PostalCodeImportDialog = dynamic(
   },
 );
 
+const AutoPartitionDialog = dynamic(
+  () =>
+    import("./auto-partition-dialog").then((m) => ({
+      default: m.AutoPartitionDialog,
+    })),
+
+  {
+    ssr: false,
+  },
+);
+
+import {
+  AutoPartitionPreviewBar,
+  type AutoPartitionPreview,
+} from "./auto-partition-dialog";
+
 import { Tooltip, TooltipTrigger, TooltipContent } from "../ui/tooltip";
 import { useMapState } from "@/lib/url-state/map-state";
+import { reportActionFailure, reportMetric } from "@/lib/telemetry/reporter";
 
 interface PostalCodesViewClientWithLayersProps {
-  postalCodesDataPromise: Promise<FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>>;
+  postalCodeListPromise: Promise<string[]>;
   statesDataPromise: Promise<FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>>;
   defaultGranularity: string;
   areaId: number;
+  role: AreaRole;
+  isAdmin: boolean;
   areasPromise: Promise<Area[]>;
   areaPromise: Promise<Area | null>;
   layersPromise: Promise<Layer[]>;
@@ -107,41 +135,55 @@ interface PostalCodesViewClientWithLayersProps {
   }>;
   versionsPromise: Promise<SelectAreaVersions[]>;
   changesPromise: Promise<SelectAreaChanges[]>;
+  metricsPromise: Promise<PostalCodeMetrics>;
+  peoplePromise: Promise<Person[]>;
+  layerPeoplePromise: Promise<LayerPeople[]>;
+  dataPointsPromise: Promise<DataPoints>;
   isViewingVersion?: boolean;
   versionId?: number | null;
 }
 
 export function PostalCodesViewClientWithLayers({
-  postalCodesDataPromise,
+  postalCodeListPromise,
   statesDataPromise,
   defaultGranularity,
   areaPromise,
   areaId,
+  role,
+  isAdmin,
   layersPromise,
   undoRedoStatusPromise,
   versionsPromise,
   changesPromise,
+  metricsPromise,
+  peoplePromise,
+  layerPeoplePromise,
+  dataPointsPromise,
   isViewingVersion = false,
   versionId,
 }: PostalCodesViewClientWithLayersProps) {
   // Client Component: use() to consume promises where data is actually used
-  const initialData = use(postalCodesDataPromise);
+  const postalCodeList = use(postalCodeListPromise);
   const statesData = use(statesDataPromise);
   const initialLayers = use(layersPromise);
   const initialUndoRedoStatus = use(undoRedoStatusPromise);
   const versions = use(versionsPromise);
   const changes = use(changesPromise);
+  const postalCodeMetrics = use(metricsPromise);
+  const people = use(peoplePromise);
+  const layerPeople = use(layerPeoplePromise);
+  const dataPoints = use(dataPointsPromise);
   const area = use(areaPromise);
 
+  // Viewers can browse and export, but every change requires at least editor.
+  // Archived areas are read-only for everyone until an owner restores them.
+  const isArchived = area?.isArchived === "true";
+  const canEdit = hasAreaRole(role, "editor") && !isArchived;
+
   // Read activeLayerId directly from URL state for instant switching
   const mapState = useMapState();
   const activeLayerId = mapState.activeLayerId || initialLayers[0]?.id || null;
 
-  const [data] =
-    useState<FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>>(
-      initialData,
-    );
-
   // Optimistic state for layers
 
   const [optimisticLayers, updateOptimisticLayers] = useOptimistic(
@@ -212,6 +254,8 @@ export function PostalCodesViewClientWithLayers({
       return;
     }
 
+    const startedAt = performance.now();
+
     startTransition(async () => {
       updateOptimisticLayers({ type: "add", layerId, postalCodes });
 
@@ -231,8 +275,20 @@ export function PostalCodesViewClientWithLayers({
           throw new Error(result.error);
         }
 
+        reportMetric(
+          "postal-codes",
+          "selection_latency",
+          performance.now() - startedAt,
+          { action: "add", count: postalCodes.length },
+        );
+
         // Success handled by map click interaction toast
       } catch (error) {
+        reportActionFailure("addPostalCodesToLayerAction", error, {
+          areaId,
+          layerId,
+        });
+
         toast.error(
           error instanceof Error
             ? error.message
@@ -253,6 +309,8 @@ export function PostalCodesViewClientWithLayers({
       return;
     }
 
+    const startedAt = performance.now();
+
     startTransition(async () => {
       updateOptimisticLayers({ type: "remove", layerId, postalCodes });
 
@@ -272,8 +330,20 @@ export function PostalCodesViewClientWithLayers({
           throw new Error(result.error);
         }
 
+        reportMetric(
+          "postal-codes",
+          "selection_latency",
+          performance.now() - startedAt,
+          { action: "remove", count: postalCodes.length },
+        );
+
         // Success handled by map click interaction toast
       } catch (error) {
+        reportActionFailure("removePostalCodesFromLayerAction", error, {
+          areaId,
+          layerId,
+        });
+
         toast.error(
           error instanceof Error
             ? error.message
@@ -283,9 +353,21 @@ export function PostalCodesViewClientWithLayers({
     });
   };
 
-  const { searchPostalCodes, selectPostalCode } = usePostalCodeSearch({ data });
+  const { searchPostalCodes, selectPostalCode } = usePostalCodeSearch({
+    postalCodes: postalCodeList,
+  });
+
+  const findPostalCodeByCoords = async (lng: number, lat: number) => {
+    const result = await findPostalCodeAtPointAction({
+      latitude: lat,
 
-  const { findPostalCodeByCoords } = usePostalCodeLookup({ data });
+      longitude: lng,
+
+      granularity: defaultGranularity,
+    });
+
+    return result.success ? (result.data?.postalCode ?? null) : null;
+  };
 
   const performRadiusSearch = async (searchData: {
     latitude: number;
@@ -303,7 +385,7 @@ export function PostalCodesViewClientWithLayers({
         success: (data) => {
           if (data.success && data.data) {
             const postalCodes = data.data.postalCodes;
-            if (activeLayerId && areaId) {
+            if (canEdit && activeLayerId && areaId) {
               addPostalCodesToLayer(activeLayerId, postalCodes);
               return `${postalCodes.length} PLZ gefunden und hinzugefügt`;
             }
@@ -337,7 +419,7 @@ export function PostalCodesViewClientWithLayers({
         success: (data) => {
           if (data.success && data.data) {
             const postalCodes = data.data.postalCodes;
-            if (activeLayerId && areaId) {
+            if (canEdit && activeLayerId && areaId) {
               addPostalCodesToLayer(activeLayerId, postalCodes);
               return `${postalCodes.length} PLZ gefunden und hinzugefügt`;
             }
@@ -351,6 +433,27 @@ export function PostalCodesViewClientWithLayers({
   };
 
   const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [partitionDialogOpen, setPartitionDialogOpen] = useState(false);
+
+  // Auto-partition preview replaces the layers on the map until accepted or discarded
+  const [partitionPreview, setPartitionPreview] =
+    useState<AutoPartitionPreview | null>(null);
+
+  const previewLayers: Layer[] | null = partitionPreview
+    ? partitionPreview.layers.map((layer, index) => ({
+        id: PREVIEW_LAYER_ID_BASE + index,
+        areaId,
+        name: layer.name,
+        color: layer.color,
+        opacity: 70,
+        isVisible: "true",
+        orderIndex: index,
+        parentLayerId: null,
+        createdAt: "",
+        updatedAt: "",
+        postalCodes: layer.postalCodes.map((postalCode) => ({ postalCode })),
+      }))
+    : null;
   const [previewPostalCode, setPreviewPostalCode] = useState<string | null>(null);
 
   const handleGranularityChange = (newGranularity: string) => {
@@ -377,10 +480,11 @@ export function PostalCodesViewClientWithLayers({
     postalCode?: string,
   ) => {
     const selectionPromise = async () => {
-      const code = postalCode || findPostalCodeByCoords(coords[0], coords[1]);
+      const code =
+        postalCode || (await findPostalCodeByCoords(coords[0], coords[1]));
 
       if (code) {
-        if (activeLayerId && areaId) {
+        if (canEdit && activeLayerId && areaId) {
           await addPostalCodesToLayer(activeLayerId, [code]);
 
           return `PLZ ${code} hinzugefügt`;
@@ -427,7 +531,7 @@ export function PostalCodesViewClientWithLayers({
   // Handle bulk postal code import
 
   const handleImport = async (postalCodes: string[]) => {
-    if (activeLayerId && areaId) {
+    if (canEdit && activeLayerId && areaId) {
       await addPostalCodesToLayer(activeLayerId, postalCodes);
 
       toast.success(`${postalCodes.length} PLZ hinzugefügt`);
@@ -438,6 +542,21 @@ export function PostalCodesViewClientWithLayers({
     }
   };
 
+  const handleUnarchive = () => {
+    startTransition(async () => {
+      await toast.promise(unarchiveAreaAction(areaId), {
+        loading: "Stelle Gebiet wieder her...",
+        success: (result) => {
+          if (result.success) {
+            return "Gebiet wiederhergestellt";
+          }
+          throw new Error(result.error || "Wiederherstellen fehlgeschlagen");
+        },
+        error: "Wiederherstellen fehlgeschlagen",
+      });
+    });
+  };
+
   // Get all postal codes for autocomplete
   // Previously: const allPostalCodes = data.features.map(...).filter(...)
   // Not currently needed as postal code dropdown is commented out
@@ -446,6 +565,22 @@ export function PostalCodesViewClientWithLayers({
     <div className="h-full relative">
       {/* Address and Postal Code Tools - horizontal, top right */}
       <div className="absolute top-4 right-4 z-30 flex flex-row gap-3 w-auto">
+        {isArchived && (
+          <div className="shrink-0 flex items-center gap-2 h-10 px-3 rounded-md border bg-background text-sm">
+            <ArchiveIcon className="h-4 w-4 text-muted-foreground" />
+            <span className="text-muted-foreground">Archiviert – nur lesbar</span>
+            {hasAreaRole(role, "owner") && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7"
+                onClick={handleUnarchive}
+              >
+                Wiederherstellen
+              </Button>
+            )}
+          </div>
+        )}
         <div className="w-80">
           <AddressAutocompleteErrorBoundary>
             <AddressAutocompleteEnhanced
@@ -508,7 +643,7 @@ export function PostalCodesViewClientWithLayers({
                       key={code}
                       value={code}
                       onSelect={async () => {
-                        if (activeLayerId && areaId) {
+                        if (canEdit && activeLayerId && areaId) {
                           await addPostalCodesToLayer(activeLayerId, [code]);
                         } else {
                           selectPostalCode(code);
@@ -537,56 +672,116 @@ export function PostalCodesViewClientWithLayers({
           </PopoverContent>
         </Popover> */}
 
+        {/* Auto-partition Button - Opens the auto-partition dialog */}
+        {canEdit && (
+          <div className="shrink-0">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="secondary"
+                  onClick={() => setPartitionDialogOpen(true)}
+                  size="default"
+                  className="h-10 px-4"
+                  title="Automatisch aufteilen"
+                  disabled={!!partitionPreview}
+                >
+                  <WandSparkles className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Automatisch in Gebiete aufteilen</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        )}
+
         {/* Import Button - Opens the import dialog */}
-        <div className="shrink-0">
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                variant="secondary"
-                onClick={() => setImportDialogOpen(true)}
-                size="default"
-                className="h-10 px-4"
-                title="PLZ importieren"
-              >
-                <FileUpIcon className="h-4 w-4" />
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>
-              <p>PLZ importieren</p>
-            </TooltipContent>
-          </Tooltip>
-        </div>
+        {canEdit && (
+          <div className="shrink-0">
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="secondary"
+                  onClick={() => setImportDialogOpen(true)}
+                  size="default"
+                  className="h-10 px-4"
+                  title="PLZ importieren"
+                >
+                  <FileUpIcon className="h-4 w-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>PLZ importieren</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+        )}
       </div>
 
       {/* Map with integrated tools */}
       <div className="h-full">
         <MapErrorBoundary>
           <PostalCodesMap
-            data={data}
             statesData={statesData}
             onSearch={searchPostalCodes}
             granularity={defaultGranularity}
             onGranularityChange={handleGranularityChange}
-            layers={optimisticLayers}
+            layers={previewLayers ?? optimisticLayers}
             activeLayerId={activeLayerId}
             areaId={areaId}
             areaName={area?.name}
             addPostalCodesToLayer={addPostalCodesToLayer}
             removePostalCodesFromLayer={removePostalCodesFromLayer}
             isViewingVersion={isViewingVersion}
+            canEdit={canEdit && !partitionPreview}
+            isAdmin={isAdmin}
             versionId={versionId!}
             versions={versions}
             changes={changes}
+            postalCodeMetrics={postalCodeMetrics}
+            people={people}
+            layerPeople={layerPeople}
+            dataPoints={dataPoints}
             initialUndoRedoStatus={optimisticUndoRedo}
           />
         </MapErrorBoundary>
       </div>
 
+      {/* Auto-partition preview */}
+      {partitionPreview && (
+        <AutoPartitionPreviewBar
+          areaId={areaId}
+          preview={partitionPreview}
+          onDiscard={() => setPartitionPreview(null)}
+          onApplied={() => setPartitionPreview(null)}
+        />
+      )}
+
+      {/* Auto-partition Dialog */}
+      <AutoPartitionDialog
+        open={partitionDialogOpen}
+        onOpenChange={setPartitionDialogOpen}
+        areaId={areaId}
+        existingCodes={[
+          ...new Set(
+            optimisticLayers.flatMap(
+              (layer) => layer.postalCodes?.map((pc) => pc.postalCode) ?? [],
+            ),
+          ),
+        ]}
+        states={statesData.features.map((feature) => ({
+          code: String(feature.properties?.code ?? ""),
+          name: String(feature.properties?.name ?? ""),
+        }))}
+        metrics={postalCodeMetrics.metrics}
+        onPreview={setPartitionPreview}
+      />
+
       {/* Import Dialog */}
       <PostalCodeImportDialog
         open={importDialogOpen}
         onOpenChange={setImportDialogOpen}
-        data={data}
+        postalCodes={postalCodeList}
         granularity={defaultGranularity}
         onImport={handleImport}
         areaId={areaId}
@@ -2,12 +2,20 @@ import { PostalCodesErrorBoundary } from "@/components/ui/error-boundaries";
 
 import { PostalCodesViewSkeleton } from "@/components/ui/loading-skeletons";
 
-import { getPostalCodesDataForGranularity } from "@/lib/utils/postal-codes-data";
-
 import { getStatesData } from "@/lib/utils/states-data";
 
 import { Suspense } from "react";
 
+import { forbidden, redirect } from "next/navigation";
+
+import type { Route } from "next";
+
+import { getCurrentUser } from "@/lib/auth/session";
+
+import { getAreaRole, isAdmin } from "@/lib/auth/permissions";
+
+import { LOGIN_PATH } from "@/lib/auth/constants";
+
 import {
   getAreas,
   getAreaById,
@@ -15,6 +23,11 @@ import {
   getVersions,
   getChangeHistory,
   getUndoRedoStatus,
+  getPostalCodeList,
+  getPostalCodeMetrics,
+  getPeople,
+  getLayerPeople,
+  getDataPoints,
 } from "@/lib/db/data-functions";
 
 import { PostalCodesViewClientWithLayers } from "./postal-codes-view-client-layers";
@@ -32,26 +45,43 @@ export default async function ServerPostalCodesView({
   areaId,
   versionId,
 }: ServerPostalCodesViewProps) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(LOGIN_PATH as Route);
+  }
+
+  // Only members (or anyone, for areas that were never shared) may open an area
+  const role = await getAreaRole(areaId, user);
+  if (!role) {
+    forbidden();
+  }
+
   // Server Component: initiate all fetches as promises
   // Pass promises down - let components consume where needed
   // Deduplication ensures efficiency
-  const postalCodesDataPromise = getPostalCodesDataForGranularity(defaultGranularity);
+  const postalCodeListPromise = getPostalCodeList(defaultGranularity);
   const statesDataPromise = getStatesData();
-  const areasPromise = getAreas();
+  const areasPromise = getAreas(user.id, isAdmin(user));
   const areaPromise = getAreaById(areaId);
   const layersPromise = getLayers(areaId);
   const versionsPromise = getVersions(areaId);
   const changesPromise = getChangeHistory(areaId, { limit: 50 });
   const undoRedoStatusPromise = getUndoRedoStatus(areaId);
+  const metricsPromise = getPostalCodeMetrics(defaultGranularity);
+  const peoplePromise = getPeople();
+  const layerPeoplePromise = getLayerPeople(areaId);
+  const dataPointsPromise = getDataPoints(areaId, defaultGranularity);
 
   return (
     <PostalCodesErrorBoundary>
       <Suspense fallback={<PostalCodesViewSkeleton />}>
         <PostalCodesViewClientWithLayers
-          postalCodesDataPromise={postalCodesDataPromise}
+          postalCodeListPromise={postalCodeListPromise}
           statesDataPromise={statesDataPromise}
           defaultGranularity={defaultGranularity}
           areaId={areaId}
+          role={role}
+          isAdmin={isAdmin(user)}
           areasPromise={areasPromise}
           areaPromise={areaPromise}
           layersPromise={layersPromise}
@@ -60,6 +90,10 @@ export default async function ServerPostalCodesView({
           versionId={versionId || null}
           versionsPromise={versionsPromise}
           changesPromise={changesPromise}
+          metricsPromise={metricsPromise}
+          peoplePromise={peoplePromise}
+          layerPeoplePromise={layerPeoplePromise}
+          dataPointsPromise={dataPointsPromise}
         />
       </Suspense>
     </PostalCodesErrorBoundary>
@@ -9,8 +9,12 @@ import { useMapInitialization } from "@/lib/hooks/use-map-initialization";
 import { useMapInteractions } from "@/lib/hooks/use-map-interactions";
 import { useMapLayers } from "@/lib/hooks/use-map-layers";
 import { useMapOptimizations } from "@/lib/hooks/use-map-optimizations";
+import { useMapDataPoints } from "@/lib/hooks/use-map-data-points";
+import { useMapPeopleMarkers } from "@/lib/hooks/use-map-people-markers";
+import { useMapSelectedFeaturesSource } from "@/lib/hooks/use-map-selected-features-source";
 import { useStableCallback } from "@/lib/hooks/use-stable-callback";
 import { useMapState } from "@/lib/url-state/map-state";
+import { EMPTY_DATA_POINTS } from "@/lib/utils/data-points";
 import type {
   BaseMapProps,
   MapErrorMessageProps,
@@ -18,7 +22,14 @@ import type {
 } from "@/types/base-map";
 import { PlusIcon } from "lucide-react";
 import dynamic from "next/dynamic";
-import { memo, startTransition, Suspense, useMemo, useRef, Activity } from "react";
+import {
+  memo,
+  startTransition,
+  Suspense,
+  useRef,
+  useState,
+  Activity,
+} from "react";
 import { Button } from "../ui/button";
 
 // Memoized drawing tools component with lazy loading for performance
@@ -59,12 +70,11 @@ ToggleButton.displayName = "ToggleButton";
 
 // Main BaseMap component with performance optimizations
 const BaseMapComponent = ({
-  data,
   layerId,
   center = [10.4515, 51.1657],
   zoom = 5,
   statesData,
-  granularity,
+  granularity = "5digit",
   onGranularityChange,
   layers,
   activeLayerId,
@@ -73,9 +83,15 @@ const BaseMapComponent = ({
   addPostalCodesToLayer,
   removePostalCodesFromLayer,
   isViewingVersion = false,
+  canEdit = true,
+  isAdmin = false,
   versionId,
   versions,
   changes,
+  postalCodeMetrics,
+  people = [],
+  layerPeople = [],
+  dataPoints = EMPTY_DATA_POINTS,
   initialUndoRedoStatus,
 }: BaseMapProps) => {
   // Stable ref for map container
@@ -87,7 +103,6 @@ const BaseMapComponent = ({
   // Map initialization with stable config
   const { mapRef: map, isMapLoaded } = useMapInitialization({
     mapContainer,
-    data,
     center: mapConfig.center,
     zoom: mapConfig.zoom,
     style: mapConfig.style,
@@ -99,27 +114,17 @@ const BaseMapComponent = ({
 
   // Performance optimizations with memoized computations
   const optimizations = useMapOptimizations({
-    data,
     statesData,
   });
 
-  // Business logic with stable references (available for future use)
-
-  // Memoized hovered region ref to prevent layer re-initialization
-  const hoveredRegionIdRef = useMemo(
-    () => ({ current: null as string | null }),
-    []
-  );
-
   // Map layers management with stable dependencies
+  // Postal code geometries are streamed as vector tiles
   const { layersLoaded } = useMapLayers({
     map: map.current,
     isMapLoaded,
     layerId,
-    data,
+    granularity,
     statesData,
-    hoveredRegionId: hoveredRegionIdRef.current,
-    getSelectedFeatureCollection: optimizations.getSelectedFeatureCollection,
     getLabelPoints: optimizations.getLabelPoints,
     layers,
     activeLayerId,
@@ -129,7 +134,7 @@ const BaseMapComponent = ({
   const interactions = useMapInteractions({
     mapRef: map,
     layerId,
-    data,
+    granularity,
     isMapLoaded,
     layersLoaded,
     areaId,
@@ -139,6 +144,42 @@ const BaseMapComponent = ({
     removePostalCodesFromLayer,
   });
 
+  // Highlight postal codes picked with the drawing tools before they are added
+  useMapSelectedFeaturesSource({
+    map: map.current,
+    layerId,
+    selectedRegions: interactions.pendingPostalCodes,
+    layersLoaded,
+  });
+
+  // Highlight unassigned postal codes from the coverage report
+  const [gapPostalCodes, setGapPostalCodes] = useState<string[]>([]);
+  useMapSelectedFeaturesSource({
+    map: map.current,
+    layerId,
+    selectedRegions: gapPostalCodes,
+    layersLoaded,
+    featureState: "gap",
+  });
+
+  // Imported point datasets as clustered markers
+  const [hiddenDatasetIds, setHiddenDatasetIds] = useState<number[]>([]);
+  useMapDataPoints({
+    map: map.current,
+    layersLoaded,
+    dataPoints,
+    hiddenDatasetIds,
+  });
+
+  // Home locations of the people owning the layers
+  useMapPeopleMarkers({
+    map: map.current,
+    layersLoaded,
+    layers,
+    people,
+    layerPeople,
+  });
+
   // Map center/zoom synchronization
   useMapCenterZoomSync({
     mapRef: map,
@@ -155,6 +196,12 @@ const BaseMapComponent = ({
     });
   });
 
+  const handleZoomToBounds = useStableCallback(
+    (bbox: [number, number, number, number]) => {
+      map.current?.fitBounds(bbox, { padding: 80, maxZoom: 12 });
+    }
+  );
+
   const handleHideTools = useStableCallback(() => {
     startTransition(() => {
       interactions.hideTools();
@@ -181,6 +228,7 @@ const BaseMapComponent = ({
         currentMode={interactions.currentDrawingMode}
         onModeChange={interactions.handleDrawingModeChange}
         areaId={areaId}
+        canEdit={canEdit}
         initialUndoRedoStatus={initialUndoRedoStatus}
       />
 
@@ -199,7 +247,6 @@ const BaseMapComponent = ({
                 onToggleVisibility={handleHideTools}
                 granularity={granularity}
                 onGranularityChange={onGranularityChange}
-                postalCodesData={data}
                 pendingPostalCodes={interactions.pendingPostalCodes}
                 onAddPending={interactions.addPendingToSelection}
                 onRemovePending={interactions.removePendingFromSelection}
@@ -214,9 +261,19 @@ const BaseMapComponent = ({
                 removePostalCodesFromLayer={removePostalCodesFromLayer}
                 layers={layers}
                 isViewingVersion={isViewingVersion}
+                canEdit={canEdit}
+                isAdmin={isAdmin}
                 versionId={versionId}
                 versions={versions}
                 changes={changes}
+                postalCodeMetrics={postalCodeMetrics}
+                people={people}
+                layerPeople={layerPeople}
+                dataPoints={dataPoints}
+                hiddenDatasetIds={hiddenDatasetIds}
+                onHiddenDatasetIdsChange={setHiddenDatasetIds}
+                onZoomToBounds={handleZoomToBounds}
+                onHighlightGaps={setGapPostalCodes}
               />
             </Suspense>
           </DrawingToolsErrorBoundary>
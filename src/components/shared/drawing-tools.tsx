@@ -27,14 +27,22 @@ import {
   copyPostalCodesCSV,
   exportLayersXLSX,
   exportLayersPDF,
+  exportLayersGeometry,
 } from "@/lib/utils/export-utils";
 
-import type {
-  FeatureCollection,
-  GeoJsonProperties,
-  MultiPolygon,
-  Polygon,
-} from "geojson";
+import {
+  TERRITORY_EXPORT_FORMATS,
+  type TerritoryExportFormat,
+} from "@/lib/export/formats";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 import {
   Copy,
@@ -43,6 +51,7 @@ import {
   Loader2Icon,
   X,
   ChevronDown,
+  ChevronRight,
   ChevronUp,
 } from "lucide-react";
 
@@ -89,6 +98,13 @@ import {
   IconDeviceFloppy,
   IconGitMerge,
   IconHistory,
+  IconEye,
+  IconMap,
+  IconChartBar,
+  IconHierarchy2,
+  IconUser,
+  IconUsers,
+  IconMapPin,
 } from "@tabler/icons-react";
 
 import { ConflictResolutionDialog } from "@/components/areas/conflict-resolution-dialog";
@@ -101,6 +117,58 @@ import { LayerMergeDialog } from "@/components/areas/layer-merge-dialog";
 
 import { GranularitySelector } from "@/components/shared/granularity-selector";
 
+import { PostalCodeMetricsImportDialog } from "@/components/postal-codes/postal-code-metrics-import-dialog";
+
+import { LayerValidationPanel } from "@/components/areas/layer-validation-panel";
+
+import { CoverageReportPanel } from "@/components/areas/coverage-report-panel";
+
+import { PeopleDirectoryDialog } from "@/components/areas/people-directory-dialog";
+
+import { LayerPeopleDialog } from "@/components/areas/layer-people-dialog";
+
+import { PointDatasetsPanel } from "@/components/areas/point-datasets-panel";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import {
+  EMPTY_POSTAL_CODE_METRICS,
+  METRIC_BALANCE_TOLERANCE,
+  aggregateLayerMetrics,
+  formatMetricDeviation,
+  formatMetricValue,
+  getMetricDeviations,
+  type PostalCodeMetrics,
+} from "@/lib/utils/layer-metrics";
+
+import {
+  flattenLayerTree,
+  getLayerAncestors,
+  getLayerPath,
+  getParentLayerError,
+  hasChildLayers,
+  withDerivedPostalCodes,
+} from "@/lib/utils/layer-hierarchy";
+
+import {
+  formatLayerOwners,
+  getLayerAssignments,
+  type LayerPeople,
+  type Person,
+} from "@/lib/utils/layer-people";
+
+import {
+  EMPTY_DATA_POINTS,
+  countPointsPerLayer,
+  type DataPoints,
+} from "@/lib/utils/data-points";
+
 import type {
   SelectAreaVersions,
   SelectAreaChanges,
@@ -126,11 +194,6 @@ export interface DrawingToolsProps {
 
   onGranularityChange?: (granularity: string) => void;
 
-  postalCodesData?: FeatureCollection<
-    Polygon | MultiPolygon,
-    GeoJsonProperties
-  >;
-
   pendingPostalCodes?: string[];
 
   onAddPending?: () => void;
@@ -167,11 +230,45 @@ export interface DrawingToolsProps {
 
   versionId?: number | null;
 
+  // Viewers get a read-only panel: no layer, region or granularity changes
+
+  canEdit?: boolean;
+
+  // Admins also manage data shared by every area
+
+  isAdmin?: boolean;
+
   // Version and change data for dialogs
 
   versions: SelectAreaVersions[];
 
   changes: SelectAreaChanges[];
+
+  // Postal code metrics at the current granularity for layer balancing
+
+  postalCodeMetrics?: PostalCodeMetrics;
+
+  // People directory and the people assigned to the layers
+
+  people?: Person[];
+
+  layerPeople?: LayerPeople[];
+
+  // Imported point datasets and the ones hidden on the map
+
+  dataPoints?: DataPoints;
+
+  hiddenDatasetIds?: number[];
+
+  onHiddenDatasetIdsChange?: (datasetIds: number[]) => void;
+
+  // Fit the map to [minLng, minLat, maxLng, maxLat]
+
+  onZoomToBounds?: (bbox: [number, number, number, number]) => void;
+
+  // Highlight unassigned postal codes on the map (empty to clear)
+
+  onHighlightGaps?: (postalCodes: string[]) => void;
 }
 
 const DEFAULT_COLORS = [
@@ -197,11 +294,6 @@ const DEFAULT_COLORS = [
 async function fillRegions(
   mode: "all" | "holes" | "expand",
 
-  _postalCodesData: FeatureCollection<
-    Polygon | MultiPolygon,
-    GeoJsonProperties
-  >,
-
   activeLayer: Layer,
 
   addPostalCodesToLayer: (layerId: number, codes: string[]) => Promise<void>,
@@ -302,8 +394,6 @@ function DrawingToolsImpl({
 
   onGranularityChange,
 
-  postalCodesData,
-
   pendingPostalCodes = [],
 
   onAddPending,
@@ -328,9 +418,28 @@ function DrawingToolsImpl({
 
   isViewingVersion = false,
 
+  canEdit = true,
+
+  isAdmin = false,
+
   versions = [],
 
   changes = [],
+
+  postalCodeMetrics = EMPTY_POSTAL_CODE_METRICS,
+
+  people = [],
+
+  layerPeople = [],
+
+  dataPoints = EMPTY_DATA_POINTS,
+
+  hiddenDatasetIds = [],
+
+  onHiddenDatasetIdsChange,
+
+  onZoomToBounds,
+  onHighlightGaps,
 }: DrawingToolsProps) {
   // Optimistic layer state for instant UI updates
   const [optimisticLayers, updateOptimisticLayers] = useOptimistic(
@@ -351,6 +460,12 @@ function DrawingToolsImpl({
 
   const [_isPending, startTransition] = useTransition();
 
+  // Changes whenever layer contents change; re-runs the layer checks
+
+  const layersSignature = layers
+    .map((layer) => `${layer.id}:${layer.postalCodes?.length ?? 0}`)
+    .join("|");
+
   // Collapsible section states
 
   const [layersOpen, setLayersOpen] = useState(areaId ? true : false);
@@ -413,6 +528,102 @@ function DrawingToolsImpl({
 
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
+  const [showMetricsImport, setShowMetricsImport] = useState(false);
+
+  const [showPeopleDirectory, setShowPeopleDirectory] = useState(false);
+
+  // Layer whose people are being assigned
+
+  const [peopleLayerId, setPeopleLayerId] = useState<number | null>(null);
+
+  const peopleLayer = optimisticLayers.find(
+    (layer) => layer.id === peopleLayerId,
+  );
+
+  const getLayerOwners = (layerId: number) =>
+    formatLayerOwners(getLayerAssignments(layerPeople, layerId), people);
+
+  // Points of the visible datasets inside each layer
+
+  const visibleDatasetIds = new Set(
+    dataPoints.datasets
+      .map((dataset) => dataset.id)
+      .filter((id) => !hiddenDatasetIds.includes(id)),
+  );
+
+  const layerPointCounts = countPointsPerLayer(
+    optimisticLayers,
+    dataPoints.points,
+    visibleDatasetIds,
+  );
+
+  // Metric totals per layer, compared against the mean to spot unbalanced territories
+
+  const [selectedMetric, setSelectedMetric] = useState<string | null>(null);
+
+  const activeMetric =
+    selectedMetric && postalCodeMetrics.metrics.includes(selectedMetric)
+      ? selectedMetric
+      : (postalCodeMetrics.metrics[0] ?? null);
+
+  // Layer hierarchy: parents show the rolled-up codes of their children
+
+  const [collapsedLayerIds, setCollapsedLayerIds] = useState<Set<number>>(
+    new Set(),
+  );
+
+  const derivedLayers = withDerivedPostalCodes(optimisticLayers);
+
+  const layerTree = flattenLayerTree(derivedLayers);
+
+  const layerRows = flattenLayerTree(derivedLayers, collapsedLayerIds);
+
+  const toggleLayerCollapsed = (layerId: number) => {
+    setCollapsedLayerIds((current) => {
+      const next = new Set(current);
+
+      if (!next.delete(layerId)) next.add(layerId);
+
+      return next;
+    });
+  };
+
+  const layerMetricTotals = derivedLayers.map((layer) =>
+    aggregateLayerMetrics(
+      layer.postalCodes?.map((pc) => pc.postalCode) ?? [],
+
+      postalCodeMetrics,
+    ),
+  );
+
+  // Layers are compared with the other layers on the same hierarchy level
+
+  const layerMetricDeviations: (number | null)[] = derivedLayers.map(
+    () => null,
+  );
+
+  const layersPerLevel = new Map<number, number[]>();
+
+  if (activeMetric) {
+    for (const row of layerTree) {
+      layersPerLevel.set(row.depth, [
+        ...(layersPerLevel.get(row.depth) ?? []),
+
+        derivedLayers.indexOf(row.layer),
+      ]);
+    }
+
+    for (const indices of layersPerLevel.values()) {
+      getMetricDeviations(
+        indices.map(
+          (index) => layerMetricTotals[index].totals[activeMetric] ?? 0,
+        ),
+      ).forEach((deviation, i) => {
+        layerMetricDeviations[indices[i]] = deviation;
+      });
+    }
+  }
+
   const [layerToDelete, setLayerToDelete] = useState<number | null>(null);
 
   // Server action implementations
@@ -513,6 +724,16 @@ function DrawingToolsImpl({
       return;
     }
 
+    if (hasChildLayers(optimisticLayers, activeLayerId)) {
+      toast.warning(
+        "Übergeordnete Gebiete erhalten ihre PLZ aus den untergeordneten Gebieten",
+
+        { duration: 3000 },
+      );
+
+      return;
+    }
+
     try {
       console.log(
         "[handleAddPendingToLayer] Adding codes:",
@@ -613,6 +834,29 @@ function DrawingToolsImpl({
     }
   }, [areaId, optimisticLayers.length]);
 
+  // Layers in tree order with their hierarchy position for the exports
+
+  const getLayerExportData = () =>
+    layerTree
+
+      .map(({ layer, depth }) => ({
+        layerName: layer.name,
+
+        postalCodes: layer.postalCodes?.map((pc) => pc.postalCode) ?? [],
+
+        metrics: layerMetricTotals[derivedLayers.indexOf(layer)].totals,
+
+        level: depth + 1,
+
+        parentName: getLayerAncestors(derivedLayers, layer.id).at(-1)?.name,
+
+        path: getLayerPath(derivedLayers, layer.id),
+
+        owners: getLayerOwners(layer.id),
+      }))
+
+      .filter((layer) => layer.postalCodes.length > 0);
+
   // Export as Excel with multiple sheets per layer
 
   const handleExportExcel = async () => {
@@ -622,15 +866,7 @@ function DrawingToolsImpl({
       return;
     }
 
-    const layersWithCodes = optimisticLayers
-
-      .filter((layer) => layer.postalCodes && layer.postalCodes.length > 0)
-
-      .map((layer) => ({
-        layerName: layer.name,
-
-        postalCodes: layer.postalCodes!.map((pc) => pc.postalCode),
-      }));
+    const layersWithCodes = getLayerExportData();
 
     if (!layersWithCodes.length) {
       toast.warning("Keine Ebenen mit Postleitzahlen zum Exportieren");
@@ -654,21 +890,13 @@ function DrawingToolsImpl({
   // Export as PDF with CSV list format
 
   const handleExportPDF = async () => {
-    if (!layers.length) {
+    if (!optimisticLayers.length) {
       toast.warning("Keine Ebenen zum Exportieren vorhanden");
 
       return;
     }
 
-    const layersWithCodes = layers
-
-      .filter((layer) => layer.postalCodes && layer.postalCodes.length > 0)
-
-      .map((layer) => ({
-        layerName: layer.name,
-
-        postalCodes: layer.postalCodes!.map((pc) => pc.postalCode),
-      }));
+    const layersWithCodes = getLayerExportData();
 
     if (!layersWithCodes.length) {
       toast.warning("Keine Ebenen mit Postleitzahlen zum Exportieren");
@@ -679,6 +907,18 @@ function DrawingToolsImpl({
     await exportLayersPDF(layersWithCodes, areaName);
   };
 
+  // Export dissolved territory shapes for GIS/CRM tools
+
+  const handleExportGeometry = async (format: TerritoryExportFormat) => {
+    if (!areaId || !optimisticLayers.length) {
+      toast.warning("Keine Ebenen zum Exportieren vorhanden");
+
+      return;
+    }
+
+    await exportLayersGeometry(areaId, format, areaName);
+  };
+
   // --- UI State ---
 
   const [isFilling, setIsFilling] = useState(false);
@@ -803,6 +1043,26 @@ function DrawingToolsImpl({
     });
   };
 
+  const handleParentChange = async (
+    layerId: number,
+
+    parentLayerId: number | null,
+  ) => {
+    startTransition(async () => {
+      // Optimistic update - instantly move the layer in the tree
+      updateOptimisticLayers({ type: 'update', id: layerId, layer: { parentLayerId } });
+
+      await toast.promise(
+        updateLayer(layerId, { parentLayerId }),
+        {
+          loading: "Verschiebe Gebiet...",
+          success: "Gebiet verschoben",
+          error: "Fehler beim Verschieben - Bitte erneut versuchen",
+        }
+      );
+    });
+  };
+
   return (
     <Card
       role="region"
@@ -811,6 +1071,20 @@ function DrawingToolsImpl({
     >
       <CardHeader className="pb-2">
         <CardTitle className="text-base">Kartentools</CardTitle>
+        {!canEdit && (
+          <div className="flex items-center gap-2 py-1">
+            <Badge
+              variant="outline"
+              className="flex items-center gap-1 text-xs"
+            >
+              <IconEye className="h-3 w-3" />
+              Nur Lesen
+            </Badge>
+            <span className="text-xs text-muted-foreground">
+              Sie können dieses Gebiet ansehen und exportieren
+            </span>
+          </div>
+        )}
         {isViewingVersion && (
           <div className="flex items-center gap-2 py-1">
             <Badge
@@ -852,12 +1126,14 @@ function DrawingToolsImpl({
                     {granularity === "5digit" && "5-stellig"}
                   </Badge>
                 </div>
-                <GranularitySelector
-                  currentGranularity={granularity}
-                  onGranularityChange={onGranularityChange}
-                  areaId={areaId}
-                  layers={layers}
-                />
+                {canEdit && (
+                  <GranularitySelector
+                    currentGranularity={granularity}
+                    onGranularityChange={onGranularityChange}
+                    areaId={areaId}
+                    layers={layers}
+                  />
+                )}
               </div>
             </Collapsible>
             <Separator />
@@ -884,22 +1160,26 @@ function DrawingToolsImpl({
               </CollapsibleTrigger>
               <CollapsibleContent className="space-y-2 pt-2">
                 {/* Layer action buttons */}
-                <div className="grid grid-cols-4 gap-1">
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        onClick={() => setShowConflicts(true)}
-                        variant="outline"
-                        size="sm"
-                        className="h-7 px-1.5"
-                      >
-                        <IconAlertTriangle className="h-3 w-3" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Konflikte anzeigen und lösen</p>
-                    </TooltipContent>
-                  </Tooltip>
+                <div
+                  className={`grid gap-1 ${canEdit ? "grid-cols-5" : "grid-cols-1"}`}
+                >
+                  {canEdit && (
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          onClick={() => setShowConflicts(true)}
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-1.5"
+                        >
+                          <IconAlertTriangle className="h-3 w-3" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Konflikte anzeigen und lösen</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  )}
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button
@@ -915,271 +1195,571 @@ function DrawingToolsImpl({
                       <p>Versionsverlauf anzeigen</p>
                     </TooltipContent>
                   </Tooltip>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        onClick={() => setShowCreateVersion(true)}
-                        variant="outline"
-                        size="sm"
-                        className="h-7 px-1.5"
-                      >
-                        <IconDeviceFloppy className="h-3 w-3" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Neue Version erstellen</p>
-                    </TooltipContent>
-                  </Tooltip>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        onClick={() => setShowLayerMerge(true)}
-                        variant="outline"
-                        size="sm"
-                        className="h-7 px-1.5"
-                      >
-                        <IconGitMerge className="h-3 w-3" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Gebiete zusammenführen</p>
-                    </TooltipContent>
-                  </Tooltip>
+                  {canEdit && (
+                    <>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            onClick={() => setShowCreateVersion(true)}
+                            variant="outline"
+                            size="sm"
+                            className="h-7 px-1.5"
+                          >
+                            <IconDeviceFloppy className="h-3 w-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Neue Version erstellen</p>
+                        </TooltipContent>
+                      </Tooltip>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            onClick={() => setShowLayerMerge(true)}
+                            variant="outline"
+                            size="sm"
+                            className="h-7 px-1.5"
+                          >
+                            <IconGitMerge className="h-3 w-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Gebiete zusammenführen</p>
+                        </TooltipContent>
+                      </Tooltip>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            onClick={() => setShowPeopleDirectory(true)}
+                            variant="outline"
+                            size="sm"
+                            className="h-7 px-1.5"
+                          >
+                            <IconUsers className="h-3 w-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Personen verwalten</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </>
+                  )}
                 </div>
 
+                {/* Balancing metric */}
+                {(postalCodeMetrics.metrics.length > 0 || isAdmin) && (
+                  <div className="flex gap-1">
+                    <Select
+                      value={activeMetric ?? undefined}
+                      onValueChange={setSelectedMetric}
+                      disabled={postalCodeMetrics.metrics.length === 0}
+                    >
+                      <SelectTrigger size="sm" className="h-7 flex-1 text-xs">
+                        <SelectValue placeholder="Keine Kennzahlen" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {postalCodeMetrics.metrics.map((metric) => (
+                          <SelectItem
+                            key={metric}
+                            value={metric}
+                            className="text-xs"
+                          >
+                            {metric}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {isAdmin && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            onClick={() => setShowMetricsImport(true)}
+                            variant="outline"
+                            size="icon"
+                            className="h-7 w-7"
+                          >
+                            <IconChartBar className="h-3 w-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Kennzahlen je PLZ importieren</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                  </div>
+                )}
+
                 {/* Create new layer */}
-                <div className="flex gap-1">
-                  <Input
-                    value={newLayerName}
-                    onChange={(e) => setNewLayerName(e.target.value)}
-                    placeholder={
-                      isViewingVersion
-                        ? "Neues Gebiet (neue Version)..."
-                        : "Neues Gebiet..."
-                    }
-                    className="h-7 text-xs"
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter") {
-                        handleCreateLayer();
+                {canEdit && (
+                  <div className="flex gap-1">
+                    <Input
+                      value={newLayerName}
+                      onChange={(e) => setNewLayerName(e.target.value)}
+                      placeholder={
+                        isViewingVersion
+                          ? "Neues Gebiet (neue Version)..."
+                          : "Neues Gebiet..."
                       }
-                    }}
-                  />
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Button
-                        onClick={handleCreateLayer}
-                        disabled={!newLayerName.trim() || isCreating}
-                        size="icon"
-                        className="h-7 w-7"
-                        title={
-                          isViewingVersion
-                            ? "Gebiet wird in neuer Version erstellt"
-                            : "Gebiet erstellen"
+                      className="h-7 text-xs"
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                          handleCreateLayer();
                         }
-                      >
-                        <IconPlus className="h-3 w-3" />
-                      </Button>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>Neues Gebiet erstellen</p>
-                    </TooltipContent>
-                  </Tooltip>
-                </div>
+                      }}
+                    />
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button
+                          onClick={handleCreateLayer}
+                          disabled={!newLayerName.trim() || isCreating}
+                          size="icon"
+                          className="h-7 w-7"
+                          title={
+                            isViewingVersion
+                              ? "Gebiet wird in neuer Version erstellt"
+                              : "Gebiet erstellen"
+                          }
+                        >
+                          <IconPlus className="h-3 w-3" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Neues Gebiet erstellen</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+                )}
 
                 {/* Layer list - Optimized with shadcn */}
                 <div className="space-y-2 max-h-48 overflow-y-auto pr-1">
-                  {optimisticLayers.map((layer) => (
-                    <div
-                      key={layer.id}
-                      className={`group relative rounded-lg border transition-all ${
-                        activeLayerId === layer.id
-                          ? "border-primary bg-accent shadow-sm"
-                          : "border-border hover:border-primary/50 hover:bg-accent/50"
-                      }`}
-                    >
+                  {layerRows.map(({ layer, depth, hasChildren }) => {
+                    const layerIndex = derivedLayers.indexOf(layer);
+
+                    return (
                       <div
-                        className="px-3 py-2 cursor-pointer"
-                        onClick={() => onLayerSelect?.(layer.id)}
+                        key={layer.id}
+                        className={`group relative rounded-lg border transition-all ${
+                          activeLayerId === layer.id
+                            ? "border-primary bg-accent shadow-sm"
+                            : "border-border hover:border-primary/50 hover:bg-accent/50"
+                        }`}
+                        style={{ marginLeft: depth * 12 }}
                       >
-                        <div className="flex items-center justify-between gap-2">
-                          {/* Layer info */}
-                          <div className="flex items-center gap-2 flex-1 min-w-0">
-                            {/* Color indicator */}
-                            <div
-                              className="w-3 h-3 rounded-sm flex-shrink-0 border border-border"
-                              style={{ backgroundColor: layer.color }}
-                            />
-
-                            {/* Name - editable on double-click */}
-                            {editingLayerId === layer.id ? (
-                              <Input
-                                value={editingLayerName}
-                                onChange={(e) =>
-                                  setEditingLayerName(e.target.value)
-                                }
-                                className="h-6 text-sm flex-1"
-                                autoFocus
-                                onClick={(e) => e.stopPropagation()}
-                                onKeyDown={(e) => {
-                                  e.stopPropagation();
-
-                                  if (e.key === "Enter") {
-                                    handleRenameLayer(
-                                      layer.id,
-
-                                      editingLayerName,
-                                    );
-                                  } else if (e.key === "Escape") {
-                                    setEditingLayerId(null);
-
-                                    setEditingLayerName("");
-                                  }
-                                }}
-                                onBlur={() => {
-                                  if (editingLayerName.trim()) {
-                                    handleRenameLayer(
-                                      layer.id,
-
-                                      editingLayerName,
-                                    );
-                                  } else {
-                                    setEditingLayerId(null);
-
-                                    setEditingLayerName("");
+                        <div
+                          className="px-3 py-2 cursor-pointer"
+                          onClick={() => onLayerSelect?.(layer.id)}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            {/* Layer info */}
+                            <div className="flex items-center gap-2 flex-1 min-w-0">
+                              {/* Collapse children */}
+                              {hasChildren && (
+                                <button
+                                  type="button"
+                                  className="-ml-1 rounded hover:bg-muted"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+
+                                    toggleLayerCollapsed(layer.id);
+                                  }}
+                                  aria-label={
+                                    collapsedLayerIds.has(layer.id)
+                                      ? "Untergeordnete Gebiete einblenden"
+                                      : "Untergeordnete Gebiete ausblenden"
                                   }
-                                }}
+                                >
+                                  {collapsedLayerIds.has(layer.id) ? (
+                                    <ChevronRight className="h-3 w-3" />
+                                  ) : (
+                                    <ChevronDown className="h-3 w-3" />
+                                  )}
+                                </button>
+                              )}
+
+                              {/* Color indicator; parents are drawn as outline */}
+                              <div
+                                className="w-3 h-3 rounded-sm flex-shrink-0 border border-border"
+                                style={
+                                  hasChildren
+                                    ? { borderColor: layer.color, borderWidth: 2 }
+                                    : { backgroundColor: layer.color }
+                                }
                               />
-                            ) : (
-                              <span
-                                className="font-medium text-sm truncate"
-                                onDoubleClick={(e) => {
-                                  e.stopPropagation();
 
-                                  setEditingLayerId(layer.id);
+                              {/* Name - editable on double-click */}
+                              {editingLayerId === layer.id ? (
+                                <Input
+                                  value={editingLayerName}
+                                  onChange={(e) =>
+                                    setEditingLayerName(e.target.value)
+                                  }
+                                  className="h-6 text-sm flex-1"
+                                  autoFocus
+                                  onClick={(e) => e.stopPropagation()}
+                                  onKeyDown={(e) => {
+                                    e.stopPropagation();
 
-                                  setEditingLayerName(layer.name);
-                                }}
-                                title="Doppelklick zum Umbenennen"
-                              >
-                                {layer.name}
-                              </span>
-                            )}
+                                    if (e.key === "Enter") {
+                                      handleRenameLayer(
+                                        layer.id,
 
-                            {/* Postal code count */}
-                            <Badge variant="secondary" className="text-xs">
-                              {layer.postalCodes?.length || 0}
-                            </Badge>
-                          </div>
+                                        editingLayerName,
+                                      );
+                                    } else if (e.key === "Escape") {
+                                      setEditingLayerId(null);
+
+                                      setEditingLayerName("");
+                                    }
+                                  }}
+                                  onBlur={() => {
+                                    if (editingLayerName.trim()) {
+                                      handleRenameLayer(
+                                        layer.id,
 
-                          {/* Action buttons */}
-                          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                            {/* Color picker */}
-                            <Popover>
-                              <PopoverTrigger asChild>
+                                        editingLayerName,
+                                      );
+                                    } else {
+                                      setEditingLayerId(null);
+
+                                      setEditingLayerName("");
+                                    }
+                                  }}
+                                />
+                              ) : (
+                                <span
+                                  className="font-medium text-sm truncate"
+                                  onDoubleClick={(e) => {
+                                    e.stopPropagation();
+
+                                    if (!canEdit) return;
+
+                                    setEditingLayerId(layer.id);
+
+                                    setEditingLayerName(layer.name);
+                                  }}
+                                  title={
+                                    canEdit
+                                      ? "Doppelklick zum Umbenennen"
+                                      : undefined
+                                  }
+                                >
+                                  {layer.name}
+                                </span>
+                              )}
+
+                              {/* Postal code count, summed up for parents */}
+                              <Badge
+                                variant={hasChildren ? "outline" : "secondary"}
+                                className="text-xs"
+                                title={
+                                  hasChildren
+                                    ? "PLZ aller untergeordneten Gebiete"
+                                    : undefined
+                                }
+                              >
+                                {layer.postalCodes?.length || 0}
+                              </Badge>
+                            </div>
+
+                            {/* Action buttons */}
+                            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                              {/* Color picker */}
+                              {canEdit && (
+                                <Popover>
+                                  <PopoverTrigger asChild>
+                                    <Tooltip>
+                                      <TooltipTrigger asChild>
+                                        <Button
+                                          variant="outline"
+                                          size="icon"
+                                          className="h-6 w-6"
+                                          onClick={(e) => e.stopPropagation()}
+                                        >
+                                          <IconPalette className="h-3.5 w-3.5" />
+                                        </Button>
+                                      </TooltipTrigger>
+                                      <TooltipContent>
+                                        <p>Gebiet-Farbe ändern</p>
+                                      </TooltipContent>
+                                    </Tooltip>
+                                  </PopoverTrigger>
+                                  <PopoverContent
+                                    className="w-auto p-3"
+                                    onClick={(e: React.MouseEvent) =>
+                                      e.stopPropagation()
+                                    }
+                                  >
+                                    <div className="grid grid-cols-4 gap-2">
+                                      {DEFAULT_COLORS.map((color) => (
+                                        <button
+                                          key={color}
+                                          className="w-8 h-8 rounded-md border-2 hover:scale-110 transition-transform"
+                                          style={{
+                                            backgroundColor: color,
+
+                                            borderColor:
+                                              layer.color === color
+                                                ? "currentColor"
+                                                : "transparent",
+                                          }}
+                                          onClick={() =>
+                                            handleColorChange(layer.id, color)
+                                          }
+                                        />
+                                      ))}
+                                    </div>
+                                  </PopoverContent>
+                                </Popover>
+                              )}
+                              {/* Parent in the layer hierarchy */}
+                              {canEdit && (
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button
+                                      variant="outline"
+                                      size="icon"
+                                      className="h-6 w-6"
+                                      onClick={(e) => e.stopPropagation()}
+                                      title="Übergeordnetes Gebiet festlegen"
+                                    >
+                                      <IconHierarchy2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent
+                                    align="end"
+                                    className="max-h-64 overflow-y-auto"
+                                    onClick={(e: React.MouseEvent) =>
+                                      e.stopPropagation()
+                                    }
+                                  >
+                                    <DropdownMenuLabel className="text-xs">
+                                      Übergeordnetes Gebiet
+                                    </DropdownMenuLabel>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem
+                                      className="text-xs"
+                                      disabled={layer.parentLayerId === null}
+                                      onSelect={() =>
+                                        handleParentChange(layer.id, null)
+                                      }
+                                    >
+                                      Keines (oberste Ebene)
+                                    </DropdownMenuItem>
+                                    {layerTree
+                                      .filter(
+                                        ({ layer: candidate }) =>
+                                          candidate.id !== layer.parentLayerId &&
+                                          getParentLayerError(
+                                            optimisticLayers,
+
+                                            layer.id,
+
+                                            candidate.id,
+                                          ) === null,
+                                      )
+                                      .map(({ layer: candidate }) => (
+                                        <DropdownMenuItem
+                                          key={candidate.id}
+                                          className="text-xs"
+                                          onSelect={() =>
+                                            handleParentChange(
+                                              layer.id,
+
+                                              candidate.id,
+                                            )
+                                          }
+                                        >
+                                          {getLayerPath(
+                                            derivedLayers,
+
+                                            candidate.id,
+                                          )}
+                                        </DropdownMenuItem>
+                                      ))}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              )}
+                              {/* People owning the layer */}
+                              {canEdit && (
                                 <Tooltip>
                                   <TooltipTrigger asChild>
                                     <Button
                                       variant="outline"
                                       size="icon"
                                       className="h-6 w-6"
-                                      onClick={(e) => e.stopPropagation()}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+
+                                        setPeopleLayerId(layer.id);
+                                      }}
                                     >
-                                      <IconPalette className="h-3.5 w-3.5" />
+                                      <IconUser className="h-3.5 w-3.5" />
                                     </Button>
                                   </TooltipTrigger>
                                   <TooltipContent>
-                                    <p>Gebiet-Farbe ändern</p>
+                                    <p>Verantwortliche zuordnen</p>
                                   </TooltipContent>
                                 </Tooltip>
-                              </PopoverTrigger>
-                              <PopoverContent
-                                className="w-auto p-3"
-                                onClick={(e: React.MouseEvent) =>
-                                  e.stopPropagation()
-                                }
-                              >
-                                <div className="grid grid-cols-4 gap-2">
-                                  {DEFAULT_COLORS.map((color) => (
-                                    <button
-                                      key={color}
-                                      className="w-8 h-8 rounded-md border-2 hover:scale-110 transition-transform"
-                                      style={{
-                                        backgroundColor: color,
-
-                                        borderColor:
-                                          layer.color === color
-                                            ? "currentColor"
-                                            : "transparent",
-                                      }}
-                                      onClick={() =>
-                                        handleColorChange(layer.id, color)
+                              )}
+                              {/* Copy as CSV */}
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    variant="outline"
+                                    size="icon"
+                                    className="h-6 w-6"
+                                    onClick={async (e) => {
+                                      e.stopPropagation();
+
+                                      const codes =
+                                        layer.postalCodes?.map(
+                                          (pc) => `D-${pc.postalCode}`,
+                                        ) || [];
+
+                                      if (codes.length > 0) {
+                                        await copyPostalCodesCSV(codes);
+                                      } else {
+                                        toast.info(
+                                          "Keine Postleitzahlen zum Kopieren",
+                                        );
                                       }
-                                    />
-                                  ))}
-                                </div>
-                              </PopoverContent>
-                            </Popover>
-                            {/* Copy as CSV */}
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <Button
-                                  variant="outline"
-                                  size="icon"
-                                  className="h-6 w-6"
-                                  onClick={async (e) => {
-                                    e.stopPropagation();
+                                    }}
+                                  >
+                                    <Copy className="h-3.5 w-3.5" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p>Postleitzahlen als CSV kopieren</p>
+                                </TooltipContent>
+                              </Tooltip>
+
+                              {/* Delete */}
+                              {canEdit && (
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <Button
+                                      variant="outline"
+                                      size="icon"
+                                      className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
 
-                                    const codes =
-                                      layer.postalCodes?.map(
-                                        (pc) => `D-${pc.postalCode}`,
-                                      ) || [];
+                                        handleDeleteLayer(layer.id);
+                                      }}
+                                    >
+                                      <X className="h-3.5 w-3.5" />
+                                    </Button>
+                                  </TooltipTrigger>
+                                  <TooltipContent>
+                                    <p>Gebiet löschen</p>
+                                  </TooltipContent>
+                                </Tooltip>
+                              )}
+                            </div>
+                          </div>
 
-                                    if (codes.length > 0) {
-                                      await copyPostalCodesCSV(codes);
-                                    } else {
-                                      toast.info(
-                                        "Keine Postleitzahlen zum Kopieren",
-                                      );
-                                    }
-                                  }}
-                                >
-                                  <Copy className="h-3.5 w-3.5" />
-                                </Button>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Postleitzahlen als CSV kopieren</p>
-                              </TooltipContent>
-                            </Tooltip>
-
-                            {/* Delete */}
-                            <Tooltip>
-                              <TooltipTrigger asChild>
-                                <Button
-                                  variant="outline"
-                                  size="icon"
-                                  className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
-                                  onClick={(e) => {
-                                    e.stopPropagation();
+                          {/* Owner */}
+                          {getLayerOwners(layer.id) && (
+                            <div className="mt-1 flex items-center gap-1 pl-5 text-xs text-muted-foreground">
+                              <IconUser className="h-3 w-3 flex-shrink-0" />
+                              <span className="truncate">
+                                {getLayerOwners(layer.id)}
+                              </span>
+                            </div>
+                          )}
 
-                                    handleDeleteLayer(layer.id);
-                                  }}
-                                >
-                                  <X className="h-3.5 w-3.5" />
-                                </Button>
-                              </TooltipTrigger>
-                              <TooltipContent>
-                                <p>Gebiet löschen</p>
-                              </TooltipContent>
-                            </Tooltip>
-                          </div>
+                          {/* Points of the visible datasets */}
+                          {visibleDatasetIds.size > 0 && (
+                            <div
+                              className="mt-1 flex items-center gap-1 pl-5 text-xs text-muted-foreground"
+                              title="Punkte im Gebiet"
+                            >
+                              <IconMapPin className="h-3 w-3 flex-shrink-0" />
+                              <span>
+                                {(
+                                  layerPointCounts.get(layer.id) ?? 0
+                                ).toLocaleString("de-DE")}{" "}
+                                Punkte
+                              </span>
+                            </div>
+                          )}
+
+                          {/* Metric total and deviation from the mean */}
+                          {activeMetric && (
+                            <div
+                              className="mt-1 flex items-center justify-between gap-2 pl-5 text-xs text-muted-foreground"
+                              title={
+                                layerMetricTotals[layerIndex].missing[
+                                  activeMetric
+                                ] > 0
+                                  ? `${layerMetricTotals[layerIndex].missing[activeMetric]} PLZ ohne Wert`
+                                  : undefined
+                              }
+                            >
+                              <span className="truncate">
+                                {activeMetric}:{" "}
+                                {formatMetricValue(
+                                  layerMetricTotals[layerIndex].totals[
+                                    activeMetric
+                                  ] ?? 0,
+                                )}
+                              </span>
+                              {(layersPerLevel.get(depth)?.length ?? 0) > 1 &&
+                                layerMetricDeviations[layerIndex] !== null && (
+                                  <span
+                                    className={
+                                      Math.abs(
+                                        layerMetricDeviations[layerIndex],
+                                      ) > METRIC_BALANCE_TOLERANCE
+                                        ? "font-medium text-amber-600"
+                                        : undefined
+                                    }
+                                  >
+                                    {formatMetricDeviation(
+                                      layerMetricDeviations[layerIndex],
+                                    )}
+                                  </span>
+                                )}
+                            </div>
+                          )}
                         </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </CollapsibleContent>
             </Collapsible>
             <Separator />
+
+            {/* Contiguity warnings: exclaves, enclaves and unassigned holes */}
+            <LayerValidationPanel
+              areaId={areaId}
+              layersSignature={layersSignature}
+              canEdit={canEdit}
+              onZoomToBounds={onZoomToBounds}
+            />
+            <Separator />
+
+            {/* Assigned, unassigned and duplicate codes per state */}
+            <CoverageReportPanel
+              areaId={areaId}
+              layersSignature={layersSignature}
+              canEdit={canEdit}
+              onHighlightGaps={onHighlightGaps}
+            />
+            <Separator />
+
+            {/* Imported customer/branch locations */}
+            <PointDatasetsPanel
+              areaId={areaId}
+              dataPoints={dataPoints}
+              hiddenDatasetIds={hiddenDatasetIds}
+              onHiddenDatasetIdsChange={(datasetIds) =>
+                onHiddenDatasetIdsChange?.(datasetIds)
+              }
+              canEdit={canEdit}
+            />
+            <Separator />
           </>
         )}
 
@@ -1228,32 +1808,34 @@ function DrawingToolsImpl({
                     </div>
                   </Activity>
                 </div>
-                <div className="grid grid-cols-2 gap-1">
-                  <Button
-                    variant="default"
-                    size="sm"
-                    onClick={handleAddPendingToLayer}
-                    className="h-6 text-xs"
-                    title="Gefundene zum aktiven Gebiet hinzufügen"
-                    disabled={
-                      !areaId || !activeLayerId || !addPostalCodesToLayer
-                    }
-                  >
-                    Hinzufügen
-                  </Button>
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    onClick={handleRemovePendingFromLayer}
-                    className="h-6 text-xs"
-                    title="Gefundene aus aktivem Layer entfernen"
-                    disabled={
-                      !areaId || !activeLayerId || !removePostalCodesFromLayer
-                    }
-                  >
-                    Entfernen
-                  </Button>
-                </div>
+                {canEdit && (
+                  <div className="grid grid-cols-2 gap-1">
+                    <Button
+                      variant="default"
+                      size="sm"
+                      onClick={handleAddPendingToLayer}
+                      className="h-6 text-xs"
+                      title="Gefundene zum aktiven Gebiet hinzufügen"
+                      disabled={
+                        !areaId || !activeLayerId || !addPostalCodesToLayer
+                      }
+                    >
+                      Hinzufügen
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={handleRemovePendingFromLayer}
+                      className="h-6 text-xs"
+                      title="Gefundene aus aktivem Layer entfernen"
+                      disabled={
+                        !areaId || !activeLayerId || !removePostalCodesFromLayer
+                      }
+                    >
+                      Entfernen
+                    </Button>
+                  </div>
+                )}
                 <Separator />
               </div>
             </Activity>
@@ -1331,90 +1913,124 @@ function DrawingToolsImpl({
                         Zeichnung löschen
                       </Button>
                     )}
-                  <Activity mode={!!(activeLayerId && areaId) ? "visible" : "hidden"}>
-                    <Button
-                      variant="secondary"
-                      size="sm"
-                      disabled={
-                        isFilling || !optimisticLayers.find((l) => l.id === activeLayerId)
-                      }
-                      onClick={() => {
-                        const activeLayer = optimisticLayers.find(
-                          (l) => l.id === activeLayerId,
-                        );
-
-                        if (postalCodesData && activeLayer) {
-                          fillRegions(
-                            "holes",
+                  {canEdit && (
+                    <Activity mode={!!(activeLayerId && areaId) ? "visible" : "hidden"}>
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        disabled={
+                          isFilling || !optimisticLayers.find((l) => l.id === activeLayerId)
+                        }
+                        onClick={() => {
+                          const activeLayer = optimisticLayers.find(
+                            (l) => l.id === activeLayerId,
+                          );
 
-                            postalCodesData,
+                          if (activeLayer) {
+                            fillRegions(
+                              "holes",
 
-                            activeLayer,
+                              activeLayer,
 
-                            addPostalCodesToLayer ?? (async () => {}),
+                              addPostalCodesToLayer ?? (async () => {}),
 
-                            setIsFilling,
+                              setIsFilling,
 
-                            granularity,
-                          );
-                        }
-                      }}
-                      className="w-full h-7 text-xs"
-                    >
-                      {isFilling ? (
-                        <Loader2Icon className="h-3 w-3 mr-1.5 animate-spin" />
-                      ) : (
-                        <Diamond className="h-3 w-3 mr-1.5" />
-                      )}
-                      Löcher füllen
-                    </Button>
-                  </Activity>
+                              granularity,
+                            );
+                          }
+                        }}
+                        className="w-full h-7 text-xs"
+                      >
+                        {isFilling ? (
+                          <Loader2Icon className="h-3 w-3 mr-1.5 animate-spin" />
+                        ) : (
+                          <Diamond className="h-3 w-3 mr-1.5" />
+                        )}
+                        Löcher füllen
+                      </Button>
+                    </Activity>
+                  )}
                 </CollapsibleContent>
               </Collapsible>
             </>
           )}
 
         {/* Export Section */}
-        <Activity mode={!!postalCodesData ? "visible" : "hidden"}>
-          <>
-            <Separator />
-            <div className="space-y-1">
-              <div className="flex gap-1">
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={handleExportExcel}
-                      className="flex-1 h-7 text-xs"
-                    >
-                      <FileSpreadsheet className="h-3 w-3 mr-1" />
-                      XLS
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Als Excel-Datei exportieren</p>
-                  </TooltipContent>
-                </Tooltip>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={handleExportPDF}
-                      className="flex-1 h-7 text-xs"
-                    >
-                      📄 PDF
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Als PDF-Datei exportieren</p>
-                  </TooltipContent>
-                </Tooltip>
-              </div>
+        <>
+          <Separator />
+          <div className="space-y-1">
+            <div className="flex gap-1">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleExportExcel}
+                    className="flex-1 h-7 text-xs"
+                  >
+                    <FileSpreadsheet className="h-3 w-3 mr-1" />
+                    XLS
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Als Excel-Datei exportieren</p>
+                </TooltipContent>
+              </Tooltip>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleExportPDF}
+                    className="flex-1 h-7 text-xs"
+                  >
+                    📄 PDF
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Als PDF-Datei exportieren</p>
+                </TooltipContent>
+              </Tooltip>
+              {areaId && (
+                <DropdownMenu>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex-1 h-7 text-xs"
+                        >
+                          <IconMap className="h-3 w-3 mr-1" />
+                          GIS
+                        </Button>
+                      </DropdownMenuTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>Gebietsflächen als Geodaten exportieren</p>
+                    </TooltipContent>
+                  </Tooltip>
+                  <DropdownMenuContent align="end">
+                    {(
+                      Object.keys(
+                        TERRITORY_EXPORT_FORMATS,
+                      ) as TerritoryExportFormat[]
+                    ).map((format) => (
+                      <DropdownMenuItem
+                        key={format}
+                        onClick={() => handleExportGeometry(format)}
+                        className="text-xs"
+                      >
+                        {`${TERRITORY_EXPORT_FORMATS[format].label} (.${TERRITORY_EXPORT_FORMATS[format].extension})`}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
-          </>
-        </Activity>
+          </div>
+        </>
 
         {/* Layer Dialogs */}
         {areaId && (
@@ -1440,6 +2056,35 @@ function DrawingToolsImpl({
                 onLayerUpdate?.();
               }}
             />
+            <PostalCodeMetricsImportDialog
+              open={showMetricsImport}
+              onOpenChange={setShowMetricsImport}
+              defaultGranularity={granularity ?? "5digit"}
+            />
+            <PeopleDirectoryDialog
+              people={people}
+              canManage={isAdmin}
+              open={showPeopleDirectory}
+              onOpenChange={setShowPeopleDirectory}
+            />
+            {peopleLayer && (
+              <LayerPeopleDialog
+                key={peopleLayer.id}
+                areaId={areaId}
+                layer={peopleLayer}
+                people={people}
+                assignments={getLayerAssignments(layerPeople, peopleLayer.id)}
+                open
+                onOpenChange={(open) => {
+                  if (!open) setPeopleLayerId(null);
+                }}
+                onOpenDirectory={() => {
+                  setPeopleLayerId(null);
+
+                  setShowPeopleDirectory(true);
+                }}
+              />
+            )}
             <LayerMergeDialog
               open={showLayerMerge}
               onOpenChange={setShowLayerMerge}
@@ -32,6 +32,7 @@ const UndoRedoToolbar = dynamic(
 interface FloatingDrawingToolbarProps {
   currentMode: TerraDrawMode | null;
   areaId: number | null | undefined;
+  canEdit?: boolean;
   onModeChange: (mode: TerraDrawMode | null) => void;
   initialUndoRedoStatus: {
     canUndo: boolean;
@@ -89,6 +90,7 @@ const drawingModes = [
 export function FloatingDrawingToolbar({
   currentMode,
   areaId,
+  canEdit = true,
   onModeChange,
   initialUndoRedoStatus,
 }: FloatingDrawingToolbarProps) {
@@ -184,13 +186,15 @@ export function FloatingDrawingToolbar({
             })}
           </div>
         </div>
-        <div className="pointer-events-auto">
-          <UndoRedoToolbar
-            areaId={areaId!}
-            variant="floating"
-            initialStatus={initialUndoRedoStatus}
-          />
-        </div>
+        {canEdit && (
+          <div className="pointer-events-auto">
+            <UndoRedoToolbar
+              areaId={areaId!}
+              variant="floating"
+              initialStatus={initialUndoRedoStatus}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,13 @@
+"use client";
+
+import { installTelemetryHandlers } from "@/lib/telemetry/reporter";
+import { useEffect } from "react";
+
+// Mounted once in the layout of the signed-in pages; renders nothing
+export function TelemetryReporter() {
+  useEffect(() => {
+    installTelemetryHandlers();
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  ERROR_CODES,
+  METRIC_TYPES,
+  METRIC_TYPE_LABELS,
+  formatDuration,
+  getErrorCodeLabel,
+  type TelemetryErrorDay,
+  type TelemetryMetricDay,
+} from "@/lib/utils/telemetry";
+import { useMemo } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString("de-DE", {
+    day: "2-digit",
+    month: "2-digit",
+  });
+
+function EmptyChart({ message }: { message: string }) {
+  return (
+    <div className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+      {message}
+    </div>
+  );
+}
+
+export function ErrorsPerDayChart({ days }: { days: TelemetryErrorDay[] }) {
+  const { data, config, seriesKeys } = useMemo(() => {
+    // Known codes first so their colors stay stable
+    const codes = new Set<string>();
+    for (const { counts } of days) {
+      for (const code of Object.keys(counts)) codes.add(code);
+    }
+    const keys = [
+      ...ERROR_CODES.filter((code) => codes.has(code)),
+      ...[...codes].filter(
+        (code) => !(ERROR_CODES as readonly string[]).includes(code)
+      ),
+    ];
+
+    const chartConfig: ChartConfig = {};
+    keys.forEach((code, index) => {
+      chartConfig[code] = {
+        label: getErrorCodeLabel(code === "unknown" ? null : code),
+        color: `var(--chart-${(index % 5) + 1})`,
+      };
+    });
+
+    return {
+      data: days.map(({ day, counts }) => ({ day, ...counts })),
+      config: chartConfig,
+      seriesKeys: keys,
+    };
+  }, [days]);
+
+  if (seriesKeys.length === 0) {
+    return <EmptyChart message="Keine Fehler im Zeitraum" />;
+  }
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-64 w-full">
+      <BarChart data={data} margin={{ left: -20, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="day"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={formatDay}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          allowDecimals={false}
+          width={48}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(value) => formatDay(String(value))}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {seriesKeys.map((key) => (
+          <Bar
+            key={key}
+            dataKey={key}
+            stackId="errors"
+            fill={`var(--color-${key})`}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+export function MetricPercentileChart({
+  days,
+}: {
+  days: TelemetryMetricDay[];
+}) {
+  const { data, config, seriesKeys } = useMemo(() => {
+    const keys = METRIC_TYPES.filter((type) =>
+      days.some(({ p95 }) => p95[type] !== undefined)
+    );
+
+    const chartConfig: ChartConfig = {};
+    keys.forEach((type, index) => {
+      chartConfig[type] = {
+        label: METRIC_TYPE_LABELS[type],
+        color: `var(--chart-${index + 1})`,
+      };
+    });
+
+    return {
+      data: days.map(({ day, p95 }) => ({ day, ...p95 })),
+      config: chartConfig,
+      seriesKeys: keys,
+    };
+  }, [days]);
+
+  if (seriesKeys.length === 0) {
+    return <EmptyChart message="Keine Messwerte im Zeitraum" />;
+  }
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-64 w-full">
+      <LineChart data={data} margin={{ left: -4, right: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="day"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={24}
+          tickFormatter={formatDay}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={64}
+          tickFormatter={(value) => formatDuration(Number(value))}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(value) => formatDay(String(value))}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {seriesKeys.map((key) => (
+          <Line
+            key={key}
+            dataKey={key}
+            type="monotone"
+            stroke={`var(--color-${key})`}
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+}
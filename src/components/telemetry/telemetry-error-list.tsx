@@ -0,0 +1,138 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+} from "@/components/ui/drawer";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatAuditTimestamp } from "@/lib/utils/audit-log";
+import {
+  getErrorCodeLabel,
+  type TelemetryErrorEntry,
+} from "@/lib/utils/telemetry";
+import { useState } from "react";
+
+function CodeBlock({ title, value }: { title: string; value: string | null }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">{title}</div>
+      <pre className="max-h-80 overflow-auto whitespace-pre-wrap break-all rounded-md bg-muted p-2 text-xs">
+        {value ?? "–"}
+      </pre>
+    </div>
+  );
+}
+
+export function TelemetryErrorList({
+  errors,
+}: {
+  errors: TelemetryErrorEntry[];
+}) {
+  const [selected, setSelected] = useState<TelemetryErrorEntry | null>(null);
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Zeitpunkt</TableHead>
+              <TableHead>Art</TableHead>
+              <TableHead>Meldung</TableHead>
+              <TableHead>Seite</TableHead>
+              <TableHead>Benutzer</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {errors.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  Keine Fehler aufgezeichnet
+                </TableCell>
+              </TableRow>
+            ) : (
+              errors.map((entry) => (
+                <TableRow
+                  key={entry.id}
+                  className="cursor-pointer"
+                  onClick={() => setSelected(entry)}
+                >
+                  <TableCell className="whitespace-nowrap tabular-nums">
+                    {entry.timestamp
+                      ? formatAuditTimestamp(entry.timestamp)
+                      : "–"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-xs">
+                      {getErrorCodeLabel(entry.errorCode)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="max-w-md truncate">
+                    {entry.message}
+                  </TableCell>
+                  <TableCell className="max-w-48 truncate text-muted-foreground">
+                    {entry.url ?? "–"}
+                  </TableCell>
+                  <TableCell>{entry.userName ?? "–"}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Drawer
+        direction="right"
+        open={!!selected}
+        onOpenChange={(open) => !open && setSelected(null)}
+      >
+        <DrawerContent className="data-[vaul-drawer-direction=right]:sm:max-w-xl">
+          {selected && (
+            <>
+              <DrawerHeader>
+                <DrawerTitle>
+                  {getErrorCodeLabel(selected.errorCode)}
+                </DrawerTitle>
+                <DrawerDescription>
+                  {selected.timestamp &&
+                    formatAuditTimestamp(selected.timestamp)}
+                  {selected.userName && ` · ${selected.userName}`}
+                </DrawerDescription>
+              </DrawerHeader>
+              <ScrollArea className="flex-1 min-h-0 px-4 pb-4">
+                <div className="space-y-4">
+                  <CodeBlock title="Meldung" value={selected.message} />
+                  <CodeBlock title="Seite" value={selected.url} />
+                  <CodeBlock
+                    title="Kontext"
+                    value={
+                      selected.context
+                        ? JSON.stringify(selected.context, null, 2)
+                        : null
+                    }
+                  />
+                  <CodeBlock title="Stacktrace" value={selected.stack} />
+                </div>
+              </ScrollArea>
+            </>
+          )}
+        </DrawerContent>
+      </Drawer>
+    </>
+  );
+}
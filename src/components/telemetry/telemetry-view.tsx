@@ -0,0 +1,152 @@
+// Server Component: client errors and map timings for administrators
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LOGIN_PATH } from "@/lib/auth/constants";
+import { isAdmin } from "@/lib/auth/permissions";
+import { getCurrentUser } from "@/lib/auth/session";
+import { getTelemetryOverview } from "@/lib/db/data-functions";
+import {
+  METRIC_TYPE_LABELS,
+  formatDuration,
+  type MetricType,
+} from "@/lib/utils/telemetry";
+import { IconAlertTriangle, IconClock, IconGauge } from "@tabler/icons-react";
+import type { Route } from "next";
+import { forbidden, redirect } from "next/navigation";
+import { TelemetryErrorList } from "./telemetry-error-list";
+import { ErrorsPerDayChart, MetricPercentileChart } from "./telemetry-charts";
+
+const TELEMETRY_DAYS = 14;
+
+export async function TelemetryView() {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect(LOGIN_PATH as Route);
+  }
+  if (!isAdmin(user)) {
+    forbidden();
+  }
+
+  const { errorsByDay, metricsByDay, metricSummaries, recentErrors } =
+    await getTelemetryOverview(TELEMETRY_DAYS);
+
+  return (
+    <div className="h-full p-6 pt-10">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Telemetrie</h1>
+          <p className="text-muted-foreground text-lg">
+            Fehler und Ladezeiten aus den Browsern der Benutzer.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <IconAlertTriangle className="w-5 h-5 text-primary" />
+                Fehler
+              </CardTitle>
+              <CardDescription>
+                Fehler pro Tag in den letzten {TELEMETRY_DAYS} Tagen
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ErrorsPerDayChart days={errorsByDay} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <IconClock className="w-5 h-5 text-primary" />
+                Ladezeiten
+              </CardTitle>
+              <CardDescription>95. Perzentil pro Tag</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MetricPercentileChart days={metricsByDay} />
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <IconGauge className="w-5 h-5 text-primary" />
+              Messwerte
+            </CardTitle>
+            <CardDescription>
+              Median und 95. Perzentil der letzten {TELEMETRY_DAYS} Tage
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Messung</TableHead>
+                  <TableHead>Komponente</TableHead>
+                  <TableHead className="text-right">Anzahl</TableHead>
+                  <TableHead className="text-right">Median</TableHead>
+                  <TableHead className="text-right">95. Perzentil</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {metricSummaries.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={5}
+                      className="h-16 text-center text-muted-foreground"
+                    >
+                      Noch keine Messwerte
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  metricSummaries.map((summary) => (
+                    <TableRow
+                      key={`${summary.metricType}-${summary.component}`}
+                    >
+                      <TableCell>
+                        {METRIC_TYPE_LABELS[summary.metricType as MetricType] ??
+                          summary.metricType}
+                      </TableCell>
+                      <TableCell>{summary.component}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {summary.samples.toLocaleString("de-DE")}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatDuration(summary.p50)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatDuration(summary.p95)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-2">
+          <h2 className="text-xl font-semibold">Neueste Fehler</h2>
+          <TelemetryErrorList errors={recentErrors} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { AlertTriangle, RefreshCw } from "lucide-react";
 export function MapErrorBoundary({ children }: { children: React.ReactNode }) {
   return (
     <ErrorBoundary
+      name="map"
       fallback={
         <div className="h-full w-full flex items-center justify-center">
           <Card className="max-w-md">
@@ -48,6 +49,7 @@ export function PostalCodesErrorBoundary({
 }) {
   return (
     <ErrorBoundary
+      name="postal-codes"
       fallback={
         <div className="p-6">
           <AlertError message="Fehler beim Laden der Postleitzahldaten. Bitte aktualisieren Sie die Seite." />
@@ -66,6 +68,7 @@ export function DrawingToolsErrorBoundary({
 }) {
   return (
     <ErrorBoundary
+      name="drawing-tools"
       fallback={
         <Card className="w-56">
           <CardContent className="pt-6">
@@ -99,6 +102,7 @@ export function AddressAutocompleteErrorBoundary({
 }) {
   return (
     <ErrorBoundary
+      name="address-autocomplete"
       fallback={
         <Card>
           <CardContent className="pt-6">
@@ -126,6 +130,7 @@ export function FeatureErrorBoundary({
 }) {
   return (
     <ErrorBoundary
+      name="feature"
       fallback={
         <div className="p-4">
           <AlertError message={fallbackMessage} />
@@ -2,6 +2,7 @@
 
 import * as React from "react";
 import { ErrorBoundary as ReactErrorBoundary } from "react-error-boundary";
+import { reportError } from "@/lib/telemetry/reporter";
 import { AlertError } from "./alert";
 
 // --- ErrorBoundary component ---
@@ -11,6 +12,8 @@ interface ErrorBoundaryProps {
     | React.ComponentType<{ error: Error; resetErrorBoundary: () => void }>
     | React.ReactNode;
   onError?: (error: Error, errorInfo: React.ErrorInfo) => void;
+  // Identifies the boundary in the error log
+  name?: string;
 }
 
 function ErrorFallback({
@@ -36,13 +39,22 @@ export function ErrorBoundary({
   children,
   fallback,
   onError,
+  name = "unnamed",
 }: ErrorBoundaryProps) {
+  const handleError = (error: Error, errorInfo: React.ErrorInfo) => {
+    reportError(error, "boundary", {
+      boundary: name,
+      componentStack: errorInfo.componentStack?.slice(0, 2000),
+    });
+    onError?.(error, errorInfo);
+  };
+
   // If fallback is a React element, use the fallback prop
   if (fallback && React.isValidElement(fallback)) {
     return (
       <ReactErrorBoundary
         fallback={fallback}
-        onError={onError}
+        onError={handleError}
         onReset={() => {
           // Optional: Add any cleanup logic here
         }}
@@ -63,7 +75,7 @@ export function ErrorBoundary({
             }>)
           : ErrorFallback
       }
-      onError={onError}
+      onError={handleError}
       onReset={() => {
         // Optional: Add any cleanup logic here
       }}
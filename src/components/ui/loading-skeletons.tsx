@@ -1,64 +1,66 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 
-// Loading skeleton for main page cards - matches PostalCodesOverview structure
+// Loading skeleton for the home page dashboard - matches AreasDashboard structure
 export function HomePageSkeleton() {
   return (
     <div className="h-full p-6 pt-10">
-      <div className="max-w-6xl mx-auto">
+      <div className="max-w-6xl mx-auto space-y-6">
         {/* Header Section */}
-        <div className="mb-8">
+        <div>
           <Skeleton className="h-9 w-80 mb-2" />
           <Skeleton className="h-6 w-full max-w-2xl" />
         </div>
 
-        {/* Three Feature Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
-          {[1, 2, 3].map((i) => (
-            <Card key={i} className="hover:shadow-lg transition-shadow">
+        {/* Summary Cards */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {[1, 2, 3, 4].map((i) => (
+            <Card key={i} className="gap-2">
               <CardHeader>
-                <div className="flex items-center gap-2 mb-2">
-                  <Skeleton className="w-5 h-5 rounded" />
-                  <Skeleton className="h-6 w-40" />
-                </div>
-                <Skeleton className="h-4 w-full mb-1" />
-                <Skeleton className="h-4 w-4/5" />
+                <Skeleton className="h-4 w-24 mb-2" />
+                <Skeleton className="h-7 w-16" />
               </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <Skeleton className="h-4 w-full" />
-                  <Skeleton className="h-4 w-11/12" />
-                  <Skeleton className="h-4 w-10/12" />
-                  <Skeleton className="h-4 w-9/12" />
-                </div>
-              </CardContent>
             </Card>
           ))}
         </div>
 
-        {/* Getting Started Card */}
-        <Card className="bg-gradient-to-r from-primary/5 to-primary/10 border-primary/20">
+        {/* Activity Chart */}
+        <Card>
           <CardHeader>
             <div className="flex items-center gap-2 mb-2">
               <Skeleton className="w-5 h-5 rounded" />
-              <Skeleton className="h-6 w-32" />
+              <Skeleton className="h-6 w-40" />
             </div>
             <Skeleton className="h-4 w-64" />
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {[1, 2, 3].map((i) => (
-                <div key={i} className="text-center">
-                  <Skeleton className="w-12 h-12 rounded-full mx-auto mb-2" />
-                  <Skeleton className="h-5 w-32 mx-auto mb-1" />
-                  <Skeleton className="h-4 w-full mb-1" />
-                  <Skeleton className="h-4 w-11/12 mx-auto" />
-                  <Skeleton className="h-4 w-10/12 mx-auto" />
-                </div>
-              ))}
-            </div>
+            <Skeleton className="h-64 w-full" />
           </CardContent>
         </Card>
+
+        {/* Areas and Recent Versions */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <Skeleton className="h-6 w-32" />
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-20 w-full" />
+              ))}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <Skeleton className="h-6 w-40" />
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {[1, 2, 3, 4].map((i) => (
+                <Skeleton key={i} className="h-9 w-full" />
+              ))}
+            </CardContent>
+          </Card>
+        </div>
       </div>
     </div>
   );
@@ -68,3 +68,15 @@ export const multiPoint = customType<{ data: string; notNull: true }>({
     return `geometry(MultiPoint, ${SRID})`;
   },
 });
+
+export const lineString = customType<{ data: string; notNull: true }>({
+  dataType() {
+    return `geometry(LineString, ${SRID})`;
+  },
+});
+
+export const point = customType<{ data: string }>({
+  dataType() {
+    return `geometry(Point, ${SRID})`;
+  },
+});
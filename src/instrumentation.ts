@@ -0,0 +1,10 @@
+export async function register() {
+  // Not during `next build`, and not in the edge runtime
+  if (
+    process.env.NEXT_RUNTIME === "nodejs" &&
+    process.env.NEXT_PHASE !== "phase-production-build"
+  ) {
+    const { startJobScheduler } = await import("./lib/jobs/scheduler");
+    startJobScheduler();
+  }
+}
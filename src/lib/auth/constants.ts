@@ -0,0 +1,10 @@
+// Shared between the proxy (cookie presence check) and the session helpers
+
+export const SESSION_COOKIE_NAME = "session";
+
+export const SESSION_DURATION_MS = 1000 * 60 * 60 * 24 * 30; // 30 days
+
+// Short-lived cookie holding state + PKCE verifier during an OIDC login
+export const OIDC_FLOW_COOKIE_NAME = "oidc-flow";
+
+export const LOGIN_PATH = "/login";
@@ -0,0 +1,105 @@
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import { cache } from "react";
+
+import { db } from "../db";
+import { areaMembers, areas } from "../schema/schema";
+import { type AreaRole, hasAreaRole, isAreaRole } from "./roles";
+import { requireUser, type SessionUser } from "./session";
+
+/**
+ * Resolve a user's role on an area, or null if they may not see it.
+ * Memberships of areas that predate sharing are backfilled by migration
+ * 0022, which finds no accounts on installs that had none yet. Any area
+ * still without members is read-only, except for admins who own it so they
+ * can share it.
+ */
+export const getAreaRole = cache(
+  async (areaId: number, user: SessionUser): Promise<AreaRole | null> => {
+    const members = await db
+      .select({ userId: areaMembers.userId, role: areaMembers.role })
+      .from(areaMembers)
+      .where(eq(areaMembers.areaId, areaId));
+
+    if (members.length === 0) {
+      return isAdmin(user) ? "owner" : "viewer";
+    }
+
+    const membership = members.find((member) => member.userId === user.id);
+
+    return membership && isAreaRole(membership.role) ? membership.role : null;
+  }
+);
+
+/**
+ * Like requireUser, but also throws unless the user holds at least `required`
+ * on the area. Mutating server actions call this before touching area data.
+ * Archived areas are read-only: anything above viewer is refused unless the
+ * caller opts in with `allowArchived` (archiving, restoring, sharing).
+ */
+export async function requireAreaRole(
+  areaId: number,
+  required: AreaRole,
+  options: { allowArchived?: boolean } = {}
+): Promise<SessionUser> {
+  const user = await requireUser();
+  const role = await getAreaRole(areaId, user);
+
+  if (!hasAreaRole(role, required)) {
+    throw new Error(`Requires ${required} role on area ${areaId}`);
+  }
+
+  if (required !== "viewer" && !options.allowArchived) {
+    const area = await db.query.areas.findFirst({
+      columns: { isArchived: true },
+      where: eq(areas.id, areaId),
+    });
+
+    if (area?.isArchived === "true") {
+      throw new Error(`Area ${areaId} is archived`);
+    }
+  }
+
+  return user;
+}
+
+/**
+ * Like requireUser, but also throws unless the user is an admin. Guards data
+ * shared by every area.
+ */
+export async function requireAdmin(): Promise<SessionUser> {
+  const user = await requireUser();
+
+  if (!isAdmin(user)) {
+    throw new Error("Requires an admin");
+  }
+
+  return user;
+}
+
+/**
+ * Grant the creator of a new area ownership of it.
+ */
+export async function addAreaOwner(areaId: number, userId: number) {
+  await db
+    .insert(areaMembers)
+    .values({ areaId, userId, role: "owner" })
+    .onConflictDoUpdate({
+      target: [areaMembers.areaId, areaMembers.userId],
+      set: { role: "owner" },
+    });
+}
+
+/**
+ * Instance administrators, configured as a comma-separated list of e-mail
+ * addresses in ADMIN_EMAILS. Nobody is an admin when it is unset.
+ */
+export function isAdmin(user: SessionUser): boolean {
+  const admins = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  return admins.includes(user.email.toLowerCase());
+}
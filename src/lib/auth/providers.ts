@@ -0,0 +1,173 @@
+import "server-only";
+
+import { createHash } from "node:crypto";
+
+/**
+ * Identity asserted by an external provider after a successful login
+ */
+export interface ExternalIdentity {
+  subject: string;
+  email: string;
+  // Only a verified email may be linked to an existing account
+  emailVerified: boolean;
+  name?: string;
+}
+
+/**
+ * An external login provider using the authorization code flow with PKCE.
+ * Any OpenID Connect compliant identity provider can be plugged in.
+ */
+export interface AuthProvider {
+  id: string;
+  name: string;
+  getAuthorizationUrl(params: {
+    state: string;
+    codeVerifier: string;
+    redirectUri: string;
+  }): Promise<string>;
+  getIdentity(params: {
+    code: string;
+    codeVerifier: string;
+    redirectUri: string;
+  }): Promise<ExternalIdentity>;
+}
+
+interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+}
+
+interface OidcDiscoveryDocument {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+/**
+ * Generic OpenID Connect provider configured from the issuer's discovery document
+ */
+export function createOidcProvider(config: OidcProviderConfig): AuthProvider {
+  let discovery: Promise<OidcDiscoveryDocument> | null = null;
+
+  const getDiscovery = () => {
+    discovery ??= fetch(
+      `${config.issuer.replace(/\/$/, "")}/.well-known/openid-configuration`
+    ).then((response) => {
+      if (!response.ok) {
+        discovery = null;
+        throw new Error(`OIDC discovery failed for ${config.id}`);
+      }
+      return response.json() as Promise<OidcDiscoveryDocument>;
+    });
+    return discovery;
+  };
+
+  return {
+    id: config.id,
+    name: config.name,
+
+    async getAuthorizationUrl({ state, codeVerifier, redirectUri }) {
+      const { authorization_endpoint } = await getDiscovery();
+      const codeChallenge = createHash("sha256")
+        .update(codeVerifier)
+        .digest("base64url");
+
+      return `${authorization_endpoint}?${new URLSearchParams({
+        response_type: "code",
+        client_id: config.clientId,
+        redirect_uri: redirectUri,
+        scope: (config.scopes ?? ["openid", "email", "profile"]).join(" "),
+        state,
+        code_challenge: codeChallenge,
+        code_challenge_method: "S256",
+      })}`;
+    },
+
+    async getIdentity({ code, codeVerifier, redirectUri }) {
+      const { token_endpoint, userinfo_endpoint } = await getDiscovery();
+
+      const tokenResponse = await fetch(token_endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          grant_type: "authorization_code",
+          code,
+          redirect_uri: redirectUri,
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          code_verifier: codeVerifier,
+        }),
+      });
+      if (!tokenResponse.ok) {
+        throw new Error(`OIDC token exchange failed for ${config.id}`);
+      }
+      const { access_token } = (await tokenResponse.json()) as {
+        access_token: string;
+      };
+
+      // The userinfo endpoint is authoritative and avoids verifying ID token signatures here
+      const userInfoResponse = await fetch(userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${access_token}` },
+      });
+      if (!userInfoResponse.ok) {
+        throw new Error(`OIDC userinfo request failed for ${config.id}`);
+      }
+      const claims = (await userInfoResponse.json()) as {
+        sub: string;
+        email?: string;
+        email_verified?: boolean;
+        name?: string;
+        preferred_username?: string;
+      };
+
+      if (!claims.email) {
+        throw new Error(`OIDC provider ${config.id} returned no email claim`);
+      }
+
+      return {
+        subject: claims.sub,
+        email: claims.email,
+        emailVerified: claims.email_verified === true,
+        name: claims.name ?? claims.preferred_username,
+      };
+    },
+  };
+}
+
+let configuredProviders: AuthProvider[] | null = null;
+
+/**
+ * Providers enabled through the environment (OIDC_ISSUER, OIDC_CLIENT_ID,
+ * OIDC_CLIENT_SECRET, optional OIDC_PROVIDER_NAME)
+ */
+export function getAuthProviders(): AuthProvider[] {
+  configuredProviders ??= createConfiguredProviders();
+  return configuredProviders;
+}
+
+function createConfiguredProviders(): AuthProvider[] {
+  const { OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_CLIENT_SECRET, OIDC_PROVIDER_NAME } =
+    process.env;
+
+  if (!OIDC_ISSUER || !OIDC_CLIENT_ID || !OIDC_CLIENT_SECRET) {
+    return [];
+  }
+
+  return [
+    createOidcProvider({
+      id: "oidc",
+      name: OIDC_PROVIDER_NAME ?? "Single Sign-On",
+      issuer: OIDC_ISSUER,
+      clientId: OIDC_CLIENT_ID,
+      clientSecret: OIDC_CLIENT_SECRET,
+    }),
+  ];
+}
+
+export function getAuthProvider(id: string): AuthProvider | undefined {
+  return getAuthProviders().find((provider) => provider.id === id);
+}
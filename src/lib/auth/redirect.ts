@@ -0,0 +1,23 @@
+// Placeholder origin to resolve "from" against; only the path is kept
+const LOCAL_ORIGIN = "http://localhost";
+
+/**
+ * Only allow redirects to local paths after login. The value is resolved the
+ * way browsers do, so "/\evil.com" or paths with tabs and newlines that turn
+ * into "//evil.com" are refused.
+ */
+export function getSafeRedirectPath(from: unknown): string {
+  if (typeof from !== "string" || !from.startsWith("/")) {
+    return "/";
+  }
+
+  try {
+    const url = new URL(from, LOCAL_ORIGIN);
+    if (url.origin !== LOCAL_ORIGIN) {
+      return "/";
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return "/";
+  }
+}
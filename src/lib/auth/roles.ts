@@ -0,0 +1,30 @@
+// Area roles, ordered from least to most privileged. Shared by server and client.
+
+export const AREA_ROLES = ["viewer", "editor", "owner"] as const;
+
+export type AreaRole = (typeof AREA_ROLES)[number];
+
+export const AREA_ROLE_LABELS: Record<AreaRole, string> = {
+  viewer: "Betrachter",
+  editor: "Bearbeiter",
+  owner: "Eigentümer",
+};
+
+export function isAreaRole(value: string): value is AreaRole {
+  return (AREA_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether `role` grants at least the permissions of `required`.
+ * A missing role (no membership) never does.
+ */
+export function hasAreaRole(
+  role: AreaRole | null | undefined,
+  required: AreaRole
+): boolean {
+  if (!role) {
+    return false;
+  }
+
+  return AREA_ROLES.indexOf(role) >= AREA_ROLES.indexOf(required);
+}
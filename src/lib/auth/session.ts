@@ -0,0 +1,112 @@
+import "server-only";
+
+import { createHash, randomBytes } from "node:crypto";
+import { and, eq, gt, lt } from "drizzle-orm";
+import { cookies, headers } from "next/headers";
+import { cache } from "react";
+
+import { db } from "../db";
+import { users, userSessions } from "../schema/schema";
+import { SESSION_COOKIE_NAME, SESSION_DURATION_MS } from "./constants";
+
+export interface SessionUser {
+  id: number;
+  email: string;
+  name: string;
+  authProvider: string;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Start a session for a user and set the session cookie.
+ * Only the token hash is stored, so a leaked sessions table cannot be replayed.
+ */
+export async function createSession(userId: number): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_DURATION_MS);
+  const userAgent = (await headers()).get("user-agent");
+
+  await db.insert(userSessions).values({
+    id: hashToken(token),
+    userId,
+    userAgent,
+    expiresAt: expiresAt.toISOString(),
+  });
+
+  await db
+    .update(users)
+    .set({ lastLoginAt: new Date().toISOString() })
+    .where(eq(users.id, userId));
+
+  // Opportunistically drop expired sessions
+  await db
+    .delete(userSessions)
+    .where(lt(userSessions.expiresAt, new Date().toISOString()));
+
+  (await cookies()).set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+/**
+ * End the current session and clear the cookie
+ */
+export async function deleteSession(): Promise<void> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+
+  if (token) {
+    await db.delete(userSessions).where(eq(userSessions.id, hashToken(token)));
+  }
+
+  cookieStore.delete(SESSION_COOKIE_NAME);
+}
+
+/**
+ * Resolve the signed-in user from the session cookie (deduplicated per request)
+ */
+export const getCurrentUser = cache(async (): Promise<SessionUser | null> => {
+  const token = (await cookies()).get(SESSION_COOKIE_NAME)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const [row] = await db
+    .select({
+      id: users.id,
+      email: users.email,
+      name: users.name,
+      authProvider: users.authProvider,
+    })
+    .from(userSessions)
+    .innerJoin(users, eq(users.id, userSessions.userId))
+    .where(
+      and(
+        eq(userSessions.id, hashToken(token)),
+        gt(userSessions.expiresAt, new Date().toISOString()),
+        eq(users.isActive, "true")
+      )
+    )
+    .limit(1);
+
+  return row ?? null;
+});
+
+/**
+ * Like getCurrentUser, but throws when nobody is signed in.
+ * Server actions call this first so every change is stamped with a real identity.
+ */
+export async function requireUser(): Promise<SessionUser> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error("Not authenticated");
+  }
+  return user;
+}
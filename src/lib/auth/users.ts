@@ -0,0 +1,65 @@
+import "server-only";
+
+import { and, eq } from "drizzle-orm";
+
+import { db } from "../db";
+import { users } from "../schema/schema";
+import type { ExternalIdentity } from "./providers";
+
+/**
+ * Find the account linked to an external identity. On first login the
+ * identity is linked to an existing account with the same email, or a new
+ * account is created. Returns null when the email belongs to an existing
+ * account but the provider has not verified it; linking would let anyone who
+ * registers that address at the provider take the account over.
+ */
+export async function findOrCreateExternalUser(
+  providerId: string,
+  identity: ExternalIdentity
+) {
+  const email = identity.email.toLowerCase();
+
+  const linked = await db.query.users.findFirst({
+    where: and(
+      eq(users.authProvider, providerId),
+      eq(users.providerSubject, identity.subject)
+    ),
+  });
+  if (linked) {
+    return linked;
+  }
+
+  const existing = await db.query.users.findFirst({
+    where: eq(users.email, email),
+  });
+  if (existing) {
+    if (!identity.emailVerified) {
+      console.warn(
+        `Refusing to link unverified ${providerId} identity to existing account ${existing.id}`
+      );
+      return null;
+    }
+
+    const [updated] = await db
+      .update(users)
+      .set({
+        authProvider: providerId,
+        providerSubject: identity.subject,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(users.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [created] = await db
+    .insert(users)
+    .values({
+      email,
+      name: identity.name ?? email,
+      authProvider: providerId,
+      providerSubject: identity.subject,
+    })
+    .returning();
+  return created;
+}
@@ -0,0 +1,141 @@
+import "server-only";
+
+import { asc, eq, inArray } from "drizzle-orm";
+
+import type { db } from "../db";
+import {
+  areaLayerPostalCodes,
+  areaLayers,
+  areaVersions,
+  layerPeople,
+} from "../schema/schema";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Copy all layers of an area with their styling, order, hierarchy, postal
+ * codes and people into another area. Returns the number of copied layers.
+ */
+export async function copyAreaLayers(
+  tx: Transaction,
+  sourceAreaId: number,
+  targetAreaId: number
+): Promise<number> {
+  const layers = await tx.query.areaLayers.findMany({
+    where: eq(areaLayers.areaId, sourceAreaId),
+    with: {
+      postalCodes: { columns: { postalCode: true } },
+      people: { columns: { personId: true, role: true } },
+    },
+    orderBy: [asc(areaLayers.orderIndex)],
+  });
+
+  // Copies get new ids; the hierarchy is relinked once all layers exist
+  const copiedIds = new Map<number, number>();
+
+  for (const layer of layers) {
+    const [copy] = await tx
+      .insert(areaLayers)
+      .values({
+        areaId: targetAreaId,
+        name: layer.name,
+        color: layer.color,
+        opacity: layer.opacity,
+        isVisible: layer.isVisible,
+        orderIndex: layer.orderIndex,
+      })
+      .returning({ id: areaLayers.id });
+
+    copiedIds.set(layer.id, copy.id);
+
+    if (layer.postalCodes.length > 0) {
+      await tx.insert(areaLayerPostalCodes).values(
+        layer.postalCodes.map((pc) => ({
+          layerId: copy.id,
+          postalCode: pc.postalCode,
+        }))
+      );
+    }
+
+    if (layer.people.length > 0) {
+      await tx.insert(layerPeople).values(
+        layer.people.map((assignment) => ({
+          layerId: copy.id,
+          personId: assignment.personId,
+          role: assignment.role,
+        }))
+      );
+    }
+  }
+
+  for (const layer of layers) {
+    const parentId = layer.parentLayerId
+      ? copiedIds.get(layer.parentLayerId)
+      : undefined;
+
+    if (parentId !== undefined) {
+      await tx
+        .update(areaLayers)
+        .set({ parentLayerId: parentId })
+        .where(eq(areaLayers.id, copiedIds.get(layer.id)!));
+    }
+  }
+
+  return layers.length;
+}
+
+/**
+ * Copy the version history of an area, keeping version numbers and the
+ * links between versions. All copies are inactive.
+ */
+export async function copyAreaVersions(
+  tx: Transaction,
+  sourceAreaId: number,
+  targetAreaId: number
+): Promise<void> {
+  const versions = await tx
+    .select()
+    .from(areaVersions)
+    .where(eq(areaVersions.areaId, sourceAreaId))
+    .orderBy(asc(areaVersions.versionNumber));
+
+  // Ascending order inserts every parent before its children
+  for (const version of versions) {
+    const hasParent =
+      version.parentVersionAreaId === sourceAreaId &&
+      version.parentVersionNumber !== null;
+
+    await tx.insert(areaVersions).values({
+      ...version,
+      areaId: targetAreaId,
+      parentVersionAreaId: hasParent ? targetAreaId : null,
+      parentVersionNumber: hasParent ? version.parentVersionNumber : null,
+      isActive: "false",
+    });
+  }
+}
+
+/**
+ * Remove the layers and versions of an area that failed to be set up
+ */
+export async function removeAreaContents(
+  tx: Transaction,
+  areaId: number
+): Promise<void> {
+  const layers = await tx
+    .select({ id: areaLayers.id })
+    .from(areaLayers)
+    .where(eq(areaLayers.areaId, areaId));
+
+  if (layers.length > 0) {
+    const layerIds = layers.map((layer) => layer.id);
+
+    await tx
+      .delete(areaLayerPostalCodes)
+      .where(inArray(areaLayerPostalCodes.layerId, layerIds));
+    await tx.delete(layerPeople).where(inArray(layerPeople.layerId, layerIds));
+    await tx.delete(areaLayers).where(eq(areaLayers.areaId, areaId));
+  }
+
+  await tx.delete(areaVersions).where(eq(areaVersions.areaId, areaId));
+}
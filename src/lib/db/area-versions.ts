@@ -0,0 +1,382 @@
+import "server-only";
+
+import {
+  and,
+  asc,
+  eq,
+  isNull,
+  sql,
+  type AnyColumn,
+  type SQL,
+} from "drizzle-orm";
+
+import { db } from "../db";
+import {
+  areaChanges,
+  areaUndoStacks,
+  areaVersions,
+  areas,
+} from "../schema/schema";
+import type { VersionSnapshot } from "../types/area-types";
+import { isLayerPersonRole } from "../utils/layer-people";
+import type { RetentionMode } from "../utils/version-policy";
+
+export interface CreateVersionData {
+  name?: string;
+  description?: string;
+  changesSummary?: string;
+  branchName?: string;
+  fromVersionId?: number; // If branching from a specific version
+  isAutoSave?: boolean;
+}
+
+export interface VersionRef {
+  areaId: number;
+  versionNumber: number;
+}
+
+/**
+ * Condition for the uncommitted changes of an area that were not undone.
+ * recordChangeAction attaches changes to the area's current version, so these
+ * are the changes recorded since that version was created. Changes of areas
+ * that never had a version carry no version at all.
+ */
+export function pendingChangesCondition(areaId: number | AnyColumn): SQL {
+  return sql`${areaChanges.areaId} = ${areaId}
+    AND ${areaChanges.isUndone} = 'false'
+    AND (
+      ${areaChanges.versionAreaId} IS NULL
+      OR EXISTS (
+        SELECT 1 FROM ${areas} a
+        JOIN ${areaVersions} v
+          ON v.area_id = a.id AND v.version_number = a.current_version_number
+        WHERE a.id = ${areaChanges.areaId}
+          AND ${areaChanges.versionAreaId} = v.area_id
+          AND ${areaChanges.versionNumber} = v.version_number
+          AND ${areaChanges.createdAt} >= v.created_at
+      )
+    )`;
+}
+
+/**
+ * Uncommitted changes of an area that were not undone
+ */
+export async function countPendingChanges(
+  areaId: number
+): Promise<{ count: number; lastChangeAt: string | null }> {
+  const [row] = await db
+    .select({
+      count: sql<number>`count(*)::int`,
+      lastChangeAt: sql<string | null>`max(${areaChanges.createdAt})::text`,
+    })
+    .from(areaChanges)
+    .where(pendingChangesCondition(areaId));
+
+  return { count: row?.count ?? 0, lastChangeAt: row?.lastChangeAt ?? null };
+}
+
+/**
+ * Snapshot the current area state as a new active version. Uncommitted
+ * changes move into the version and the undo/redo stacks are cleared.
+ * Callers are responsible for permissions and cache invalidation.
+ */
+export async function createAreaVersion(
+  areaId: number,
+  data: CreateVersionData,
+  createdBy: string | null
+): Promise<VersionRef> {
+  return db.transaction(async (tx) => {
+    // Lock the area row so concurrent versioning and retention of the same
+    // area run one after another
+    await tx
+      .select({ id: areas.id })
+      .from(areas)
+      .where(eq(areas.id, areaId))
+      .for("update");
+
+    const area = await tx.query.areas.findFirst({
+      where: eq(areas.id, areaId),
+      with: {
+        layers: {
+          with: {
+            postalCodes: true,
+            people: { columns: { personId: true, role: true } },
+          },
+          orderBy: (layers, { asc }) => [asc(layers.orderIndex)],
+        },
+      },
+    });
+
+    if (!area) {
+      throw new Error("Area not found");
+    }
+
+    // Get change count since last version or from start
+    const changeCount = await tx
+      .select({ count: sql<number>`count(*)::int` })
+      .from(areaChanges)
+      .where(
+        and(
+          eq(areaChanges.areaId, areaId),
+          data.fromVersionId
+            ? eq(areaChanges.versionAreaId, data.fromVersionId)
+            : isNull(areaChanges.versionAreaId)
+        )
+      );
+
+    const snapshot: VersionSnapshot = {
+      areaName: area.name,
+      description: area.description,
+      granularity: area.granularity,
+      layers: area.layers.map((layer) => ({
+        id: layer.id,
+        name: layer.name,
+        color: layer.color,
+        opacity: layer.opacity,
+        isVisible: layer.isVisible,
+        orderIndex: layer.orderIndex,
+        parentLayerId: layer.parentLayerId,
+        postalCodes: layer.postalCodes?.map((pc) => pc.postalCode) || [],
+        people: layer.people.map(({ personId, role }) => ({
+          personId,
+          role: isLayerPersonRole(role) ? role : "primary",
+        })),
+      })),
+    };
+
+    // Deactivate all previous versions for this area
+    await tx
+      .update(areaVersions)
+      .set({ isActive: "false" })
+      .where(eq(areaVersions.areaId, areaId));
+
+    // versionNumber is generated by trigger - don't pass it
+    const [version] = await tx
+      .insert(areaVersions)
+      .values({
+        areaId,
+        name: data.name,
+        description: data.description,
+        snapshot,
+        changesSummary: data.changesSummary,
+        // The version the working state was last saved or restored from
+        parentVersionAreaId: area.currentVersionNumber ? areaId : null,
+        parentVersionNumber: area.currentVersionNumber,
+        branchName: data.branchName,
+        isActive: "true",
+        isAutoSave: data.isAutoSave ? "true" : "false",
+        changeCount: changeCount[0]?.count || 0,
+        createdBy,
+      })
+      .returning();
+
+    await tx
+      .update(areas)
+      .set({ currentVersionNumber: version.versionNumber })
+      .where(eq(areas.id, areaId));
+
+    // Associate all uncommitted changes with this version
+    await tx
+      .update(areaChanges)
+      .set({
+        versionAreaId: version.areaId,
+        versionNumber: version.versionNumber,
+      })
+      .where(
+        and(eq(areaChanges.areaId, areaId), isNull(areaChanges.versionAreaId))
+      );
+
+    // The moved changes can no longer be undone
+    await tx
+      .update(areaUndoStacks)
+      .set({
+        undoStack: [],
+        redoStack: [],
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(areaUndoStacks.areaId, areaId));
+
+    return { areaId: version.areaId, versionNumber: version.versionNumber };
+  });
+}
+
+/**
+ * Remove old auto-saves of an area. Named versions, the active and current
+ * version, branch heads (versions nothing builds on) and branch points are
+ * always kept, as are the newest `keepAutoSaves` auto-saves and those younger
+ * than `keepDays`.
+ *
+ * "prune" deletes a version together with its changes, "squash" folds it into
+ * the version built on top of it so the change history stays complete.
+ * Returns the number of removed versions.
+ */
+export async function applyVersionRetention(
+  areaId: number,
+  rules: {
+    keepAutoSaves: number | null;
+    keepDays: number | null;
+    retentionMode: RetentionMode;
+  }
+): Promise<number> {
+  if (rules.keepAutoSaves === null && rules.keepDays === null) {
+    return 0;
+  }
+
+  return db.transaction(async (tx) => {
+    // Serialize with version creation, which takes the same row lock
+    const [area] = await tx
+      .select({ currentVersionNumber: areas.currentVersionNumber })
+      .from(areas)
+      .where(eq(areas.id, areaId))
+      .for("update");
+
+    if (!area) return 0;
+
+    const versions = await tx
+      .select({
+        versionNumber: areaVersions.versionNumber,
+        parentVersionAreaId: areaVersions.parentVersionAreaId,
+        parentVersionNumber: areaVersions.parentVersionNumber,
+        isActive: areaVersions.isActive,
+        isAutoSave: areaVersions.isAutoSave,
+        changeCount: areaVersions.changeCount,
+        // Compared in the database, timestamps carry no time zone
+        isOld:
+          rules.keepDays === null
+            ? sql<boolean>`true`
+            : sql<boolean>`${areaVersions.createdAt} < now() - make_interval(days => ${rules.keepDays})`,
+      })
+      .from(areaVersions)
+      .where(eq(areaVersions.areaId, areaId))
+      .orderBy(asc(areaVersions.versionNumber));
+
+    type Version = (typeof versions)[number];
+
+    const children = new Map<number, Version[]>();
+    for (const version of versions) {
+      if (
+        version.parentVersionAreaId === areaId &&
+        version.parentVersionNumber !== null
+      ) {
+        const siblings = children.get(version.parentVersionNumber) ?? [];
+        siblings.push(version);
+        children.set(version.parentVersionNumber, siblings);
+      }
+    }
+
+    const autoSaves = versions.filter((v) => v.isAutoSave === "true");
+    const keptByCount = new Set(
+      rules.keepAutoSaves === null
+        ? []
+        : autoSaves
+            .slice(Math.max(autoSaves.length - rules.keepAutoSaves, 0))
+            .map((v) => v.versionNumber)
+    );
+
+    const isExpired = (version: Version) =>
+      !keptByCount.has(version.versionNumber) && version.isOld;
+
+    let removed = 0;
+
+    for (const version of autoSaves) {
+      const versionChildren = children.get(version.versionNumber) ?? [];
+
+      if (
+        version.isActive === "true" ||
+        version.versionNumber === area.currentVersionNumber ||
+        versionChildren.length === 0 ||
+        versionChildren.length > 1 ||
+        !isExpired(version)
+      ) {
+        continue;
+      }
+
+      const [child] = versionChildren;
+      const versionCondition = and(
+        eq(areaChanges.versionAreaId, areaId),
+        eq(areaChanges.versionNumber, version.versionNumber)
+      );
+
+      if (rules.retentionMode === "squash") {
+        // The child's own changes happened after this version's, so they
+        // move behind them. Negating first keeps the unique key intact.
+        const [{ maxSequence }] = await tx
+          .select({
+            maxSequence: sql<number>`coalesce(max(${areaChanges.sequenceNumber}), 0)::int`,
+          })
+          .from(areaChanges)
+          .where(versionCondition);
+
+        const childCondition = and(
+          eq(areaChanges.versionAreaId, areaId),
+          eq(areaChanges.versionNumber, child.versionNumber)
+        );
+
+        await tx
+          .update(areaChanges)
+          .set({
+            sequenceNumber: sql`-(${areaChanges.sequenceNumber} + ${maxSequence})`,
+          })
+          .where(childCondition);
+        await tx
+          .update(areaChanges)
+          .set({ sequenceNumber: sql`-${areaChanges.sequenceNumber}` })
+          .where(childCondition);
+        await tx
+          .update(areaChanges)
+          .set({ versionNumber: child.versionNumber })
+          .where(versionCondition);
+
+        child.changeCount += version.changeCount;
+        await tx
+          .update(areaVersions)
+          .set({ changeCount: child.changeCount })
+          .where(
+            and(
+              eq(areaVersions.areaId, areaId),
+              eq(areaVersions.versionNumber, child.versionNumber)
+            )
+          );
+      } else {
+        await tx.delete(areaChanges).where(versionCondition);
+      }
+
+      // The child now builds on what this version built on
+      child.parentVersionAreaId = version.parentVersionAreaId;
+      child.parentVersionNumber = version.parentVersionNumber;
+      await tx
+        .update(areaVersions)
+        .set({
+          parentVersionAreaId: version.parentVersionAreaId,
+          parentVersionNumber: version.parentVersionNumber,
+        })
+        .where(
+          and(
+            eq(areaVersions.areaId, areaId),
+            eq(areaVersions.versionNumber, child.versionNumber)
+          )
+        );
+
+      if (version.parentVersionNumber !== null) {
+        const siblings = children.get(version.parentVersionNumber) ?? [];
+        children.set(version.parentVersionNumber, [
+          ...siblings.filter((v) => v !== version),
+          child,
+        ]);
+      }
+
+      await tx
+        .delete(areaVersions)
+        .where(
+          and(
+            eq(areaVersions.areaId, areaId),
+            eq(areaVersions.versionNumber, version.versionNumber)
+          )
+        );
+
+      removed++;
+    }
+
+    return removed;
+  });
+}
@@ -9,25 +9,136 @@ import {
   areaVersions,
   areaChanges,
   areaUndoStacks,
+  areaMembers,
   postalCodes,
+  postalCodeMetrics,
+  people,
+  layerPeople,
+  pointDatasets,
 } from "../schema/schema";
-import { eq, and, desc, like } from "drizzle-orm";
+import {
+  eq,
+  and,
+  asc,
+  desc,
+  gte,
+  inArray,
+  like,
+  lt,
+  or,
+  isNotNull,
+  isNull,
+  sql,
+} from "drizzle-orm";
 import { db } from "../db";
+import { isAreaRole } from "../auth/roles";
+import type {
+  AreaWithRole,
+  DashboardActivityDay,
+  DashboardData,
+} from "../types/area-types";
+import type { PostalCodeMetrics } from "../utils/layer-metrics";
+import {
+  isLayerPersonRole,
+  type LayerPeople,
+  type Person,
+} from "../utils/layer-people";
+import type { DataPoint, DataPoints } from "../utils/data-points";
+import type {
+  AuditFilterOptions,
+  AuditLogFilters,
+  AuditLogPage,
+} from "../utils/audit-log";
+import type {
+  TelemetryErrorDay,
+  TelemetryErrorEntry,
+  TelemetryMetricDay,
+  TelemetryMetricSummary,
+  TelemetryOverview,
+} from "../utils/telemetry";
 
-export async function getAreas() {
+async function queryAreasForUser(
+  userId: number,
+  admin: boolean,
+  archived: boolean
+): Promise<AreaWithRole[]> {
+  const result = await db
+    .select({ area: areas, role: areaMembers.role })
+    .from(areas)
+    .leftJoin(
+      areaMembers,
+      and(eq(areaMembers.areaId, areas.id), eq(areaMembers.userId, userId))
+    )
+    .where(
+      and(
+        eq(areas.isArchived, archived ? "true" : "false"),
+        or(
+          isNotNull(areaMembers.id),
+          sql`NOT EXISTS (SELECT 1 FROM area_members m WHERE m.area_id = ${areas.id})`
+        )
+      )
+    )
+    .orderBy(desc(areas.updatedAt));
+
+  return result.map(({ area, role }) => ({
+    ...area,
+    role: role && isAreaRole(role) ? role : admin ? "owner" : "viewer",
+  }));
+}
+
+/**
+ * Active (non-archived) areas visible to a user, with their role on each.
+ * Areas nobody has been added to yet are visible to everyone and owned by
+ * admins (see getAreaRole).
+ */
+export async function getAreas(
+  userId: number,
+  admin: boolean
+): Promise<AreaWithRole[]> {
   'use cache'
-  cacheTag('areas')
+  cacheTag('areas', `user-${userId}-areas`)
   try {
-    const result = await db.query.areas.findMany({
-      orderBy: (areas, { desc }) => [desc(areas.updatedAt)],
-    });
-    return result;
+    return await queryAreasForUser(userId, admin, false);
   } catch (error) {
     console.error("Error fetching areas:", error);
     throw new Error("Failed to fetch areas");
   }
 }
 
+export async function getArchivedAreas(
+  userId: number,
+  admin: boolean
+): Promise<AreaWithRole[]> {
+  'use cache'
+  cacheTag('areas', `user-${userId}-areas`)
+  try {
+    return await queryAreasForUser(userId, admin, true);
+  } catch (error) {
+    console.error("Error fetching archived areas:", error);
+    throw new Error("Failed to fetch archived areas");
+  }
+}
+
+export async function getAreaTemplates(
+  userId: number,
+  admin: boolean
+): Promise<AreaWithRole[]> {
+  'use cache'
+  cacheTag('areas', `user-${userId}-areas`)
+  try {
+    const [active, archived] = await Promise.all([
+      queryAreasForUser(userId, admin, false),
+      queryAreasForUser(userId, admin, true),
+    ]);
+    return [...active, ...archived]
+      .filter((area) => area.isTemplate === "true")
+      .sort((a, b) => a.name.localeCompare(b.name, "de"));
+  } catch (error) {
+    console.error("Error fetching area templates:", error);
+    throw new Error("Failed to fetch area templates");
+  }
+}
+
 export async function getAreaById(id: number) {
   'use cache'
   cacheTag('areas', `area-${id}`)
@@ -266,3 +377,548 @@ export async function getMatchingPostalCodes(
     throw new Error("Failed to fetch matching postal codes");
   }
 }
+
+// All codes of a granularity, without geometries, for search and import
+export async function getPostalCodeList(granularity: string) {
+  'use cache'
+  cacheTag('postal-codes', `postal-codes-${granularity}`)
+  try {
+    const rows = await db
+      .select({ code: postalCodes.code })
+      .from(postalCodes)
+      .where(eq(postalCodes.granularity, granularity))
+      .orderBy(postalCodes.code);
+
+    return rows.map((row) => row.code);
+  } catch (error) {
+    console.error("Error fetching postal code list:", error);
+    throw new Error("Failed to fetch postal code list");
+  }
+}
+
+// Postal code metrics (population, purchasing power, ...) for one granularity
+export async function getPostalCodeMetrics(
+  granularity: string
+): Promise<PostalCodeMetrics> {
+  'use cache'
+  cacheTag('postal-code-metrics', `postal-code-metrics-${granularity}`)
+  try {
+    const rows = await db
+      .select({
+        code: postalCodeMetrics.code,
+        metric: postalCodeMetrics.metric,
+        value: postalCodeMetrics.value,
+      })
+      .from(postalCodeMetrics)
+      .where(eq(postalCodeMetrics.granularity, granularity));
+
+    const values: PostalCodeMetrics["values"] = {};
+    for (const row of rows) {
+      values[row.metric] ??= {};
+      values[row.metric][row.code] = row.value;
+    }
+
+    return {
+      metrics: Object.keys(values).sort((a, b) => a.localeCompare(b)),
+      values,
+    };
+  } catch (error) {
+    console.error("Error fetching postal code metrics:", error);
+    throw new Error("Failed to fetch postal code metrics");
+  }
+}
+
+// People directory with geocoded home locations, sorted by name
+export async function getPeople(): Promise<Person[]> {
+  'use cache'
+  cacheTag('people')
+  try {
+    return await db
+      .select({
+        id: people.id,
+        name: people.name,
+        email: people.email,
+        phone: people.phone,
+        address: people.address,
+        latitude: sql<number | null>`ST_Y(${people.location})`,
+        longitude: sql<number | null>`ST_X(${people.location})`,
+      })
+      .from(people)
+      .orderBy(asc(people.name));
+  } catch (error) {
+    console.error("Error fetching people:", error);
+    throw new Error("Failed to fetch people");
+  }
+}
+
+// People assigned to the layers of an area
+export async function getLayerPeople(areaId: number): Promise<LayerPeople[]> {
+  'use cache'
+  cacheTag('layers', `area-${areaId}-layers`, 'people')
+  try {
+    const rows = await db
+      .select({
+        layerId: layerPeople.layerId,
+        personId: layerPeople.personId,
+        role: layerPeople.role,
+      })
+      .from(layerPeople)
+      .innerJoin(areaLayers, eq(areaLayers.id, layerPeople.layerId))
+      .where(eq(areaLayers.areaId, areaId));
+
+    return rows.map((row) => ({
+      ...row,
+      role: isLayerPersonRole(row.role) ? row.role : "primary",
+    }));
+  } catch (error) {
+    console.error("Error fetching layer people:", error);
+    throw new Error("Failed to fetch layer people");
+  }
+}
+
+// Point datasets of an area (plus the unscoped ones from before datasets
+// belonged to an area) with every point and the postal code containing it
+export async function getDataPoints(
+  areaId: number,
+  granularity: string
+): Promise<DataPoints> {
+  'use cache'
+  cacheTag('data-points', `data-points-${granularity}`)
+  try {
+    const datasets = await db
+      .select({
+        id: pointDatasets.id,
+        name: pointDatasets.name,
+        color: pointDatasets.color,
+        pointCount: sql<number>`(SELECT count(*)::int FROM data_points dp WHERE dp.dataset_id = ${pointDatasets.id})`,
+        geocodeJobId: sql<number | null>`(SELECT max(j.id) FROM geocode_jobs j WHERE j.dataset_id = ${pointDatasets.id} AND j.status IN ('pending', 'running'))`,
+      })
+      .from(pointDatasets)
+      .where(
+        or(eq(pointDatasets.areaId, areaId), isNull(pointDatasets.areaId))
+      )
+      .orderBy(asc(pointDatasets.name));
+
+    if (datasets.length === 0) {
+      return { datasets, points: [] };
+    }
+
+    const datasetIds = sql.join(
+      datasets.map((dataset) => sql`${dataset.id}`),
+      sql`, `
+    );
+
+    const { rows } = await db.execute(sql`
+      SELECT
+        dp.id,
+        dp.dataset_id AS "datasetId",
+        dp.name,
+        ST_Y(dp.location) AS latitude,
+        ST_X(dp.location) AS longitude,
+        pc.code AS "postalCode"
+      FROM data_points dp
+      LEFT JOIN LATERAL (
+        SELECT p.code
+        FROM postal_codes p
+        WHERE p.granularity = ${granularity}
+          AND ST_Contains(p.geometry, dp.location)
+        LIMIT 1
+      ) pc ON true
+      WHERE dp.dataset_id IN (${datasetIds})
+      ORDER BY dp.id
+    `);
+
+    return { datasets, points: rows as unknown as DataPoint[] };
+  } catch (error) {
+    console.error("Error fetching data points:", error);
+    throw new Error("Failed to fetch data points");
+  }
+}
+
+// Home page dashboard: per-area statistics, recent versions and change activity
+export async function getDashboardData(
+  userId: number,
+  activityDays = 30
+): Promise<DashboardData> {
+  'use cache'
+  cacheTag(
+    'dashboard',
+    'areas',
+    'layers',
+    'versions',
+    'undo-redo-status',
+    `user-${userId}-areas`
+  )
+  try {
+    // Roles are not shown, so admins need no owner role on memberless areas
+    const visibleAreas = await queryAreasForUser(userId, false, false);
+    if (visibleAreas.length === 0) {
+      return { areas: [], recentVersions: [], activity: [] };
+    }
+
+    const areaIds = sql.join(
+      visibleAreas.map((area) => sql`${area.id}`),
+      sql`, `
+    );
+
+    const { rows: statRows } = await db.execute(
+      sql`
+        SELECT
+          a.id AS "areaId",
+          COUNT(DISTINCT l.id)::int AS "layerCount",
+          COUNT(DISTINCT pc.postal_code)::int AS "assignedCodes",
+          (
+            SELECT COUNT(*)::int FROM postal_codes p
+            WHERE p.granularity = a.granularity
+          ) AS "totalCodes",
+          (
+            SELECT MAX(c.created_at)::text FROM area_changes c
+            WHERE c.area_id = a.id
+          ) AS "lastChangeAt"
+        FROM areas a
+        LEFT JOIN area_layers l ON l.area_id = a.id
+        LEFT JOIN area_layer_postal_codes pc ON pc.layer_id = l.id
+        WHERE a.id IN (${areaIds})
+        GROUP BY a.id, a.granularity
+      `
+    );
+
+    const { rows: versionRows } = await db.execute(
+      sql`
+        SELECT
+          v.area_id AS "areaId",
+          a.name AS "areaName",
+          v.version_number AS "versionNumber",
+          v.name,
+          v.created_at::text AS "createdAt"
+        FROM area_versions v
+        JOIN areas a ON a.id = v.area_id
+        WHERE v.area_id IN (${areaIds})
+        ORDER BY v.created_at DESC
+        LIMIT 8
+      `
+    );
+
+    // One row per day and area, plus a row without area for days without changes
+    const { rows: activityRows } = await db.execute(
+      sql`
+        SELECT
+          to_char(d.day, 'YYYY-MM-DD') AS day,
+          c.area_id AS "areaId",
+          COUNT(c.area_id)::int AS count
+        FROM generate_series(
+          date_trunc('day', now()) - make_interval(days => ${activityDays - 1}),
+          date_trunc('day', now()),
+          interval '1 day'
+        ) AS d(day)
+        LEFT JOIN area_changes c
+          ON date_trunc('day', c.created_at) = d.day
+          AND c.area_id IN (${areaIds})
+        GROUP BY d.day, c.area_id
+        ORDER BY d.day
+      `
+    );
+
+    type StatRow = {
+      areaId: number;
+      layerCount: number;
+      assignedCodes: number;
+      totalCodes: number;
+      lastChangeAt: string | null;
+    };
+    const stats = new Map(
+      (statRows as StatRow[]).map((row) => [row.areaId, row])
+    );
+
+    const activityByDay = new Map<string, DashboardActivityDay>();
+    for (const row of activityRows as {
+      day: string;
+      areaId: number | null;
+      count: number;
+    }[]) {
+      const entry = activityByDay.get(row.day) ?? { day: row.day, changes: {} };
+      if (row.areaId !== null) entry.changes[row.areaId] = row.count;
+      activityByDay.set(row.day, entry);
+    }
+
+    return {
+      areas: visibleAreas.map((area) => {
+        const stat = stats.get(area.id);
+        return {
+          area,
+          layerCount: stat?.layerCount ?? 0,
+          assignedCodes: stat?.assignedCodes ?? 0,
+          coverage: stat?.totalCodes
+            ? (stat.assignedCodes / stat.totalCodes) * 100
+            : 0,
+          lastChangeAt: stat?.lastChangeAt ?? null,
+        };
+      }),
+      recentVersions: versionRows as unknown as DashboardData["recentVersions"],
+      activity: [...activityByDay.values()],
+    };
+  } catch (error) {
+    console.error("Error fetching dashboard data:", error);
+    throw new Error("Failed to fetch dashboard data");
+  }
+}
+
+// Active and archived areas; the audit log covers both and shows no roles
+async function queryAllAreasForUser(userId: number): Promise<AreaWithRole[]> {
+  const [active, archived] = await Promise.all([
+    queryAreasForUser(userId, false, false),
+    queryAreasForUser(userId, false, true),
+  ]);
+  return [...active, ...archived];
+}
+
+function auditLogConditions(areaIds: number[], filters: AuditLogFilters) {
+  return and(
+    inArray(areaChanges.areaId, areaIds),
+    filters.areaId !== null ? eq(areaChanges.areaId, filters.areaId) : undefined,
+    // Layer and postal code changes both carry the layer as entity
+    filters.layerId !== null
+      ? and(
+          inArray(areaChanges.entityType, ["layer", "postal_code"]),
+          eq(areaChanges.entityId, filters.layerId)
+        )
+      : undefined,
+    filters.changeType !== null
+      ? eq(areaChanges.changeType, filters.changeType)
+      : undefined,
+    filters.user !== null ? eq(areaChanges.createdBy, filters.user) : undefined,
+    filters.from !== null
+      ? gte(areaChanges.createdAt, sql`${filters.from}::date`)
+      : undefined,
+    filters.to !== null
+      ? lt(areaChanges.createdAt, sql`${filters.to}::date + 1`)
+      : undefined
+  );
+}
+
+/**
+ * One page of the audit log over all areas visible to a user, newest first.
+ * Undone changes are included, they are part of the record.
+ */
+export async function getAuditLog(
+  userId: number,
+  filters: AuditLogFilters,
+  page: number,
+  pageSize: number
+): Promise<AuditLogPage> {
+  'use cache'
+  // Recording a change invalidates undo-redo-status
+  cacheTag('undo-redo-status', 'areas', `user-${userId}-areas`)
+  try {
+    const areaIds = (await queryAllAreasForUser(userId)).map((area) => area.id);
+    if (areaIds.length === 0) {
+      return { entries: [], total: 0 };
+    }
+
+    const where = auditLogConditions(areaIds, filters);
+
+    const [entries, [{ total }]] = await Promise.all([
+      db
+        .select({
+          areaId: areaChanges.areaId,
+          areaName: areas.name,
+          versionNumber: areaChanges.versionNumber,
+          sequenceNumber: areaChanges.sequenceNumber,
+          changeType: areaChanges.changeType,
+          entityType: areaChanges.entityType,
+          entityId: areaChanges.entityId,
+          layerName: areaLayers.name,
+          changeData: areaChanges.changeData,
+          previousData: areaChanges.previousData,
+          isUndone: areaChanges.isUndone,
+          groupLabel: areaChanges.groupLabel,
+          createdBy: areaChanges.createdBy,
+          createdAt: areaChanges.createdAt,
+        })
+        .from(areaChanges)
+        .innerJoin(areas, eq(areas.id, areaChanges.areaId))
+        .leftJoin(
+          areaLayers,
+          and(
+            inArray(areaChanges.entityType, ["layer", "postal_code"]),
+            eq(areaLayers.id, areaChanges.entityId)
+          )
+        )
+        .where(where)
+        .orderBy(
+          desc(areaChanges.createdAt),
+          desc(areaChanges.sequenceNumber)
+        )
+        .limit(pageSize)
+        .offset((page - 1) * pageSize),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(areaChanges)
+        .where(where),
+    ]);
+
+    return { entries, total };
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    throw new Error("Failed to fetch audit log");
+  }
+}
+
+/**
+ * Choices for the audit log filters: visible areas, the layers of the
+ * selected area and everyone who recorded a change in them
+ */
+export async function getAuditFilterOptions(
+  userId: number,
+  areaId: number | null
+): Promise<AuditFilterOptions> {
+  'use cache'
+  cacheTag('undo-redo-status', 'areas', 'layers', `user-${userId}-areas`)
+  try {
+    const visibleAreas = (await queryAllAreasForUser(userId)).sort((a, b) =>
+      a.name.localeCompare(b.name, "de")
+    );
+    if (visibleAreas.length === 0) {
+      return { areas: [], layers: [], users: [] };
+    }
+
+    const areaIds = visibleAreas.map((area) => area.id);
+
+    const [layers, users] = await Promise.all([
+      areaId !== null && areaIds.includes(areaId)
+        ? db
+            .select({ id: areaLayers.id, name: areaLayers.name })
+            .from(areaLayers)
+            .where(eq(areaLayers.areaId, areaId))
+            .orderBy(asc(areaLayers.name))
+        : [],
+      db
+        .selectDistinct({ createdBy: areaChanges.createdBy })
+        .from(areaChanges)
+        .where(
+          and(
+            inArray(areaChanges.areaId, areaIds),
+            isNotNull(areaChanges.createdBy)
+          )
+        )
+        .orderBy(asc(areaChanges.createdBy)),
+    ]);
+
+    return {
+      areas: visibleAreas.map(({ id, name }) => ({ id, name })),
+      layers,
+      users: users.flatMap(({ createdBy }) => (createdBy ? [createdBy] : [])),
+    };
+  } catch (error) {
+    console.error("Error fetching audit filter options:", error);
+    throw new Error("Failed to fetch audit filter options");
+  }
+}
+
+/**
+ * Client errors and map timings of the last `days` days for the telemetry page
+ */
+export async function getTelemetryOverview(
+  days = 14,
+  recentErrorLimit = 100
+): Promise<TelemetryOverview> {
+  'use cache'
+  cacheTag('telemetry')
+  try {
+    const { rows: errorRows } = await db.execute(
+      sql`
+        SELECT
+          to_char(d.day, 'YYYY-MM-DD') AS day,
+          COALESCE(e.error_code, 'unknown') AS code,
+          COUNT(e.id)::int AS count
+        FROM generate_series(
+          date_trunc('day', now()) - make_interval(days => ${days - 1}),
+          date_trunc('day', now()),
+          interval '1 day'
+        ) AS d(day)
+        LEFT JOIN error_logs e ON date_trunc('day', e.timestamp) = d.day
+        GROUP BY d.day, e.error_code
+        ORDER BY d.day
+      `
+    );
+
+    // value is stored as text; percentiles in milliseconds
+    const { rows: metricDayRows } = await db.execute(
+      sql`
+        SELECT
+          to_char(date_trunc('day', timestamp), 'YYYY-MM-DD') AS day,
+          metric_type AS "metricType",
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY value::numeric)::float AS p95
+        FROM performance_metrics
+        WHERE timestamp >= date_trunc('day', now()) - make_interval(days => ${days - 1})
+        GROUP BY 1, 2
+        ORDER BY 1
+      `
+    );
+
+    const { rows: summaryRows } = await db.execute(
+      sql`
+        SELECT
+          component,
+          metric_type AS "metricType",
+          COUNT(*)::int AS samples,
+          percentile_cont(0.5) WITHIN GROUP (ORDER BY value::numeric)::float AS p50,
+          percentile_cont(0.95) WITHIN GROUP (ORDER BY value::numeric)::float AS p95
+        FROM performance_metrics
+        WHERE timestamp >= date_trunc('day', now()) - make_interval(days => ${days - 1})
+        GROUP BY component, metric_type
+        ORDER BY metric_type, component
+      `
+    );
+
+    const { rows: recentRows } = await db.execute(
+      sql`
+        SELECT
+          e.id,
+          e.error_code AS "errorCode",
+          e.message,
+          e.stack,
+          e.context,
+          e.url,
+          u.name AS "userName",
+          e.timestamp::text AS timestamp
+        FROM error_logs e
+        LEFT JOIN users u ON u.id::text = e.user_id
+        ORDER BY e.timestamp DESC NULLS LAST, e.id DESC
+        LIMIT ${recentErrorLimit}
+      `
+    );
+
+    const errorsByDay = new Map<string, TelemetryErrorDay>();
+    for (const row of errorRows as {
+      day: string;
+      code: string;
+      count: number;
+    }[]) {
+      const entry = errorsByDay.get(row.day) ?? { day: row.day, counts: {} };
+      if (row.count > 0) entry.counts[row.code] = row.count;
+      errorsByDay.set(row.day, entry);
+    }
+
+    const metricsByDay = new Map<string, TelemetryMetricDay>();
+    for (const row of metricDayRows as {
+      day: string;
+      metricType: string;
+      p95: number;
+    }[]) {
+      const entry = metricsByDay.get(row.day) ?? { day: row.day, p95: {} };
+      entry.p95[row.metricType] = row.p95;
+      metricsByDay.set(row.day, entry);
+    }
+
+    return {
+      errorsByDay: [...errorsByDay.values()],
+      metricsByDay: [...metricsByDay.values()],
+      metricSummaries: summaryRows as unknown as TelemetryMetricSummary[],
+      recentErrors: recentRows as unknown as TelemetryErrorEntry[],
+    };
+  } catch (error) {
+    console.error("Error fetching telemetry overview:", error);
+    throw new Error("Failed to fetch telemetry overview");
+  }
+}
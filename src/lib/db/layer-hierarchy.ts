@@ -0,0 +1,95 @@
+import "server-only";
+
+import { eq, inArray } from "drizzle-orm";
+
+import type { db } from "../db";
+import { areaLayers } from "../schema/schema";
+import { getParentLayerError } from "../utils/layer-hierarchy";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Thrown for assignments the layer hierarchy does not allow; the message is
+ * shown to the user as is
+ */
+export class LayerHierarchyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LayerHierarchyError";
+  }
+}
+
+/**
+ * Parents derive their postal codes from their children, so codes can only
+ * be assigned to layers without children
+ */
+export async function assertLeafLayer(
+  tx: Transaction,
+  layerId: number
+): Promise<void> {
+  const child = await tx.query.areaLayers.findFirst({
+    columns: { id: true },
+    where: eq(areaLayers.parentLayerId, layerId),
+  });
+
+  if (child) {
+    throw new LayerHierarchyError(
+      "Übergeordnete Gebiete erhalten ihre PLZ aus den untergeordneten Gebieten"
+    );
+  }
+}
+
+/**
+ * Throw a LayerHierarchyError unless `layerId` may be placed under
+ * `parentLayerId` (null moves it to the top level)
+ */
+export async function assertValidParentLayer(
+  tx: Transaction,
+  areaId: number,
+  layerId: number,
+  parentLayerId: number | null
+): Promise<void> {
+  const layers = await tx.query.areaLayers.findMany({
+    where: eq(areaLayers.areaId, areaId),
+    with: { postalCodes: { columns: { postalCode: true } } },
+  });
+
+  const error = getParentLayerError(layers, layerId, parentLayerId);
+  if (error) {
+    throw new LayerHierarchyError(error);
+  }
+}
+
+/**
+ * Move the children of a layer that is about to be deleted up to its own
+ * parent. Returns the ids of the moved children for undo.
+ */
+export async function detachChildLayers(
+  tx: Transaction,
+  layerId: number,
+  parentLayerId: number | null
+): Promise<number[]> {
+  const children = await tx
+    .update(areaLayers)
+    .set({ parentLayerId })
+    .where(eq(areaLayers.parentLayerId, layerId))
+    .returning({ id: areaLayers.id });
+
+  return children.map((child) => child.id);
+}
+
+/**
+ * Put children moved by detachChildLayers back under the restored layer
+ */
+export async function reattachChildLayers(
+  tx: Transaction,
+  layerId: number,
+  childLayerIds: number[] | undefined
+): Promise<void> {
+  if (!childLayerIds || childLayerIds.length === 0) return;
+
+  await tx
+    .update(areaLayers)
+    .set({ parentLayerId: layerId })
+    .where(inArray(areaLayers.id, childLayerIds));
+}
@@ -0,0 +1,69 @@
+import "server-only";
+
+import { eq, inArray } from "drizzle-orm";
+
+import type { db } from "../db";
+import { layerPeople, people } from "../schema/schema";
+import {
+  isLayerPersonRole,
+  type LayerPersonAssignment,
+} from "../utils/layer-people";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * People currently assigned to a layer
+ */
+export async function getLayerPersonAssignments(
+  tx: Transaction,
+  layerId: number
+): Promise<LayerPersonAssignment[]> {
+  const rows = await tx
+    .select({ personId: layerPeople.personId, role: layerPeople.role })
+    .from(layerPeople)
+    .where(eq(layerPeople.layerId, layerId));
+
+  return rows.map((row) => ({
+    personId: row.personId,
+    role: isLayerPersonRole(row.role) ? row.role : "primary",
+  }));
+}
+
+/**
+ * Replace all people of a layer; an empty list removes every assignment.
+ * People deleted from the directory since the assignments were recorded (an
+ * undo or a version restore) are skipped.
+ */
+export async function replaceLayerPeople(
+  tx: Transaction,
+  layerId: number,
+  assignments: LayerPersonAssignment[] | undefined
+): Promise<void> {
+  await tx.delete(layerPeople).where(eq(layerPeople.layerId, layerId));
+
+  if (!assignments || assignments.length === 0) return;
+
+  const existing = await tx
+    .select({ id: people.id })
+    .from(people)
+    .where(
+      inArray(
+        people.id,
+        assignments.map((assignment) => assignment.personId)
+      )
+    );
+  const existingIds = new Set(existing.map((person) => person.id));
+  const kept = assignments.filter((assignment) =>
+    existingIds.has(assignment.personId)
+  );
+
+  if (kept.length === 0) return;
+
+  await tx.insert(layerPeople).values(
+    kept.map((assignment) => ({
+      layerId,
+      personId: assignment.personId,
+      role: assignment.role,
+    }))
+  );
+}
@@ -0,0 +1,37 @@
+import "server-only";
+
+import { inArray } from "drizzle-orm";
+
+import type { db } from "../db";
+import {
+  dataPoints,
+  geocodeJobItems,
+  geocodeJobs,
+  pointDatasets,
+} from "../schema/schema";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Delete point datasets with their points and geocoding jobs
+ */
+export async function deletePointDatasets(
+  tx: Transaction,
+  datasetIds: number[]
+): Promise<void> {
+  if (datasetIds.length === 0) return;
+
+  const jobIds = tx
+    .select({ id: geocodeJobs.id })
+    .from(geocodeJobs)
+    .where(inArray(geocodeJobs.datasetId, datasetIds));
+
+  await tx
+    .delete(geocodeJobItems)
+    .where(inArray(geocodeJobItems.jobId, jobIds));
+  await tx
+    .delete(geocodeJobs)
+    .where(inArray(geocodeJobs.datasetId, datasetIds));
+  await tx.delete(dataPoints).where(inArray(dataPoints.datasetId, datasetIds));
+  await tx.delete(pointDatasets).where(inArray(pointDatasets.id, datasetIds));
+}
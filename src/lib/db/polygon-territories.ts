@@ -0,0 +1,66 @@
+import "server-only";
+
+import { sql } from "drizzle-orm";
+
+import { geomFromGeoJSONExpr } from "../../db/geoTypes";
+import { db } from "../db";
+import type { PolygonTerritory } from "../utils/polygon-parser";
+
+/**
+ * Find the postal codes covered by imported territory polygons at the given
+ * granularity. A code belongs to a territory when at least `minOverlap` (0-1)
+ * of its area lies inside it; a code matching several territories goes to
+ * the one covering the largest share. The result can be passed straight to
+ * bulkImportPostalCodesAndLayers.
+ */
+export async function matchPolygonTerritories(
+  granularity: string,
+  territories: PolygonTerritory[],
+  minOverlap: number
+): Promise<{ name: string; postalCodes: string[] }[]> {
+  const shapes = territories.flatMap((territory) =>
+    territory.geometries.map(
+      (geometry) => sql`(${territory.name}::text, ${geomFromGeoJSONExpr(geometry)})`
+    )
+  );
+
+  if (shapes.length === 0) {
+    return [];
+  }
+
+  const threshold = Math.min(Math.max(minOverlap, 0), 1);
+
+  const { rows } = await db.execute(
+    sql`
+      WITH shapes(layer, geom) AS (VALUES ${sql.join(shapes, sql`, `)}),
+      territories AS (
+        SELECT layer, ST_Union(ST_MakeValid(geom)) AS geom
+        FROM shapes
+        GROUP BY layer
+      ),
+      overlaps AS (
+        SELECT t.layer, p.code,
+          ST_Area(ST_Intersection(p.geometry, t.geom)) / NULLIF(ST_Area(p.geometry), 0) AS share
+        FROM territories t
+        JOIN postal_codes p ON ST_Intersects(p.geometry, t.geom)
+        WHERE p.granularity = ${granularity}
+      )
+      SELECT DISTINCT ON (code) layer, code
+      FROM overlaps
+      WHERE share >= ${threshold}
+      ORDER BY code, share DESC
+    `
+  );
+
+  const codesByLayer = new Map<string, string[]>(
+    territories.map((territory) => [territory.name, []])
+  );
+  for (const row of rows as { layer: string; code: string }[]) {
+    codesByLayer.get(row.layer)?.push(row.code);
+  }
+
+  return [...codesByLayer].map(([name, postalCodes]) => ({
+    name,
+    postalCodes,
+  }));
+}
@@ -0,0 +1,149 @@
+import "server-only";
+
+import { and, eq, inArray, ne } from "drizzle-orm";
+
+import type { db } from "../db";
+import { areaLayerPostalCodes, areaLayers, areas } from "../schema/schema";
+import {
+  isConflictPolicy,
+  type ConflictPolicy,
+  type MovedPostalCodes,
+} from "../utils/conflict-policy";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Thrown by the "reject" policy; the message is shown to the user as is
+ */
+export class PostalCodeConflictError extends Error {
+  constructor(public readonly conflicts: MovedPostalCodes[]) {
+    const codes = conflicts.flatMap((conflict) =>
+      conflict.postalCodes.map((code) => `${code} (${conflict.layerName})`)
+    );
+    super(
+      `${codes.length} PLZ sind bereits anderen Layern zugeordnet: ${codes
+        .slice(0, 10)
+        .join(", ")}${codes.length > 10 ? ", …" : ""}`
+    );
+    this.name = "PostalCodeConflictError";
+  }
+}
+
+export async function getConflictPolicy(
+  tx: Transaction,
+  areaId: number
+): Promise<ConflictPolicy> {
+  const area = await tx.query.areas.findFirst({
+    columns: { conflictPolicy: true },
+    where: eq(areas.id, areaId),
+  });
+
+  return area && isConflictPolicy(area.conflictPolicy)
+    ? area.conflictPolicy
+    : "allow";
+}
+
+/**
+ * Enforce the area's conflict policy before `postalCodes` are inserted into
+ * `layerId`. "move" deletes the codes from every other layer of the area and
+ * returns what was taken from where; "reject" throws a
+ * PostalCodeConflictError; "allow" leaves other layers alone.
+ */
+export async function applyConflictPolicy(
+  tx: Transaction,
+  areaId: number,
+  layerId: number,
+  postalCodes: string[],
+  policy?: ConflictPolicy
+): Promise<MovedPostalCodes[]> {
+  const effectivePolicy = policy ?? (await getConflictPolicy(tx, areaId));
+  if (effectivePolicy === "allow" || postalCodes.length === 0) {
+    return [];
+  }
+
+  const rows = await tx
+    .select({
+      layerId: areaLayerPostalCodes.layerId,
+      layerName: areaLayers.name,
+      postalCode: areaLayerPostalCodes.postalCode,
+    })
+    .from(areaLayerPostalCodes)
+    .innerJoin(areaLayers, eq(areaLayers.id, areaLayerPostalCodes.layerId))
+    .where(
+      and(
+        eq(areaLayers.areaId, areaId),
+        ne(areaLayerPostalCodes.layerId, layerId),
+        inArray(areaLayerPostalCodes.postalCode, postalCodes)
+      )
+    );
+
+  const conflicts = new Map<number, MovedPostalCodes>();
+  for (const row of rows) {
+    const conflict = conflicts.get(row.layerId) ?? {
+      layerId: row.layerId,
+      layerName: row.layerName,
+      postalCodes: [],
+    };
+    conflict.postalCodes.push(row.postalCode);
+    conflicts.set(row.layerId, conflict);
+  }
+
+  if (conflicts.size === 0) {
+    return [];
+  }
+
+  if (effectivePolicy === "reject") {
+    throw new PostalCodeConflictError([...conflicts.values()]);
+  }
+
+  for (const conflict of conflicts.values()) {
+    await tx
+      .delete(areaLayerPostalCodes)
+      .where(
+        and(
+          eq(areaLayerPostalCodes.layerId, conflict.layerId),
+          inArray(areaLayerPostalCodes.postalCode, conflict.postalCodes)
+        )
+      );
+  }
+
+  return [...conflicts.values()];
+}
+
+/**
+ * Undo a "move": put the codes back into the layers they were taken from
+ */
+export async function restoreMovedPostalCodes(
+  tx: Transaction,
+  movedFrom: MovedPostalCodes[] | undefined
+) {
+  for (const moved of movedFrom ?? []) {
+    if (moved.postalCodes.length === 0) continue;
+    await tx.insert(areaLayerPostalCodes).values(
+      moved.postalCodes.map((code) => ({
+        layerId: moved.layerId,
+        postalCode: code,
+      }))
+    );
+  }
+}
+
+/**
+ * Redo a "move": take the codes out of their original layers again
+ */
+export async function removeMovedPostalCodes(
+  tx: Transaction,
+  movedFrom: MovedPostalCodes[] | undefined
+) {
+  for (const moved of movedFrom ?? []) {
+    if (moved.postalCodes.length === 0) continue;
+    await tx
+      .delete(areaLayerPostalCodes)
+      .where(
+        and(
+          eq(areaLayerPostalCodes.layerId, moved.layerId),
+          inArray(areaLayerPostalCodes.postalCode, moved.postalCodes)
+        )
+      );
+  }
+}
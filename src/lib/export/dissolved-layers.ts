@@ -0,0 +1,98 @@
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import type { MultiPolygon } from "geojson";
+
+import { db } from "../db";
+import {
+  formatLayerOwners,
+  type LayerPersonAssignment,
+} from "../utils/layer-people";
+
+export interface DissolvedLayer {
+  id: number;
+  name: string;
+  color: string;
+  opacity: number;
+  codeCount: number;
+  // Totals of the postal code metrics at the area's granularity
+  metrics: Record<string, number>;
+  // People owning the layer, e.g. "Anna Schmidt; Vertretung: Jan Berg"
+  owners: string;
+  // Union of the layer's postal code polygons; null for empty layers
+  geometry: MultiPolygon | null;
+}
+
+/**
+ * Dissolve each layer of an area into a single territory shape by unioning
+ * the polygons of its postal codes at the area's granularity.
+ */
+export async function getDissolvedLayers(
+  areaId: number
+): Promise<DissolvedLayer[]> {
+  const { rows } = await db.execute(
+    sql`
+      SELECT
+        l.id,
+        l.name,
+        l.color,
+        l.opacity,
+        COUNT(DISTINCT pc.postal_code)::int AS "codeCount",
+        COALESCE(
+          (
+            SELECT jsonb_object_agg(t.metric, t.total)
+            FROM (
+              SELECT m.metric, SUM(m.value) AS total
+              FROM area_layer_postal_codes lpc
+              JOIN postal_code_metrics m
+                ON m.code = lpc.postal_code
+                AND m.granularity = a.granularity
+              WHERE lpc.layer_id = l.id
+              GROUP BY m.metric
+            ) t
+          ),
+          '{}'::jsonb
+        ) AS metrics,
+        COALESCE(
+          (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'personId', pe.id,
+                'role', lp.role,
+                'name', pe.name
+              )
+            )
+            FROM layer_people lp
+            JOIN people pe ON pe.id = lp.person_id
+            WHERE lp.layer_id = l.id
+          ),
+          '[]'::jsonb
+        ) AS people,
+        ST_AsGeoJSON(
+          ST_Multi(ST_CollectionExtract(ST_Union(p.geometry), 3)),
+          6
+        )::json AS geometry
+      FROM area_layers l
+      JOIN areas a ON a.id = l.area_id
+      LEFT JOIN area_layer_postal_codes pc ON pc.layer_id = l.id
+      LEFT JOIN postal_codes p
+        ON p.code = pc.postal_code
+        AND p.granularity = a.granularity
+      WHERE l.area_id = ${areaId}
+      GROUP BY l.id, a.granularity
+      ORDER BY l.order_index, l.id
+    `
+  );
+
+  const layers = rows as unknown as (Omit<DissolvedLayer, "owners"> & {
+    people: (LayerPersonAssignment & { name: string })[];
+  })[];
+
+  return layers.map(({ people, ...layer }) => ({
+    ...layer,
+    owners: formatLayerOwners(
+      people,
+      people.map((person) => ({ id: person.personId, name: person.name }))
+    ),
+  }));
+}
@@ -0,0 +1,127 @@
+import type { Feature, FeatureCollection, MultiPolygon, Position } from "geojson";
+
+import type { DissolvedLayer } from "./dissolved-layers";
+
+export type TerritoryExportFormat = "geojson" | "kml" | "gpkg";
+
+export const TERRITORY_EXPORT_FORMATS: Record<
+  TerritoryExportFormat,
+  { extension: string; contentType: string; label: string }
+> = {
+  geojson: {
+    extension: "geojson",
+    contentType: "application/geo+json",
+    label: "GeoJSON",
+  },
+  kml: {
+    extension: "kml",
+    contentType: "application/vnd.google-earth.kml+xml",
+    label: "KML",
+  },
+  gpkg: {
+    extension: "gpkg",
+    contentType: "application/geopackage+sqlite3",
+    label: "GeoPackage",
+  },
+};
+
+export function isTerritoryExportFormat(
+  value: string
+): value is TerritoryExportFormat {
+  return Object.hasOwn(TERRITORY_EXPORT_FORMATS, value);
+}
+
+export function toGeoJSON(
+  layers: DissolvedLayer[]
+): FeatureCollection<MultiPolygon | null> {
+  return {
+    type: "FeatureCollection",
+    features: layers.map(
+      (layer): Feature<MultiPolygon | null> => ({
+        type: "Feature",
+        id: layer.id,
+        geometry: layer.geometry,
+        properties: {
+          ...layer.metrics,
+          name: layer.name,
+          color: layer.color,
+          opacity: layer.opacity,
+          codeCount: layer.codeCount,
+          owners: layer.owners,
+        },
+      })
+    ),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * KML colors are aabbggrr; layers store #rrggbb plus an opacity of 0-100.
+ */
+function toKmlColor(hex: string, opacity: number): string {
+  const rgb = /^#?([0-9a-f]{6})$/i.exec(hex)?.[1] ?? "3b82f6";
+  const alpha = Math.round((Math.min(Math.max(opacity, 0), 100) / 100) * 255)
+    .toString(16)
+    .padStart(2, "0");
+  return `${alpha}${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`.toLowerCase();
+}
+
+function ringToKml(ring: Position[]): string {
+  const coordinates = ring.map(([lng, lat]) => `${lng},${lat}`).join(" ");
+  return `<LinearRing><coordinates>${coordinates}</coordinates></LinearRing>`;
+}
+
+function multiPolygonToKml(geometry: MultiPolygon): string {
+  const polygons = geometry.coordinates.map(([outer, ...holes]) => {
+    const inner = holes
+      .map((hole) => `<innerBoundaryIs>${ringToKml(hole)}</innerBoundaryIs>`)
+      .join("");
+    return `<Polygon><outerBoundaryIs>${ringToKml(outer)}</outerBoundaryIs>${inner}</Polygon>`;
+  });
+  return `<MultiGeometry>${polygons.join("")}</MultiGeometry>`;
+}
+
+export function toKML(layers: DissolvedLayer[], areaName: string): string {
+  const placemarks = layers.map((layer) => {
+    const styleId = `layer-${layer.id}`;
+    return [
+      `<Style id="${styleId}">`,
+      `<LineStyle><color>${toKmlColor(layer.color, 100)}</color><width>2</width></LineStyle>`,
+      `<PolyStyle><color>${toKmlColor(layer.color, layer.opacity)}</color></PolyStyle>`,
+      `</Style>`,
+      `<Placemark>`,
+      `<name>${escapeXml(layer.name)}</name>`,
+      `<styleUrl>#${styleId}</styleUrl>`,
+      `<ExtendedData>`,
+      `<Data name="color"><value>${escapeXml(layer.color)}</value></Data>`,
+      `<Data name="opacity"><value>${layer.opacity}</value></Data>`,
+      `<Data name="codeCount"><value>${layer.codeCount}</value></Data>`,
+      `<Data name="owners"><value>${escapeXml(layer.owners)}</value></Data>`,
+      ...Object.entries(layer.metrics).map(
+        ([metric, total]) =>
+          `<Data name="${escapeXml(metric)}"><value>${total}</value></Data>`
+      ),
+      `</ExtendedData>`,
+      layer.geometry ? multiPolygonToKml(layer.geometry) : "",
+      `</Placemark>`,
+    ].join("\n");
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `<Document>`,
+    `<name>${escapeXml(areaName)}</name>`,
+    ...placemarks,
+    `</Document>`,
+    `</kml>`,
+  ].join("\n");
+}
@@ -0,0 +1,246 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+import { readFile, unlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { MultiPolygon } from "geojson";
+
+import type { DissolvedLayer } from "./dissolved-layers";
+
+// GeoPackage 1.4 identifiers (OGC 12-128r19, section 1.1.1.1.1)
+const GPKG_APPLICATION_ID = 0x47504b47; // "GPKG"
+const GPKG_USER_VERSION = 10400;
+
+const WGS84_SRS_ID = 4326;
+const WGS84_DEFINITION =
+  'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]';
+
+const FEATURE_TABLE = "territories";
+
+const BASE_COLUMNS = [
+  "fid",
+  "geom",
+  "name",
+  "color",
+  "opacity",
+  "code_count",
+  "owners",
+];
+
+type Envelope = [minX: number, minY: number, maxX: number, maxY: number];
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function getEnvelope(geometry: MultiPolygon): Envelope {
+  const envelope: Envelope = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const polygon of geometry.coordinates) {
+    for (const ring of polygon) {
+      for (const [x, y] of ring) {
+        envelope[0] = Math.min(envelope[0], x);
+        envelope[1] = Math.min(envelope[1], y);
+        envelope[2] = Math.max(envelope[2], x);
+        envelope[3] = Math.max(envelope[3], y);
+      }
+    }
+  }
+  return envelope;
+}
+
+/**
+ * Encode a MultiPolygon as a GeoPackage geometry blob: the "GP" header with
+ * SRS id and XY envelope, followed by little-endian WKB.
+ */
+function encodeGeometry(geometry: MultiPolygon, envelope: Envelope): Buffer {
+  const rings = geometry.coordinates.flat();
+  const pointCount = rings.reduce((sum, ring) => sum + ring.length, 0);
+  const wkbSize =
+    9 + geometry.coordinates.length * 9 + rings.length * 4 + pointCount * 16;
+
+  const buffer = Buffer.alloc(8 + 32 + wkbSize);
+  let offset = 0;
+
+  // Header: magic, version 0, flags (little endian, envelope [minx, maxx, miny, maxy])
+  buffer.write("GP", offset, "ascii");
+  offset += 2;
+  buffer.writeUInt8(0, offset++);
+  buffer.writeUInt8(0b0000_0011, offset++);
+  buffer.writeInt32LE(WGS84_SRS_ID, offset);
+  offset += 4;
+  for (const value of [envelope[0], envelope[2], envelope[1], envelope[3]]) {
+    buffer.writeDoubleLE(value, offset);
+    offset += 8;
+  }
+
+  // WKB MultiPolygon (type 6) of Polygons (type 3)
+  buffer.writeUInt8(1, offset++);
+  buffer.writeUInt32LE(6, offset);
+  offset += 4;
+  buffer.writeUInt32LE(geometry.coordinates.length, offset);
+  offset += 4;
+  for (const polygon of geometry.coordinates) {
+    buffer.writeUInt8(1, offset++);
+    buffer.writeUInt32LE(3, offset);
+    offset += 4;
+    buffer.writeUInt32LE(polygon.length, offset);
+    offset += 4;
+    for (const ring of polygon) {
+      buffer.writeUInt32LE(ring.length, offset);
+      offset += 4;
+      for (const [x, y] of ring) {
+        buffer.writeDoubleLE(x, offset);
+        buffer.writeDoubleLE(y, offset + 8);
+        offset += 16;
+      }
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Build a GeoPackage with one MultiPolygon feature per layer.
+ * Uses the SQLite engine built into Node (node:sqlite), which needs Node
+ * 22.13+ to load without a flag; package.json pins that in "engines".
+ */
+export async function toGeoPackage(layers: DissolvedLayer[]): Promise<Buffer> {
+  const { DatabaseSync } = await import("node:sqlite");
+
+  // One REAL column per postal code metric; SQLite column names are
+  // case-insensitive, so names clashing with another column are skipped
+  const metricColumns: string[] = [];
+  const usedColumns = new Set(BASE_COLUMNS);
+  for (const metric of layers.flatMap((layer) => Object.keys(layer.metrics))) {
+    if (!usedColumns.has(metric.toLowerCase())) {
+      usedColumns.add(metric.toLowerCase());
+      metricColumns.push(metric);
+    }
+  }
+
+  const path = join(tmpdir(), `territories-${randomUUID()}.gpkg`);
+  const database = new DatabaseSync(path);
+  let open = true;
+
+  try {
+    database.exec(`
+      PRAGMA application_id = ${GPKG_APPLICATION_ID};
+      PRAGMA user_version = ${GPKG_USER_VERSION};
+
+      CREATE TABLE gpkg_spatial_ref_sys (
+        srs_name TEXT NOT NULL,
+        srs_id INTEGER NOT NULL PRIMARY KEY,
+        organization TEXT NOT NULL,
+        organization_coordsys_id INTEGER NOT NULL,
+        definition TEXT NOT NULL,
+        description TEXT
+      );
+
+      CREATE TABLE gpkg_contents (
+        table_name TEXT NOT NULL PRIMARY KEY,
+        data_type TEXT NOT NULL,
+        identifier TEXT UNIQUE,
+        description TEXT DEFAULT '',
+        last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+        min_x DOUBLE,
+        min_y DOUBLE,
+        max_x DOUBLE,
+        max_y DOUBLE,
+        srs_id INTEGER REFERENCES gpkg_spatial_ref_sys(srs_id)
+      );
+
+      CREATE TABLE gpkg_geometry_columns (
+        table_name TEXT NOT NULL,
+        column_name TEXT NOT NULL,
+        geometry_type_name TEXT NOT NULL,
+        srs_id INTEGER NOT NULL REFERENCES gpkg_spatial_ref_sys(srs_id),
+        z TINYINT NOT NULL,
+        m TINYINT NOT NULL,
+        PRIMARY KEY (table_name, column_name),
+        FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name)
+      );
+
+      CREATE TABLE ${FEATURE_TABLE} (
+        fid INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+        geom MULTIPOLYGON,
+        name TEXT NOT NULL,
+        color TEXT,
+        opacity INTEGER,
+        code_count INTEGER NOT NULL,
+        owners TEXT${metricColumns
+          .map((metric) => `,\n        ${quoteIdentifier(metric)} REAL`)
+          .join("")}
+      );
+    `);
+
+    const insertSrs = database.prepare(
+      "INSERT INTO gpkg_spatial_ref_sys VALUES (?, ?, ?, ?, ?, ?)"
+    );
+    insertSrs.run("Undefined cartesian SRS", -1, "NONE", -1, "undefined", null);
+    insertSrs.run("Undefined geographic SRS", 0, "NONE", 0, "undefined", null);
+    insertSrs.run("WGS 84 geodetic", WGS84_SRS_ID, "EPSG", 4326, WGS84_DEFINITION, null);
+
+    const insertColumns = [...BASE_COLUMNS, ...metricColumns.map(quoteIdentifier)];
+    const insertFeature = database.prepare(
+      `INSERT INTO ${FEATURE_TABLE} (${insertColumns.join(", ")}) VALUES (${insertColumns.map(() => "?").join(", ")})`
+    );
+
+    const extent: Envelope = [Infinity, Infinity, -Infinity, -Infinity];
+
+    for (const layer of layers) {
+      let geom: Buffer | null = null;
+      if (layer.geometry) {
+        const envelope = getEnvelope(layer.geometry);
+        extent[0] = Math.min(extent[0], envelope[0]);
+        extent[1] = Math.min(extent[1], envelope[1]);
+        extent[2] = Math.max(extent[2], envelope[2]);
+        extent[3] = Math.max(extent[3], envelope[3]);
+        geom = encodeGeometry(layer.geometry, envelope);
+      }
+
+      insertFeature.run(
+        layer.id,
+        geom,
+        layer.name,
+        layer.color,
+        layer.opacity,
+        layer.codeCount,
+        layer.owners || null,
+        ...metricColumns.map((metric) => layer.metrics[metric] ?? null)
+      );
+    }
+
+    const hasExtent = Number.isFinite(extent[0]);
+
+    database
+      .prepare(
+        "INSERT INTO gpkg_contents (table_name, data_type, identifier, min_x, min_y, max_x, max_y, srs_id) VALUES (?, 'features', ?, ?, ?, ?, ?, ?)"
+      )
+      .run(
+        FEATURE_TABLE,
+        FEATURE_TABLE,
+        hasExtent ? extent[0] : null,
+        hasExtent ? extent[1] : null,
+        hasExtent ? extent[2] : null,
+        hasExtent ? extent[3] : null,
+        WGS84_SRS_ID
+      );
+
+    database
+      .prepare(
+        "INSERT INTO gpkg_geometry_columns VALUES (?, 'geom', 'MULTIPOLYGON', ?, 0, 0)"
+      )
+      .run(FEATURE_TABLE, WGS84_SRS_ID);
+
+    database.close();
+    open = false;
+
+    return await readFile(path);
+  } finally {
+    if (open) {
+      database.close();
+    }
+    await unlink(path).catch(() => {});
+  }
+}
@@ -0,0 +1,60 @@
+import "server-only";
+
+import { createHash } from "node:crypto";
+import { and, eq, gt, sql } from "drizzle-orm";
+
+import { db } from "../db";
+import { apiCache } from "../schema/schema";
+import type { GeocodeResult } from "./types";
+
+const HIT_TTL_DAYS = 30;
+
+// Retry addresses without a match sooner, the provider data may have improved
+const MISS_TTL_DAYS = 1;
+
+/**
+ * Cache key per provider, result limit and normalized query. Hashed because
+ * addresses can exceed the key column.
+ */
+export function geocodeCacheKey(
+  provider: string,
+  query: string,
+  limit: number
+): string {
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, " ");
+  const hash = createHash("sha256").update(normalized).digest("hex");
+  return `geocode:${provider}:${limit}:${hash}`;
+}
+
+export async function getCachedResults(
+  cacheKey: string
+): Promise<GeocodeResult[] | null> {
+  const [entry] = await db
+    .select({ data: apiCache.data })
+    .from(apiCache)
+    .where(
+      and(
+        eq(apiCache.cacheKey, cacheKey),
+        gt(apiCache.expiresAt, sql`now()`)
+      )
+    )
+    .limit(1);
+
+  return entry ? (entry.data as GeocodeResult[]) : null;
+}
+
+export async function setCachedResults(
+  cacheKey: string,
+  results: GeocodeResult[]
+): Promise<void> {
+  const ttlDays = results.length > 0 ? HIT_TTL_DAYS : MISS_TTL_DAYS;
+  const expiresAt = sql`now() + make_interval(days => ${ttlDays})`;
+
+  await db
+    .insert(apiCache)
+    .values({ cacheKey, data: results, expiresAt })
+    .onConflictDoUpdate({
+      target: apiCache.cacheKey,
+      set: { data: results, expiresAt, updatedAt: sql`now()` },
+    });
+}
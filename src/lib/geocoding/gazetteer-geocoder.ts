@@ -0,0 +1,78 @@
+import "server-only";
+
+import { sql } from "drizzle-orm";
+
+import { db } from "../db";
+import type { GeocodeResult, Geocoder } from "./types";
+
+interface GazetteerRow {
+  code: string;
+  city: string | null;
+  state: string | null;
+  lat: number;
+  lng: number;
+}
+
+const PLACE_NAME = sql`COALESCE(
+  properties->>'ort',
+  properties->>'city',
+  properties->>'stadt',
+  properties->>'gemeinde',
+  properties->>'name'
+)`;
+
+const STATE_NAME = sql`COALESCE(properties->>'bundesland', properties->>'state')`;
+
+/**
+ * Offline geocoder on the imported 5-digit postal code polygons. Resolves an
+ * address to a point inside its postal code, or, without one, to the first
+ * postal code of the named place (last comma-separated part of the query).
+ * Only as precise as a postal code, but needs no network access and has no
+ * rate limit.
+ */
+export const gazetteerGeocoder: Geocoder = {
+  name: "gazetteer",
+
+  minIntervalMs: 0,
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const postalCode = query.match(/\b\d{5}\b/)?.[0];
+    const place = query
+      .split(",")
+      .at(-1)
+      ?.replace(/\b\d{5}\b/, "")
+      .trim();
+
+    if (!postalCode && !place) {
+      return [];
+    }
+
+    const condition = postalCode
+      ? sql`code = ${postalCode}`
+      : sql`${PLACE_NAME} ILIKE ${place}`;
+
+    const { rows } = await db.execute(sql`
+      SELECT
+        code,
+        ${PLACE_NAME} AS city,
+        ${STATE_NAME} AS state,
+        ST_Y(ST_PointOnSurface(geometry)) AS lat,
+        ST_X(ST_PointOnSurface(geometry)) AS lng
+      FROM postal_codes
+      WHERE granularity = '5digit' AND ${condition}
+      ORDER BY code
+      LIMIT ${limit}
+    `);
+
+    return (rows as unknown as GazetteerRow[]).map((row) => ({
+      id: row.code,
+      displayName: [row.code, row.city].filter(Boolean).join(" "),
+      latitude: Number(row.lat),
+      longitude: Number(row.lng),
+      postalCode: row.code,
+      city: row.city ?? undefined,
+      state: row.state ?? undefined,
+      country: "Deutschland",
+    }));
+  },
+};
@@ -0,0 +1,79 @@
+import "server-only";
+
+import { geocodeCacheKey, getCachedResults, setCachedResults } from "./cache";
+import { gazetteerGeocoder } from "./gazetteer-geocoder";
+import { nominatimGeocoder } from "./nominatim-geocoder";
+import { stubGeocoder } from "./stub-geocoder";
+import type { GeocodeResult, Geocoder } from "./types";
+
+export type { GeocodeResult, Geocoder } from "./types";
+
+const geocoders: Record<string, Geocoder> = {
+  [nominatimGeocoder.name]: nominatimGeocoder,
+  [gazetteerGeocoder.name]: gazetteerGeocoder,
+  [stubGeocoder.name]: stubGeocoder,
+};
+
+// Earliest start of the next request per provider
+const nextSlots = new Map<string, number>();
+
+/**
+ * Resolve the geocoder from GEOCODER ("nominatim", "gazetteer" or "stub").
+ * Defaults to Nominatim.
+ */
+export function getGeocoder(): Geocoder {
+  const name = process.env.GEOCODER ?? nominatimGeocoder.name;
+  const geocoder = geocoders[name];
+  if (!geocoder) {
+    throw new Error(`Unknown geocoder: ${name}`);
+  }
+  return geocoder;
+}
+
+/**
+ * Wait until the provider's rate limit allows another request. Slots are
+ * reserved synchronously, so concurrent callers queue up behind each other.
+ */
+async function waitForSlot(geocoder: Geocoder): Promise<void> {
+  if (geocoder.minIntervalMs <= 0) return;
+
+  const now = Date.now();
+  const slot = Math.max(now, nextSlots.get(geocoder.name) ?? 0);
+  nextSlots.set(geocoder.name, slot + geocoder.minIntervalMs);
+
+  if (slot > now) {
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+/**
+ * Search the configured geocoder, answering from api_cache when possible
+ */
+export async function searchAddresses(
+  query: string,
+  limit: number
+): Promise<GeocodeResult[]> {
+  const geocoder = getGeocoder();
+  const cacheKey = geocodeCacheKey(geocoder.name, query, limit);
+
+  const cached = await getCachedResults(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  await waitForSlot(geocoder);
+  const results = await geocoder.search(query, limit);
+  await setCachedResults(cacheKey, results);
+
+  return results;
+}
+
+/**
+ * Best match for an address, or null if the geocoder found nothing
+ */
+export async function geocodeAddress(
+  address: string
+): Promise<GeocodeResult | null> {
+  const [result] = await searchAddresses(address, 1);
+  return result ?? null;
+}
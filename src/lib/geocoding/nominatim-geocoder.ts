@@ -0,0 +1,69 @@
+import "server-only";
+
+import type { GeocodeResult, Geocoder } from "./types";
+
+const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+
+interface NominatimResult {
+  place_id: number;
+  display_name: string;
+  lon: string;
+  lat: string;
+  address?: {
+    postcode?: string;
+    city?: string;
+    town?: string;
+    village?: string;
+    state?: string;
+    country?: string;
+  };
+}
+
+/**
+ * OpenStreetMap Nominatim, restricted to Germany. The public instance allows
+ * one request per second; NOMINATIM_URL points to a self-hosted instance.
+ */
+export const nominatimGeocoder: Geocoder = {
+  name: "nominatim",
+
+  minIntervalMs: 1000,
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const baseUrl = process.env.NOMINATIM_URL ?? DEFAULT_NOMINATIM_URL;
+
+    const response = await fetch(
+      `${baseUrl.replace(/\/$/, "")}/search?` +
+        new URLSearchParams({
+          format: "json",
+          q: query,
+          addressdetails: "1",
+          limit: limit.toString(),
+          countrycodes: "de",
+          "accept-language": "de,en",
+        }),
+      {
+        headers: {
+          "User-Agent": "KRAUSS Territory Management/1.0",
+        },
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Geocoding service unavailable (${response.status})`);
+    }
+
+    const results = (await response.json()) as NominatimResult[];
+
+    return results.map((result) => ({
+      id: result.place_id,
+      displayName: result.display_name,
+      latitude: parseFloat(result.lat),
+      longitude: parseFloat(result.lon),
+      postalCode: result.address?.postcode,
+      city:
+        result.address?.city || result.address?.town || result.address?.village,
+      state: result.address?.state,
+      country: result.address?.country,
+    }));
+  },
+};
@@ -0,0 +1,149 @@
+import "server-only";
+
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+
+import { db } from "../db";
+import { geomFromGeoJSONExpr } from "../../db/geoTypes";
+import {
+  dataPoints,
+  geocodeJobItems,
+  geocodeJobs,
+} from "../schema/schema";
+import { geocodeAddress } from "./index";
+
+// Items fetched per round; the job status is re-checked between rounds so
+// cancelling takes effect quickly
+const BATCH_SIZE = 10;
+
+// Provider errors (not "no match") are retried this often before giving up
+const MAX_ATTEMPTS = 3;
+
+let running: Promise<void> | null = null;
+
+/**
+ * Work through all pending and interrupted geocoding jobs in this process.
+ * Safe to call repeatedly: only one runner is active at a time. Jobs live in
+ * the database, so a restart loses nothing; the next call picks them up.
+ */
+export function startGeocodeQueue(): Promise<void> {
+  running ??= processQueue()
+    .catch((error) => {
+      console.error("Error processing geocode queue:", error);
+    })
+    .finally(() => {
+      running = null;
+    });
+  return running;
+}
+
+async function processQueue(): Promise<void> {
+  for (;;) {
+    const [job] = await db
+      .select({ id: geocodeJobs.id })
+      .from(geocodeJobs)
+      .where(inArray(geocodeJobs.status, ["pending", "running"]))
+      .orderBy(asc(geocodeJobs.id))
+      .limit(1);
+
+    if (!job) return;
+    await processJob(job.id);
+  }
+}
+
+async function processJob(jobId: number): Promise<void> {
+  await db
+    .update(geocodeJobs)
+    .set({ status: "running", updatedAt: sql`now()` })
+    .where(and(eq(geocodeJobs.id, jobId), eq(geocodeJobs.status, "pending")));
+
+  for (;;) {
+    const [job] = await db
+      .select({ status: geocodeJobs.status, datasetId: geocodeJobs.datasetId })
+      .from(geocodeJobs)
+      .where(eq(geocodeJobs.id, jobId));
+
+    // Cancelled or deleted along with its dataset
+    if (job?.status !== "running") return;
+
+    const items = await db
+      .select()
+      .from(geocodeJobItems)
+      .where(
+        and(
+          eq(geocodeJobItems.jobId, jobId),
+          eq(geocodeJobItems.status, "pending")
+        )
+      )
+      .orderBy(asc(geocodeJobItems.id))
+      .limit(BATCH_SIZE);
+
+    if (items.length === 0) {
+      await db
+        .update(geocodeJobs)
+        .set({ status: "completed", updatedAt: sql`now()` })
+        .where(eq(geocodeJobs.id, jobId));
+      return;
+    }
+
+    for (const item of items) {
+      let result;
+      try {
+        result = await geocodeAddress(item.address);
+      } catch (error) {
+        const attempts = item.attempts + 1;
+        const message =
+          error instanceof Error ? error.message : "Geocoding failed";
+
+        if (attempts < MAX_ATTEMPTS) {
+          await db.transaction(async (tx) => {
+            await tx
+              .update(geocodeJobItems)
+              .set({ attempts })
+              .where(eq(geocodeJobItems.id, item.id));
+            await tx
+              .update(geocodeJobs)
+              .set({ error: message, updatedAt: sql`now()` })
+              .where(eq(geocodeJobs.id, jobId));
+          });
+          continue;
+        }
+
+        result = null;
+      }
+
+      await db.transaction(async (tx) => {
+        if (result) {
+          await tx.insert(dataPoints).values({
+            datasetId: job.datasetId,
+            name: item.name,
+            address: item.address,
+            location: geomFromGeoJSONExpr({
+              type: "Point",
+              coordinates: [result.longitude, result.latitude],
+            }),
+            properties: item.properties,
+          });
+        }
+
+        await tx
+          .update(geocodeJobItems)
+          .set({
+            status: result ? "done" : "failed",
+            attempts: item.attempts + 1,
+          })
+          .where(eq(geocodeJobItems.id, item.id));
+
+        await tx
+          .update(geocodeJobs)
+          .set({
+            processed: sql`${geocodeJobs.processed} + 1`,
+            failed: result
+              ? geocodeJobs.failed
+              : sql`${geocodeJobs.failed} + 1`,
+            updatedAt: sql`now()`,
+          })
+          .where(eq(geocodeJobs.id, jobId));
+      });
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import type { GeocodeResult, Geocoder } from "./types";
+
+// Bounding box of Germany the fake coordinates are spread over
+const MIN_LAT = 47.3;
+const MAX_LAT = 55.0;
+const MIN_LNG = 5.9;
+const MAX_LNG = 15.0;
+
+/**
+ * FNV-1a hash mapped to [0, 1)
+ */
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Deterministic fake geocoder for tests and offline development: every
+ * non-empty query resolves to a stable point in Germany derived from its
+ * text. Queries containing "unbekannt" return no result.
+ */
+export const stubGeocoder: Geocoder = {
+  name: "stub",
+
+  minIntervalMs: 0,
+
+  async search(query: string, limit: number): Promise<GeocodeResult[]> {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized || normalized.includes("unbekannt") || limit < 1) {
+      return [];
+    }
+
+    return [
+      {
+        id: `stub-${normalized}`,
+        displayName: query.trim(),
+        latitude: MIN_LAT + hashToUnit(`lat:${normalized}`) * (MAX_LAT - MIN_LAT),
+        longitude:
+          MIN_LNG + hashToUnit(`lng:${normalized}`) * (MAX_LNG - MIN_LNG),
+        postalCode: normalized.match(/\b\d{5}\b/)?.[0],
+        country: "Deutschland",
+      },
+    ];
+  },
+};
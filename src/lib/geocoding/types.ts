@@ -0,0 +1,23 @@
+export interface GeocodeResult {
+  /** Provider-specific place id */
+  id: number | string;
+  displayName: string;
+  latitude: number;
+  longitude: number;
+  postalCode?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+}
+
+/**
+ * A geocoder turns a free-text address into candidate locations, best match
+ * first. `minIntervalMs` is the provider's rate limit; callers go through
+ * the throttled, cached helpers in ./index instead of calling `search`
+ * directly.
+ */
+export interface Geocoder {
+  readonly name: string;
+  readonly minIntervalMs: number;
+  search(query: string, limit: number): Promise<GeocodeResult[]>;
+}
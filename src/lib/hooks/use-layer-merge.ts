@@ -1,7 +1,12 @@
 import { useCallback } from "react";
 import { toast } from "sonner";
-import { type Layer } from "../types/area-types";
-import { updateLayerAction } from "@/app/actions/area-actions";
+import { type Layer, type LayerMergeStrategy } from "../types/area-types";
+import {
+  mergeLayersAction,
+  updateLayerAction,
+} from "@/app/actions/area-actions";
+import { bulkImportPostalCodesAndLayers } from "@/app/actions/bulk-import-actions";
+import { createChangeGroup } from "@/lib/utils/change-groups";
 
 interface LayerMergeProps {
   areaId: number;
@@ -18,7 +23,7 @@ export function useLayerMerge({
     async (
       sourceLayerIds: number[],
       targetLayerId: number,
-      mergeStrategy: "union" | "keep-target" | "keep-source" = "union"
+      mergeStrategy: LayerMergeStrategy = "union"
     ) => {
       try {
         const targetLayer = layers.find((l) => l.id === targetLayerId);
@@ -26,50 +31,22 @@ export function useLayerMerge({
           throw new Error("Target layer not found");
         }
 
-        const sourceLayers = layers.filter((l) =>
-          sourceLayerIds.includes(l.id)
+        // Sources are removed and the target written in one transaction
+        const result = await mergeLayersAction(
+          areaId,
+          sourceLayerIds,
+          targetLayerId,
+          mergeStrategy
         );
-        if (sourceLayers.length === 0) {
-          throw new Error("No source layers found");
+        if (!result.success || !result.data) {
+          throw new Error(result.error);
         }
 
-        // Get all postal codes from source layers
-        const sourcePostalCodes = sourceLayers.flatMap(
-          (l) => l.postalCodes?.map((pc) => pc.postalCode) || []
-        );
-
-        const targetPostalCodes =
-          targetLayer.postalCodes?.map((pc) => pc.postalCode) || [];
-
-        let mergedPostalCodes: string[];
-
-        switch (mergeStrategy) {
-          case "union":
-            // Combine all unique postal codes
-            mergedPostalCodes = [
-              ...new Set([...targetPostalCodes, ...sourcePostalCodes]),
-            ];
-            break;
-          case "keep-target":
-            // Only keep target postal codes (ignore source)
-            mergedPostalCodes = targetPostalCodes;
-            break;
-          case "keep-source":
-            // Replace target with source postal codes
-            mergedPostalCodes = [...new Set(sourcePostalCodes)];
-            break;
-        }
-
-        // Update target layer with merged postal codes
-        await updateLayerAction(areaId, targetLayerId, {
-          postalCodes: mergedPostalCodes,
-        });
-
         toast.success(
-          `${sourceLayers.length} Layer in "${targetLayer.name}" zusammengeführt`
+          `${sourceLayerIds.length} Layer in "${targetLayer.name}" zusammengeführt`
         );
 
-        return mergedPostalCodes;
+        return result.data.postalCodes;
       } catch (error) {
         const errorMessage =
           error instanceof Error ? error.message : "Unknown error";
@@ -98,11 +75,30 @@ export function useLayerMerge({
             ?.map((pc) => pc.postalCode)
             .filter((code) => !postalCodes.includes(code)) || [];
 
-        await updateLayerAction(areaId, sourceLayerId, {
-          postalCodes: remainingCodes,
-        });
+        const group = createChangeGroup(
+          `Aufteilung von "${sourceLayer.name}" (${postalCodes.length} PLZ)`
+        );
+
+        const updateResult = await updateLayerAction(
+          areaId,
+          sourceLayerId,
+          { postalCodes: remainingCodes },
+          group
+        );
+        if (!updateResult.success) {
+          throw new Error(updateResult.error);
+        }
+
+        // The split codes become a new layer in the same undo step
+        const importResult = await bulkImportPostalCodesAndLayers(
+          areaId,
+          [{ name: newLayerName, postalCodes }],
+          group
+        );
+        if (!importResult.success) {
+          throw new Error(importResult.errors?.join(", "));
+        }
 
-        // Create new layer is handled by the calling component
         toast.success(`Layer "${sourceLayer.name}" aufgeteilt`);
 
         return { remainingCodes, splitCodes: postalCodes };
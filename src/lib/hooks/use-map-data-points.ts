@@ -0,0 +1,140 @@
+import type { DataPoints } from "@/lib/utils/data-points";
+import type { FeatureCollection, Point } from "geojson";
+import type { GeoJSONSource, Map as MapLibreMap } from "maplibre-gl";
+import { useEffect, useMemo } from "react";
+
+const SOURCE_ID = "data-points-source";
+const CLUSTER_LAYER_ID = "data-points-clusters";
+const CLUSTER_COUNT_LAYER_ID = "data-points-cluster-count";
+const POINT_LAYER_ID = "data-points-unclustered";
+
+interface UseMapDataPointsProps {
+  map: MapLibreMap | null;
+  layersLoaded: boolean;
+  dataPoints: DataPoints;
+  hiddenDatasetIds: number[];
+}
+
+/**
+ * Clustered markers for the imported point datasets; single points take the
+ * color of their dataset
+ */
+export function useMapDataPoints({
+  map,
+  layersLoaded,
+  dataPoints,
+  hiddenDatasetIds,
+}: UseMapDataPointsProps) {
+  const data = useMemo<FeatureCollection<Point>>(() => {
+    const colors = new Map(
+      dataPoints.datasets.map((dataset) => [dataset.id, dataset.color])
+    );
+
+    return {
+      type: "FeatureCollection",
+      features: dataPoints.points
+        .filter((point) => !hiddenDatasetIds.includes(point.datasetId))
+        .map((point) => ({
+          type: "Feature",
+          id: point.id,
+          geometry: {
+            type: "Point",
+            coordinates: [point.longitude, point.latitude],
+          },
+          properties: {
+            name: point.name ?? "",
+            color: colors.get(point.datasetId) ?? "#0f172a",
+          },
+        })),
+    };
+  }, [dataPoints, hiddenDatasetIds]);
+
+  useEffect(() => {
+    if (!map || !layersLoaded) return;
+
+    const source = map.getSource(SOURCE_ID) as GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+
+    map.addSource(SOURCE_ID, {
+      type: "geojson",
+      data,
+      cluster: true,
+      clusterRadius: 40,
+      clusterMaxZoom: 13,
+    });
+
+    map.addLayer({
+      id: CLUSTER_LAYER_ID,
+      type: "circle",
+      source: SOURCE_ID,
+      filter: ["has", "point_count"],
+      paint: {
+        "circle-color": "#334155",
+        "circle-opacity": 0.85,
+        "circle-radius": [
+          "step",
+          ["get", "point_count"],
+          12,
+          25,
+          16,
+          100,
+          20,
+          500,
+          26,
+        ],
+        "circle-stroke-color": "#fff",
+        "circle-stroke-width": 1.5,
+      },
+    });
+    map.addLayer({
+      id: CLUSTER_COUNT_LAYER_ID,
+      type: "symbol",
+      source: SOURCE_ID,
+      filter: ["has", "point_count"],
+      layout: {
+        "text-field": ["get", "point_count_abbreviated"],
+        "text-font": ["Open Sans Bold", "Arial Unicode MS Bold"],
+        "text-size": 11,
+      },
+      paint: {
+        "text-color": "#fff",
+      },
+    });
+    map.addLayer({
+      id: POINT_LAYER_ID,
+      type: "circle",
+      source: SOURCE_ID,
+      filter: ["!", ["has", "point_count"]],
+      paint: {
+        "circle-color": ["get", "color"],
+        "circle-radius": 4,
+        "circle-stroke-color": "#fff",
+        "circle-stroke-width": 1,
+      },
+    });
+  }, [map, layersLoaded, data]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (!map) return;
+
+      try {
+        [POINT_LAYER_ID, CLUSTER_COUNT_LAYER_ID, CLUSTER_LAYER_ID].forEach(
+          (id) => {
+            if (map.getLayer(id)) map.removeLayer(id);
+          }
+        );
+        if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+      } catch (error) {
+        // Map might already be removed
+        if (process.env.NODE_ENV === "development") {
+          console.warn("Failed to remove data points:", error);
+        }
+      }
+    };
+  }, [map]);
+}
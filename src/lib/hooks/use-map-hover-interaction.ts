@@ -1,5 +1,6 @@
 import { useStableCallback } from "@/lib/hooks/use-stable-callback";
 import { isFeatureWithCode } from "@/lib/utils/map-feature-utils";
+import { POSTAL_CODE_TILE_LAYER } from "@/lib/utils/map-tiles";
 import type { Map as MapLibreMap } from "maplibre-gl";
 import { useRef } from "react";
 import { flushSync } from "react-dom";
@@ -7,6 +8,7 @@ import { flushSync } from "react-dom";
 /**
  * Hook for managing hover state and interactions
  * Optimized for performance with ref-based state tracking
+ * Hover is rendered through the "hover" feature-state on the postal code tiles
  */
 export function useMapHoverInteraction(
   map: MapLibreMap | null,
@@ -17,13 +19,24 @@ export function useMapHoverInteraction(
   // Use ref to avoid re-renders when hover state changes
   const hoveredRegionIdRef = useRef<string | null>(null);
 
+  // Toggle the hover feature-state of a postal code on the vector source
+  const setHoverState = useStableCallback((code: string, hover: boolean) => {
+    if (!map) return;
+    map.setFeatureState(
+      {
+        source: `${layerId}-source`,
+        sourceLayer: POSTAL_CODE_TILE_LAYER,
+        id: code,
+      },
+      { hover }
+    );
+  });
+
   // Core hover processing logic
   const processHover = useStableCallback(
     (...args: unknown[]) => {
       if (!map || !layersLoaded || !isCursorMode) return;
 
-      const hoverSourceId = `${layerId}-hover-source`;
-      const hoverLayerId = `${layerId}-hover-layer`;
       const e = args[0] as { features?: unknown[] };
 
       if (e && Array.isArray(e.features) && e.features.length > 0) {
@@ -33,14 +46,10 @@ export function useMapHoverInteraction(
           const typedFeature = feature as { properties?: { code?: string } };
           const regionCode = typedFeature.properties?.code;
           if (regionCode && hoveredRegionIdRef.current !== regionCode) {
-            const src = map.getSource(hoverSourceId);
-            if (src && "setData" in src && typeof src.setData === "function") {
-              src.setData({
-                type: "FeatureCollection",
-                features: [typedFeature],
-              });
+            if (hoveredRegionIdRef.current) {
+              setHoverState(hoveredRegionIdRef.current, false);
             }
-            map.setLayoutProperty(hoverLayerId, "visibility", "visible");
+            setHoverState(regionCode, true);
 
             // Use flushSync for synchronous cursor updates to prevent visual lag
             flushSync(() => {
@@ -72,19 +81,11 @@ export function useMapHoverInteraction(
   const handleMouseLeave = useStableCallback(() => {
     if (!map || !layersLoaded || !isCursorMode) return;
 
-    const hoverSourceId = `${layerId}-hover-source`;
-    const hoverLayerId = `${layerId}-hover-layer`;
-    const src = map.getSource(hoverSourceId);
-
-    if (src && "setData" in src && typeof src.setData === "function") {
-      src.setData({
-        type: "FeatureCollection",
-        features: [],
-      });
+    if (hoveredRegionIdRef.current) {
+      setHoverState(hoveredRegionIdRef.current, false);
     }
 
     if (map) {
-      map.setLayoutProperty(hoverLayerId, "visibility", "none");
       // Use flushSync for synchronous cursor updates to prevent visual lag
       flushSync(() => {
         const canvas = map.getCanvas();
@@ -1,18 +1,16 @@
 
 
-import type { FeatureCollection } from "geojson";
+import { reportMetric } from "@/lib/telemetry/reporter";
 import type { Map as MapLibreMap } from "maplibre-gl";
 import { useLayoutEffect, useRef, useState, type RefObject } from "react";
 
 export function useMapInitialization({
   mapContainer,
-  data,
   center,
   zoom,
   style
 }: {
   mapContainer: RefObject<HTMLDivElement | null>;
-  data: FeatureCollection;
   center: [number, number];
   zoom: number;
   style: string;
@@ -26,10 +24,10 @@ export function useMapInitialization({
   // This prevents potential race conditions and ensures the map container is ready
   useLayoutEffect(() => {
     if (!mapContainer.current) return;
-    if (!data || !data.features || data.features.length === 0) return;
     if (mapRef.current) return;
 
     (async () => {
+      const startedAt = performance.now();
       const maplibre = await import("maplibre-gl");
       const map = new maplibre.Map({
         container: mapContainer.current!,
@@ -45,9 +43,25 @@ export function useMapInitialization({
       // Listen for the load event once to trigger React re-render
       map.once('load', () => {
         setIsMapLoaded(true);
+        reportMetric("map", "first_render", performance.now() - startedAt);
+
+        // One tile_load per burst of tile requests, e.g. after a pan or zoom
+        let tilesStartedAt: number | null = null;
+        map.on("dataloading", (e) => {
+          if (e.dataType === "source" && "tile" in e) {
+            tilesStartedAt ??= performance.now();
+          }
+        });
+        map.on("idle", () => {
+          if (tilesStartedAt === null) return;
+          reportMetric("map", "tile_load", performance.now() - tilesStartedAt, {
+            zoom: Math.round(map.getZoom()),
+          });
+          tilesStartedAt = null;
+        });
       });
     })();
-  }, [center, data, zoom, mapContainer, style]);
+  }, [center, zoom, mapContainer, style]);
 
   return {
     mapRef,
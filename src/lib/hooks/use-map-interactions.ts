@@ -10,13 +10,6 @@ import { useMapTerraDrawSelection } from "@/lib/hooks/use-map-terradraw-selectio
 
 import { useTerraDraw } from "@/lib/hooks/use-terradraw";
 
-import type {
-  FeatureCollection,
-  GeoJsonProperties,
-  MultiPolygon,
-  Polygon,
-} from "geojson";
-
 import type { Map as MapLibreMap } from "maplibre-gl";
 
 import type { RefObject } from "react";
@@ -34,7 +27,7 @@ interface UseMapInteractionsProps {
 
   layerId: string;
 
-  data: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>;
+  granularity: string;
 
   isMapLoaded: boolean;
 
@@ -66,7 +59,7 @@ export function useMapInteractions({
 
   layerId,
 
-  data,
+  granularity,
 
   isMapLoaded,
 
@@ -119,7 +112,7 @@ export function useMapInteractions({
   } = useMapTerraDrawSelection({
     mapRef,
 
-    data,
+    granularity,
   });
 
   // TerraDraw integration - initialize as soon as map is ready, don't wait for layers
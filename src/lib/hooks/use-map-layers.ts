@@ -6,13 +6,27 @@ import type {
   Polygon,
 } from "geojson";
 import type {
+  ExpressionSpecification,
   GeoJSONSource,
   LayerSpecification,
   Map as MapLibreMap,
+  VectorTileSource,
 } from "maplibre-gl";
 import { useEffect, useLayoutEffect, useMemo } from "react";
 import type { InferSelectModel } from "drizzle-orm";
 import type { areaLayers } from "../schema/schema";
+import {
+  getPostalCodeTileUrl,
+  POSTAL_CODE_ID_PROPERTY,
+  POSTAL_CODE_LABEL_TILE_LAYER,
+  POSTAL_CODE_TILE_LAYER,
+  TILE_MAX_ZOOM,
+  TILE_MIN_ZOOM,
+} from "../utils/map-tiles";
+import {
+  flattenLayerTree,
+  withDerivedPostalCodes,
+} from "../utils/layer-hierarchy";
 
 type Layer = InferSelectModel<typeof areaLayers> & {
   postalCodes?: { postalCode: string }[];
@@ -22,16 +36,11 @@ interface UseMapLayersProps {
   map: MapLibreMap | null;
   isMapLoaded: boolean;
   layerId: string;
-  data: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>;
+  granularity: string;
   statesData?: FeatureCollection<
     Polygon | MultiPolygon,
     GeoJsonProperties
   > | null;
-  hoveredRegionId: string | null;
-  getSelectedFeatureCollection: () => FeatureCollection<
-    Polygon | MultiPolygon,
-    GeoJsonProperties
-  >;
   getLabelPoints: (
     data: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>
   ) => FeatureCollection<Geometry, GeoJsonProperties>;
@@ -39,36 +48,70 @@ interface UseMapLayersProps {
   activeLayerId?: number | null;
 }
 
+// Parent layers are drawn as a thick outline over the fills of their children
+const layerFillOpacity = (layer: Layer, isParent: boolean) =>
+  layer.isVisible === "true" && !isParent ? (layer.opacity / 100) * 0.6 : 0;
+
+const layerBorderWidth = (isParent: boolean, isActive: boolean) =>
+  isParent ? (isActive ? 4.5 : 3.5) : isActive ? 2.5 : 1.5;
+
+// Feature-state driven styling: hover and selection are set per postal code
+// on the vector source, so no per-interaction GeoJSON sources are needed
+const isHovered: ExpressionSpecification = [
+  "boolean",
+  ["feature-state", "hover"],
+  false,
+];
+const isSelected: ExpressionSpecification = [
+  "boolean",
+  ["feature-state", "selected"],
+  false,
+];
+// Unassigned postal codes highlighted by the coverage report
+const isGap: ExpressionSpecification = [
+  "boolean",
+  ["feature-state", "gap"],
+  false,
+];
+
+/**
+ * Filter matching the postal codes of one area layer
+ */
+function postalCodeFilter(postalCodes: string[]): ExpressionSpecification {
+  return [
+    "in",
+    ["to-string", ["get", POSTAL_CODE_ID_PROPERTY]],
+    ["literal", postalCodes],
+  ];
+}
+
 /**
  * Enterprise-grade hook for initializing and managing all map layers and sources.
- * Handles main, selected, hover, label, and state layers, and exposes a stable API for business logic.
+ * Postal code geometries and labels are streamed as vector tiles per granularity;
+ * hover and selection are rendered through feature-state on that source.
  */
 export function useMapLayers({
   map,
   isMapLoaded,
   layerId,
-  data,
+  granularity,
   statesData,
-  hoveredRegionId,
-  getSelectedFeatureCollection,
   getLabelPoints,
   layers,
   activeLayerId,
 }: UseMapLayersProps) {
   // Memoize layersLoaded calculation to prevent unnecessary rerenders
   const layersLoaded = useMemo(() => {
-    return !!(map && isMapLoaded && data);
-  }, [map, isMapLoaded, data]);
+    return !!(map && isMapLoaded);
+  }, [map, isMapLoaded]);
 
   // Memoize all IDs for stable references
   const ids = useMemo(
     () => ({
       sourceId: `${layerId}-source`,
-      hoverSourceId: `${layerId}-hover-source`,
       hoverLayerId: `${layerId}-hover-layer`,
-      selectedSourceId: `${layerId}-selected-source`,
       selectedLayerId: `${layerId}-selected-layer`,
-      labelSourceId: `${layerId}-label-points`,
+      gapLayerId: `${layerId}-gap-layer`,
       labelLayerId: `${layerId}-label`,
       stateSourceId: "state-boundaries-source",
       stateLayerId: "state-boundaries-layer",
@@ -83,19 +126,10 @@ export function useMapLayers({
   // Use useLayoutEffect for layer initialization to prevent visual flicker
   // This ensures all layers are created synchronously before paint
   useLayoutEffect(() => {
-    if (!map || !isMapLoaded || !data) {
+    if (!map || !isMapLoaded) {
       return;
     }
 
-    // Create stable references for functions to avoid dependency issues
-    const selectedFeatureCollection = (() => {
-      return getSelectedFeatureCollection();
-    })();
-
-    const labelPoints = (() => {
-      return getLabelPoints(data);
-    })();
-
     const statesLabelPoints = statesData
       ? (() => {
           return getLabelPoints(statesData);
@@ -104,35 +138,23 @@ export function useMapLayers({
 
     // --- Robust source creation ---
     // Always create all sources first
-    // 1. Main data source
+    // 1. Postal code vector tiles (polygons + label points)
+    const tileUrl = getPostalCodeTileUrl(granularity);
     if (!map.getSource(ids.sourceId)) {
-      map.addSource(ids.sourceId, { type: "geojson", data });
-    } else {
-      const src = map.getSource(ids.sourceId) as GeoJSONSource | undefined;
-      if (src && typeof src.setData === "function") src.setData(data);
-    }
-    // 2. Selected source
-    if (!map.getSource(ids.selectedSourceId)) {
-      map.addSource(ids.selectedSourceId, {
-        type: "geojson",
-        data: selectedFeatureCollection,
-      });
-    }
-    // 3. Hover source
-    if (!map.getSource(ids.hoverSourceId)) {
-      map.addSource(ids.hoverSourceId, {
-        type: "geojson",
-        data: { type: "FeatureCollection", features: [] },
+      map.addSource(ids.sourceId, {
+        type: "vector",
+        tiles: [tileUrl],
+        minzoom: TILE_MIN_ZOOM,
+        maxzoom: TILE_MAX_ZOOM,
+        promoteId: POSTAL_CODE_ID_PROPERTY,
       });
-    }
-    // 4. Label points source
-    if (!map.getSource(ids.labelSourceId)) {
-      map.addSource(ids.labelSourceId, { type: "geojson", data: labelPoints });
     } else {
-      const src = map.getSource(ids.labelSourceId) as GeoJSONSource | undefined;
-      if (src && typeof src.setData === "function") src.setData(labelPoints);
+      const src = map.getSource(ids.sourceId) as VectorTileSource | undefined;
+      if (src && typeof src.setTiles === "function" && src.tiles?.[0] !== tileUrl) {
+        src.setTiles([tileUrl]);
+      }
     }
-    // 5. State boundaries sources
+    // 2. State boundaries sources
     if (statesData) {
       if (!map.getSource(ids.stateSourceId)) {
         map.addSource(ids.stateSourceId, { type: "geojson", data: statesData });
@@ -177,6 +199,7 @@ export function useMapLayers({
         id: `${layerId}-layer`,
         type: "fill",
         source: ids.sourceId,
+        "source-layer": POSTAL_CODE_TILE_LAYER,
         paint: {
           "fill-color": "#627D98",
           "fill-opacity": 0.1,
@@ -189,6 +212,7 @@ export function useMapLayers({
         id: `${layerId}-border`,
         type: "line",
         source: ids.sourceId,
+        "source-layer": POSTAL_CODE_TILE_LAYER,
         paint: {
           "line-color": "#2563EB",
           "line-width": 1,
@@ -214,28 +238,46 @@ export function useMapLayers({
         {
           id: ids.selectedLayerId,
           type: "fill",
-          source: ids.selectedSourceId,
+          source: ids.sourceId,
+          "source-layer": POSTAL_CODE_TILE_LAYER,
           paint: {
             "fill-color": fillColor,
-            "fill-opacity": fillOpacity,
+            "fill-opacity": ["case", isSelected, fillOpacity, 0],
             "fill-outline-color": fillColor,
           },
         },
         `${layerId}-border`
       );
     }
+    // 3b. Unassigned postal code fill (below the selection preview)
+    if (!map.getLayer(ids.gapLayerId)) {
+      safeAddLayer(
+        {
+          id: ids.gapLayerId,
+          type: "fill",
+          source: ids.sourceId,
+          "source-layer": POSTAL_CODE_TILE_LAYER,
+          paint: {
+            "fill-color": "#DC2626",
+            "fill-opacity": ["case", isGap, 0.35, 0],
+          },
+        },
+        ids.selectedLayerId
+      );
+    }
     // 4. Hover line (above selected postal codes)
     if (!map.getLayer(ids.hoverLayerId)) {
       safeAddLayer(
         {
           id: ids.hoverLayerId,
           type: "line",
-          source: ids.hoverSourceId,
+          source: ids.sourceId,
+          "source-layer": POSTAL_CODE_TILE_LAYER,
           paint: {
             "line-color": "#2563EB",
             "line-width": 3,
+            "line-opacity": ["case", isHovered, 1, 0],
           },
-          layout: { visibility: "none" },
         },
         ids.selectedLayerId
       );
@@ -384,15 +426,10 @@ export function useMapLayers({
         {
           id: ids.labelLayerId,
           type: "symbol",
-          source: ids.labelSourceId,
+          source: ids.sourceId,
+          "source-layer": POSTAL_CODE_LABEL_TILE_LAYER,
           layout: {
-            "text-field": [
-              "coalesce",
-              ["get", "PLZ"],
-              ["get", "plz"],
-              ["get", "code"],
-              "",
-            ],
+            "text-field": ["coalesce", ["get", POSTAL_CODE_ID_PROPERTY], ""],
             "text-font": ["Open Sans Bold", "Arial Unicode MS Bold"],
             "text-size": 9,
             "text-anchor": "center",
@@ -414,57 +451,15 @@ export function useMapLayers({
   }, [
     map,
     isMapLoaded,
-    data,
+    granularity,
     statesData,
     ids,
     layerId,
-    getSelectedFeatureCollection,
     getLabelPoints,
     activeLayerId,
     layers,
   ]);
 
-  // Update selected features source when layers change
-  // Note: Selections are now managed per-layer in the database
-  useEffect(() => {
-    if (!map || !layersLoaded) return;
-    const src = map.getSource(ids.selectedSourceId) as
-      | GeoJSONSource
-      | undefined;
-    if (src && typeof src.setData === "function") {
-      src.setData(getSelectedFeatureCollection());
-    }
-  }, [getSelectedFeatureCollection, map, layersLoaded, ids.selectedSourceId]);
-
-  // Use useLayoutEffect for hover source updates to prevent visual flicker
-  // This ensures hover state changes are applied synchronously
-  useLayoutEffect(() => {
-    if (!map || !layersLoaded) return;
-    const src = map.getSource(ids.hoverSourceId) as GeoJSONSource | undefined;
-    if (src && typeof src.setData === "function") {
-      if (hoveredRegionId) {
-        // Find the hovered feature in data
-        const feature = data.features.find(
-          (f) => f.properties?.code === hoveredRegionId
-        );
-        if (feature) {
-          src.setData({ type: "FeatureCollection", features: [feature] });
-          map.setLayoutProperty(ids.hoverLayerId, "visibility", "visible");
-        }
-      } else {
-        src.setData({ type: "FeatureCollection", features: [] });
-        map.setLayoutProperty(ids.hoverLayerId, "visibility", "none");
-      }
-    }
-  }, [
-    hoveredRegionId,
-    data,
-    map,
-    layersLoaded,
-    ids.hoverSourceId,
-    ids.hoverLayerId,
-  ]);
-
   // Cleanup on unmount or dependency change
   useEffect(() => {
     return () => {
@@ -479,6 +474,7 @@ export function useMapLayers({
         "state-boundaries-fill",
         ids.hoverLayerId,
         ids.selectedLayerId,
+        ids.gapLayerId,
         `${layerId}-border`,
         `${layerId}-layer`,
       ];
@@ -499,9 +495,6 @@ export function useMapLayers({
       // Then remove all sources (after all layers are removed)
       const sourceIds = [
         ids.sourceId,
-        ids.selectedSourceId,
-        ids.hoverSourceId,
-        ids.labelSourceId,
         ids.stateSourceId,
         ids.stateLabelSourceId,
       ];
@@ -521,74 +514,65 @@ export function useMapLayers({
     };
   }, [map, layerId, ids]);
 
-  // Pre-compute layer data mapping for O(1) lookups
-  const layerDataCache = useMemo(() => {
-    if (!data.features || !layers) return new Map();
-
-    const cache = new Map<number, FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>>();
-    layers.forEach((layer) => {
-      const postalCodes = layer.postalCodes?.map((pc) => pc.postalCode) || [];
-      if (postalCodes.length === 0) {
-        cache.set(layer.id, { type: "FeatureCollection", features: [] });
-        return;
-      }
-
-      // Create lookup set for O(1) postal code matching
-      const postalCodeSet = new Set(postalCodes.map(code => code.toString()));
-
-      // Filter features once per layer change, not per switch
-      const layerFeatures = data.features.filter((feature) => {
-        const code =
-          feature.properties?.code ||
-          feature.properties?.plz ||
-          feature.properties?.postalCode;
-        return code && postalCodeSet.has(code.toString());
-      });
-
-      cache.set(layer.id, {
-        type: "FeatureCollection",
-        features: layerFeatures,
-      });
+  // Pre-compute postal code filters per layer for O(1) lookups; parents
+  // cover the postal codes of all their descendants
+  const layerFilterCache = useMemo(() => {
+    const cache = new Map<number, string[]>();
+    withDerivedPostalCodes(layers ?? []).forEach((layer) => {
+      cache.set(
+        layer.id,
+        layer.postalCodes?.map((pc) => pc.postalCode.toString()) || []
+      );
     });
     return cache;
-  }, [data.features, layers]);
+  }, [layers]);
+
+  // Parent layers, deepest first so top-level outlines end up on top
+  const parentLayerIds = useMemo(
+    () =>
+      flattenLayerTree(layers ?? [])
+        .filter((row) => row.hasChildren)
+        .sort((a, b) => b.depth - a.depth)
+        .map((row) => row.layer.id),
+    [layers]
+  );
 
   // Initialize area layers once (only when layers change, not on activeLayerId change)
+  // Area layers render from the shared vector source, filtered by their postal codes
   useEffect(() => {
-    if (!map || !isMapLoaded || !layers || layers.length === 0 || !layerDataCache.size) {
+    if (!map || !isMapLoaded || !layers || layers.length === 0 || !map.getSource(ids.sourceId)) {
       return;
     }
 
     layers.forEach((layer) => {
-      const layerSourceId = `area-layer-${layer.id}-source`;
       const layerFillId = `area-layer-${layer.id}-fill`;
       const layerBorderId = `area-layer-${layer.id}-border`;
 
-      const layerFeatureCollection = layerDataCache.get(layer.id);
-      if (!layerFeatureCollection || layerFeatureCollection.features.length === 0) {
+      const postalCodes = layerFilterCache.get(layer.id) ?? [];
+      if (postalCodes.length === 0) {
         // Remove empty layers
         if (map.getLayer(layerFillId)) map.removeLayer(layerFillId);
         if (map.getLayer(layerBorderId)) map.removeLayer(layerBorderId);
-        if (map.getSource(layerSourceId)) map.removeSource(layerSourceId);
         return;
       }
 
-      // Add or update source once
-      if (!map.getSource(layerSourceId)) {
-        map.addSource(layerSourceId, {
-          type: "geojson",
-          data: layerFeatureCollection,
-        });
-      } else {
-        const src = map.getSource(layerSourceId) as GeoJSONSource | undefined;
-        if (src && typeof src.setData === "function") {
-          src.setData(layerFeatureCollection);
-        }
-      }
+      const filter = postalCodeFilter(postalCodes);
 
-      const opacity = layer.opacity / 100;
       const isVisible = layer.isVisible === "true";
       const isActive = activeLayerId === layer.id;
+      const isParent = parentLayerIds.includes(layer.id);
+
+      // Update filters of existing layers instead of re-creating them
+      if (map.getLayer(layerFillId)) {
+        map.setFilter(layerFillId, filter);
+        map.setPaintProperty(layerFillId, "fill-opacity",
+          layerFillOpacity(layer, isParent));
+      }
+      if (map.getLayer(layerBorderId)) {
+        map.setFilter(layerBorderId, filter);
+        map.setPaintProperty(layerBorderId, "line-width",
+          layerBorderWidth(isParent, isActive));
+      }
 
       // Add fill layer
       if (!map.getLayer(layerFillId)) {
@@ -596,10 +580,12 @@ export function useMapLayers({
           {
             id: layerFillId,
             type: "fill",
-            source: layerSourceId,
+            source: ids.sourceId,
+            "source-layer": POSTAL_CODE_TILE_LAYER,
+            filter,
             paint: {
               "fill-color": layer.color,
-              "fill-opacity": isVisible ? opacity * 0.6 : 0,
+              "fill-opacity": layerFillOpacity(layer, isParent),
             },
             layout: {
               visibility: isVisible ? "visible" : "none",
@@ -615,10 +601,12 @@ export function useMapLayers({
           {
             id: layerBorderId,
             type: "line",
-            source: layerSourceId,
+            source: ids.sourceId,
+            "source-layer": POSTAL_CODE_TILE_LAYER,
+            filter,
             paint: {
               "line-color": layer.color,
-              "line-width": isActive ? 2.5 : 1.5,
+              "line-width": layerBorderWidth(isParent, isActive),
               "line-opacity": isVisible ? (isActive ? 0.9 : 0.7) : 0,
             },
             layout: {
@@ -632,7 +620,15 @@ export function useMapLayers({
       }
     });
 
-    // Cleanup: Remove layers/sources for layers that no longer exist
+    // Keep parent outlines above the fills and borders of their children
+    parentLayerIds.forEach((id) => {
+      const layerBorderId = `area-layer-${id}-border`;
+      if (map.getLayer(layerBorderId)) {
+        map.moveLayer(layerBorderId, ids.hoverLayerId);
+      }
+    });
+
+    // Cleanup: Remove layers for layers that no longer exist
     return () => {
       if (!map) return;
 
@@ -655,25 +651,8 @@ export function useMapLayers({
           }
         }
       });
-
-      // Remove orphaned sources
-      Object.keys(map.getStyle().sources || {}).forEach((sourceId) => {
-        if (sourceId.startsWith("area-layer-")) {
-          const match = sourceId.match(/area-layer-(\d+)-source/);
-          if (match) {
-            const layerIdNum = parseInt(match[1], 10);
-            if (!currentLayerIds.has(layerIdNum)) {
-              try {
-                map.removeSource(sourceId);
-              } catch {
-                // Source might already be removed
-              }
-            }
-          }
-        }
-      });
     };
-  }, [map, isMapLoaded, layers, layerDataCache, ids.hoverLayerId, activeLayerId]);
+  }, [map, isMapLoaded, layers, layerFilterCache, parentLayerIds, ids.sourceId, ids.hoverLayerId, activeLayerId]);
 
   // Optimized layer switching - only update visibility and active state
   useEffect(() => {
@@ -685,6 +664,7 @@ export function useMapLayers({
 
       const isVisible = layer.isVisible === "true";
       const isActive = activeLayerId === layer.id;
+      const isParent = parentLayerIds.includes(layer.id);
 
       // Only update visibility and active state - no expensive operations
       if (map.getLayer(layerFillId)) {
@@ -693,14 +673,15 @@ export function useMapLayers({
       }
 
       if (map.getLayer(layerBorderId)) {
-        map.setPaintProperty(layerBorderId, "line-width", isActive ? 2.5 : 1.5);
+        map.setPaintProperty(layerBorderId, "line-width",
+          layerBorderWidth(isParent, isActive));
         map.setPaintProperty(layerBorderId, "line-opacity",
           isVisible ? (isActive ? 0.9 : 0.7) : 0);
         map.setLayoutProperty(layerBorderId, "visibility",
           isVisible ? "visible" : "none");
       }
     });
-  }, [map, layersLoaded, activeLayerId, layers]);
+  }, [map, layersLoaded, activeLayerId, layers, parentLayerIds]);
 
   // Update selected regions color when active layer changes
   useEffect(() => {
@@ -0,0 +1,124 @@
+import type { LayerPeople, Person } from "@/lib/utils/layer-people";
+import type { FeatureCollection, Point } from "geojson";
+import type { GeoJSONSource, Map as MapLibreMap } from "maplibre-gl";
+import { useEffect, useMemo } from "react";
+
+const SOURCE_ID = "people-source";
+const MARKER_LAYER_ID = "people-markers";
+const LABEL_LAYER_ID = "people-labels";
+
+interface UseMapPeopleMarkersProps {
+  map: MapLibreMap | null;
+  layersLoaded: boolean;
+  layers: { id: number; name: string; color: string }[];
+  people: Person[];
+  layerPeople: LayerPeople[];
+}
+
+/**
+ * Markers for the geocoded home locations of everyone assigned to a layer,
+ * colored like the first layer they are primarily responsible for
+ */
+export function useMapPeopleMarkers({
+  map,
+  layersLoaded,
+  layers,
+  people,
+  layerPeople,
+}: UseMapPeopleMarkersProps) {
+  const data = useMemo<FeatureCollection<Point>>(() => {
+    const features: FeatureCollection<Point>["features"] = [];
+
+    for (const person of people) {
+      if (person.latitude === null || person.longitude === null) continue;
+
+      const assignments = layerPeople
+        .filter((assignment) => assignment.personId === person.id)
+        .sort((a, b) => (a.role === b.role ? 0 : a.role === "primary" ? -1 : 1));
+      const ownLayers = assignments
+        .map((assignment) =>
+          layers.find((layer) => layer.id === assignment.layerId)
+        )
+        .filter((layer) => layer !== undefined);
+      if (ownLayers.length === 0) continue;
+
+      features.push({
+        type: "Feature",
+        id: person.id,
+        geometry: {
+          type: "Point",
+          coordinates: [person.longitude, person.latitude],
+        },
+        properties: {
+          name: person.name,
+          color: ownLayers[0].color,
+          layers: ownLayers.map((layer) => layer.name).join(", "),
+        },
+      });
+    }
+
+    return { type: "FeatureCollection", features };
+  }, [layers, people, layerPeople]);
+
+  useEffect(() => {
+    if (!map || !layersLoaded) return;
+
+    const source = map.getSource(SOURCE_ID) as GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+      return;
+    }
+
+    map.addSource(SOURCE_ID, { type: "geojson", data });
+
+    // Added last, so markers stay above the postal code layers and labels
+    map.addLayer({
+      id: MARKER_LAYER_ID,
+      type: "circle",
+      source: SOURCE_ID,
+      paint: {
+        "circle-radius": 7,
+        "circle-color": ["get", "color"],
+        "circle-stroke-color": "#fff",
+        "circle-stroke-width": 2,
+      },
+    });
+    map.addLayer({
+      id: LABEL_LAYER_ID,
+      type: "symbol",
+      source: SOURCE_ID,
+      minzoom: 7,
+      layout: {
+        "text-field": ["get", "name"],
+        "text-font": ["Open Sans Bold", "Arial Unicode MS Bold"],
+        "text-size": 10,
+        "text-anchor": "top",
+        "text-offset": [0, 0.8],
+      },
+      paint: {
+        "text-color": "#222",
+        "text-halo-color": "#fff",
+        "text-halo-width": 2,
+      },
+    });
+  }, [map, layersLoaded, data]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (!map) return;
+
+      try {
+        [LABEL_LAYER_ID, MARKER_LAYER_ID].forEach((id) => {
+          if (map.getLayer(id)) map.removeLayer(id);
+        });
+        if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+      } catch (error) {
+        // Map might already be removed
+        if (process.env.NODE_ENV === "development") {
+          console.warn("Failed to remove people markers:", error);
+        }
+      }
+    };
+  }, [map]);
+}
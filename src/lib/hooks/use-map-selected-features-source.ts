@@ -1,39 +1,56 @@
-import { featureCollectionFromIds } from "@/lib/utils/map-data";
-import type { FeatureCollection, GeoJsonProperties, MultiPolygon, Polygon } from "geojson";
-import type { GeoJSONSource, Map as MapLibreMap } from "maplibre-gl";
-import { useEffect } from "react";
+import { POSTAL_CODE_TILE_LAYER } from "@/lib/utils/map-tiles";
+import type { Map as MapLibreMap } from "maplibre-gl";
+import { useEffect, useRef } from "react";
 
 interface UseMapSelectedFeaturesSourceProps {
   map: MapLibreMap | null;
   layerId: string;
-  data: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>;
   selectedRegions: string[];
   layersLoaded: boolean;
+  // Feature-state flag to toggle, "gap" for unassigned codes of the coverage report
+  featureState?: "selected" | "gap";
 }
 
 /**
- * Hook for managing the selected features source updates
- * Optimized to only update when necessary
+ * Hook for marking selected postal codes via the "selected" feature-state
+ * (or another boolean feature-state). Only touches codes whose selection
+ * actually changed
  */
 export function useMapSelectedFeaturesSource({
   map,
   layerId,
-  data,
   selectedRegions,
   layersLoaded,
+  featureState = "selected",
 }: UseMapSelectedFeaturesSourceProps) {
+  const previousSelectionRef = useRef<Set<string>>(new Set());
+
   useEffect(() => {
     if (!map || !layersLoaded) return;
 
-    const selectedSourceId = `${layerId}-selected-source`;
-    const src = map.getSource(selectedSourceId) as GeoJSONSource | undefined;
+    const source = `${layerId}-source`;
+    if (!map.getSource(source)) return;
+
+    const next = new Set(selectedRegions);
+    const previous = previousSelectionRef.current;
+
+    previous.forEach((code) => {
+      if (!next.has(code)) {
+        map.setFeatureState(
+          { source, sourceLayer: POSTAL_CODE_TILE_LAYER, id: code },
+          { [featureState]: false }
+        );
+      }
+    });
+    next.forEach((code) => {
+      if (!previous.has(code)) {
+        map.setFeatureState(
+          { source, sourceLayer: POSTAL_CODE_TILE_LAYER, id: code },
+          { [featureState]: true }
+        );
+      }
+    });
 
-    if (src && typeof src.setData === "function") {
-      const selectedFeatureCollection = featureCollectionFromIds(
-        data,
-        selectedRegions
-      );
-      src.setData(selectedFeatureCollection);
-    }
-  }, [map, layerId, data, selectedRegions, layersLoaded]);
+    previousSelectionRef.current = next;
+  }, [map, layerId, selectedRegions, layersLoaded, featureState]);
 }
@@ -1,15 +1,9 @@
 import {
-  useConvertRadiusToGeographic,
-  useFindFeaturesInCircle,
-  useFindFeaturesInPolygon,
-} from "@/components/shared/hooks/use-feature-selection";
-import type {
-  Feature,
-  FeatureCollection,
-  GeoJsonProperties,
-  MultiPolygon,
-  Polygon,
-} from "geojson";
+  selectPostalCodesInCircleAction,
+  selectPostalCodesInPolygonAction,
+} from "@/app/actions/area-actions";
+import { useConvertRadiusToMeters } from "@/components/shared/hooks/use-feature-selection";
+import type { Feature, GeoJsonProperties } from "geojson";
 import type { Map as MapLibreMap } from "maplibre-gl";
 import { useRef, useState, type RefObject } from "react";
 import { toast } from "sonner";
@@ -17,18 +11,19 @@ import { useStableCallback } from "./use-stable-callback";
 
 interface UseMapTerraDrawSelectionProps {
   mapRef: RefObject<MapLibreMap | null>;
-  data: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>;
+  granularity: string;
 }
 
 /**
  * Hook for managing TerraDraw selection logic
  * Handles polygon and circle selections with geographic coordinate conversion
+ * Matching regions are looked up on the server, the client has no geometries
  * Optimized for React 19 with memoized callbacks and stable references
  * Note: Selections are now managed through pending postal codes only, actual persistence through layers
  */
 export function useMapTerraDrawSelection({
   mapRef,
-  data,
+  granularity,
 }: UseMapTerraDrawSelectionProps) {
   // Ref to store TerraDraw API
   const terraDrawRef = useRef<{
@@ -39,14 +34,11 @@ export function useMapTerraDrawSelection({
   // State for pending postal codes from drawing
   const [pendingPostalCodes, setPendingPostalCodes] = useState<string[]>([]);
 
-  // Feature selection hooks
-  const findFeaturesInPolygon = useFindFeaturesInPolygon(data);
-  const findFeaturesInCircle = useFindFeaturesInCircle(data);
-  const convertRadiusToGeographic = useConvertRadiusToGeographic(mapRef);
+  const convertRadiusToMeters = useConvertRadiusToMeters(mapRef);
 
   // Handle TerraDraw selection changes
   const handleTerraDrawSelection = useStableCallback(
-    (featureIds: (string | number)[]) => {
+    async (featureIds: (string | number)[]) => {
       if (!featureIds || featureIds.length === 0) {
         console.log("[useMapTerraDrawSelection] No feature IDs provided");
         return;
@@ -59,7 +51,8 @@ export function useMapTerraDrawSelection({
       );
 
       // Process ALL feature IDs, not just the last one
-      const allSelectedFeatures: string[] = [];
+      const selections: ReturnType<typeof selectPostalCodesInPolygonAction>[] =
+        [];
 
       featureIds.forEach((featureId, index) => {
         console.log(
@@ -156,8 +149,12 @@ export function useMapTerraDrawSelection({
             return coord;
           });
 
-          const selectedFeatures = findFeaturesInPolygon(geographicPolygon);
-          allSelectedFeatures.push(...selectedFeatures);
+          selections.push(
+            selectPostalCodesInPolygonAction({
+              polygon: geographicPolygon,
+              granularity,
+            })
+          );
         }
         // Handle circle selection
         else if (
@@ -206,15 +203,14 @@ export function useMapTerraDrawSelection({
               : center;
           }
 
-          const geographicRadius = convertRadiusToGeographic(
-            pixelRadius,
-            geographicCenter
-          );
-          const selectedFeatures = findFeaturesInCircle(
-            geographicCenter,
-            geographicRadius
+          selections.push(
+            selectPostalCodesInCircleAction({
+              latitude: geographicCenter[1],
+              longitude: geographicCenter[0],
+              radiusMeters: convertRadiusToMeters(pixelRadius, geographicCenter),
+              granularity,
+            })
           );
-          allSelectedFeatures.push(...selectedFeatures);
         } else if (drawFeature.geometry) {
           console.log(
             "[useMapTerraDrawSelection] Unsupported geometry type:",
@@ -223,8 +219,16 @@ export function useMapTerraDrawSelection({
         }
       });
 
+      const results = await Promise.all(selections);
+      if (results.some((result) => !result.success)) {
+        toast.error("Regionen konnten nicht ermittelt werden");
+        return;
+      }
+
       // Remove duplicates and store as pending selection
-      const uniqueSelectedFeatures = [...new Set(allSelectedFeatures)];
+      const uniqueSelectedFeatures = [
+        ...new Set(results.flatMap((result) => result.data?.postalCodes ?? [])),
+      ];
       if (uniqueSelectedFeatures.length > 0) {
         setPendingPostalCodes(uniqueSelectedFeatures);
 
@@ -2,65 +2,23 @@ import { useState, useMemo } from "react";
 
 import { useStableCallback } from "@/lib/hooks/use-stable-callback";
 
-import type {
-  FeatureCollection,
-  GeoJsonProperties,
-  MultiPolygon,
-  Polygon,
-} from "geojson";
-
 import { toast } from "sonner";
 
-import type { Feature } from "maplibre-gl";
-
 interface PostalCodeSearchProps {
-  data: FeatureCollection<MultiPolygon | Polygon, GeoJsonProperties>;
+  postalCodes: string[];
 }
 
-export function usePostalCodeSearch({ data }: PostalCodeSearchProps) {
+export function usePostalCodeSearch({ postalCodes }: PostalCodeSearchProps) {
   const [searchResults, setSearchResults] = useState<string[]>([]);
 
   const [isSearching, setIsSearching] = useState(false);
 
   // Pre-build search index for O(1) lookups instead of O(n) filtering
 
-  const searchIndex = useMemo(() => {
-    const index = new Map();
-
-    data.features.forEach((feature) => {
-      const searchableText = [
-        feature.properties?.code,
-
-        feature.properties?.PLZ,
-
-        feature.properties?.plz,
-
-        feature.properties?.name,
-      ]
-
-        .filter(Boolean)
-
-        .join(" ")
-
-        .toLowerCase();
-
-      // Index by individual words for partial matching
-
-      const words = searchableText.split(/\s+/);
-
-      words.forEach((word) => {
-        if (word.length > 1) {
-          // Skip single characters for performance
-
-          if (!index.has(word)) index.set(word, new Set());
-
-          index.get(word).add(feature);
-        }
-      });
-    });
-
-    return index;
-  }, [data.features]);
+  const searchIndex = useMemo(
+    () => new Set(postalCodes.map((code) => code.toLowerCase())),
+    [postalCodes]
+  );
 
   const searchPostalCodes = useStableCallback((query: string) => {
     if (!query.trim()) {
@@ -76,24 +34,15 @@ export function usePostalCodeSearch({ data }: PostalCodeSearchProps) {
 
       const searchTerms = query.toLowerCase().split(/\s+/);
 
-      const results = new Map();
+      const results = new Set<string>();
 
       searchTerms.forEach((term) => {
-        if (searchIndex.has(term)) {
-          searchIndex.get(term).forEach((feature: Feature) => {
-            const code =
-              feature.properties?.code ||
-              feature.properties?.PLZ ||
-              feature.properties?.plz;
-
-            if (code) results.set(code, feature);
-          });
-        }
+        if (searchIndex.has(term)) results.add(term);
       });
 
       // Convert to array and limit results
 
-      const finalResults = Array.from(results.keys()).slice(0, 10);
+      const finalResults = Array.from(results).slice(0, 10);
 
       setSearchResults(finalResults);
     } catch (error) {
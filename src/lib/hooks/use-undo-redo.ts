@@ -5,6 +5,7 @@ import {
   undoChangeAction,
   redoChangeAction,
 } from "@/app/actions/change-tracking-actions";
+import { reportActionFailure } from "@/lib/telemetry/reporter";
 import { toast } from "sonner";
 
 interface UndoRedoStatus {
@@ -50,7 +51,10 @@ export function useUndoRedo(
               }
               throw new Error(data.error || "Fehler beim Rückgängigmachen");
             },
-            error: "Fehler beim Rückgängigmachen",
+            error: (error) => {
+              reportActionFailure("undoChangeAction", error, { areaId });
+              return "Fehler beim Rückgängigmachen";
+            },
           }
         );
       } finally {
@@ -81,7 +85,10 @@ export function useUndoRedo(
               }
               throw new Error(data.error || "Fehler beim Wiederherstellen");
             },
-            error: "Fehler beim Wiederherstellen",
+            error: (error) => {
+              reportActionFailure("redoChangeAction", error, { areaId });
+              return "Fehler beim Wiederherstellen";
+            },
           }
         );
       } finally {
@@ -0,0 +1,118 @@
+import "server-only";
+
+import { and, eq, sql } from "drizzle-orm";
+
+import { db } from "../db";
+import {
+  applyVersionRetention,
+  createAreaVersion,
+  pendingChangesCondition,
+} from "../db/area-versions";
+import { areaChanges, areaVersionPolicies, areas } from "../schema/schema";
+import {
+  getAutoSaveReason,
+  isRetentionMode,
+} from "../utils/version-policy";
+import type { Job } from "./types";
+
+const SYSTEM_USER = "auto-version";
+
+/**
+ * Save uncommitted changes of every area whose policy is due, then apply the
+ * retention rules. Each area is handled on its own so one failing area does
+ * not block the others.
+ */
+async function runAutoVersioning(): Promise<string[]> {
+  // Time comparisons happen in the database, timestamps carry no time zone
+  const policies = await db
+    .select({
+      areaId: areaVersionPolicies.areaId,
+      afterChanges: areaVersionPolicies.afterChanges,
+      inactivityMinutes: areaVersionPolicies.inactivityMinutes,
+      dailyAt: areaVersionPolicies.dailyAt,
+      keepAutoSaves: areaVersionPolicies.keepAutoSaves,
+      keepDays: areaVersionPolicies.keepDays,
+      retentionMode: areaVersionPolicies.retentionMode,
+      pendingChanges: sql<number>`(
+        SELECT count(*)::int FROM ${areaChanges}
+        WHERE ${pendingChangesCondition(areaVersionPolicies.areaId)}
+      )`,
+      idleMinutes: sql<number>`coalesce((
+        SELECT extract(epoch FROM localtimestamp - max(${areaChanges.createdAt})) / 60
+        FROM ${areaChanges}
+        WHERE ${pendingChangesCondition(areaVersionPolicies.areaId)}
+      ), 0)::float`,
+      dailyDue: sql<boolean>`coalesce(
+        ${areaVersionPolicies.dailyAt} IS NOT NULL
+        AND localtimestamp >= current_date + ${areaVersionPolicies.dailyAt}::time
+        AND (
+          ${areaVersionPolicies.lastAutoSaveAt} IS NULL
+          OR ${areaVersionPolicies.lastAutoSaveAt} < current_date + ${areaVersionPolicies.dailyAt}::time
+        ),
+        false
+      )`,
+    })
+    .from(areaVersionPolicies)
+    .innerJoin(areas, eq(areas.id, areaVersionPolicies.areaId))
+    .where(
+      and(
+        eq(areaVersionPolicies.enabled, "true"),
+        eq(areas.isArchived, "false")
+      )
+    );
+
+  const tags: string[] = [];
+
+  for (const policy of policies) {
+    try {
+      const reason = getAutoSaveReason(policy, policy);
+      let changed = false;
+
+      if (reason) {
+        await createAreaVersion(
+          policy.areaId,
+          {
+            name: `Auto-save ${new Date().toLocaleString("de-DE")}`,
+            changesSummary: `Auto-saved with ${policy.pendingChanges} changes (${reason})`,
+            isAutoSave: true,
+          },
+          SYSTEM_USER
+        );
+
+        await db
+          .update(areaVersionPolicies)
+          .set({ lastAutoSaveAt: sql`localtimestamp` })
+          .where(eq(areaVersionPolicies.areaId, policy.areaId));
+
+        changed = true;
+      }
+
+      const removed = await applyVersionRetention(policy.areaId, {
+        keepAutoSaves: policy.keepAutoSaves,
+        keepDays: policy.keepDays,
+        retentionMode: isRetentionMode(policy.retentionMode)
+          ? policy.retentionMode
+          : "squash",
+      });
+
+      if (changed || removed > 0) {
+        tags.push(
+          "versions",
+          `area-${policy.areaId}-versions`,
+          `area-${policy.areaId}`,
+          "undo-redo-status"
+        );
+      }
+    } catch (error) {
+      console.error(`Error auto-versioning area ${policy.areaId}:`, error);
+    }
+  }
+
+  return tags;
+}
+
+export const autoVersionJob: Job = {
+  name: "auto-version",
+  intervalMs: 60_000,
+  run: runAutoVersioning,
+};
@@ -0,0 +1,45 @@
+import "server-only";
+
+import { autoVersionJob } from "./auto-version";
+import type { Job, JobRunResult } from "./types";
+
+export type { Job, JobRunResult } from "./types";
+
+const jobs: Job[] = [autoVersionJob];
+
+// Start of the last run per job, in this process
+const lastRuns = new Map<string, number>();
+
+let running: Promise<JobRunResult> | null = null;
+
+async function runJobs(): Promise<JobRunResult> {
+  const result: JobRunResult = { ran: [], failed: [], tags: [] };
+
+  for (const job of jobs) {
+    const now = Date.now();
+    if (now - (lastRuns.get(job.name) ?? 0) < job.intervalMs) continue;
+
+    lastRuns.set(job.name, now);
+    try {
+      result.tags.push(...(await job.run()));
+      result.ran.push(job.name);
+    } catch (error) {
+      console.error(`Error running job ${job.name}:`, error);
+      result.failed.push(job.name);
+    }
+  }
+
+  result.tags = [...new Set(result.tags)];
+  return result;
+}
+
+/**
+ * Run every job whose interval has elapsed. Overlapping calls share the
+ * running pass instead of starting jobs twice.
+ */
+export function runDueJobs(): Promise<JobRunResult> {
+  running ??= runJobs().finally(() => {
+    running = null;
+  });
+  return running;
+}
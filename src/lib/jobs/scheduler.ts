@@ -0,0 +1,40 @@
+import { randomUUID } from "node:crypto";
+
+const TICK_INTERVAL_MS = 60_000;
+
+/**
+ * Trigger the job route once a minute from inside the server process, so
+ * background jobs run without an external scheduler. Jobs run through the
+ * route rather than directly because cache tags can only be invalidated
+ * within a request.
+ *
+ * JOB_RUNNER=off disables the timer, e.g. when a cron job calls the route
+ * with JOB_RUNNER_SECRET instead. JOB_RUNNER_URL overrides the server's own
+ * address.
+ */
+export function startJobScheduler() {
+  if (process.env.JOB_RUNNER === "off") return;
+
+  // Only known to this process unless configured
+  process.env.JOB_RUNNER_SECRET ??= randomUUID();
+  const secret = process.env.JOB_RUNNER_SECRET;
+  const baseUrl =
+    process.env.JOB_RUNNER_URL ??
+    `http://127.0.0.1:${process.env.PORT ?? "3000"}`;
+
+  const tick = async () => {
+    try {
+      const response = await fetch(`${baseUrl}/api/jobs/run`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${secret}` },
+      });
+      if (!response.ok) {
+        console.error(`Job run failed with status ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error triggering jobs:", error);
+    }
+  };
+
+  setInterval(() => void tick(), TICK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,13 @@
+export interface Job {
+  name: string;
+  // Minimum time between two runs
+  intervalMs: number;
+  // Returns the cache tags to invalidate afterwards
+  run(): Promise<string[]>;
+}
+
+export interface JobRunResult {
+  ran: string[];
+  failed: string[];
+  tags: string[];
+}
@@ -0,0 +1,34 @@
+import circle from "@turf/circle";
+
+import type { GeoJSONPolygon } from "../../db/geoTypes";
+import type { Isochrone, IsochroneRequest, RoutingBackend } from "./types";
+
+// Average door-to-door speed and ratio of road distance to straight-line distance
+const AVERAGE_SPEED_KMH = 60;
+const DETOUR_FACTOR = 1.3;
+
+/**
+ * Local stand-in for environments without a road network: concentric circles
+ * sized by an average speed corrected for detours. Ignores rivers and
+ * motorways, so only use it for development.
+ */
+export const estimateBackend: RoutingBackend = {
+  name: "estimate",
+
+  async getIsochrones({
+    longitude,
+    latitude,
+    bands,
+  }: IsochroneRequest): Promise<Isochrone[]> {
+    return bands.map((minutes) => {
+      const radiusKm = ((minutes / 60) * AVERAGE_SPEED_KMH) / DETOUR_FACTOR;
+      return {
+        minutes,
+        geometry: circle([longitude, latitude], radiusKm, {
+          steps: 64,
+          units: "kilometers",
+        }).geometry as GeoJSONPolygon,
+      };
+    });
+  },
+};
@@ -0,0 +1,28 @@
+import "server-only";
+
+import { estimateBackend } from "./estimate-backend";
+import { pgRoutingBackend } from "./pgrouting-backend";
+import type { RoutingBackend } from "./types";
+import { valhallaBackend } from "./valhalla-backend";
+
+export type { Isochrone, IsochroneRequest, RoutingBackend } from "./types";
+export { getIsochroneBands } from "./road-speeds";
+
+const backends: Record<string, RoutingBackend> = {
+  [pgRoutingBackend.name]: pgRoutingBackend,
+  [valhallaBackend.name]: valhallaBackend,
+  [estimateBackend.name]: estimateBackend,
+};
+
+/**
+ * Resolve the routing backend from ROUTING_BACKEND ("pgrouting", "valhalla"
+ * or "estimate"). Defaults to the local road network.
+ */
+export function getRoutingBackend(): RoutingBackend {
+  const name = process.env.ROUTING_BACKEND ?? pgRoutingBackend.name;
+  const backend = backends[name];
+  if (!backend) {
+    throw new Error(`Unknown routing backend: ${name}`);
+  }
+  return backend;
+}
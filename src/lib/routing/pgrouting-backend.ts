@@ -0,0 +1,104 @@
+import "server-only";
+
+import { sql } from "drizzle-orm";
+
+import { db } from "../db";
+import type { GeoJSONMultiPolygon, GeoJSONPolygon } from "../../db/geoTypes";
+import type { Isochrone, IsochroneRequest, RoutingBackend } from "./types";
+
+// Fastest road speed in the graph; bounds the edge query so pgr_drivingDistance
+// never loads the whole network
+const MAX_SPEED_KMH = 130;
+
+// Vertices only sit on roads; widen the hull so adjacent land is included
+const HULL_BUFFER_METERS = 750;
+
+const HULL_CONCAVITY = 0.3;
+
+/**
+ * Drive-time isochrones computed with pgRouting on the `road_segments` graph.
+ * Requires the pgrouting extension and a network built by
+ * scripts/build-road-network.ts.
+ */
+export const pgRoutingBackend: RoutingBackend = {
+  name: "pgrouting",
+
+  async getIsochrones({
+    longitude,
+    latitude,
+    maxMinutes,
+    bands,
+  }: IsochroneRequest): Promise<Isochrone[]> {
+    const maxSeconds = maxMinutes * 60;
+    const reachDegrees = ((maxMinutes / 60) * MAX_SPEED_KMH) / 111;
+    const lngDegrees = reachDegrees / Math.cos((latitude * Math.PI) / 180);
+
+    // pgr_drivingDistance takes the edge query as text, so it cannot be parameterized
+    const edgesQuery = `
+      SELECT id, source, target, cost, reverse_cost
+      FROM road_segments
+      WHERE source IS NOT NULL
+      AND geometry && ST_Expand(
+        ST_SetSRID(ST_MakePoint(${Number(longitude)}, ${Number(latitude)}), 4326),
+        ${lngDegrees},
+        ${reachDegrees}
+      )
+    `;
+
+    const { rows } = await db.execute(
+      sql`
+        WITH origin AS (
+          SELECT ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326) AS geom
+        ),
+        start_vertex AS (
+          SELECT r.source AS id
+          FROM road_segments r, origin o
+          WHERE r.source IS NOT NULL
+          ORDER BY r.geometry <-> o.geom
+          LIMIT 1
+        ),
+        reached AS (
+          SELECT dd.node, dd.agg_cost
+          FROM start_vertex s,
+          LATERAL pgr_drivingDistance(${edgesQuery}, s.id, ${maxSeconds}, directed => true) dd
+        ),
+        vertices AS (
+          SELECT DISTINCT ON (v.node) v.node, v.agg_cost, v.geom
+          FROM (
+            SELECT r.node, r.agg_cost, ST_StartPoint(s.geometry) AS geom
+            FROM reached r JOIN road_segments s ON s.source = r.node
+            UNION ALL
+            SELECT r.node, r.agg_cost, ST_EndPoint(s.geometry) AS geom
+            FROM reached r JOIN road_segments s ON s.target = r.node
+          ) v
+        ),
+        bands AS (
+          SELECT unnest(ARRAY[${sql.join(
+            bands.map((minutes) => sql`${minutes}`),
+            sql`, `
+          )}]::int[]) AS minutes
+        )
+        SELECT
+          b.minutes,
+          ST_AsGeoJSON(
+            ST_Buffer(
+              ST_ConcaveHull(ST_Collect(v.geom), ${HULL_CONCAVITY})::geography,
+              ${HULL_BUFFER_METERS}
+            )::geometry
+          ) AS geometry
+        FROM bands b
+        JOIN vertices v ON v.agg_cost <= b.minutes * 60
+        GROUP BY b.minutes
+        ORDER BY b.minutes
+      `
+    );
+
+    return rows.map((row) => {
+      const { minutes, geometry } = row as { minutes: number; geometry: string };
+      return {
+        minutes: Number(minutes),
+        geometry: JSON.parse(geometry) as GeoJSONPolygon | GeoJSONMultiPolygon,
+      };
+    });
+  },
+};
@@ -0,0 +1,32 @@
+// Assumed driving speeds (km/h) per OSM highway class for the road network graph.
+// Classes not listed here are not routable by car and are skipped on import.
+export const ROAD_SPEEDS_KMH: Record<string, number> = {
+  motorway: 120,
+  motorway_link: 60,
+  trunk: 90,
+  trunk_link: 50,
+  primary: 70,
+  primary_link: 40,
+  secondary: 60,
+  secondary_link: 40,
+  tertiary: 50,
+  tertiary_link: 30,
+  unclassified: 40,
+  residential: 30,
+  living_street: 10,
+  service: 15,
+};
+
+/**
+ * Split the 0..maxMinutes range into at most `maxBands` thresholds, each a
+ * multiple of 5 minutes, always ending at maxMinutes.
+ */
+export function getIsochroneBands(maxMinutes: number, maxBands = 12): number[] {
+  const step = Math.max(5, Math.ceil(maxMinutes / maxBands / 5) * 5);
+  const bands: number[] = [];
+  for (let minutes = step; minutes < maxMinutes; minutes += step) {
+    bands.push(minutes);
+  }
+  bands.push(maxMinutes);
+  return bands;
+}
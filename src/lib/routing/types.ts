@@ -0,0 +1,26 @@
+import type { GeoJSONMultiPolygon, GeoJSONPolygon } from "../../db/geoTypes";
+
+export interface IsochroneRequest {
+  longitude: number;
+  latitude: number;
+  /** Upper bound of the reachable area in minutes */
+  maxMinutes: number;
+  /** Travel time thresholds (ascending, in minutes) to compute polygons for */
+  bands: number[];
+}
+
+export interface Isochrone {
+  /** Area reachable within this many minutes */
+  minutes: number;
+  geometry: GeoJSONPolygon | GeoJSONMultiPolygon;
+}
+
+/**
+ * A routing backend turns a start point and travel time thresholds into
+ * reachable-area polygons. Implementations must return one isochrone per
+ * reachable band, ordered by ascending minutes.
+ */
+export interface RoutingBackend {
+  readonly name: string;
+  getIsochrones(request: IsochroneRequest): Promise<Isochrone[]>;
+}
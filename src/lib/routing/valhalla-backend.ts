@@ -0,0 +1,73 @@
+import "server-only";
+
+import type { GeoJSONPolygon } from "../../db/geoTypes";
+import type { Isochrone, IsochroneRequest, RoutingBackend } from "./types";
+
+// Valhalla rejects requests with more contours than this
+const MAX_CONTOURS = 4;
+
+interface ValhallaIsochroneResponse {
+  features: Array<{
+    properties: { contour: number };
+    geometry: GeoJSONPolygon;
+  }>;
+}
+
+/**
+ * Keep the last band and spread the remaining contours evenly over the rest.
+ */
+function pickContours(bands: number[]): number[] {
+  if (bands.length <= MAX_CONTOURS) {
+    return bands;
+  }
+  const step = bands.length / MAX_CONTOURS;
+  return Array.from(
+    { length: MAX_CONTOURS },
+    (_, i) => bands[Math.round(step * (i + 1)) - 1]
+  );
+}
+
+/**
+ * Drive-time isochrones from a self-hosted Valhalla instance (VALHALLA_URL).
+ */
+export const valhallaBackend: RoutingBackend = {
+  name: "valhalla",
+
+  async getIsochrones({
+    longitude,
+    latitude,
+    bands,
+  }: IsochroneRequest): Promise<Isochrone[]> {
+    const baseUrl = process.env.VALHALLA_URL;
+    if (!baseUrl) {
+      throw new Error("VALHALLA_URL is not configured");
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/isochrone`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "KRAUSS Territory Management/1.0",
+      },
+      body: JSON.stringify({
+        locations: [{ lat: latitude, lon: longitude }],
+        costing: "auto",
+        contours: pickContours(bands).map((time) => ({ time })),
+        polygons: true,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Routing service unavailable (${response.status})`);
+    }
+
+    const result = (await response.json()) as ValhallaIsochroneResponse;
+
+    return result.features
+      .map((feature) => ({
+        minutes: feature.properties.contour,
+        geometry: feature.geometry,
+      }))
+      .sort((a, b) => a.minutes - b.minutes);
+  },
+};
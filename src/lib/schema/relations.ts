@@ -2,20 +2,36 @@ import { relations } from "drizzle-orm";
 import {
   areas,
   areaVersions,
+  areaVersionPolicies,
   areaLayers,
   areaLayerPostalCodes,
   areaChanges,
-  areaUndoStacks
+  areaUndoStacks,
+  users,
+  userSessions,
+  areaMembers,
+  people,
+  layerPeople,
+  pointDatasets,
+  dataPoints,
+  geocodeJobs,
+  geocodeJobItems
 } from "./schema";
 
 export const areasRelations = relations(areas, ({ many, one }) => ({
   versions: many(areaVersions),
   layers: many(areaLayers),
   changes: many(areaChanges),
+  members: many(areaMembers),
+  pointDatasets: many(pointDatasets),
   undoStack: one(areaUndoStacks, {
     fields: [areas.id],
     references: [areaUndoStacks.areaId],
   }),
+  versionPolicy: one(areaVersionPolicies, {
+    fields: [areas.id],
+    references: [areaVersionPolicies.areaId],
+  }),
   // currentVersion relation removed due to composite primary key
 }));
 
@@ -35,12 +51,23 @@ export const areaVersionsRelations = relations(areaVersions, ({ one, many }) =>
   changes: many(areaChanges),
 }));
 
+export const areaVersionPoliciesRelations = relations(
+  areaVersionPolicies,
+  ({ one }) => ({
+    area: one(areas, {
+      fields: [areaVersionPolicies.areaId],
+      references: [areas.id],
+    }),
+  })
+);
+
 export const areaLayersRelations = relations(areaLayers, ({ one, many }) => ({
   area: one(areas, {
     fields: [areaLayers.areaId],
     references: [areas.id],
   }),
   postalCodes: many(areaLayerPostalCodes),
+  people: many(layerPeople),
 }));
 
 export const areaLayerPostalCodesRelations = relations(
@@ -70,3 +97,75 @@ export const areaUndoStacksRelations = relations(areaUndoStacks, ({ one }) => ({
     references: [areas.id],
   }),
 }));
+
+export const usersRelations = relations(users, ({ many }) => ({
+  sessions: many(userSessions),
+  areaMemberships: many(areaMembers),
+}));
+
+export const userSessionsRelations = relations(userSessions, ({ one }) => ({
+  user: one(users, {
+    fields: [userSessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const areaMembersRelations = relations(areaMembers, ({ one }) => ({
+  area: one(areas, {
+    fields: [areaMembers.areaId],
+    references: [areas.id],
+  }),
+  user: one(users, {
+    fields: [areaMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const peopleRelations = relations(people, ({ many }) => ({
+  layers: many(layerPeople),
+}));
+
+export const layerPeopleRelations = relations(layerPeople, ({ one }) => ({
+  layer: one(areaLayers, {
+    fields: [layerPeople.layerId],
+    references: [areaLayers.id],
+  }),
+  person: one(people, {
+    fields: [layerPeople.personId],
+    references: [people.id],
+  }),
+}));
+
+export const pointDatasetsRelations = relations(pointDatasets, ({ one, many }) => ({
+  area: one(areas, {
+    fields: [pointDatasets.areaId],
+    references: [areas.id],
+  }),
+  points: many(dataPoints),
+  geocodeJobs: many(geocodeJobs),
+}));
+
+export const dataPointsRelations = relations(dataPoints, ({ one }) => ({
+  dataset: one(pointDatasets, {
+    fields: [dataPoints.datasetId],
+    references: [pointDatasets.id],
+  }),
+}));
+
+export const geocodeJobsRelations = relations(geocodeJobs, ({ one, many }) => ({
+  dataset: one(pointDatasets, {
+    fields: [geocodeJobs.datasetId],
+    references: [pointDatasets.id],
+  }),
+  items: many(geocodeJobItems),
+}));
+
+export const geocodeJobItemsRelations = relations(
+  geocodeJobItems,
+  ({ one }) => ({
+    job: one(geocodeJobs, {
+      fields: [geocodeJobItems.jobId],
+      references: [geocodeJobs.id],
+    }),
+  })
+);
@@ -1,4 +1,6 @@
 import {
+  bigint,
+  doublePrecision,
   foreignKey,
   index,
   integer,
@@ -11,7 +13,7 @@ import {
   varchar,
 } from "drizzle-orm/pg-core";
 
-import { multiPolygon } from "../../db/geoTypes";
+import { lineString, multiPolygon, point } from "../../db/geoTypes";
 
 export const performanceMetrics = pgTable(
   "performance_metrics",
@@ -249,6 +251,213 @@ export const states = pgTable(
   ],
 );
 
+// User accounts and login sessions
+
+export const users = pgTable(
+  "users",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    email: varchar({ length: 255 }).notNull(),
+
+    name: varchar({ length: 255 }).notNull(),
+
+    passwordHash: text("password_hash"), // Null for accounts that only sign in via an external provider
+
+    authProvider: varchar("auth_provider", { length: 50 }).notNull().default("local"), // "local" or an OIDC provider id
+
+    providerSubject: varchar("provider_subject", { length: 255 }), // "sub" claim of the external provider
+
+    isActive: varchar("is_active", { length: 5 }).notNull().default("true"),
+
+    lastLoginAt: timestamp("last_login_at", { mode: "string" }),
+
+    createdAt: timestamp("created_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+
+    updatedAt: timestamp("updated_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => [
+    unique("users_email_unique").on(table.email),
+
+    unique("users_provider_subject_unique").on(
+      table.authProvider,
+
+      table.providerSubject,
+    ),
+  ],
+);
+
+export const userSessions = pgTable(
+  "user_sessions",
+
+  {
+    id: varchar({ length: 64 }).primaryKey().notNull(), // SHA-256 of the session token; the token itself only lives in the cookie
+
+    userId: integer("user_id").notNull(),
+
+    userAgent: text("user_agent"),
+
+    expiresAt: timestamp("expires_at", { mode: "string" }).notNull(),
+
+    createdAt: timestamp("created_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => [
+    index("idx_user_sessions_user_id").using(
+      "btree",
+
+      table.userId.asc().nullsLast().op("int4_ops"),
+    ),
+
+    index("idx_user_sessions_expires_at").using(
+      "btree",
+
+      table.expiresAt.asc().nullsLast().op("timestamp_ops"),
+    ),
+  ],
+);
+
+export const areaMembers = pgTable(
+  "area_members",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    areaId: integer("area_id").notNull(),
+
+    userId: integer("user_id").notNull(),
+
+    role: varchar({ length: 20 }).notNull().default("viewer"), // "viewer", "editor" or "owner"
+
+    createdAt: timestamp("created_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+
+    updatedAt: timestamp("updated_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => [
+    unique("area_members_area_user_unique").on(table.areaId, table.userId),
+
+    index("idx_area_members_user_id").using(
+      "btree",
+
+      table.userId.asc().nullsLast().op("int4_ops"),
+    ),
+  ],
+);
+
+// Numeric attributes per postal code (population, purchasing power, ...)
+// used to balance territories; imported from CSV/XLSX
+
+export const postalCodeMetrics = pgTable(
+  "postal_code_metrics",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    code: varchar({ length: 10 }).notNull(),
+
+    granularity: varchar({ length: 20 }).notNull(),
+
+    metric: varchar({ length: 100 }).notNull(),
+
+    value: doublePrecision().notNull(),
+
+    createdAt: timestamp("created_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+
+    updatedAt: timestamp("updated_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => [
+    unique("postal_code_metrics_granularity_code_metric_unique").on(
+      table.granularity,
+      table.code,
+      table.metric,
+    ),
+
+    index("idx_postal_code_metrics_granularity_metric").using(
+      "btree",
+
+      table.granularity.asc().nullsLast().op("text_ops"),
+
+      table.metric.asc().nullsLast().op("text_ops"),
+    ),
+  ],
+);
+
+// Routable road network built from a local OSM extract (see scripts/build-road-network.ts)
+
+export const roadSegments = pgTable(
+  "road_segments",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    osmId: bigint("osm_id", { mode: "number" }),
+
+    highway: varchar({ length: 50 }).notNull(),
+
+    source: integer(), // Start vertex, assigned by pgr_createTopology
+
+    target: integer(), // End vertex, assigned by pgr_createTopology
+
+    cost: doublePrecision().notNull(), // Travel time in seconds along the geometry
+
+    reverseCost: doublePrecision("reverse_cost").notNull(), // Negative for one-way segments
+
+    geometry: lineString("geometry").notNull(),
+  },
+
+  (table) => [
+    index("idx_road_segments_geometry").using(
+      "gist",
+
+      table.geometry.asc().nullsLast().op("gist_geometry_ops_2d"),
+    ),
+
+    index("idx_road_segments_source").using(
+      "btree",
+
+      table.source.asc().nullsLast().op("int4_ops"),
+    ),
+
+    index("idx_road_segments_target").using(
+      "btree",
+
+      table.target.asc().nullsLast().op("int4_ops"),
+    ),
+  ],
+);
+
 // Area management tables for versioning and multi-layer support
 
 export const areas = pgTable(
@@ -271,6 +480,18 @@ export const areas = pgTable(
 
     currentVersionNumber: integer("current_version_number"), // Current active version number for this area
 
+    conflictPolicy: varchar("conflict_policy", { length: 20 })
+
+      .notNull()
+
+      .default("allow"), // allow | move | reject for codes already in another layer
+
+    isTemplate: varchar("is_template", { length: 5 })
+
+      .notNull()
+
+      .default("false"), // Offered as starting point when creating areas
+
     createdAt: timestamp("created_at", { mode: "string" })
 
       .defaultNow()
@@ -337,6 +558,8 @@ export const areaVersions = pgTable(
 
     changeCount: integer("change_count").notNull().default(0), // Number of changes in this version
 
+    isAutoSave: varchar("is_auto_save", { length: 5 }).notNull().default("false"), // Created by an auto-version policy, subject to retention
+
     createdBy: varchar("created_by", { length: 255 }),
 
     createdAt: timestamp("created_at", { mode: "string" })
@@ -379,6 +602,56 @@ export const areaVersions = pgTable(
   ],
 );
 
+// Per-area auto-versioning, run by the background job runner (src/lib/jobs)
+
+export const areaVersionPolicies = pgTable(
+  "area_version_policies",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    areaId: integer("area_id").notNull(),
+
+    enabled: varchar({ length: 5 }).notNull().default("true"),
+
+    afterChanges: integer("after_changes"), // Save once this many uncommitted changes piled up
+
+    inactivityMinutes: integer("inactivity_minutes"), // Save when the last change is this old
+
+    dailyAt: varchar("daily_at", { length: 5 }), // "HH:MM" server time, save once a day from then on
+
+    keepAutoSaves: integer("keep_auto_saves"), // Retention: newest auto-saves always kept
+
+    keepDays: integer("keep_days"), // Retention: auto-saves younger than this always kept
+
+    retentionMode: varchar("retention_mode", { length: 10 })
+
+      .notNull()
+
+      .default("squash"), // prune (drop with their changes) | squash (fold into the next version)
+
+    lastAutoSaveAt: timestamp("last_auto_save_at", { mode: "string" }),
+
+    updatedBy: varchar("updated_by", { length: 255 }),
+
+    createdAt: timestamp("created_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+
+    updatedAt: timestamp("updated_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => [
+    unique("area_version_policies_area_id_unique").on(table.areaId),
+  ],
+);
+
 export const areaLayers = pgTable(
   "area_layers",
 
@@ -397,6 +670,8 @@ export const areaLayers = pgTable(
 
     orderIndex: integer("order_index").notNull().default(0), // For layer ordering
 
+    parentLayerId: integer("parent_layer_id"), // Parent in the layer hierarchy, null for top-level layers
+
     createdAt: timestamp("created_at", { mode: "string" })
 
       .defaultNow()
@@ -424,6 +699,12 @@ export const areaLayers = pgTable(
 
       table.orderIndex.asc().nullsLast().op("int4_ops"),
     ),
+
+    index("idx_area_layers_parent").using(
+      "btree",
+
+      table.parentLayerId.asc().nullsLast().op("int4_ops"),
+    ),
   ],
 );
 
@@ -465,6 +746,244 @@ export const areaLayerPostalCodes = pgTable(
   ],
 );
 
+// People directory, e.g. sales reps who own layers
+
+export const people = pgTable(
+  "people",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    name: varchar({ length: 255 }).notNull(),
+
+    email: varchar({ length: 255 }),
+
+    phone: varchar({ length: 50 }),
+
+    address: text(), // Home address as entered
+
+    location: point("location"), // Geocoded home address, null if geocoding failed
+
+    createdAt: timestamp("created_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+
+    updatedAt: timestamp("updated_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => [
+    index("idx_people_name").using(
+      "btree",
+
+      table.name.asc().nullsLast().op("text_ops"),
+    ),
+
+    index("idx_people_location").using(
+      "gist",
+
+      table.location.asc().nullsLast().op("gist_geometry_ops_2d"),
+    ),
+  ],
+);
+
+// People assigned to a layer
+
+export const layerPeople = pgTable(
+  "layer_people",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    layerId: integer("layer_id").notNull(),
+
+    personId: integer("person_id").notNull(),
+
+    role: varchar({ length: 20 }).notNull().default("primary"), // "primary" or "backup"
+
+    createdAt: timestamp("created_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => [
+    index("idx_layer_people_layer_id").using(
+      "btree",
+
+      table.layerId.asc().nullsLast().op("int4_ops"),
+    ),
+
+    index("idx_layer_people_person_id").using(
+      "btree",
+
+      table.personId.asc().nullsLast().op("int4_ops"),
+    ),
+
+    unique("layer_people_layer_id_person_id_unique").on(
+      table.layerId,
+
+      table.personId,
+    ),
+  ],
+);
+
+// Imported point datasets, e.g. customer or branch locations
+
+export const pointDatasets = pgTable(
+  "point_datasets",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    // Area the dataset was imported into; null for datasets from before
+    // datasets were scoped, which every area shows and only admins manage
+    areaId: integer("area_id"),
+
+    name: varchar({ length: 255 }).notNull(),
+
+    color: varchar({ length: 20 }).notNull().default("#0f172a"), // Marker color
+
+    createdAt: timestamp("created_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+
+    updatedAt: timestamp("updated_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => [
+    index("idx_point_datasets_area_id").using(
+      "btree",
+
+      table.areaId.asc().nullsLast().op("int4_ops"),
+    ),
+  ],
+);
+
+export const dataPoints = pgTable(
+  "data_points",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    datasetId: integer("dataset_id").notNull(),
+
+    name: varchar({ length: 255 }),
+
+    address: text(),
+
+    location: point("location").notNull(),
+
+    properties: jsonb(), // Remaining columns of the imported row
+
+    createdAt: timestamp("created_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => [
+    index("idx_data_points_dataset_id").using(
+      "btree",
+
+      table.datasetId.asc().nullsLast().op("int4_ops"),
+    ),
+
+    index("idx_data_points_location").using(
+      "gist",
+
+      table.location.asc().nullsLast().op("gist_geometry_ops_2d"),
+    ),
+  ],
+);
+
+// Persistent queue for geocoding the address rows of a point dataset import
+
+export const geocodeJobs = pgTable(
+  "geocode_jobs",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    datasetId: integer("dataset_id").notNull(),
+
+    status: varchar({ length: 20 }).notNull().default("pending"), // pending, running, completed, cancelled
+
+    total: integer().notNull(),
+
+    processed: integer().notNull().default(0),
+
+    failed: integer().notNull().default(0),
+
+    error: text(), // Last provider error, kept for display
+
+    createdBy: integer("created_by"),
+
+    createdAt: timestamp("created_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+
+    updatedAt: timestamp("updated_at", { mode: "string" })
+
+      .defaultNow()
+
+      .notNull(),
+  },
+
+  (table) => [
+    index("idx_geocode_jobs_status").using(
+      "btree",
+
+      table.status.asc().nullsLast().op("text_ops"),
+    ),
+  ],
+);
+
+export const geocodeJobItems = pgTable(
+  "geocode_job_items",
+
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity().notNull(),
+
+    jobId: integer("job_id").notNull(),
+
+    name: varchar({ length: 255 }),
+
+    address: text().notNull(),
+
+    properties: jsonb(),
+
+    status: varchar({ length: 20 }).notNull().default("pending"), // pending, done, failed
+
+    attempts: integer().notNull().default(0),
+  },
+
+  (table) => [
+    index("idx_geocode_job_items_job_status").using(
+      "btree",
+
+      table.jobId.asc().nullsLast().op("int4_ops"),
+
+      table.status.asc().nullsLast().op("text_ops"),
+    ),
+  ],
+);
+
 // Change tracking table for event sourcing and undo/redo
 
 export const areaChanges = pgTable(
@@ -483,7 +1002,7 @@ export const areaChanges = pgTable(
 
     sequenceNumber: integer("sequence_number").notNull().default(0), // Part of composite PK - auto-generated by trigger scoped to (areaId, versionAreaId, versionNumber) (trigger overrides default)
 
-    changeType: varchar("change_type", { length: 50 }).notNull(), // create_layer, update_layer, delete_layer, add_postal_codes, remove_postal_codes, etc.
+    changeType: varchar("change_type", { length: 50 }).notNull(), // create_layer, update_layer, delete_layer, add_postal_codes, remove_postal_codes, change_granularity, etc.
 
     entityType: varchar("entity_type", { length: 50 }).notNull(), // area, layer, postal_code
 
@@ -495,6 +1014,10 @@ export const areaChanges = pgTable(
 
     isUndone: varchar("is_undone", { length: 5 }).notNull().default("false"), // Track if change was undone
 
+    groupId: varchar("group_id", { length: 36 }), // Changes of one user action, undone together
+
+    groupLabel: varchar("group_label", { length: 255 }), // e.g. "Import sample-import.csv (12 Layer, 340 PLZ)"
+
     createdBy: varchar("created_by", { length: 255 }),
 
     createdAt: timestamp("created_at", { mode: "string" })
@@ -523,6 +1046,12 @@ export const areaChanges = pgTable(
       table.createdAt.asc().nullsLast().op("timestamp_ops"),
     ),
 
+    index("idx_area_changes_group_id").using(
+      "btree",
+
+      table.groupId.asc().nullsLast().op("text_ops"),
+    ),
+
     index("idx_area_changes_entity").using(
       "btree",
 
@@ -563,9 +1092,9 @@ export const areaUndoStacks = pgTable(
 
     areaId: integer("area_id").notNull(),
 
-    undoStack: jsonb("undo_stack").notNull().default([]), // Array of ChangeKey objects that can be undone
+    undoStack: jsonb("undo_stack").notNull().default([]), // Array of ChangeKey objects or change groups that can be undone
 
-    redoStack: jsonb("redo_stack").notNull().default([]), // Array of ChangeKey objects that can be redone
+    redoStack: jsonb("redo_stack").notNull().default([]), // Array of ChangeKey objects or change groups that can be redone
 
     updatedAt: timestamp("updated_at", { mode: "string" })
 
@@ -607,6 +1136,26 @@ export type SelectStates = typeof states.$inferSelect;
 
 export type InsertStates = typeof states.$inferInsert;
 
+export type SelectUsers = typeof users.$inferSelect;
+
+export type InsertUsers = typeof users.$inferInsert;
+
+export type SelectUserSessions = typeof userSessions.$inferSelect;
+
+export type InsertUserSessions = typeof userSessions.$inferInsert;
+
+export type SelectAreaMembers = typeof areaMembers.$inferSelect;
+
+export type InsertAreaMembers = typeof areaMembers.$inferInsert;
+
+export type SelectPostalCodeMetrics = typeof postalCodeMetrics.$inferSelect;
+
+export type InsertPostalCodeMetrics = typeof postalCodeMetrics.$inferInsert;
+
+export type SelectRoadSegments = typeof roadSegments.$inferSelect;
+
+export type InsertRoadSegments = typeof roadSegments.$inferInsert;
+
 export type SelectAreas = typeof areas.$inferSelect;
 
 export type InsertAreas = typeof areas.$inferInsert;
@@ -615,6 +1164,12 @@ export type SelectAreaVersions = typeof areaVersions.$inferSelect;
 
 export type InsertAreaVersions = typeof areaVersions.$inferInsert;
 
+export type SelectAreaVersionPolicies =
+  typeof areaVersionPolicies.$inferSelect;
+
+export type InsertAreaVersionPolicies =
+  typeof areaVersionPolicies.$inferInsert;
+
 export type SelectAreaLayers = typeof areaLayers.$inferSelect;
 
 export type InsertAreaLayers = typeof areaLayers.$inferInsert;
@@ -625,6 +1180,30 @@ export type SelectAreaLayerPostalCodes =
 export type InsertAreaLayerPostalCodes =
   typeof areaLayerPostalCodes.$inferInsert;
 
+export type SelectPeople = typeof people.$inferSelect;
+
+export type InsertPeople = typeof people.$inferInsert;
+
+export type SelectLayerPeople = typeof layerPeople.$inferSelect;
+
+export type InsertLayerPeople = typeof layerPeople.$inferInsert;
+
+export type SelectPointDatasets = typeof pointDatasets.$inferSelect;
+
+export type InsertPointDatasets = typeof pointDatasets.$inferInsert;
+
+export type SelectDataPoints = typeof dataPoints.$inferSelect;
+
+export type InsertDataPoints = typeof dataPoints.$inferInsert;
+
+export type SelectGeocodeJobs = typeof geocodeJobs.$inferSelect;
+
+export type InsertGeocodeJobs = typeof geocodeJobs.$inferInsert;
+
+export type SelectGeocodeJobItems = typeof geocodeJobItems.$inferSelect;
+
+export type InsertGeocodeJobItems = typeof geocodeJobItems.$inferInsert;
+
 export type SelectAreaChanges = typeof areaChanges.$inferSelect;
 
 export type InsertAreaChanges = typeof areaChanges.$inferInsert;
@@ -0,0 +1,150 @@
+// Browser side of the telemetry: collects errors and timings and sends them
+// in batches to /api/telemetry. Reporting never throws and never shows
+// anything to the user.
+
+import {
+  limitDetails,
+  MAX_MESSAGE_LENGTH,
+  MAX_REPORTS_PER_BATCH,
+  MAX_STACK_LENGTH,
+  MAX_URL_LENGTH,
+  type ErrorCode,
+  type ErrorReport,
+  type MetricReport,
+  type MetricType,
+} from "@/lib/utils/telemetry";
+
+const ENDPOINT = "/api/telemetry";
+const FLUSH_DELAY_MS = 5000;
+
+let errors: ErrorReport[] = [];
+let metrics: MetricReport[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+// Set once TelemetryReporter mounts. Only signed-in pages mount it, anywhere
+// else the ingestion route would answer 401, so nothing is reported there.
+let handlersInstalled = false;
+
+// A crashing render loop would otherwise report the same error many times
+const reportedErrors = new Set<string>();
+
+function send(useBeacon: boolean) {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (errors.length === 0 && metrics.length === 0) return;
+
+  const body = JSON.stringify({ errors, metrics });
+  errors = [];
+  metrics = [];
+
+  // sendBeacon survives the page being closed, fetch does not
+  if (useBeacon && navigator.sendBeacon) {
+    navigator.sendBeacon(
+      ENDPOINT,
+      new Blob([body], { type: "application/json" })
+    );
+    return;
+  }
+
+  fetch(ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: true,
+  }).catch(() => {
+    // Telemetry is best effort
+  });
+}
+
+function enqueue() {
+  if (errors.length + metrics.length >= MAX_REPORTS_PER_BATCH) {
+    send(false);
+    return;
+  }
+  flushTimer ??= setTimeout(() => send(false), FLUSH_DELAY_MS);
+}
+
+export function reportError(
+  error: unknown,
+  code: ErrorCode,
+  context?: Record<string, unknown>
+) {
+  if (typeof window === "undefined" || !handlersInstalled) return;
+
+  const message = (
+    error instanceof Error ? error.message : String(error)
+  ).slice(0, MAX_MESSAGE_LENGTH);
+  const stack =
+    error instanceof Error
+      ? error.stack?.slice(0, MAX_STACK_LENGTH)
+      : undefined;
+
+  const key = `${code}:${message}:${stack?.split("\n")[1] ?? ""}`;
+  if (reportedErrors.has(key)) return;
+  reportedErrors.add(key);
+
+  errors.push({
+    code,
+    message,
+    stack,
+    context: limitDetails(context),
+    url: (window.location.pathname + window.location.search).slice(
+      0,
+      MAX_URL_LENGTH
+    ),
+  });
+  enqueue();
+}
+
+/**
+ * For server actions that returned `success: false` or threw
+ */
+export function reportActionFailure(
+  action: string,
+  error: unknown,
+  context?: Record<string, unknown>
+) {
+  reportError(error, "server_action", { action, ...context });
+}
+
+export function reportMetric(
+  component: string,
+  type: MetricType,
+  valueMs: number,
+  metadata?: Record<string, unknown>
+) {
+  if (typeof window === "undefined" || !handlersInstalled) return;
+  if (!Number.isFinite(valueMs) || valueMs < 0) return;
+
+  metrics.push({
+    component,
+    type,
+    valueMs: Math.round(valueMs),
+    metadata: limitDetails(metadata),
+  });
+  enqueue();
+}
+
+/**
+ * Reports uncaught errors and rejections and flushes when the page is
+ * hidden. Safe to call more than once.
+ */
+export function installTelemetryHandlers() {
+  if (typeof window === "undefined" || handlersInstalled) return;
+  handlersInstalled = true;
+
+  window.addEventListener("error", (event) => {
+    reportError(event.error ?? event.message, "unhandled", {
+      source: event.filename,
+      line: event.lineno,
+    });
+  });
+  window.addEventListener("unhandledrejection", (event) => {
+    reportError(event.reason, "unhandled", { source: "unhandledrejection" });
+  });
+  window.addEventListener("pagehide", () => send(true));
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") send(true);
+  });
+}
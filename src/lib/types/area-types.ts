@@ -1,7 +1,13 @@
 import type { InferSelectModel } from "drizzle-orm";
 import type { areas, areaLayers, areaLayerPostalCodes } from "../schema/schema";
+import type { AreaRole } from "../auth/roles";
+import type { LayerPersonAssignment } from "../utils/layer-people";
 
 export type Area = InferSelectModel<typeof areas>;
+
+export type AreaWithRole = Area & {
+  role: AreaRole;
+};
 export type Layer = InferSelectModel<typeof areaLayers> & {
   postalCodes?: { postalCode: string }[];
 };
@@ -11,6 +17,9 @@ export type AreaWithLayers = Area & {
 };
 export type PostalCodeEntry = InferSelectModel<typeof areaLayerPostalCodes>;
 
+// How the postal codes of merged layers are combined with the target's
+export type LayerMergeStrategy = "union" | "keep-target" | "keep-source";
+
 export interface CreateAreaData {
   name: string;
   description?: string;
@@ -22,3 +31,52 @@ export interface UpdateAreaData {
   description?: string;
   granularity?: string;
 }
+
+export interface VersionSnapshot {
+  areaName: string;
+  description: string | null;
+  granularity: string;
+  layers: Array<{
+    id: number;
+    name: string;
+    color: string;
+    opacity: number;
+    isVisible: string;
+    orderIndex: number;
+    // Id of the parent layer within the same snapshot; missing in older snapshots
+    parentLayerId?: number | null;
+    postalCodes: string[];
+    // People assigned to the layer; missing in older snapshots
+    people?: LayerPersonAssignment[];
+  }>;
+}
+
+export interface AreaDashboardEntry {
+  area: AreaWithRole;
+  layerCount: number;
+  assignedCodes: number;
+  // Share of all postal codes at the area's granularity, 0-100
+  coverage: number;
+  lastChangeAt: string | null;
+}
+
+export interface DashboardVersion {
+  areaId: number;
+  areaName: string;
+  versionNumber: number;
+  name: string | null;
+  createdAt: string;
+}
+
+export interface DashboardActivityDay {
+  // YYYY-MM-DD
+  day: string;
+  // Number of changes per area id
+  changes: Record<number, number>;
+}
+
+export interface DashboardData {
+  areas: AreaDashboardEntry[];
+  recentVersions: DashboardVersion[];
+  activity: DashboardActivityDay[];
+}
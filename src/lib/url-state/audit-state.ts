@@ -0,0 +1,51 @@
+import {
+  createLoader,
+  createSerializer,
+  parseAsInteger,
+  parseAsString,
+  type inferParserType,
+} from "nuqs/server";
+
+import type { AuditLogFilters } from "../utils/audit-log";
+
+// Audit log filters and page live in the URL so filtered views can be shared.
+// The parsers come from nuqs/server so the page can load them as well.
+export const auditSearchParams = {
+  area: parseAsInteger,
+  layer: parseAsInteger,
+  type: parseAsString,
+  user: parseAsString,
+  from: parseAsString,
+  to: parseAsString,
+  page: parseAsInteger.withDefault(1),
+};
+
+export type AuditSearchParams = inferParserType<typeof auditSearchParams>;
+
+export const loadAuditSearchParams = createLoader(auditSearchParams);
+
+export const serializeAuditSearchParams = createSerializer(auditSearchParams);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// YYYY-MM-DD of an existing day; 2024-02-30 and the like are dropped
+function toDateFilter(value: string | null): string | null {
+  if (!value || !DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) &&
+    date.toISOString().slice(0, 10) === value
+    ? value
+    : null;
+}
+
+export function toAuditLogFilters(params: AuditSearchParams): AuditLogFilters {
+  return {
+    areaId: params.area,
+    // A layer only makes sense within its area
+    layerId: params.area !== null ? params.layer : null,
+    changeType: params.type,
+    user: params.user,
+    from: toDateFilter(params.from),
+    to: toDateFilter(params.to),
+  };
+}
@@ -0,0 +1,173 @@
+// Audit log of area_changes across all areas a user can see.
+// Shared by server and client.
+
+import { format } from "date-fns";
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// Upper bound for one CSV export
+export const AUDIT_EXPORT_LIMIT = 10_000;
+
+export const CHANGE_TYPE_LABELS: Record<string, string> = {
+  create_layer: "Layer erstellt",
+  update_layer: "Layer aktualisiert",
+  delete_layer: "Layer gelöscht",
+  add_postal_codes: "PLZ hinzugefügt",
+  remove_postal_codes: "PLZ entfernt",
+  update_area: "Gebiet aktualisiert",
+  change_granularity: "Granularität geändert",
+};
+
+export function getChangeTypeLabel(changeType: string): string {
+  return CHANGE_TYPE_LABELS[changeType] ?? changeType;
+}
+
+export interface AuditLogFilters {
+  areaId: number | null;
+  layerId: number | null;
+  changeType: string | null;
+  user: string | null;
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null; // YYYY-MM-DD, inclusive
+}
+
+export interface AuditLogEntry {
+  areaId: number;
+  areaName: string;
+  versionNumber: number | null;
+  sequenceNumber: number;
+  changeType: string;
+  entityType: string;
+  entityId: number | null;
+  // Current name of the affected layer, null once it was deleted
+  layerName: string | null;
+  changeData: unknown;
+  previousData: unknown;
+  isUndone: string;
+  groupLabel: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+}
+
+export interface AuditFilterOptions {
+  areas: { id: number; name: string }[];
+  // Layers of the selected area
+  layers: { id: number; name: string }[];
+  users: string[];
+}
+
+// Timestamps come from Postgres without a time zone
+export function formatAuditTimestamp(timestamp: string): string {
+  return format(new Date(timestamp.replace(" ", "T")), "dd.MM.yyyy HH:mm:ss");
+}
+
+// Row identity within the whole log
+export function getAuditEntryKey(entry: AuditLogEntry): string {
+  return `${entry.areaId}-${entry.versionNumber ?? "null"}-${entry.sequenceNumber}`;
+}
+
+export interface JsonDiffEntry {
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPrimitiveArray = (value: unknown): value is unknown[] =>
+  Array.isArray(value) &&
+  value.every((item) => typeof item !== "object" || item === null);
+
+/**
+ * Flat list of differences between two JSON values. Arrays of primitives
+ * (postal code lists) are compared as sets, other arrays by index.
+ */
+export function diffJson(
+  before: unknown,
+  after: unknown,
+  path = ""
+): JsonDiffEntry[] {
+  if (before === undefined && after === undefined) return [];
+  if (before === undefined) return [{ path, kind: "added", after }];
+  if (after === undefined) return [{ path, kind: "removed", before }];
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+    return keys.flatMap((key) =>
+      diffJson(before[key], after[key], path ? `${path}.${key}` : key)
+    );
+  }
+
+  if (isPrimitiveArray(before) && isPrimitiveArray(after)) {
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+    const added = after.filter((item) => !beforeSet.has(item));
+    const removed = before.filter((item) => !afterSet.has(item));
+    return [
+      ...(added.length > 0
+        ? [{ path, kind: "added" as const, after: added }]
+        : []),
+      ...(removed.length > 0
+        ? [{ path, kind: "removed" as const, before: removed }]
+        : []),
+    ];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return Array.from(
+      { length: Math.max(before.length, after.length) },
+      (_, index) => diffJson(before[index], after[index], `${path}[${index}]`)
+    ).flat();
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after)
+    ? []
+    : [{ path, kind: "changed", before, after }];
+}
+
+const CSV_COLUMNS: [string, (entry: AuditLogEntry) => unknown][] = [
+  ["Zeitpunkt", (e) => e.createdAt],
+  ["Gebiet-ID", (e) => e.areaId],
+  ["Gebiet", (e) => e.areaName],
+  ["Version", (e) => e.versionNumber],
+  ["Sequenz", (e) => e.sequenceNumber],
+  ["Änderung", (e) => e.changeType],
+  ["Objekttyp", (e) => e.entityType],
+  ["Objekt-ID", (e) => e.entityId],
+  ["Layer", (e) => e.layerName],
+  ["Benutzer", (e) => e.createdBy],
+  ["Rückgängig gemacht", (e) => e.isUndone],
+  ["Gruppe", (e) => e.groupLabel],
+  ["Vorher", (e) => e.previousData],
+  ["Nachher", (e) => e.changeData],
+];
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Names are user input; keep spreadsheets from evaluating them as formulas
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a BOM so Excel detects UTF-8; JSON columns hold the raw data
+ */
+export function toAuditCsv(entries: AuditLogEntry[]): string {
+  const lines = [
+    CSV_COLUMNS.map(([header]) => toCsvField(header)).join(","),
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map(([, value]) => toCsvField(value(entry))).join(",")
+    ),
+  ];
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,48 @@
+/**
+ * Change groups bundle the area_changes rows written by one user action
+ * (an import, a merge, a split, ...) so they are undone and redone as a
+ * single step and shown as one entry in the history.
+ */
+
+export interface ChangeGroupRef {
+  id: string;
+  label: string;
+}
+
+export function createChangeGroup(label: string): ChangeGroupRef {
+  return { id: crypto.randomUUID(), label: label.slice(0, 255) };
+}
+
+/**
+ * Label for an action writing several layers, e.g.
+ * "Import sample-import.csv (12 Layer, 340 PLZ)"
+ */
+export function formatLayersGroupLabel(
+  title: string,
+  layers: { postalCodes: string[] }[]
+): string {
+  const postalCodeCount = layers.reduce(
+    (sum, layer) => sum + new Set(layer.postalCodes).size,
+    0
+  );
+  return `${title} (${layers.length} Layer, ${postalCodeCount} PLZ)`;
+}
+
+/**
+ * Split a newest-first change list into runs of consecutive changes sharing
+ * a group; ungrouped changes form runs of one
+ */
+export function groupConsecutiveChanges<
+  T extends { groupId: string | null },
+>(changes: T[]): T[][] {
+  const runs: T[][] = [];
+  for (const change of changes) {
+    const last = runs.at(-1);
+    if (last && change.groupId && last[0].groupId === change.groupId) {
+      last.push(change);
+    } else {
+      runs.push([change]);
+    }
+  }
+  return runs;
+}
@@ -0,0 +1,24 @@
+// What happens when a postal code is assigned to a layer while it is still
+// in another layer of the same area. Shared by server and client.
+
+export const CONFLICT_POLICIES = ["allow", "move", "reject"] as const;
+
+export type ConflictPolicy = (typeof CONFLICT_POLICIES)[number];
+
+export const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  allow: "Überschneidungen erlauben",
+  move: "PLZ verschieben",
+  reject: "Zuordnung ablehnen",
+};
+
+export function isConflictPolicy(value: string): value is ConflictPolicy {
+  return (CONFLICT_POLICIES as readonly string[]).includes(value);
+}
+
+// Postal codes taken out of another layer by the "move" policy; stored on
+// the change record so undo can put them back
+export interface MovedPostalCodes {
+  layerId: number;
+  layerName: string;
+  postalCodes: string[];
+}
@@ -0,0 +1,59 @@
+/**
+ * Grow layers into unassigned postal codes over touching neighbors.
+ *
+ * In each round every gap code bordering at least one assigned code joins
+ * the layer most of its assigned neighbors belong to (lowest layer id on a
+ * tie). Rounds repeat until no gap borders a layer any more, so gaps several
+ * codes deep are filled from the outside in. Gaps without any path to a
+ * layer stay unassigned.
+ *
+ * `gapNeighbors` holds the neighbor list of every gap code; `layerByCode`
+ * the layer of every assigned code.
+ */
+export function assignGapsByAdjacency(
+  gapNeighbors: Map<string, string[]>,
+  layerByCode: Map<string, number>
+): Map<string, number> {
+  const assignments = new Map<string, number>();
+  const layerOf = (code: string) =>
+    layerByCode.get(code) ?? assignments.get(code);
+
+  let remaining = [...gapNeighbors.keys()];
+
+  while (remaining.length > 0) {
+    const round = new Map<string, number>();
+
+    for (const code of remaining) {
+      const votes = new Map<number, number>();
+      for (const neighbor of gapNeighbors.get(code) ?? []) {
+        const layerId = layerOf(neighbor);
+        if (layerId !== undefined) {
+          votes.set(layerId, (votes.get(layerId) ?? 0) + 1);
+        }
+      }
+
+      let best: number | undefined;
+      for (const [layerId, count] of votes) {
+        const bestCount = best === undefined ? 0 : (votes.get(best) ?? 0);
+        if (
+          best === undefined ||
+          count > bestCount ||
+          (count === bestCount && layerId < best)
+        ) {
+          best = layerId;
+        }
+      }
+      if (best !== undefined) round.set(code, best);
+    }
+
+    if (round.size === 0) break;
+
+    // Apply after the round so the result does not depend on code order
+    for (const [code, layerId] of round) {
+      assignments.set(code, layerId);
+    }
+    remaining = remaining.filter((code) => !round.has(code));
+  }
+
+  return assignments;
+}
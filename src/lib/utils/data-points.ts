@@ -0,0 +1,87 @@
+/**
+ * Imported point datasets (customers, branches, ...) and their assignment to
+ * layers. A point belongs to the layer holding the postal code whose polygon
+ * contains it; parents count the points of all their children.
+ */
+
+import { withDerivedPostalCodes, type HierarchyLayer } from "./layer-hierarchy";
+
+export interface PointDataset {
+  id: number;
+  name: string;
+  color: string;
+  pointCount: number;
+  // Geocoding job still working through the dataset's addresses
+  geocodeJobId: number | null;
+}
+
+export interface DataPoint {
+  id: number;
+  datasetId: number;
+  name: string | null;
+  latitude: number;
+  longitude: number;
+  // Postal code at the area's granularity containing the point, null outside
+  postalCode: string | null;
+}
+
+export interface DataPoints {
+  datasets: PointDataset[];
+  points: DataPoint[];
+}
+
+export type GeocodeJobStatus = "pending" | "running" | "completed" | "cancelled";
+
+export interface GeocodeJobProgress {
+  id: number;
+  status: GeocodeJobStatus;
+  total: number;
+  processed: number;
+  failed: number;
+  error: string | null;
+}
+
+/**
+ * Whether a geocoding job has stopped and will not change anymore
+ */
+export function isGeocodeJobFinished(job: Pick<GeocodeJobProgress, "status">) {
+  return job.status === "completed" || job.status === "cancelled";
+}
+
+export const EMPTY_DATA_POINTS: DataPoints = { datasets: [], points: [] };
+
+// Assigned to new datasets in turn
+export const POINT_DATASET_COLORS = [
+  "#0f172a", // slate
+  "#be123c", // rose
+  "#15803d", // green
+  "#7c3aed", // violet
+  "#b45309", // amber
+  "#0e7490", // cyan
+];
+
+/**
+ * Number of points per layer id, counting only the given datasets
+ */
+export function countPointsPerLayer(
+  layers: HierarchyLayer[],
+  points: DataPoint[],
+  datasetIds: ReadonlySet<number>
+): Map<number, number> {
+  const perCode = new Map<string, number>();
+  for (const point of points) {
+    if (point.postalCode && datasetIds.has(point.datasetId)) {
+      perCode.set(point.postalCode, (perCode.get(point.postalCode) ?? 0) + 1);
+    }
+  }
+
+  return new Map(
+    withDerivedPostalCodes(layers).map((layer) => [
+      layer.id,
+      (layer.postalCodes ?? []).reduce(
+        (sum, pc) => sum + (perCode.get(pc.postalCode) ?? 0),
+        0
+      ),
+    ])
+  );
+}
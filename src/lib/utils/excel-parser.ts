@@ -266,3 +266,184 @@ export function getImportStats(rows: ProcessedImportRow[]): ImportStats {
     uniqueLayers: uniqueLayers > 0 ? uniqueLayers : 1, // Mindestens 1 (Standard)
   };
 }
+
+/**
+ * Parse a numeric cell written in German ("1.234,5") or English ("1,234.5")
+ * notation. Returns null for empty or non-numeric cells.
+ */
+export function parseNumericCell(value: string | number | null): number | null {
+  if (value === null) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+
+  let str = value.replace(/[\s%€]/g, '');
+  if (str === '') return null;
+
+  const lastComma = str.lastIndexOf(',');
+  const lastDot = str.lastIndexOf('.');
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Whichever separator comes last is the decimal separator
+    str = lastComma > lastDot
+      ? str.replace(/\./g, '').replace(',', '.')
+      : str.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    str = str.replace(',', '.');
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(str)) {
+    // German thousands separators only
+    str = str.replace(/\./g, '');
+  }
+
+  const number = Number(str);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Columns other than the postal code column whose values are mostly numeric
+ */
+export function detectMetricColumns(
+  headers: string[],
+  rows: ParsedRow[],
+  postalCodeColumn: string | null
+): string[] {
+  const sample = rows.slice(0, 20);
+
+  return headers.filter(header => {
+    if (header === postalCodeColumn || sample.length === 0) return false;
+    const numeric = sample.filter(row => parseNumericCell(row[header]) !== null);
+    return numeric.length / sample.length > 0.6;
+  });
+}
+
+export interface MetricImportRows {
+  rows: { code: string; values: Record<string, number> }[];
+  invalidRows: number;
+}
+
+/**
+ * Build metric values per postal code at the target granularity. Finer
+ * codes are summed into their coarser region, e.g. 5-digit populations
+ * into 2-digit regions.
+ */
+export function processMetricRows(
+  rows: ParsedRow[],
+  postalCodeColumn: string,
+  metricColumns: string[],
+  targetDigits: number
+): MetricImportRows {
+  const byCode = new Map<string, Record<string, number>>();
+  let invalidRows = 0;
+
+  for (const row of rows) {
+    const raw = row[postalCodeColumn];
+    let code = raw === null ? '' : normalizePostalCode(String(raw));
+
+    // Spreadsheets drop the leading zero of codes like 01067
+    if (/^\d{4}$/.test(code)) code = code.padStart(5, '0');
+
+    if (!/^\d{1,5}$/.test(code) || code.length < targetDigits) {
+      invalidRows++;
+      continue;
+    }
+
+    code = code.substring(0, targetDigits);
+    const values = byCode.get(code) ?? {};
+
+    for (const metric of metricColumns) {
+      const value = parseNumericCell(row[metric]);
+      if (value !== null) {
+        values[metric] = (values[metric] ?? 0) + value;
+      }
+    }
+
+    byCode.set(code, values);
+  }
+
+  return {
+    rows: [...byCode.entries()].map(([code, values]) => ({ code, values })),
+    invalidRows,
+  };
+}
+
+export interface PointColumnMapping {
+  nameColumn: string | null;
+  addressColumn: string | null;
+  latitudeColumn: string | null;
+  longitudeColumn: string | null;
+}
+
+export interface PointImportRow {
+  name: string | null;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  // Remaining columns of the row
+  properties: Record<string, string>;
+}
+
+/**
+ * Auto-detect name, address and coordinate columns of a point dataset
+ */
+export function autoDetectPointColumns(headers: string[]): PointColumnMapping {
+  const find = (pattern: RegExp) =>
+    headers.find(header => pattern.test(header)) ?? null;
+
+  return {
+    nameColumn: find(/name|kunde|customer|filiale|branch|firma|company|bezeichnung/i),
+    addressColumn: find(/adresse|address|anschrift|stra(ss|ß)e|street/i),
+    latitudeColumn: find(/^(lat|latitude|breite|breitengrad|y)$/i),
+    longitudeColumn: find(/^(lng|lon|long|longitude|länge|laengengrad|längengrad|x)$/i),
+  };
+}
+
+/**
+ * Build point rows from the mapped columns. Rows need valid coordinates or
+ * an address to geocode; others are counted as invalid.
+ */
+export function processPointRows(
+  rows: ParsedRow[],
+  mapping: PointColumnMapping
+): { rows: PointImportRow[]; invalidRows: number } {
+  const mapped = new Set(Object.values(mapping).filter(Boolean));
+  const points: PointImportRow[] = [];
+  let invalidRows = 0;
+
+  for (const row of rows) {
+    const text = (column: string | null) => {
+      const value = column ? row[column] : null;
+      return value === null || String(value).trim() === '' ? null : String(value).trim();
+    };
+
+    let latitude = mapping.latitudeColumn ? parseNumericCell(row[mapping.latitudeColumn]) : null;
+    let longitude = mapping.longitudeColumn ? parseNumericCell(row[mapping.longitudeColumn]) : null;
+    if (
+      latitude === null || longitude === null ||
+      Math.abs(latitude) > 90 || Math.abs(longitude) > 180
+    ) {
+      latitude = null;
+      longitude = null;
+    }
+
+    const address = text(mapping.addressColumn);
+    if (latitude === null && !address) {
+      invalidRows++;
+      continue;
+    }
+
+    const properties: Record<string, string> = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (!mapped.has(key) && value !== null && value !== '') {
+        properties[key] = String(value);
+      }
+    }
+
+    points.push({
+      name: text(mapping.nameColumn),
+      address,
+      latitude,
+      longitude,
+      properties,
+    });
+  }
+
+  return { rows: points, invalidRows };
+}
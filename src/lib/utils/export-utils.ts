@@ -1,10 +1,36 @@
 import { toast } from "sonner";
 import type { Content, PageSize } from "pdfmake/interfaces";
+import {
+  TERRITORY_EXPORT_FORMATS,
+  type TerritoryExportFormat,
+} from "@/lib/export/formats";
+import { formatMetricValue } from "@/lib/utils/layer-metrics";
 
 interface LayerExportData {
   layerName: string;
   postalCodes: string[];
   areaName?: string;
+  // Layer totals of postal code metrics (population, purchasing power, ...)
+  metrics?: Record<string, number>;
+  // Position in the layer hierarchy: 1 for top-level layers
+  level?: number;
+  parentName?: string;
+  // Names from the top-level layer down, e.g. "Nord › Hamburg › HH-1"
+  path?: string;
+  // People owning the layer, e.g. "Anna Schmidt; Vertretung: Jan Berg"
+  owners?: string;
+}
+
+function getMetricNames(layers: LayerExportData[]): string[] {
+  return [...new Set(layers.flatMap((layer) => Object.keys(layer.metrics ?? {})))];
+}
+
+function hasHierarchy(layers: LayerExportData[]): boolean {
+  return layers.some((layer) => (layer.level ?? 1) > 1);
+}
+
+function hasOwners(layers: LayerExportData[]): boolean {
+  return layers.some((layer) => Boolean(layer.owners));
 }
 
 /**
@@ -26,6 +52,8 @@ function formatPostalCode(code: string): string {
  *
  * Layer Name 2:
  * ...
+ * Child layers are indented below their parent and show their path;
+ * layer owners are listed below the title.
  * @param layers Array of layer data with postal codes
  * @param areaName Optional area/project name to include in filename
  */
@@ -48,15 +76,41 @@ export function exportLayersPDF(layers: LayerExportData[], areaName?: string) {
       margin: [0, 0, 0, 20],
     });
 
-    // Add each layer
-    layers.forEach(({ layerName, postalCodes }) => {
+    // Add each layer, indented by its hierarchy level
+    layers.forEach(({ layerName, postalCodes, metrics, level = 1, path, owners }) => {
+      const indent = (level - 1) * 15;
+      const subtitles = [
+        ...(path && level > 1 ? [path] : []),
+        ...(owners ? [`Verantwortlich: ${owners}`] : []),
+      ];
+
       // Layer title
       content.push({
         text: `${layerName}:`,
         style: "subheader",
-        margin: [0, 0, 0, 10],
+        margin: [indent, 0, 0, subtitles.length > 0 ? 2 : 10],
       });
 
+      // Path from the top-level layer and owners
+      subtitles.forEach((subtitle, index) => {
+        content.push({
+          text: subtitle,
+          style: "path",
+          margin: [indent, 0, 0, index === subtitles.length - 1 ? 10 : 2],
+        });
+      });
+
+      // Layer metric totals
+      if (metrics && Object.keys(metrics).length > 0) {
+        content.push({
+          text: Object.entries(metrics)
+            .map(([metric, total]) => `${metric}: ${formatMetricValue(total)}`)
+            .join(" · "),
+          style: "content",
+          margin: [indent, 0, 0, 10],
+        });
+      }
+
       // Layer postal codes
       const formattedCodes = postalCodes
         .map((code) => `D-${formatPostalCode(code)}`)
@@ -64,7 +118,7 @@ export function exportLayersPDF(layers: LayerExportData[], areaName?: string) {
       content.push({
         text: formattedCodes,
         style: "content",
-        margin: [0, 0, 0, 20],
+        margin: [indent, 0, 0, 20],
       });
     });
 
@@ -81,6 +135,10 @@ export function exportLayersPDF(layers: LayerExportData[], areaName?: string) {
       content: {
         fontSize: 10,
       },
+      path: {
+        fontSize: 9,
+        color: "#666666",
+      },
     };
 
     // Create document definition
@@ -120,6 +178,8 @@ export function exportLayersPDF(layers: LayerExportData[], areaName?: string) {
 /**
  * Exports postal codes per layer as separate sheets in XLSX file.
  * Creates one sheet per layer with 3 columns: PLZ without D-, PLZ with D-, PLZ with D-POSTALCODE
+ * With a layer hierarchy the overview sheet lists level, parent and path of every layer,
+ * with layer owners an additional "Verantwortlich" column.
  * @param layers Array of layer data with postal codes
  * @param areaName Optional area/project name to include in filename
  */
@@ -130,6 +190,32 @@ export async function exportLayersXLSX(layers: LayerExportData[], areaName?: str
     // Create workbook
     const wb = XLSX.utils.book_new();
 
+    // Overview sheet with postal code count, hierarchy and metric totals per layer
+    const metricNames = getMetricNames(layers);
+    const withHierarchy = hasHierarchy(layers);
+    const withOwners = hasOwners(layers);
+    if (metricNames.length > 0 || withHierarchy || withOwners) {
+      const overview = XLSX.utils.aoa_to_sheet([
+        [
+          "Gebiet",
+          ...(withHierarchy ? ["Ebene", "Übergeordnet", "Pfad"] : []),
+          ...(withOwners ? ["Verantwortlich"] : []),
+          "PLZ",
+          ...metricNames,
+        ],
+        ...layers.map(({ layerName, postalCodes, metrics, level, parentName, path, owners }) => [
+          layerName,
+          ...(withHierarchy
+            ? [level ?? 1, parentName ?? "", path ?? layerName]
+            : []),
+          ...(withOwners ? [owners ?? ""] : []),
+          postalCodes.length,
+          ...metricNames.map((metric) => metrics?.[metric] ?? 0),
+        ]),
+      ]);
+      XLSX.utils.book_append_sheet(wb, overview, "Übersicht");
+    }
+
     // Create a sheet for each layer
     layers.forEach(({ layerName, postalCodes }) => {
       // Transform postal codes into the 3 required formats
@@ -187,6 +273,52 @@ export async function exportLayersXLSX(layers: LayerExportData[], areaName?: str
   });
 }
 
+/**
+ * Downloads the layers of an area as dissolved territory shapes (one feature
+ * per layer). The geometries are unioned server-side, see /api/areas/[areaId]/export.
+ * @param areaId Area whose layers are exported
+ * @param format GeoJSON, KML or GeoPackage
+ * @param areaName Optional area/project name to include in filename
+ */
+export async function exportLayersGeometry(
+  areaId: number,
+  format: TerritoryExportFormat,
+  areaName?: string
+) {
+  const { extension, label } = TERRITORY_EXPORT_FORMATS[format];
+
+  const exportPromise = async () => {
+    const response = await fetch(`/api/areas/${areaId}/export/${format}`);
+    if (!response.ok) {
+      throw new Error(await response.text());
+    }
+    const blob = await response.blob();
+
+    // Generate filename with timestamp
+    const timestamp = new Date()
+      .toISOString()
+      .slice(0, 19)
+      .replace(/[:.]/g, "-");
+    const areaPrefix = areaName ? `${areaName.replace(/[^a-zA-Z0-9-_]/g, "_")}_` : "";
+    const filename = `${areaPrefix}gebiete-export-${timestamp}.${extension}`;
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    return `Gebiete als ${label} exportiert`;
+  };
+
+  return toast.promise(exportPromise(), {
+    loading: `🗺️ Exportiere Gebietsflächen als ${label}...`,
+    success: (message: string) => message,
+    error: `${label}-Export fehlgeschlagen`,
+  });
+}
+
 /**
  * Exports an array of postal codes as an XLSX file. Uses dynamic import for xlsx.
  * Ensures postal codes are formatted with leading zeros.
@@ -0,0 +1,223 @@
+/**
+ * Parent/child structure of an area's layers (e.g. Region → Bezirk → Gebiet).
+ *
+ * Only leaf layers hold postal codes; a parent's postal codes are the union
+ * of its descendants' codes and are derived here rather than stored.
+ */
+
+export interface HierarchyLayer {
+  id: number;
+  name: string;
+  orderIndex: number;
+  parentLayerId: number | null;
+  postalCodes?: { postalCode: string }[];
+}
+
+export interface LayerTreeRow<T extends HierarchyLayer> {
+  layer: T;
+  // 0 for top-level layers
+  depth: number;
+  hasChildren: boolean;
+}
+
+// Region → Bezirk → Gebiet
+export const MAX_LAYER_DEPTH = 3;
+
+const byOrder = (a: HierarchyLayer, b: HierarchyLayer) =>
+  a.orderIndex - b.orderIndex || a.id - b.id;
+
+/**
+ * Parent id of a layer; parents missing from the list count as top level
+ */
+function parentOf<T extends HierarchyLayer>(
+  layers: T[],
+  layer: T
+): number | null {
+  return layer.parentLayerId !== null &&
+    layers.some((l) => l.id === layer.parentLayerId)
+    ? layer.parentLayerId
+    : null;
+}
+
+export function getChildLayers<T extends HierarchyLayer>(
+  layers: T[],
+  parentId: number | null
+): T[] {
+  return layers
+    .filter((layer) => parentOf(layers, layer) === parentId)
+    .sort(byOrder);
+}
+
+export function hasChildLayers(
+  layers: HierarchyLayer[],
+  layerId: number
+): boolean {
+  return layers.some((layer) => layer.parentLayerId === layerId);
+}
+
+/**
+ * Ancestors of a layer, top-level layer first
+ */
+export function getLayerAncestors<T extends HierarchyLayer>(
+  layers: T[],
+  layerId: number
+): T[] {
+  const ancestors: T[] = [];
+  let current = layers.find((layer) => layer.id === layerId);
+
+  while (current) {
+    const parentId = parentOf(layers, current);
+    const parent = layers.find((layer) => layer.id === parentId);
+    // Guard against cycles in inconsistent data
+    if (!parent || ancestors.includes(parent)) break;
+    ancestors.unshift(parent);
+    current = parent;
+  }
+
+  return ancestors;
+}
+
+export function getDescendantLayerIds(
+  layers: HierarchyLayer[],
+  layerId: number
+): number[] {
+  const ids: number[] = [];
+  const queue = [layerId];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const child of layers) {
+      if (child.parentLayerId === id && !ids.includes(child.id)) {
+        ids.push(child.id);
+        queue.push(child.id);
+      }
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Names from the top-level layer down to the layer, e.g. "Nord › Hamburg › HH-1"
+ */
+export function getLayerPath(layers: HierarchyLayer[], layerId: number): string {
+  const layer = layers.find((l) => l.id === layerId);
+  if (!layer) return "";
+  return [...getLayerAncestors(layers, layerId), layer]
+    .map((l) => l.name)
+    .join(" › ");
+}
+
+/**
+ * Levels below the layer including itself: 1 for a leaf
+ */
+function getSubtreeDepth(layers: HierarchyLayer[], layerId: number): number {
+  const seen = new Set([layerId]);
+  let level = [layerId];
+  let depth = 1;
+
+  for (;;) {
+    const next = layers
+      .filter(
+        (layer) =>
+          layer.parentLayerId !== null &&
+          level.includes(layer.parentLayerId) &&
+          !seen.has(layer.id)
+      )
+      .map((layer) => layer.id);
+    if (next.length === 0) return depth;
+
+    next.forEach((id) => seen.add(id));
+    level = next;
+    depth++;
+  }
+}
+
+/**
+ * Why `layerId` cannot be placed under `parentId`, or null if it can.
+ * A parent must not hold postal codes of its own, must not lie in the
+ * layer's own subtree, and the tree must stay within MAX_LAYER_DEPTH.
+ */
+export function getParentLayerError(
+  layers: HierarchyLayer[],
+  layerId: number,
+  parentId: number | null
+): string | null {
+  if (parentId === null) return null;
+
+  const parent = layers.find((layer) => layer.id === parentId);
+  if (!parent) {
+    return "Übergeordnetes Gebiet nicht gefunden";
+  }
+  if (
+    parentId === layerId ||
+    getDescendantLayerIds(layers, layerId).includes(parentId)
+  ) {
+    return "Ein Gebiet kann nicht sich selbst oder einem seiner untergeordneten Gebiete untergeordnet werden";
+  }
+  if ((parent.postalCodes?.length ?? 0) > 0) {
+    return `„${parent.name}“ enthält eigene PLZ und kann kein übergeordnetes Gebiet sein`;
+  }
+
+  const depth =
+    getLayerAncestors(layers, parentId).length +
+    1 +
+    getSubtreeDepth(layers, layerId);
+  if (depth > MAX_LAYER_DEPTH) {
+    return `Die Gebietshierarchie ist auf ${MAX_LAYER_DEPTH} Ebenen begrenzt`;
+  }
+
+  return null;
+}
+
+/**
+ * Layers with the postal codes of every parent extended by the codes of
+ * all its descendants. Leaf layers are returned unchanged.
+ */
+export function withDerivedPostalCodes<T extends HierarchyLayer>(
+  layers: T[]
+): T[] {
+  return layers.map((layer) => {
+    const descendantIds = getDescendantLayerIds(layers, layer.id);
+    if (descendantIds.length === 0) return layer;
+
+    const codes = new Set(layer.postalCodes?.map((pc) => pc.postalCode));
+    for (const descendant of layers) {
+      if (descendantIds.includes(descendant.id)) {
+        descendant.postalCodes?.forEach((pc) => codes.add(pc.postalCode));
+      }
+    }
+
+    return {
+      ...layer,
+      postalCodes: [...codes].sort().map((postalCode) => ({ postalCode })),
+    };
+  });
+}
+
+/**
+ * Depth-first rows for rendering the tree, siblings by orderIndex. Children
+ * of layers in `collapsed` are left out.
+ */
+export function flattenLayerTree<T extends HierarchyLayer>(
+  layers: T[],
+  collapsed: ReadonlySet<number> = new Set()
+): LayerTreeRow<T>[] {
+  const rows: LayerTreeRow<T>[] = [];
+
+  const visit = (parentId: number | null, depth: number) => {
+    for (const layer of getChildLayers(layers, parentId)) {
+      // Guard against cycles in inconsistent data
+      if (rows.some((row) => row.layer.id === layer.id)) continue;
+
+      const hasChildren = hasChildLayers(layers, layer.id);
+      rows.push({ layer, depth, hasChildren });
+      if (hasChildren && !collapsed.has(layer.id)) {
+        visit(layer.id, depth + 1);
+      }
+    }
+  };
+
+  visit(null, 0);
+  return rows;
+}
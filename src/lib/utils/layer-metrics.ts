@@ -0,0 +1,82 @@
+export interface PostalCodeMetrics {
+  // Metric names, sorted
+  metrics: string[];
+  // metric -> postal code -> value
+  values: Record<string, Record<string, number>>;
+}
+
+export interface LayerMetricTotals {
+  codeCount: number;
+  // metric -> sum over the layer's postal codes
+  totals: Record<string, number>;
+  // metric -> number of the layer's postal codes without a value
+  missing: Record<string, number>;
+}
+
+export const EMPTY_POSTAL_CODE_METRICS: PostalCodeMetrics = {
+  metrics: [],
+  values: {},
+};
+
+// Layers deviating more than this from the mean are flagged as unbalanced
+export const METRIC_BALANCE_TOLERANCE = 0.1;
+
+const numberFormat = new Intl.NumberFormat("de-DE", {
+  maximumFractionDigits: 1,
+});
+
+const percentFormat = new Intl.NumberFormat("de-DE", {
+  style: "percent",
+  maximumFractionDigits: 0,
+  signDisplay: "exceptZero",
+});
+
+/**
+ * Sum every metric over the postal codes of a layer
+ */
+export function aggregateLayerMetrics(
+  postalCodes: string[],
+  metrics: PostalCodeMetrics
+): LayerMetricTotals {
+  const totals: Record<string, number> = {};
+  const missing: Record<string, number> = {};
+
+  for (const metric of metrics.metrics) {
+    const values = metrics.values[metric] ?? {};
+    let total = 0;
+    let missingCount = 0;
+
+    for (const code of postalCodes) {
+      const value = values[code];
+      if (value === undefined) {
+        missingCount++;
+      } else {
+        total += value;
+      }
+    }
+
+    totals[metric] = total;
+    missing[metric] = missingCount;
+  }
+
+  return { codeCount: postalCodes.length, totals, missing };
+}
+
+/**
+ * Relative deviation of each total from the mean of all totals, e.g. 0.12
+ * for a layer 12% above average. Null when the mean is zero.
+ */
+export function getMetricDeviations(totals: number[]): (number | null)[] {
+  if (totals.length === 0) return [];
+
+  const mean = totals.reduce((sum, total) => sum + total, 0) / totals.length;
+  return totals.map((total) => (mean === 0 ? null : (total - mean) / mean));
+}
+
+export function formatMetricValue(value: number): string {
+  return numberFormat.format(value);
+}
+
+export function formatMetricDeviation(deviation: number): string {
+  return percentFormat.format(deviation);
+}
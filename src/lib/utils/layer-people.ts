@@ -0,0 +1,81 @@
+/**
+ * People assigned to layers, e.g. the sales rep owning a territory and
+ * their backup.
+ */
+
+export interface Person {
+  id: number;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  // Geocoded home address, null if the address could not be found
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export const LAYER_PERSON_ROLES = ["primary", "backup"] as const;
+
+export type LayerPersonRole = (typeof LAYER_PERSON_ROLES)[number];
+
+export const LAYER_PERSON_ROLE_LABELS: Record<LayerPersonRole, string> = {
+  primary: "Hauptverantwortlich",
+  backup: "Vertretung",
+};
+
+export interface LayerPersonAssignment {
+  personId: number;
+  role: LayerPersonRole;
+}
+
+export interface LayerPeople extends LayerPersonAssignment {
+  layerId: number;
+}
+
+export function isLayerPersonRole(value: unknown): value is LayerPersonRole {
+  return LAYER_PERSON_ROLES.includes(value as LayerPersonRole);
+}
+
+/**
+ * Assignments of one layer, primary people first
+ */
+export function getLayerAssignments(
+  layerPeople: LayerPeople[],
+  layerId: number
+): LayerPersonAssignment[] {
+  return layerPeople
+    .filter((assignment) => assignment.layerId === layerId)
+    .map(({ personId, role }) => ({ personId, role }))
+    .sort(
+      (a, b) =>
+        LAYER_PERSON_ROLES.indexOf(a.role) - LAYER_PERSON_ROLES.indexOf(b.role)
+    );
+}
+
+/**
+ * Owner line for lists and exports, e.g. "Anna Schmidt; Vertretung: Jan Berg"
+ */
+export function formatLayerOwners(
+  assignments: LayerPersonAssignment[],
+  people: Pick<Person, "id" | "name">[]
+): string {
+  const namesFor = (role: LayerPersonRole) =>
+    assignments
+      .filter((assignment) => assignment.role === role)
+      .map(
+        (assignment) =>
+          people.find((person) => person.id === assignment.personId)?.name
+      )
+      .filter((name): name is string => Boolean(name))
+      .join(", ");
+
+  const primary = namesFor("primary");
+  const backup = namesFor("backup");
+
+  return [
+    primary,
+    backup ? `${LAYER_PERSON_ROLE_LABELS.backup}: ${backup}` : "",
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
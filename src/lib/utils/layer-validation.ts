@@ -0,0 +1,163 @@
+export type LayerIssueType = "exclave" | "enclave" | "hole";
+
+export interface ValidationLayer {
+  id: number;
+  name: string;
+  postalCodes: string[];
+}
+
+export interface LayerIssue {
+  type: LayerIssueType;
+  // Layer the issue belongs to; for holes the surrounding layer
+  layerId: number;
+  layerName: string;
+  codes: string[];
+  // Layer enclosing an enclave
+  surroundingLayerId?: number;
+  surroundingLayerName?: string;
+}
+
+/**
+ * Connected components of `codes` over the adjacency, largest first
+ */
+function getComponents(
+  codes: Set<string>,
+  neighbors: Map<string, string[]>
+): string[][] {
+  const visited = new Set<string>();
+  const components: string[][] = [];
+
+  for (const start of codes) {
+    if (visited.has(start)) continue;
+
+    const component: string[] = [];
+    const queue = [start];
+    visited.add(start);
+
+    while (queue.length > 0) {
+      const code = queue.pop() as string;
+      component.push(code);
+      for (const next of neighbors.get(code) ?? []) {
+        if (codes.has(next) && !visited.has(next)) {
+          visited.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    components.push(component.sort());
+  }
+
+  return components.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * The single layer every code bordering the component belongs to, or null
+ * when the component touches unassigned codes, several layers or nothing.
+ * Codes without a known neighbor list count as open borders.
+ */
+function getEnclosingLayer(
+  component: string[],
+  neighbors: Map<string, string[]>,
+  layersByCode: Map<string, Set<number>>,
+  excludeLayerId?: number
+): number | null {
+  const members = new Set(component);
+  let candidates: Set<number> | null = null;
+
+  for (const code of component) {
+    const codeNeighbors = neighbors.get(code);
+    if (!codeNeighbors) return null;
+
+    for (const next of codeNeighbors) {
+      if (members.has(next)) continue;
+
+      const layers = layersByCode.get(next);
+      if (!layers) return null;
+
+      const current: Set<number> = candidates ?? new Set(layers);
+      candidates = new Set([...current].filter((id) => layers.has(id)));
+      if (candidates.size === 0) return null;
+    }
+  }
+
+  const enclosing = [...(candidates ?? [])].filter(
+    (id) => id !== excludeLayerId
+  );
+  return enclosing.length === 1 ? enclosing[0] : null;
+}
+
+/**
+ * Find contiguity problems of an area's layers from postal code adjacency:
+ * - exclave: a part of a layer not connected to its largest part
+ * - enclave: a part of a layer completely surrounded by another layer
+ * - hole: unassigned postal codes completely surrounded by one layer
+ *
+ * `neighbors` must hold the full neighbor list of every assigned code and
+ * of the unassigned codes bordering them.
+ */
+export function findLayerIssues(
+  layers: ValidationLayer[],
+  neighbors: Map<string, string[]>
+): LayerIssue[] {
+  const issues: LayerIssue[] = [];
+  const layerNames = new Map(layers.map((layer) => [layer.id, layer.name]));
+
+  const layersByCode = new Map<string, Set<number>>();
+  for (const layer of layers) {
+    for (const code of layer.postalCodes) {
+      const ids = layersByCode.get(code) ?? new Set<number>();
+      ids.add(layer.id);
+      layersByCode.set(code, ids);
+    }
+  }
+
+  for (const layer of layers) {
+    const components = getComponents(new Set(layer.postalCodes), neighbors);
+
+    components.forEach((component, index) => {
+      const surroundingLayerId = getEnclosingLayer(
+        component,
+        neighbors,
+        layersByCode,
+        layer.id
+      );
+
+      if (surroundingLayerId !== null) {
+        issues.push({
+          type: "enclave",
+          layerId: layer.id,
+          layerName: layer.name,
+          codes: component,
+          surroundingLayerId,
+          surroundingLayerName: layerNames.get(surroundingLayerId),
+        });
+      } else if (index > 0) {
+        issues.push({
+          type: "exclave",
+          layerId: layer.id,
+          layerName: layer.name,
+          codes: component,
+        });
+      }
+    });
+  }
+
+  const unassigned = new Set(
+    [...neighbors.keys()].filter((code) => !layersByCode.has(code))
+  );
+
+  for (const component of getComponents(unassigned, neighbors)) {
+    const layerId = getEnclosingLayer(component, neighbors, layersByCode);
+    if (layerId !== null) {
+      issues.push({
+        type: "hole",
+        layerId,
+        layerName: layerNames.get(layerId) ?? "",
+        codes: component,
+      });
+    }
+  }
+
+  return issues;
+}
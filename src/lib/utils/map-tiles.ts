@@ -0,0 +1,33 @@
+/**
+ * Shared naming for the postal code vector tiles served by
+ * /api/tiles/[granularity]/[z]/[x]/[y] and consumed by the map layers.
+ */
+
+// Source layer holding the postal code polygons
+export const POSTAL_CODE_TILE_LAYER = "postal_codes";
+
+// Source layer holding one label point per postal code
+export const POSTAL_CODE_LABEL_TILE_LAYER = "postal_code_labels";
+
+// Feature property promoted to the feature id, so feature-state can be keyed by code
+export const POSTAL_CODE_ID_PROPERTY = "code";
+
+export const TILE_MIN_ZOOM = 0;
+
+export const TILE_MAX_ZOOM = 14;
+
+/**
+ * Absolute tile URL template for a granularity (MapLibre requires absolute URLs)
+ */
+export function getPostalCodeTileUrl(granularity: string): string {
+  const origin = typeof window !== "undefined" ? window.location.origin : "";
+  return `${origin}/api/tiles/${granularity}/{z}/{x}/{y}`;
+}
+
+/**
+ * Simplification tolerance in degrees for a zoom level: half a pixel of a
+ * 256px tile, so simplification is never visible.
+ */
+export function getSimplifyTolerance(zoom: number): number {
+  return 360 / (256 * 2 ** zoom) / 2;
+}
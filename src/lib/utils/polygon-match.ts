@@ -0,0 +1,19 @@
+// Request and response of POST /api/areas/[areaId]/polygon-match, which
+// matches imported territory polygons to postal codes
+
+import type { PolygonTerritory } from './polygon-parser';
+
+// Whole territory geometries are uploaded, far beyond what server actions
+// accept by default
+export const MAX_POLYGON_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+export interface PolygonMatchRequest {
+  territories: PolygonTerritory[];
+  // Share of a postal code's area (0-1) that must lie inside a territory
+  minOverlap: number;
+}
+
+export interface PolygonMatchResult {
+  granularity: string;
+  layers: { name: string; postalCodes: string[] }[];
+}
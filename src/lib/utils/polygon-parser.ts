@@ -0,0 +1,118 @@
+import type {
+  Feature,
+  FeatureCollection,
+  GeoJsonProperties,
+  Geometry,
+  MultiPolygon,
+  Polygon,
+} from 'geojson';
+import shp from 'shpjs';
+
+export type TerritoryFeature = Feature<Polygon | MultiPolygon, GeoJsonProperties>;
+
+export interface ParsedPolygonFile {
+  features: TerritoryFeature[];
+  properties: string[];
+  skippedFeatures: number;
+}
+
+export interface PolygonTerritory {
+  name: string;
+  geometries: (Polygon | MultiPolygon)[];
+}
+
+export const POLYGON_FILE_EXTENSIONS = ['.geojson', '.json', '.zip'];
+
+// Property names partners commonly use for the territory name
+const NAME_PROPERTY_CANDIDATES = [
+  'name',
+  'gebiet',
+  'territory',
+  'region',
+  'bezeichnung',
+  'layer',
+  'id',
+];
+
+function isPolygonal(geometry: Geometry | null): geometry is Polygon | MultiPolygon {
+  return geometry?.type === 'Polygon' || geometry?.type === 'MultiPolygon';
+}
+
+/**
+ * Parse a GeoJSON file or a zipped Shapefile into polygon features.
+ * Shapefiles are reprojected to WGS84 using their .prj; non-polygon
+ * features are skipped.
+ */
+export async function parsePolygonFile(file: File): Promise<ParsedPolygonFile> {
+  const fileName = file.name.toLowerCase();
+  let collections: FeatureCollection[];
+
+  if (fileName.endsWith('.zip')) {
+    const result = await shp(await file.arrayBuffer());
+    collections = Array.isArray(result) ? result : [result];
+  } else if (fileName.endsWith('.geojson') || fileName.endsWith('.json')) {
+    const json = JSON.parse(await file.text()) as FeatureCollection | Feature;
+    collections = [
+      json.type === 'FeatureCollection'
+        ? json
+        : { type: 'FeatureCollection', features: [json] },
+    ];
+  } else {
+    throw new Error('Ungültiges Format. Bitte GeoJSON oder Shapefile (.zip) verwenden.');
+  }
+
+  const allFeatures = collections.flatMap(collection => collection.features);
+  const features = allFeatures.filter((feature): feature is TerritoryFeature =>
+    isPolygonal(feature.geometry)
+  );
+
+  const properties = new Set<string>();
+  for (const feature of features) {
+    for (const key of Object.keys(feature.properties ?? {})) {
+      properties.add(key);
+    }
+  }
+
+  return {
+    features,
+    properties: [...properties],
+    skippedFeatures: allFeatures.length - features.length,
+  };
+}
+
+/**
+ * Pick the property most likely to hold the territory name
+ */
+export function detectNameProperty(properties: string[]): string | null {
+  for (const candidate of NAME_PROPERTY_CANDIDATES) {
+    const match = properties.find(p => p.toLowerCase() === candidate);
+    if (match) return match;
+  }
+  return properties[0] ?? null;
+}
+
+/**
+ * Group features into territories by the value of a property. Features
+ * without a value end up in a default territory.
+ */
+export function groupFeaturesByProperty(
+  features: TerritoryFeature[],
+  property: string | null,
+  defaultName = 'Import'
+): PolygonTerritory[] {
+  const territories = new Map<string, PolygonTerritory>();
+
+  for (const feature of features) {
+    const value = property ? feature.properties?.[property] : null;
+    const name =
+      value === null || value === undefined || String(value).trim() === ''
+        ? defaultName
+        : String(value).trim();
+
+    const territory = territories.get(name) ?? { name, geometries: [] };
+    territory.geometries.push(feature.geometry);
+    territories.set(name, territory);
+  }
+
+  return [...territories.values()];
+}
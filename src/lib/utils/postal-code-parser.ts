@@ -1,10 +1,3 @@
-import type {
-  FeatureCollection,
-  GeoJsonProperties,
-  MultiPolygon,
-  Polygon,
-} from "geojson";
-
 export interface ParsedPostalCode {
   original: string;
   normalized: string;
@@ -76,16 +69,12 @@ export function parsePostalCodeInput(input: string): ParsedPostalCode[] {
  */
 export function findPostalCodeMatches(
   parsedCodes: ParsedPostalCode[],
-  availableData: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>,
+  availableCodes: string[],
   targetGranularity: string
 ): PostalCodeMatch[] {
   const matches: PostalCodeMatch[] = [];
 
-  // Get all available postal codes from the data
-  const allCodes = availableData.features
-    .map((f) => f.properties?.code || f.properties?.PLZ || f.properties?.plz)
-    .filter((code): code is string => Boolean(code))
-    .map((code) => normalizePostalCode(code));
+  const allCodes = availableCodes.map((code) => normalizePostalCode(code));
 
   for (const parsed of parsedCodes) {
     if (!parsed.isValid) continue;
@@ -362,83 +351,3 @@ export function buildSearchQuery(input: string): string[] {
 
   return [...new Set(queries)];
 }
-
-/**
- * Finds postal codes by city or state name using available data
- */
-export function findPostalCodesByLocation(
-  locationName: string,
-  availableData: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>
-): string[] {
-  const searchVariants = normalizeCityStateName(locationName);
-  const foundCodes: string[] = [];
-
-  for (const feature of availableData.features) {
-    const properties = feature.properties || {};
-
-    // Check various property fields that might contain location names
-    const propertyValues = [
-      properties.name,
-      properties.city,
-      properties.stadt,
-      properties.state,
-      properties.bundesland,
-      properties.region,
-      properties.ort,
-      properties.gemeinde,
-    ]
-      .filter(Boolean)
-      .map((v) => v.toString().toLowerCase());
-
-    // Check if any of our search variants match any property values
-    const hasMatch = searchVariants.some((variant) =>
-      propertyValues.some(
-        (prop) => prop.includes(variant) || variant.includes(prop)
-      )
-    );
-
-    if (hasMatch) {
-      const code = properties.code || properties.PLZ || properties.plz;
-      if (code) {
-        foundCodes.push(normalizePostalCode(code.toString()));
-      }
-    }
-  }
-
-  return [...new Set(foundCodes)];
-}
-
-/**
- * Enhanced postal code matching that supports city/state searches
- */
-export function findEnhancedPostalCodeMatches(
-  input: string,
-  availableData: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>,
-  targetGranularity: string
-): PostalCodeMatch[] {
-  const matches: PostalCodeMatch[] = [];
-
-  // First, try direct postal code parsing
-  const parsedCodes = parsePostalCodeInput(input);
-  const directMatches = findPostalCodeMatches(
-    parsedCodes,
-    availableData,
-    targetGranularity
-  );
-  matches.push(...directMatches);
-
-  // If no direct matches or input looks like a location name, try location search
-  if (matches.length === 0 || !/^\d/.test(input.trim())) {
-    const locationCodes = findPostalCodesByLocation(input, availableData);
-
-    if (locationCodes.length > 0) {
-      matches.push({
-        code: input.trim(),
-        matched: locationCodes,
-        granularity: targetGranularity,
-      });
-    }
-  }
-
-  return matches;
-}
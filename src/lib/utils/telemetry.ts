@@ -0,0 +1,125 @@
+// Client error and performance reports, stored in error_logs and
+// performance_metrics. Shared by the reporter, the ingestion route and the
+// telemetry page.
+
+export const ERROR_CODES = ["boundary", "server_action", "unhandled"] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export const ERROR_CODE_LABELS: Record<ErrorCode, string> = {
+  boundary: "Error Boundary",
+  server_action: "Server-Aktion",
+  unhandled: "Unbehandelt",
+};
+
+export const METRIC_TYPES = [
+  "first_render",
+  "tile_load",
+  "selection_latency",
+] as const;
+
+export type MetricType = (typeof METRIC_TYPES)[number];
+
+export const METRIC_TYPE_LABELS: Record<MetricType, string> = {
+  first_render: "Erstes Rendern der Karte",
+  tile_load: "Kacheln laden",
+  selection_latency: "PLZ-Auswahl bis Speicherung",
+};
+
+export function getErrorCodeLabel(code: string | null): string {
+  if (code === null) return "Unbekannt";
+  return (ERROR_CODES as readonly string[]).includes(code)
+    ? ERROR_CODE_LABELS[code as ErrorCode]
+    : code;
+}
+
+// Limits for one request to the ingestion route; the batch limit counts
+// errors and metrics together
+export const MAX_REPORTS_PER_BATCH = 50;
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MAX_STACK_LENGTH = 10000;
+export const MAX_URL_LENGTH = 2000;
+// Serialized length of an error context or metric metadata
+export const MAX_DETAILS_LENGTH = 2000;
+
+/**
+ * Error context or metric metadata as stored: details beyond
+ * MAX_DETAILS_LENGTH (or that cannot be serialized) are replaced by a note
+ */
+export function limitDetails(
+  details: Record<string, unknown> | undefined
+): Record<string, unknown> | undefined {
+  if (details === undefined) return undefined;
+
+  try {
+    const length = JSON.stringify(details).length;
+    return length <= MAX_DETAILS_LENGTH ? details : { omitted: length };
+  } catch {
+    return { omitted: "unserializable" };
+  }
+}
+
+export interface ErrorReport {
+  code: ErrorCode;
+  message: string;
+  stack?: string;
+  // Where it happened: boundary name, action name, ids involved
+  context?: Record<string, unknown>;
+  url: string;
+}
+
+export interface MetricReport {
+  component: string;
+  type: MetricType;
+  valueMs: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TelemetryBatch {
+  errors: ErrorReport[];
+  metrics: MetricReport[];
+}
+
+// --- Telemetry page ---
+
+export interface TelemetryErrorDay {
+  day: string; // YYYY-MM-DD
+  counts: Partial<Record<string, number>>; // by error code
+}
+
+export interface TelemetryMetricSummary {
+  component: string;
+  metricType: string;
+  samples: number;
+  p50: number;
+  p95: number;
+}
+
+export interface TelemetryMetricDay {
+  day: string;
+  // p95 in milliseconds by metric type, missing on days without samples
+  p95: Partial<Record<string, number>>;
+}
+
+export interface TelemetryErrorEntry {
+  id: number;
+  errorCode: string | null;
+  message: string;
+  stack: string | null;
+  context: Record<string, unknown> | null;
+  url: string | null;
+  userName: string | null;
+  timestamp: string | null;
+}
+
+export interface TelemetryOverview {
+  errorsByDay: TelemetryErrorDay[];
+  metricsByDay: TelemetryMetricDay[];
+  metricSummaries: TelemetryMetricSummary[];
+  recentErrors: TelemetryErrorEntry[];
+}
+
+export const formatDuration = (ms: number) =>
+  ms >= 1000
+    ? `${(ms / 1000).toLocaleString("de-DE", { maximumFractionDigits: 1 })} s`
+    : `${Math.round(ms).toLocaleString("de-DE")} ms`;
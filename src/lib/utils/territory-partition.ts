@@ -0,0 +1,279 @@
+export interface PartitionUnit {
+  code: string;
+  // Value to balance (1 per code, km², or an imported metric)
+  weight: number;
+  // Point on surface in WGS84
+  lng: number;
+  lat: number;
+}
+
+export interface PartitionOptions {
+  layerCount: number;
+  // Codes that must end up in different layers, e.g. rep home bases
+  seedCodes?: string[];
+  // Upper bound for boundary moves during rebalancing
+  maxMoves?: number;
+}
+
+// Rebalancing stops at whichever limit is hit first; the grown partition is
+// already usable, the moves only even it out
+const DEFAULT_MAX_MOVES = 500;
+const REBALANCE_TIME_BUDGET_MS = 2000;
+
+export interface PartitionResult {
+  groups: string[][];
+  totals: number[];
+  // Codes not reachable from any seed through touching neighbors; they are
+  // attached to the lightest layer and break its contiguity
+  disconnectedCodes: string[];
+}
+
+function distance(a: PartitionUnit, b: PartitionUnit): number {
+  const dx = (a.lng - b.lng) * Math.cos((((a.lat + b.lat) / 2) * Math.PI) / 180);
+  const dy = a.lat - b.lat;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Seeds from the given codes first; the remaining seeds are spread out by
+ * repeatedly picking the unit farthest away from all seeds so far
+ */
+function pickSeeds(
+  units: PartitionUnit[],
+  layerCount: number,
+  seedCodes: string[]
+): number[] {
+  const indexByCode = new Map(units.map((unit, index) => [unit.code, index]));
+  const seeds = [
+    ...new Set(
+      seedCodes
+        .map((code) => indexByCode.get(code))
+        .filter((index): index is number => index !== undefined)
+    ),
+  ].slice(0, layerCount);
+
+  if (seeds.length === 0) {
+    // Start with the unit farthest from the centroid
+    const lng = units.reduce((sum, u) => sum + u.lng, 0) / units.length;
+    const lat = units.reduce((sum, u) => sum + u.lat, 0) / units.length;
+    const centroid = { code: "", weight: 0, lng, lat };
+    let farthest = 0;
+    units.forEach((unit, index) => {
+      if (distance(unit, centroid) > distance(units[farthest], centroid)) {
+        farthest = index;
+      }
+    });
+    seeds.push(farthest);
+  }
+
+  const nearestSeed = units.map((unit) =>
+    Math.min(...seeds.map((seed) => distance(unit, units[seed])))
+  );
+
+  while (seeds.length < layerCount) {
+    let next = -1;
+    nearestSeed.forEach((value, index) => {
+      if (!seeds.includes(index) && (next === -1 || value > nearestSeed[next])) {
+        next = index;
+      }
+    });
+    seeds.push(next);
+    units.forEach((unit, index) => {
+      nearestSeed[index] = Math.min(nearestSeed[index], distance(unit, units[next]));
+    });
+  }
+
+  return seeds;
+}
+
+/**
+ * Whether the `size` units of a layer stay connected when `removed` leaves it
+ */
+function staysConnected(
+  removed: number,
+  layer: number,
+  size: number,
+  assignment: number[],
+  neighbors: number[][]
+): boolean {
+  const sameLayer = neighbors[removed].filter((n) => assignment[n] === layer);
+  // A unit with a single neighbor in its layer is a leaf of it
+  if (sameLayer.length <= 1) return true;
+
+  const start = sameLayer[0];
+  const visited = new Set([removed, start]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const current = queue.pop() as number;
+    for (const next of neighbors[current]) {
+      if (assignment[next] === layer && !visited.has(next)) {
+        visited.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return visited.size === size;
+}
+
+/**
+ * Split units into `layerCount` contiguous groups of roughly equal weight.
+ *
+ * Layers grow from spread-out seeds over touching neighbors, the lightest
+ * layer claiming its closest neighbor first. Boundary units are then moved
+ * from heavier to lighter neighboring layers as long as that improves the
+ * balance and keeps the giving layer connected.
+ */
+export function partitionTerritories(
+  units: PartitionUnit[],
+  adjacency: Array<[string, string]>,
+  options: PartitionOptions
+): PartitionResult {
+  const layerCount = Math.min(options.layerCount, units.length);
+  if (layerCount <= 0) {
+    return { groups: [], totals: [], disconnectedCodes: [] };
+  }
+
+  const indexByCode = new Map(units.map((unit, index) => [unit.code, index]));
+  const neighbors: number[][] = units.map(() => []);
+  for (const [from, to] of adjacency) {
+    const a = indexByCode.get(from);
+    const b = indexByCode.get(to);
+    if (a !== undefined && b !== undefined && a !== b) {
+      neighbors[a].push(b);
+      neighbors[b].push(a);
+    }
+  }
+
+  const seeds = pickSeeds(units, layerCount, options.seedCodes ?? []);
+  const assignment = units.map(() => -1);
+  const totals = seeds.map(() => 0);
+  const frontiers = seeds.map(() => new Set<number>());
+
+  const assign = (unit: number, layer: number) => {
+    assignment[unit] = layer;
+    totals[layer] += units[unit].weight;
+    frontiers.forEach((frontier) => frontier.delete(unit));
+    for (const next of neighbors[unit]) {
+      if (assignment[next] === -1) frontiers[layer].add(next);
+    }
+  };
+
+  seeds.forEach((seed, layer) => assign(seed, layer));
+
+  // Region growing
+  for (;;) {
+    let layer = -1;
+    frontiers.forEach((frontier, index) => {
+      if (frontier.size > 0 && (layer === -1 || totals[index] < totals[layer])) {
+        layer = index;
+      }
+    });
+    if (layer === -1) break;
+
+    const seed = units[seeds[layer]];
+    let closest = -1;
+    for (const candidate of frontiers[layer]) {
+      if (
+        closest === -1 ||
+        distance(units[candidate], seed) < distance(units[closest], seed)
+      ) {
+        closest = candidate;
+      }
+    }
+    assign(closest, layer);
+  }
+
+  // Islands without a seed go to the lightest layer
+  const disconnectedCodes: string[] = [];
+  units.forEach((unit, index) => {
+    if (assignment[index] !== -1) return;
+    const layer = totals.indexOf(Math.min(...totals));
+    const queue = [index];
+    assignment[index] = layer;
+    while (queue.length > 0) {
+      const current = queue.pop() as number;
+      totals[layer] += units[current].weight;
+      disconnectedCodes.push(units[current].code);
+      for (const next of neighbors[current]) {
+        if (assignment[next] === -1) {
+          assignment[next] = layer;
+          queue.push(next);
+        }
+      }
+    }
+  });
+
+  // Rebalancing by boundary moves. Only units touching another layer can
+  // move, so the boundary is tracked and updated after each move.
+  const seedSet = new Set(seeds);
+  const maxMoves = options.maxMoves ?? DEFAULT_MAX_MOVES;
+  const deadline = Date.now() + REBALANCE_TIME_BUDGET_MS;
+
+  const sizes = totals.map(() => 0);
+  assignment.forEach((layer) => sizes[layer]++);
+
+  const boundaries = totals.map(() => new Set<number>());
+  const updateBoundary = (unit: number) => {
+    const layer = assignment[unit];
+    const onBoundary = neighbors[unit].some((n) => assignment[n] !== layer);
+    boundaries.forEach((boundary) => boundary.delete(unit));
+    if (onBoundary && !seedSet.has(unit)) boundaries[layer].add(unit);
+  };
+  units.forEach((_, unit) => updateBoundary(unit));
+
+  for (let move = 0; move < maxMoves && Date.now() < deadline; move++) {
+    const byTotal = totals
+      .map((total, layer) => ({ total, layer }))
+      .sort((a, b) => b.total - a.total);
+
+    let moved = false;
+
+    for (const { layer: from } of byTotal) {
+      const candidates: Array<{ unit: number; to: number; gain: number }> = [];
+
+      for (const unit of boundaries[from]) {
+        const weight = units[unit].weight;
+        const targets = new Set(
+          neighbors[unit].map((n) => assignment[n]).filter((l) => l !== from)
+        );
+        for (const to of targets) {
+          const difference = totals[from] - totals[to];
+          const gain = difference - Math.abs(difference - 2 * weight);
+          if (gain > 0) candidates.push({ unit, to, gain });
+        }
+      }
+
+      candidates.sort((a, b) => b.gain - a.gain);
+
+      const next = candidates.find(({ unit }) =>
+        staysConnected(unit, from, sizes[from], assignment, neighbors)
+      );
+
+      if (next) {
+        const weight = units[next.unit].weight;
+        assignment[next.unit] = next.to;
+        totals[from] -= weight;
+        totals[next.to] += weight;
+        sizes[from]--;
+        sizes[next.to]++;
+        updateBoundary(next.unit);
+        neighbors[next.unit].forEach(updateBoundary);
+        moved = true;
+        break;
+      }
+    }
+
+    if (!moved) break;
+  }
+
+  const groups: string[][] = seeds.map(() => []);
+  assignment.forEach((layer, unit) => groups[layer].push(units[unit].code));
+
+  return {
+    groups: groups.map((codes) => codes.sort()),
+    totals,
+    disconnectedCodes,
+  };
+}
@@ -0,0 +1,80 @@
+import type { VersionSnapshot } from "../types/area-types";
+
+export type PostalCodeDiffStatus = "gained" | "lost" | "moved" | "unchanged";
+
+export interface PostalCodeDiffEntry {
+  status: PostalCodeDiffStatus;
+  from: string[];
+  to: string[];
+}
+
+export interface SnapshotDiff {
+  entries: Map<string, PostalCodeDiffEntry>;
+  gained: string[];
+  lost: string[];
+  moved: string[];
+  unchanged: string[];
+}
+
+/**
+ * Map each postal code of a snapshot to the (sorted) names of the layers
+ * containing it
+ */
+export function getLayersByCode(
+  snapshot: VersionSnapshot
+): Map<string, string[]> {
+  const result = new Map<string, string[]>();
+  for (const layer of snapshot.layers) {
+    for (const code of layer.postalCodes) {
+      const names = result.get(code) ?? [];
+      names.push(layer.name);
+      result.set(code, names);
+    }
+  }
+  for (const names of result.values()) {
+    names.sort();
+  }
+  return result;
+}
+
+/**
+ * Classify every postal code assigned in either snapshot: gained (only
+ * assigned in `to`), lost (only assigned in `from`), moved (assigned in both
+ * but to different layers) or unchanged. Layers are matched by name.
+ */
+export function diffSnapshots(
+  from: VersionSnapshot,
+  to: VersionSnapshot
+): SnapshotDiff {
+  const fromCodes = getLayersByCode(from);
+  const toCodes = getLayersByCode(to);
+
+  const diff: SnapshotDiff = {
+    entries: new Map(),
+    gained: [],
+    lost: [],
+    moved: [],
+    unchanged: [],
+  };
+
+  const allCodes = [...new Set([...fromCodes.keys(), ...toCodes.keys()])];
+
+  for (const code of allCodes.sort()) {
+    const fromNames = fromCodes.get(code) ?? [];
+    const toNames = toCodes.get(code) ?? [];
+
+    const status: PostalCodeDiffStatus =
+      fromNames.length === 0
+        ? "gained"
+        : toNames.length === 0
+          ? "lost"
+          : fromNames.join("\u0000") !== toNames.join("\u0000")
+            ? "moved"
+            : "unchanged";
+
+    diff.entries.set(code, { status, from: fromNames, to: toNames });
+    diff[status].push(code);
+  }
+
+  return diff;
+}
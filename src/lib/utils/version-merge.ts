@@ -0,0 +1,264 @@
+import type { VersionSnapshot } from "../types/area-types";
+import { getLayersByCode } from "./version-diff";
+
+type SnapshotLayer = VersionSnapshot["layers"][number];
+
+export type MergeResolution = "local" | "remote" | "merge";
+
+export interface MergeConflict {
+  field: string;
+  localValue: unknown;
+  remoteValue: unknown;
+  type: "layer" | "postal_code" | "area";
+}
+
+export interface SnapshotMergeResult {
+  snapshot: VersionSnapshot;
+  conflicts: MergeConflict[];
+  autoAppliedPostalCodes: number;
+}
+
+const UNASSIGNED = "nicht zugeordnet";
+const DELETED = "gelöscht";
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Pick the value of one field from a three-way comparison. Returns
+ * `conflict: true` when both sides changed it differently.
+ */
+function pick<T>(base: T, local: T, remote: T): { value: T; conflict: boolean } {
+  if (same(local, base)) return { value: remote, conflict: false };
+  if (same(remote, base) || same(remote, local)) {
+    return { value: local, conflict: false };
+  }
+  return { value: local, conflict: true };
+}
+
+function layerProps(layer: SnapshotLayer | undefined) {
+  if (!layer) return null;
+  const { color, opacity, isVisible, orderIndex } = layer;
+  return { color, opacity, isVisible, orderIndex };
+}
+
+function layerContent(layer: SnapshotLayer) {
+  return {
+    ...layerProps(layer),
+    postalCodes: [...layer.postalCodes].sort(),
+  };
+}
+
+function withKeptLayers(
+  names: string[],
+  baseNames: string[],
+  kept: Set<string>,
+): string[] {
+  if (kept.size === 0) return names;
+  return [
+    ...new Set([...names, ...baseNames.filter((name) => kept.has(name))]),
+  ].sort();
+}
+
+/**
+ * Three-way merge of two version snapshots against their common ancestor.
+ *
+ * Layers are matched by name. Changes made on only one side are applied
+ * automatically; a postal code moved to different layers on both sides, a
+ * layer restyled differently on both sides or deleted on one side while
+ * edited on the other is reported as a conflict. Conflicts are resolved
+ * from `resolutions` (keyed by `field`) and otherwise keep the local side.
+ */
+export function mergeSnapshots(
+  base: VersionSnapshot,
+  local: VersionSnapshot,
+  remote: VersionSnapshot,
+  resolutions: Record<string, MergeResolution> = {},
+): SnapshotMergeResult {
+  const conflicts: MergeConflict[] = [];
+
+  const resolve = <T>(
+    field: string,
+    type: MergeConflict["type"],
+    values: { base: T; local: T; remote: T },
+    display: { local: unknown; remote: unknown } = values,
+  ): T | "merge" => {
+    const { value, conflict } = pick(values.base, values.local, values.remote);
+    if (!conflict) return value;
+
+    conflicts.push({
+      field,
+      type,
+      localValue: display.local,
+      remoteValue: display.remote,
+    });
+
+    const resolution = resolutions[field];
+    if (resolution === "merge") return "merge";
+    return resolution === "remote" ? values.remote : values.local;
+  };
+
+  const fromMerge = <T>(value: T | "merge", fallback: T): T =>
+    value === "merge" ? fallback : value;
+
+  // Area properties
+
+  const areaName = fromMerge(
+    resolve("Name", "area", {
+      base: base.areaName,
+      local: local.areaName,
+      remote: remote.areaName,
+    }),
+    local.areaName,
+  );
+
+  const description = fromMerge(
+    resolve("Beschreibung", "area", {
+      base: base.description,
+      local: local.description,
+      remote: remote.description,
+    }),
+    local.description,
+  );
+
+  const granularity = fromMerge(
+    resolve("Granularität", "area", {
+      base: base.granularity,
+      local: local.granularity,
+      remote: remote.granularity,
+    }),
+    local.granularity,
+  );
+
+  // Layers
+
+  const baseLayers = new Map(base.layers.map((l) => [l.name, l]));
+  const localLayers = new Map(local.layers.map((l) => [l.name, l]));
+  const remoteLayers = new Map(remote.layers.map((l) => [l.name, l]));
+
+  const layerNames = new Set([
+    ...baseLayers.keys(),
+    ...localLayers.keys(),
+    ...remoteLayers.keys(),
+  ]);
+
+  const mergedLayers: SnapshotLayer[] = [];
+
+  // Layers kept although one side deleted them; that side's removal of
+  // their postal codes is ignored
+  const keptOnLocal = new Set<string>();
+  const keptOnRemote = new Set<string>();
+
+  for (const name of layerNames) {
+    const baseLayer = baseLayers.get(name);
+    const localLayer = localLayers.get(name);
+    const remoteLayer = remoteLayers.get(name);
+
+    if (!localLayer && !remoteLayer) continue;
+
+    // A layer removed on one side is dropped, unless the other side edited
+    // it since the common ancestor
+    if (baseLayer && (!localLayer || !remoteLayer)) {
+      const kept = (localLayer ?? remoteLayer) as SnapshotLayer;
+      if (same(layerContent(kept), layerContent(baseLayer))) continue;
+
+      const summary = (layer: SnapshotLayer | undefined) =>
+        layer
+          ? { ...layerProps(layer), postalCodes: layer.postalCodes.length }
+          : DELETED;
+
+      conflicts.push({
+        field: `Layer ${name}`,
+        type: "layer",
+        localValue: summary(localLayer),
+        remoteValue: summary(remoteLayer),
+      });
+
+      const resolution = resolutions[`Layer ${name}`] ?? "local";
+      if (resolution === "local" && !localLayer) continue;
+      if (resolution === "remote" && !remoteLayer) continue;
+
+      (localLayer ? keptOnRemote : keptOnLocal).add(name);
+    }
+
+    const props =
+      localLayer && remoteLayer
+        ? fromMerge(
+            resolve(`Layer ${name}: Darstellung`, "layer", {
+              base: layerProps(baseLayer),
+              local: layerProps(localLayer),
+              remote: layerProps(remoteLayer),
+            }),
+            layerProps(localLayer),
+          )
+        : layerProps(localLayer ?? remoteLayer);
+
+    const source = (localLayer ?? remoteLayer) as SnapshotLayer;
+
+    mergedLayers.push({ ...source, ...props, postalCodes: [] });
+  }
+
+  // Postal codes
+
+  const baseCodes = getLayersByCode(base);
+  const localCodes = getLayersByCode(local);
+  const remoteCodes = getLayersByCode(remote);
+
+  const allCodes = new Set([
+    ...baseCodes.keys(),
+    ...localCodes.keys(),
+    ...remoteCodes.keys(),
+  ]);
+
+  const mergedLayerMap = new Map(mergedLayers.map((l) => [l.name, l]));
+  let autoAppliedPostalCodes = 0;
+
+  for (const code of [...allCodes].sort()) {
+    const baseNames = baseCodes.get(code) ?? [];
+    const localNames = withKeptLayers(
+      localCodes.get(code) ?? [],
+      baseNames,
+      keptOnLocal,
+    );
+    const remoteNames = withKeptLayers(
+      remoteCodes.get(code) ?? [],
+      baseNames,
+      keptOnRemote,
+    );
+    const conflictCount = conflicts.length;
+
+    const resolved = resolve(
+      `PLZ ${code}`,
+      "postal_code",
+      { base: baseNames, local: localNames, remote: remoteNames },
+      {
+        local: localNames.length > 0 ? localNames : UNASSIGNED,
+        remote: remoteNames.length > 0 ? remoteNames : UNASSIGNED,
+      },
+    );
+
+    const names =
+      resolved === "merge"
+        ? [...new Set([...localNames, ...remoteNames])].sort()
+        : resolved;
+
+    if (conflicts.length === conflictCount && !same(names, baseNames)) {
+      autoAppliedPostalCodes++;
+    }
+
+    for (const name of names) {
+      mergedLayerMap.get(name)?.postalCodes.push(code);
+    }
+  }
+
+  mergedLayers.sort(
+    (a, b) => a.orderIndex - b.orderIndex || a.name.localeCompare(b.name),
+  );
+
+  return {
+    snapshot: { areaName, description, granularity, layers: mergedLayers },
+    conflicts,
+    autoAppliedPostalCodes,
+  };
+}
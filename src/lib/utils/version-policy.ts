@@ -0,0 +1,114 @@
+// Per-area auto-versioning: when the background job saves uncommitted
+// changes as a version, and which old auto-saves it removes again.
+// Shared by server and client.
+
+export const RETENTION_MODES = ["squash", "prune"] as const;
+
+export type RetentionMode = (typeof RETENTION_MODES)[number];
+
+export const RETENTION_MODE_LABELS: Record<RetentionMode, string> = {
+  squash: "Zusammenfassen",
+  prune: "Löschen",
+};
+
+export function isRetentionMode(value: string): value is RetentionMode {
+  return (RETENTION_MODES as readonly string[]).includes(value);
+}
+
+export interface VersionPolicySettings {
+  enabled: boolean;
+  // Triggers; null disables the trigger
+  afterChanges: number | null;
+  inactivityMinutes: number | null;
+  dailyAt: string | null; // "HH:MM", server time
+  // Retention; with both null no auto-save is ever removed
+  keepAutoSaves: number | null;
+  keepDays: number | null;
+  retentionMode: RetentionMode;
+}
+
+export const DEFAULT_VERSION_POLICY: VersionPolicySettings = {
+  enabled: true,
+  afterChanges: 50,
+  inactivityMinutes: 30,
+  dailyAt: null,
+  keepAutoSaves: 20,
+  keepDays: 30,
+  retentionMode: "squash",
+};
+
+const DAILY_AT_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Returns an error message for invalid settings, null if they are valid
+ */
+export function validateVersionPolicy(
+  settings: VersionPolicySettings
+): string | null {
+  const counts = [
+    settings.afterChanges,
+    settings.inactivityMinutes,
+    settings.keepDays,
+  ];
+  if (
+    counts.some(
+      (value) => value !== null && (!Number.isInteger(value) || value < 1)
+    )
+  ) {
+    return "Trigger and retention values must be positive integers";
+  }
+
+  if (
+    settings.keepAutoSaves !== null &&
+    (!Number.isInteger(settings.keepAutoSaves) || settings.keepAutoSaves < 0)
+  ) {
+    return "Invalid number of auto-saves to keep";
+  }
+
+  if (settings.dailyAt !== null && !DAILY_AT_PATTERN.test(settings.dailyAt)) {
+    return "Invalid daily time";
+  }
+
+  if (!isRetentionMode(settings.retentionMode)) {
+    return "Invalid retention mode";
+  }
+
+  return null;
+}
+
+/**
+ * Why an area is due for an auto-save, or null if it is not. `idleMinutes`
+ * is the age of the newest uncommitted change, `dailyDue` whether today's
+ * scheduled save has not happened yet.
+ */
+export function getAutoSaveReason(
+  settings: Pick<
+    VersionPolicySettings,
+    "afterChanges" | "inactivityMinutes" | "dailyAt"
+  >,
+  state: { pendingChanges: number; idleMinutes: number; dailyDue: boolean }
+): string | null {
+  if (state.pendingChanges === 0) {
+    return null;
+  }
+
+  if (
+    settings.afterChanges !== null &&
+    state.pendingChanges >= settings.afterChanges
+  ) {
+    return `after ${settings.afterChanges} changes`;
+  }
+
+  if (
+    settings.inactivityMinutes !== null &&
+    state.idleMinutes >= settings.inactivityMinutes
+  ) {
+    return `after ${settings.inactivityMinutes} min of inactivity`;
+  }
+
+  if (settings.dailyAt !== null && state.dailyDue) {
+    return `daily at ${settings.dailyAt}`;
+  }
+
+  return null;
+}
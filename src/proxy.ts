@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { LOGIN_PATH, SESSION_COOKIE_NAME } from "@/lib/auth/constants";
+
+/**
+ * Optimistic auth check for the map routes: only looks for the session cookie.
+ * The session itself is validated against the database by getCurrentUser/requireUser.
+ */
+export function proxy(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE_NAME)) {
+    return NextResponse.next();
+  }
+
+  if (request.nextUrl.pathname.startsWith("/api/")) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const loginUrl = new URL(LOGIN_PATH, request.url);
+  loginUrl.searchParams.set(
+    "from",
+    `${request.nextUrl.pathname}${request.nextUrl.search}`
+  );
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // The (map) route group plus the data it loads on the client
+  matcher: [
+    "/",
+    "/postal-codes/:path*",
+    "/audit",
+    "/admin/:path*",
+    "/api/tiles/:path*",
+    "/api/areas/:path*",
+    "/api/audit/:path*",
+    "/api/telemetry",
+  ],
+};
@@ -11,13 +11,15 @@ import type {
   areaLayers,
 } from "@/lib/schema/schema";
 import type { InferSelectModel } from "drizzle-orm";
+import type { PostalCodeMetrics } from "@/lib/utils/layer-metrics";
+import type { LayerPeople, Person } from "@/lib/utils/layer-people";
+import type { DataPoints } from "@/lib/utils/data-points";
 
 type Layer = InferSelectModel<typeof areaLayers> & {
   postalCodes?: { postalCode: string }[];
 };
 
 export interface BaseMapProps {
-  data: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>;
   layerId: string;
   onSearch?: (query: string) => void;
   center?: [number, number];
@@ -38,9 +40,15 @@ export interface BaseMapProps {
     codes: string[]
   ) => Promise<void>;
   isViewingVersion: boolean;
+  canEdit?: boolean; // False for viewers; hides every editing control
+  isAdmin?: boolean; // Manages data shared by every area: people, PLZ metrics
   versionId: number | null;
   versions: SelectAreaVersions[];
   changes: SelectAreaChanges[];
+  postalCodeMetrics?: PostalCodeMetrics; // Per-code values for layer balancing
+  people?: Person[]; // People directory
+  layerPeople?: LayerPeople[]; // People assigned to the layers
+  dataPoints?: DataPoints; // Imported customer/branch locations
   initialUndoRedoStatus: {
     canUndo: boolean;
     canRedo: boolean;
@@ -74,5 +82,4 @@ export interface MapToolsProps {
   onToggleVisibility: () => void;
   granularity?: string;
   onGranularityChange?: (granularity: string) => void;
-  postalCodesData: FeatureCollection<Polygon | MultiPolygon, GeoJsonProperties>;
 }